@@ -28,6 +28,9 @@ import EditPage from "./pages/EditPage";
 import ThreeDPage from "./pages/ThreeDPage";
 import AssetsPage from "./pages/AssetsPage";
 import WorkflowPage from "./pages/WorkflowPage";
+import BatchPage from "./pages/BatchPage";
+import ComparePage from "./pages/ComparePage";
+import PromptLibraryPage from "./pages/PromptLibraryPage";
 import ExamplesPage from "./pages/ExamplesPage";
 
 const queryClient = new QueryClient();
@@ -113,6 +116,30 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/batch"
+              element={
+                <ProtectedRoute>
+                  <BatchPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/compare"
+              element={
+                <ProtectedRoute>
+                  <ComparePage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/prompts"
+              element={
+                <ProtectedRoute>
+                  <PromptLibraryPage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/game-design-pro"
               element={
@@ -4,18 +4,30 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogClose, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Send, Sparkles, Plus, Upload, X, Box, User, Lightbulb, Zap } from "lucide-react";
+import { Send, Sparkles, Plus, Upload, X, Box, User, Lightbulb, Zap, Square, FolderOpen, Library } from "lucide-react";
 import toolsIcon from "@/assets/tools-icon.png";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { LocalStorageKeys } from "@/enums/localstorage";
 import { Message, ChatInterfaceProps, ToolCall } from "./chat/types";
 import { filterMessages, validateToolArgs } from "./chat/utils";
 import ImageFeedback from "./ImageFeedback";
-import { apiFetch } from "@/lib/api";
+import { getActiveProjectId, submitGenerationFeedback } from "@/lib/backend";
+import { useModelUpload } from "@/hooks/use-model-upload";
+import { isUploadCancelled } from "@/utils/modelUploader";
+import { ModelUploadStatus } from "./ModelUploadStatus";
+import { ModelReportDialog } from "./models/ModelReportDialog";
+import type { AssetRecord, GenerationFeedbackPayload, PromptRecord } from "@/types/backend.types";
 import { UserMessage } from "./chat/UserMessage";
 import { AssistantMessage } from "./chat/AssistantMessage";
 import { ToolConfirmationUI } from "./chat/ToolConfirmationUI";
 import { useFileUpload } from "./chat/useFileUpload";
+import { UploadProgress } from "./chat/UploadProgress";
+import { IMAGE_UPLOAD_ACCEPT } from "./chat/imagePreprocess";
+import { ReferenceBoard } from "./references/ReferenceBoard";
+import { AssetPickerDialog } from "./assets/AssetPickerDialog";
+import { PromptPalette } from "./prompts/PromptPalette";
+import { SeedControl } from "./SeedControl";
 
 const WELCOME_MESSAGES = [
   "What shall we create today?",
@@ -34,6 +46,7 @@ const ChatInterface = ({
   onSendMessage,
   onToolConfirmation,
   isGenerating,
+  onStopGenerating,
   apiUrl,
   onModelSelect,
   onImageGenerated,
@@ -43,6 +56,9 @@ const ChatInterface = ({
   sessionId,
   accessToken,
   isReadOnlySession,
+  seed,
+  onSeedChange,
+  onRegenerateImage,
 }: ChatInterfaceProps) => {
   const [inputValue, setInputValue] = useState("");
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
@@ -64,6 +80,8 @@ const ChatInterface = ({
   const lastAutoConfirmedKeyRef = useRef<string | null>(null);
   const dragCounterRef = useRef(0);
   const [isDragging, setIsDragging] = useState(false);
+  const [isAssetPickerOpen, setIsAssetPickerOpen] = useState(false);
+  const [isPromptPaletteOpen, setIsPromptPaletteOpen] = useState(false);
 
   const { toast } = useToast();
 
@@ -83,15 +101,23 @@ const ChatInterface = ({
     onToolConfirmationRef.current = onToolConfirmation;
   }, [onToolConfirmation]);
 
+  const { upload: uploadModel, cancel: cancelModelUpload, progress: modelUploadProgress } = useModelUpload();
+  const [pendingModelFile, setPendingModelFile] = useState<File | null>(null);
+
   // File upload hook
   const {
     isUploading,
+    isPreparing,
+    preparedImages,
     uploadedImageUrls,
     uploadedImagePreviews,
     handleFileSelect: handleFileSelectFromHook,
     removeUploadedUrl,
     clearUploads,
     addImageUrl,
+    referenceSettings,
+    updateReference,
+    imageReferences,
   } = useFileUpload({
     apiUrl,
     userEmail,
@@ -189,11 +215,19 @@ const ChatInterface = ({
     }
   }, [filteredMessages.length, filteredMessages, scrollToBottom]);
 
+  // Keep the bottom of a streaming answer in view as tokens arrive
+  const lastFilteredMessage = filteredMessages[filteredMessages.length - 1];
+  const isStreamingReply = Boolean(lastFilteredMessage?.isStreaming);
+  useEffect(() => {
+    if (!isStreamingReply || !scrollContainerRef.current) return;
+    scrollContainerRef.current.scrollTop = scrollContainerRef.current.scrollHeight;
+  }, [isStreamingReply, lastFilteredMessage?.text]);
+
   // Detect when an image or model is generated in the latest assistant message
   useEffect(() => {
     if (filteredMessages.length === 0) return;
     const lastMessage = filteredMessages[filteredMessages.length - 1];
-    if (lastMessage.role !== "assistant") return;
+    if (lastMessage.role !== "assistant" || lastMessage.isStreaming) return;
 
     const key = `${lastMessage.text}|${lastMessage.toolName || ""}`;
     if (lastProcessedImageKeyRef.current === key) return;
@@ -301,15 +335,18 @@ const ChatInterface = ({
   const handleSend = useCallback(async () => {
     if (!inputValue.trim() || isGenerating) return;
 
-    let messageText = inputValue.trim();
-    if (uploadedImageUrls.length > 0) {
-      uploadedImageUrls.forEach((url, index) => {
-        const marker = `[IMAGE_INPUT_${index + 1}]\nURL: ${url}\n[/IMAGE_INPUT_${index + 1}]`;
-        messageText += `\n${marker}`;
-      });
-    }
-
-    onSendMessage(messageText, uploadedImageUrls, [], undefined, sessionId, responseMode, humanInLoop);
+    // Images go to the agent as structured references (role + weight) instead of text markers
+    const messageText = inputValue.trim();
+    onSendMessage(
+      messageText,
+      uploadedImageUrls,
+      [],
+      undefined,
+      sessionId,
+      responseMode,
+      humanInLoop,
+      imageReferences.length > 0 ? imageReferences : undefined
+    );
     clearUploads();
     setInputValue("");
 
@@ -318,7 +355,7 @@ const ChatInterface = ({
         textareaRef.current.style.height = 'auto';
       }
     }, 0);
-  }, [inputValue, isGenerating, uploadedImageUrls, onSendMessage, sessionId, clearUploads, responseMode, humanInLoop]);
+  }, [inputValue, isGenerating, uploadedImageUrls, imageReferences, onSendMessage, sessionId, clearUploads, responseMode, humanInLoop]);
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -446,9 +483,7 @@ const ChatInterface = ({
   // Model optimization handler
   const handleModelOptimization = useCallback(async (file: File) => {
     try {
-      const authToken = (window as { authToken?: string }).authToken;
-
-      if (!authToken) {
+      if (!localStorage.getItem(LocalStorageKeys.AccessToken)) {
         toast({
           title: "Authentication required",
           description: "Please authenticate first to upload models.",
@@ -457,68 +492,15 @@ const ChatInterface = ({
         return;
       }
 
-      toast({
-        title: "Preparing upload...",
-        description: "Getting upload credentials",
-      });
-
-      const projectId = new URLSearchParams(window.location.search).get("projectId");
-      const signedUrlResponse = await fetch(`${apiUrl}/api/model-optimization/get-signed-url`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${authToken}`,
-          ...(projectId ? { "x-project-id": projectId } : {}),
-        },
-        body: JSON.stringify({
-          model_name: file.name,
-          filename: file.name,
-        }),
-      });
-
-      if (!signedUrlResponse.ok) {
-        throw new Error(`Request failed with status ${signedUrlResponse.status}`);
-      }
-
-      const { s3_upload_url, asset_id } = await signedUrlResponse.json();
-
-      toast({
-        title: "Uploading...",
-        description: "Uploading your model to storage",
-      });
-
-      const uploadResponse = await fetch(s3_upload_url, {
-        method: "PUT",
-        headers: { "Content-Type": "application/octet-stream" },
-        body: file,
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error("Failed to upload model to S3");
-      }
-
-      toast({
-        title: "Registering...",
-        description: "Registering your model for optimization",
-      });
-
-      const completeResponse = await fetch(`${apiUrl}/api/model-optimization/complete-upload/${asset_id}`, {
-        method: "GET",
-        headers: {
-          "Authorization": `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!completeResponse.ok) {
-        throw new Error("Model registration failed");
-      }
+      // Progress is shown above the input while the file uploads
+      await uploadModel(file, file.name);
 
       toast({
         title: "Success!",
         description: "Your model has been uploaded and registered for optimization.",
       });
     } catch (error) {
+      if (isUploadCancelled(error)) return;
       console.error("Model optimization error:", error);
       toast({
         title: "Upload failed",
@@ -526,12 +508,22 @@ const ChatInterface = ({
         variant: "destructive",
       });
     }
-  }, [apiUrl, toast]);
+  }, [toast, uploadModel]);
 
   const triggerFileUpload = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  const handleAssetsPicked = useCallback((assets: AssetRecord[]) => {
+    assets.forEach((asset) => asset.fileUrl && addImageUrl(asset.fileUrl));
+    setIsAssetPickerOpen(false);
+  }, [addImageUrl]);
+
+  const handlePromptPicked = useCallback((prompt: PromptRecord) => {
+    setInputValue(prompt.prompt);
+    textareaRef.current?.focus();
+  }, []);
+
   const triggerModelUpload = useCallback(() => {
     onOptimizationFormSubmit?.("show-optimization-form", {});
   }, [onOptimizationFormSubmit]);
@@ -601,7 +593,7 @@ const ChatInterface = ({
         message.model_url ||
         undefined;
 
-      const body: any = {
+      const body: GenerationFeedbackPayload = {
         type,
         generationKind,
         jobId,
@@ -613,7 +605,7 @@ const ChatInterface = ({
       };
 
       try {
-        await apiFetch("/api/generation-feedback", { method: "POST", body });
+        await submitGenerationFeedback(body);
       } catch (err: any) {
         console.error("Failed to submit feedback:", err);
         toast({
@@ -671,6 +663,7 @@ const ChatInterface = ({
                   onImageZoom={handleImageZoom}
                   onModelSelect={onModelSelect}
                   onOptimizationFormSubmit={onOptimizationFormSubmit}
+                  onRegenerateImage={isReadOnlySession ? undefined : onRegenerateImage}
                 />
 
                 {/* Feedback for generation results (image gen/edit + model gen) */}
@@ -705,7 +698,7 @@ const ChatInterface = ({
           </div>
         ))}
 
-        {isGenerating && (
+        {isGenerating && !isStreamingReply && (
           <div className="flex justify-start">
             <div className="flex items-center gap-2.5 bg-card border border-border/60 px-4 py-2.5 rounded-2xl rounded-tl-sm">
               <div className="w-5 h-5 rounded-full bg-primary/10 border border-primary/20 flex items-center justify-center flex-shrink-0">
@@ -732,7 +725,7 @@ const ChatInterface = ({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/png,image/jpeg,image/jpg"
+          accept={IMAGE_UPLOAD_ACCEPT}
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -745,39 +738,39 @@ const ChatInterface = ({
           onChange={(e) => {
             const file = e.target.files?.[0];
             if (file) {
-              handleModelOptimization(file);
+              // Uploaded once its inspection report is confirmed
+              setPendingModelFile(file);
             }
             e.target.value = '';
           }}
           className="hidden"
         />
 
+        {modelUploadProgress && (
+          <ModelUploadStatus progress={modelUploadProgress} onCancel={cancelModelUpload} className="mb-3" />
+        )}
+
+        <ModelReportDialog
+          file={pendingModelFile}
+          onConfirm={(file) => {
+            setPendingModelFile(null);
+            handleModelOptimization(file);
+          }}
+          onCancel={() => setPendingModelFile(null)}
+        />
+
         {isUploading && (
-          <div className="flex items-center gap-2 p-2 bg-muted/30 rounded-lg border border-border mb-3">
-            <div className="animate-spin rounded-full h-3 w-3 border-2 border-primary border-t-transparent"></div>
-            <span className="text-xs text-muted-foreground">Uploading...</span>
-          </div>
+          <UploadProgress isPreparing={isPreparing} preparedImages={preparedImages} className="mb-3" />
         )}
 
-        {uploadedImagePreviews.length > 0 && !isUploading && (
-          <div className="flex flex-wrap gap-2 mb-3">
-            {uploadedImagePreviews.map((preview, index) => (
-              <div key={index} className="relative group">
-                <img
-                  src={preview}
-                  alt={`Upload ${index + 1}`}
-                  className="w-12 h-12 object-cover rounded-lg border border-border/50"
-                />
-                <button
-                  onClick={() => removeUploadedUrl(index)}
-                  className="absolute -top-1 -right-1 bg-destructive text-destructive-foreground rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                  aria-label="Remove image"
-                >
-                  <X className="w-3 h-3" />
-                </button>
-              </div>
-            ))}
-          </div>
+        {!isUploading && (
+          <ReferenceBoard
+            previews={uploadedImagePreviews}
+            references={referenceSettings}
+            onChange={updateReference}
+            onRemove={removeUploadedUrl}
+            className="mb-3"
+          />
         )}
 
         <div
@@ -845,6 +838,14 @@ const ChatInterface = ({
                       <Upload className="w-4 h-4 mr-2" />
                       Upload Image
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsAssetPickerOpen(true)}>
+                      <FolderOpen className="w-4 h-4 mr-2" />
+                      From Assets
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsPromptPaletteOpen(true)}>
+                      <Library className="w-4 h-4 mr-2" />
+                      Prompt Library
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
 
@@ -868,8 +869,10 @@ const ChatInterface = ({
                 </DropdownMenu>
               </div>
 
-              {/* Right: response mode + HITL + send */}
+              {/* Right: seed + response mode + HITL + send */}
               <div className="flex items-center gap-1.5">
+                {onSeedChange && <SeedControl value={seed} onChange={onSeedChange} className="border-border/60" />}
+
                 {/* Response mode toggle */}
                 <div className="flex items-center rounded-lg border border-border/60 bg-secondary/60 p-0.5 gap-0.5">
                   <button
@@ -918,15 +921,26 @@ const ChatInterface = ({
                   <User className="w-3.5 h-3.5" />
                 </Button>
 
-                {/* Send */}
-                <Button
-                  onClick={handleSend}
-                  disabled={!inputValue.trim() || isGenerating || isUploading}
-                  size="icon"
-                  className="flex-shrink-0 h-8 w-8 rounded-xl bg-primary hover:bg-primary/90 disabled:opacity-25 disabled:cursor-not-allowed transition-all shadow-[0_2px_12px_rgba(124,90,246,0.35)] disabled:shadow-none"
-                >
-                  <Send className="w-3.5 h-3.5" />
-                </Button>
+                {/* Send / Stop */}
+                {isGenerating && onStopGenerating ? (
+                  <Button
+                    onClick={onStopGenerating}
+                    size="icon"
+                    className="flex-shrink-0 h-8 w-8 rounded-xl bg-primary hover:bg-primary/90 transition-all shadow-[0_2px_12px_rgba(124,90,246,0.35)]"
+                    title="Stop generating"
+                  >
+                    <Square className="w-3 h-3 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSend}
+                    disabled={!inputValue.trim() || isGenerating || isUploading}
+                    size="icon"
+                    className="flex-shrink-0 h-8 w-8 rounded-xl bg-primary hover:bg-primary/90 disabled:opacity-25 disabled:cursor-not-allowed transition-all shadow-[0_2px_12px_rgba(124,90,246,0.35)] disabled:shadow-none"
+                  >
+                    <Send className="w-3.5 h-3.5" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -974,6 +988,14 @@ const ChatInterface = ({
                       <Upload className="w-4 h-4 mr-2" />
                       Upload Image
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsAssetPickerOpen(true)}>
+                      <FolderOpen className="w-4 h-4 mr-2" />
+                      From Assets
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsPromptPaletteOpen(true)}>
+                      <Library className="w-4 h-4 mr-2" />
+                      Prompt Library
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
 
@@ -997,6 +1019,7 @@ const ChatInterface = ({
               </div>
 
               <div className="flex items-center gap-1">
+                {onSeedChange && <SeedControl value={seed} onChange={onSeedChange} />}
                 <Button
                   variant={humanInLoop ? "default" : "outline"}
                   size="icon"
@@ -1010,14 +1033,25 @@ const ChatInterface = ({
                   <User className="w-4 h-4" />
                 </Button>
 
-                <Button
-                  onClick={handleSend}
-                  disabled={!inputValue.trim() || isGenerating || isUploading}
-                  size="icon"
-                  className="flex-shrink-0 h-9 w-9 rounded-lg"
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isGenerating && onStopGenerating ? (
+                  <Button
+                    onClick={onStopGenerating}
+                    size="icon"
+                    className="flex-shrink-0 h-9 w-9 rounded-lg"
+                    title="Stop generating"
+                  >
+                    <Square className="w-3.5 h-3.5 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSend}
+                    disabled={!inputValue.trim() || isGenerating || isUploading}
+                    size="icon"
+                    className="flex-shrink-0 h-9 w-9 rounded-lg"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -1083,6 +1117,23 @@ const ChatInterface = ({
           </div>
         </DialogContent>
       </Dialog>
+
+      <AssetPickerDialog
+        open={isAssetPickerOpen}
+        onOpenChange={setIsAssetPickerOpen}
+        onPick={handleAssetsPicked}
+        kinds={["image", "edit"]}
+        projectId={getActiveProjectId()}
+        max={Math.max(1, 4 - uploadedImageUrls.length)}
+        title="Add images from assets"
+      />
+
+      <PromptPalette
+        open={isPromptPaletteOpen}
+        onOpenChange={setIsPromptPaletteOpen}
+        onSelect={handlePromptPicked}
+        projectId={getActiveProjectId()}
+      />
     </div>
   );
 };
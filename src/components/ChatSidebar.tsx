@@ -27,7 +27,8 @@ import { ProfileModal } from "@/components/ProfileModal";
 import { useUser } from "@/hooks/use-user";
 import { useProject } from "@/hooks/use-project";
 import { useQueryClient } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { deleteSession, fetchProjectSessions, renameProject, renameSession, shareProject } from "@/lib/backend";
+import type { ChatSession } from "@/types/backend.types";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useNavigate } from "react-router-dom";
 import { ProjectMembersModal } from "@/components/home/ProjectMembersModal";
@@ -38,24 +39,12 @@ const formatCredits = (credits: unknown): string => {
   return n.toFixed(3).replace(/\.?0+$/, "");
 };
 
-interface Session {
-  session_id: string;
-  thread_id?: string;
-  user_id?: string;
-  project_id?: string;
-  created_at: string;
-  updated_at: string;
-  message_count?: number;
-  total_messages?: number;
-  title?: string;
-  title_generated?: boolean;
-}
+type Session = ChatSession;
 
 interface ChatSidebarProps {
   currentSessionId: string | null;
   onSelectSession: (sessionId: string, sessionUserId?: string) => void;
   onNewChat: () => void;
-  apiUrl: string;
   onSessionsLoaded?: (sessions: Session[]) => void;
   onTutorialClick?: () => void;
   projectName?: string;
@@ -68,7 +57,6 @@ export const ChatSidebar = ({
   currentSessionId,
   onSelectSession,
   onNewChat,
-  apiUrl,
   onSessionsLoaded,
   onTutorialClick,
   projectName,
@@ -111,10 +99,7 @@ export const ChatSidebar = ({
     if (!projectId || !projectNameDraft.trim()) return;
     try {
       setIsSavingProjectName(true);
-      await apiFetch(`/api/projects/${projectId}`, {
-        method: "PATCH",
-        body: { name: projectNameDraft.trim() },
-      });
+      await renameProject(projectId, projectNameDraft.trim());
       await queryClient.invalidateQueries({ queryKey: ["project", projectId] });
       toast({
         title: "Project updated",
@@ -137,10 +122,7 @@ export const ChatSidebar = ({
 
     try {
       setIsSharingProject(true);
-      await apiFetch(`/api/projects/${projectId}/share`, {
-        method: "POST",
-        body: { email: shareEmail.trim() },
-      });
+      await shareProject(projectId, shareEmail.trim());
       toast({
         title: "Project shared",
         description: `An email has been sent to ${shareEmail.trim()} to join the project.`,
@@ -221,26 +203,13 @@ export const ChatSidebar = ({
     const loadingState = !isRefreshing; // Only set main loading if not refreshing
     if (loadingState) setIsLoading(true);
     try {
-      // Get access token from localStorage
-      
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-
-      const url = `${apiUrl}/project/${projectId}/sessions`
-      
-      const response = await fetch(url, { headers });
-      if (!response.ok) {
-        throw new Error("Failed to fetch sessions");
-      }
-      const data = await response.json();
+      const data = await fetchProjectSessions(projectId);
 
       // API returns { project_id, users: { [userId]: Session[] } }
       // Flatten all user session arrays into a single list, deduplicate by session_id,
       // and sort newest-first by updated_at.
       const usersMap: Record<string, Session[]> = data.users || {};
-      const allSessions = Object.values(usersMap).flat() as Session[];
+      const allSessions = Object.values(usersMap).flat();
 
       const uniqueMap = new Map<string, Session>();
       for (const s of allSessions) {
@@ -302,18 +271,7 @@ export const ChatSidebar = ({
     const userId = renameModalSession.user_id || userProfile?.id;
     try {
       setIsSavingRename(true);
-      const params = new URLSearchParams();
-      if (userId) params.set("userId", userId);
-      if (projectId) params.set("projectId", projectId);
-      const url = `${apiUrl}/session/${sessionId}/title${params.toString() ? `?${params.toString()}` : ""}`;
-      const headers: HeadersInit = { "Content-Type": "application/json" };
-      const response = await fetch(url, {
-        method: "PUT",
-        headers,
-        body: JSON.stringify({ title: renameModalTitle.trim() }),
-      });
-      if (!response.ok) throw new Error("Failed to rename chat");
-      const data = await response.json();
+      const data = await renameSession(sessionId, renameModalTitle.trim(), { userId, projectId });
       setSessions((prev) =>
         prev.map((s) =>
           s.session_id === sessionId ? { ...s, title: data.title ?? renameModalTitle.trim() } : s
@@ -342,28 +300,7 @@ export const ChatSidebar = ({
     if (!deleteSessionId) return;
 
     try {
-      // Get access token from localStorage
-      const authToken = localStorage.getItem(LocalStorageKeys.AccessToken);
-      
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (authToken) {
-        headers["Authorization"] = `Bearer ${authToken}`;
-      }
-
-      const userId = userProfile?.id;
-      const deleteUrl = `${apiUrl}/session/${deleteSessionId}/delete?userId=${encodeURIComponent(userId)}&projectId=${encodeURIComponent(projectId)}`
-      
-      const response = await fetch(deleteUrl, {
-        method: "DELETE",
-        headers,
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to delete session");
-      }
+      await deleteSession(deleteSessionId, { userId: userProfile?.id, projectId });
 
       // Remove from list (also filter out any null session_ids)
       setSessions(sessions.filter((s) => s.session_id !== deleteSessionId && s.session_id !== null));
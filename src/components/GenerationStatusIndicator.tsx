@@ -1,17 +1,24 @@
 import { cn } from "@/lib/utils";
 import { Loader2, CheckCircle, XCircle, ImageIcon } from "lucide-react";
 import ImageFeedback from "./ImageFeedback";
+import { useGenerationStream } from "@/hooks/useGenerationStream";
 
 interface GenerationStatusIndicatorProps {
-  status: string;
+  // When omitted the indicator follows the job's status stream itself
+  status?: string;
   jobId: string;
+  email?: string;
   className?: string;
 }
 
-export function GenerationStatusIndicator({ status, jobId, className }: GenerationStatusIndicatorProps) {
+export function GenerationStatusIndicator({ status: statusProp, jobId, email, className }: GenerationStatusIndicatorProps) {
+  const { lastEvent, state } = useGenerationStream(jobId, { email, enabled: statusProp === undefined });
+  const status = statusProp ?? (state === "reconnecting" ? "reconnecting" : (lastEvent?.status || "listening").toLowerCase());
+
   const getStatusEmoji = (status: string) => {
     switch (status) {
       case 'listening': return '🎧';
+      case 'reconnecting': return '🔄';
       case 'processing': return '⏳';
       case 'completed': return '✅';
       case 'error': return '❌';
@@ -23,6 +30,7 @@ export function GenerationStatusIndicator({ status, jobId, className }: Generati
   const getStatusText = (status: string) => {
     switch (status) {
       case 'listening': return 'Connected, waiting for processing...';
+      case 'reconnecting': return 'Connection lost, reconnecting...';
       case 'processing': return 'Generating your content...';
       case 'completed': return 'Generation complete!';
       case 'error': return 'Generation failed';
@@ -31,7 +39,7 @@ export function GenerationStatusIndicator({ status, jobId, className }: Generati
     }
   };
 
-  const isProcessing = status === 'listening' || status === 'processing';
+  const isProcessing = status === 'listening' || status === 'processing' || status === 'reconnecting';
 
   return (
     <div className={cn(
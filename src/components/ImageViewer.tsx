@@ -6,14 +6,24 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogClose, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { LocalStorageKeys } from "@/enums/localstorage";
+import { fetchImageEditingHistory, fetchImageGenerationHistory, getActiveProjectId } from "@/lib/backend";
+import type { AssetLibraryFilters } from "@/types/backend.types";
+import { AssetLibraryFilter } from "@/components/assets/AssetLibraryFilter";
+import { AssetOrganizer, type AssetOrganization } from "@/components/assets/AssetOrganizer";
+import { assetIdFor } from "@/components/assets/assetActions";
 
 interface ImageItem {
+  id?: string;
   name: string;
   url: string;
   timestamp?: number;
   modelName?: string;
+  seed?: number;
   creditsConsumed?: number;
   userName?: string;
+  tags?: string[];
+  favorite?: boolean;
+  collectionIds?: string[];
 }
 
 interface EditedImageItem {
@@ -26,19 +36,22 @@ interface EditedImageItem {
   prompt: string;
   technique?: string;
   modelName?: string;
+  seed?: number;
   status: string;
   timestamp?: number;
   creditsConsumed?: number;
   userName?: string;
+  tags?: string[];
+  favorite?: boolean;
+  collectionIds?: string[];
 }
 
 interface ImageViewerProps {
-  apiUrl: string;
   refreshTrigger?: number;
   onRemixImage?: (imageUrl: string) => void;
 }
 
-const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps) => {
+const ImageViewer = ({ refreshTrigger, onRemixImage }: ImageViewerProps) => {
   const [images, setImages] = useState<ImageItem[]>([]);
   const [editedImages, setEditedImages] = useState<EditedImageItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -48,6 +61,8 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
   const [selectedImage, setSelectedImage] = useState<ImageItem | null>(null);
   const [selectedEditedImage, setSelectedEditedImage] = useState<EditedImageItem | null>(null);
   const [activeTab, setActiveTab] = useState("generation");
+  const [libraryFilters, setLibraryFilters] = useState<AssetLibraryFilters>({});
+  const projectId = getActiveProjectId();
   
   // Pagination state
   const [offset, setOffset] = useState(0);
@@ -66,10 +81,7 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
     }
     
     try {
-      // Get auth token from localStorage
-      let authToken = localStorage.getItem(LocalStorageKeys.AccessToken);
-
-      if (!authToken) {
+      if (!localStorage.getItem(LocalStorageKeys.AccessToken)) {
         console.warn("No auth token available for image history request");
         toast({
           title: "Not authenticated",
@@ -82,28 +94,8 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
         return;
       }
 
-      // Cache globally for other components
-      (window as any).authToken = authToken;
-
       const currentOffset = append ? offset : 0;
-      const backendUrl = import.meta.env.VITE_API_BACKEND_URL;
-      const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-      const response = await fetch(
-        `${backendUrl}/api/image-generation/history?limit=${LIMIT}&offset=${currentOffset}${projectIdFromUrl ? `&projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`,
-        {
-          method: "GET",
-          headers: {
-            accept: "*/*",
-            Authorization: `Bearer ${authToken}`,
-          },
-        },
-      );
-      
-      if (!response.ok) {
-        throw new Error("Failed to fetch image history");
-      }
-      
-      const data = await response.json();
+      const data = await fetchImageGenerationHistory({ limit: LIMIT, offset: currentOffset, ...libraryFilters });
       
       // Extract images from the nested data property
       const imageList = data.data || [];
@@ -112,13 +104,18 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
       const apiHasMore = data.hasMore === true;
       
       // Map the response to ImageItem format
-      const mapped: ImageItem[] = imageList.map((item: any) => ({
+      const mapped: ImageItem[] = imageList.map((item) => ({
+        id: item.id,
         name: item.prompt || item.id || 'generated-image.png',
         url: item.imagePath || item.img_url || '',
         timestamp: item.createdAt ? new Date(item.createdAt).getTime() : Date.now(),
         modelName: item.modelName,
+        seed: item.seed,
         creditsConsumed: item.creditsUsed,
         userName: item.user?.name,
+        tags: item.tags,
+        favorite: item.favorite,
+        collectionIds: item.collectionIds,
       })).filter((item: ImageItem) => item.url);
 
       // Sort by timestamp (newest first)
@@ -159,10 +156,7 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
     }
     
     try {
-      // Get auth token from localStorage
-      let authToken = localStorage.getItem(LocalStorageKeys.AccessToken);
-
-      if (!authToken) {
+      if (!localStorage.getItem(LocalStorageKeys.AccessToken)) {
         console.warn("No auth token available for edited image history request");
         toast({
           title: "Not authenticated",
@@ -175,28 +169,8 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
         return;
       }
 
-      // Cache globally for other components
-      (window as any).authToken = authToken;
-
       const currentOffset = append ? offsetEdited : 0;
-      const backendUrl = import.meta.env.VITE_API_BACKEND_URL || "http://localhost:8000";
-      const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-      const response = await fetch(
-        `${backendUrl}/api/image-editing/history?limit=${LIMIT}&offset=${currentOffset}${projectIdFromUrl ? `&projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`,
-        {
-          method: "GET",
-          headers: {
-            accept: "*/*",
-            Authorization: `Bearer ${authToken}`,
-          },
-        },
-      );
-      
-      if (!response.ok) {
-        throw new Error("Failed to fetch edited image history");
-      }
-      
-      const data = await response.json();
+      const data = await fetchImageEditingHistory({ limit: LIMIT, offset: currentOffset, ...libraryFilters });
       
       // Extract images from the nested data property
       const imageList = data.data || [];
@@ -206,8 +180,8 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
       
       // Map the response to EditedImageItem format - only COMPLETED items
       const mapped: EditedImageItem[] = imageList
-        .filter((item: any) => item.status === "COMPLETED")
-        .map((item: any) => ({
+        .filter((item) => item.status === "COMPLETED")
+        .map((item) => ({
           id: item.id,
           outputImagePath: item.outputImagePath,
           inputImage1Path: item.inputImage1Path,
@@ -217,10 +191,14 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
           prompt: item.prompt || 'No description',
           technique: item.technique,
           modelName: item.modelName,
+          seed: item.seed,
           status: item.status,
           timestamp: item.createdAt ? new Date(item.createdAt).getTime() : Date.now(),
           creditsConsumed: item.creditsUsed,
           userName: item.user?.name,
+          tags: item.tags,
+          favorite: item.favorite,
+          collectionIds: item.collectionIds,
         }))
         .filter((item: EditedImageItem) => item.outputImagePath);
 
@@ -298,7 +276,21 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
     }
   };
 
-  // Fetch on mount and when refreshTrigger changes
+  // Keep the list and the open preview in step with tag / favorite changes
+  const handleGeneratedOrganized = (image: ImageItem, next: AssetOrganization) => {
+    const update = (item: ImageItem) => (item.id === image.id ? { ...item, ...next } : item);
+    setImages(prev => prev.map(update));
+    setSelectedImage(prev => (prev ? update(prev) : prev));
+  };
+
+  const handleEditedOrganized = (image: EditedImageItem, next: AssetOrganization) => {
+    const update = (item: EditedImageItem) =>
+      item.id === image.id ? { ...item, ...next } : item;
+    setEditedImages(prev => prev.map(update));
+    setSelectedEditedImage(prev => (prev ? update(prev) : prev));
+  };
+
+  // Fetch on mount and when refreshTrigger or the library filters change
   useEffect(() => {
     setOffset(0);
     setOffsetEdited(0);
@@ -306,7 +298,7 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
     setHasMoreEdited(true);
     fetchImages(false);
     fetchEditedImages(false);
-  }, [refreshTrigger]);
+  }, [refreshTrigger, libraryFilters]);
 
   // Auto-refresh every 30 seconds (but not on initial mount)
   // useEffect(() => {
@@ -355,11 +347,12 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
 
       {/* Content Area with Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col min-h-0">
-        <div className="px-6 pt-4">
+        <div className="px-6 pt-4 space-y-3">
           <TabsList className="w-full max-w-md">
             <TabsTrigger value="generation" className="flex-1">Image Generation</TabsTrigger>
             <TabsTrigger value="editing" className="flex-1">Image Editing</TabsTrigger>
           </TabsList>
+          <AssetLibraryFilter value={libraryFilters} onChange={setLibraryFilters} projectId={projectId} />
         </div>
 
         {/* Image Generation Tab */}
@@ -596,15 +589,28 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
               </div>
               <div className="p-4 border-t border-border/50 bg-card space-y-2">
                 <p className="text-sm font-medium text-foreground whitespace-pre-wrap break-words">{selectedImage.name}</p>
-                {(selectedImage.userName || selectedImage.modelName || selectedImage.creditsConsumed !== undefined) && (
+                {(selectedImage.userName || selectedImage.modelName || selectedImage.seed !== undefined || selectedImage.creditsConsumed !== undefined) && (
                   <div className="flex gap-2 text-xs text-muted-foreground">
                     {selectedImage.userName && <span><b>Created by:</b> {selectedImage.userName}</span>}
                     {selectedImage.modelName && <span><b>Model:</b> {selectedImage.modelName}</span>}
+                    {selectedImage.seed !== undefined && <span><b>Seed:</b> {selectedImage.seed}</span>}
                     {selectedImage.creditsConsumed !== undefined && (
                       <span><b>Credits Used:</b> {selectedImage.creditsConsumed}</span>
                     )}
                   </div>
                 )}
+                {selectedImage.id && (
+                  <AssetOrganizer
+                    key={selectedImage.id}
+                    className="pt-2"
+                    assetId={assetIdFor("image", selectedImage.id)}
+                    projectId={projectId}
+                    tags={selectedImage.tags}
+                    favorite={selectedImage.favorite}
+                    collectionIds={selectedImage.collectionIds}
+                    onChange={(next) => handleGeneratedOrganized(selectedImage, next)}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -701,15 +707,26 @@ const ImageViewer = ({ apiUrl, refreshTrigger, onRemixImage }: ImageViewerProps)
               </div>
               <div className="p-4 border-t border-border/50 bg-card space-y-2">
                 <p className="text-sm font-medium text-foreground">{selectedEditedImage.prompt}</p>
-                {(selectedEditedImage.userName || selectedEditedImage.modelName || selectedEditedImage.creditsConsumed !== undefined) && (
+                {(selectedEditedImage.userName || selectedEditedImage.modelName || selectedEditedImage.seed !== undefined || selectedEditedImage.creditsConsumed !== undefined) && (
                   <div className="flex gap-2 text-xs text-muted-foreground">
                     {selectedEditedImage.userName && <span><b>Edited by:</b> {selectedEditedImage.userName}</span>}
                     {selectedEditedImage.modelName && <span><b>Model:</b> {selectedEditedImage.modelName}</span>}
+                    {selectedEditedImage.seed !== undefined && <span><b>Seed:</b> {selectedEditedImage.seed}</span>}
                     {selectedEditedImage.creditsConsumed !== undefined && (
                       <span><b>Credits Used:</b> {selectedEditedImage.creditsConsumed}</span>
                     )}
                   </div>
                 )}
+                <AssetOrganizer
+                  key={selectedEditedImage.id}
+                  className="pt-2"
+                  assetId={assetIdFor("edit", selectedEditedImage.id)}
+                  projectId={projectId}
+                  tags={selectedEditedImage.tags}
+                  favorite={selectedEditedImage.favorite}
+                  collectionIds={selectedEditedImage.collectionIds}
+                  onChange={(next) => handleEditedOrganized(selectedEditedImage, next)}
+                />
               </div>
             </div>
           )}
@@ -3,10 +3,27 @@
 import type React from "react"
 
 import { useState, useEffect, useRef } from "react"
-import { apiFetch } from "@/lib/api"
+import {
+  ask,
+  fetchAssociatedModels,
+  fetchModelDownloadUrl,
+  fetchOptimizationModels,
+  fetchOptimizationPresets,
+  fetchRunningOptimizationJobs,
+  optimizeModel,
+  optimizeMultipleModels,
+} from "@/lib/backend"
+import type { AskRequest, AssociatedModelInfo, ModelInfo, OptimizationPresets } from "@/types/backend.types"
 import { useUserProfile } from "@/hooks/use-user-profile"
-import { LocalStorageKeys } from "@/enums/localstorage"
 import { useToast } from "@/hooks/use-toast"
+import { useModelUpload } from "@/hooks/use-model-upload"
+import { isUploadCancelled } from "@/utils/modelUploader"
+import { ModelUploadStatus } from "@/components/ModelUploadStatus"
+import { ModelReportDialog } from "@/components/models/ModelReportDialog"
+import { ModelComparisonDialog } from "@/components/models/ModelComparisonDialog"
+import { ModelThumbnail } from "@/components/models/ModelThumbnail"
+import { storeModelThumbnail } from "@/components/assets/assetActions"
+import { modelExtension, type PresetSuggestion } from "@/components/models/modelInspection"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
@@ -24,50 +41,9 @@ import {
   RefreshCw,
   Play,
   Clock,
+  Columns2,
 } from "lucide-react"
 
-// API types
-interface ModelInfo {
-  assetId: string
-  fileName: string
-  tags: string
-  createdAt: string
-  thumbnailUrl?: string
-  creditsUsed?: number
-}
-
-interface AssociatedModelInfo {
-  id: string
-  name: string
-  preset_name: string
-  optimization_status: string
-  created_at: string
-  downloads: {
-    glb?: string
-    usdz?: string
-    fbx?: string
-  }
-}
-
-interface ModelsResponse {
-  models: ModelInfo[]
-  totalPages: number
-  total: number
-}
-
-interface AssociatedModelsResponse {
-  models: AssociatedModelInfo[]
-}
-
-interface PresetOption {
-  text: string
-  id: string
-}
-
-interface OptimizationPresets {
-  presets: Record<string, PresetOption[]>
-}
-
 interface OptimizationRequest {
   id: string
   modelName: string
@@ -87,120 +63,12 @@ interface RunningTask {
   startTime: Date
 }
 
-interface OptimizationJob {
-  asset_id?: number
-  model_name?: string
-  status?: string
-  progress?: number
-  started_at?: string
-  preset?: Record<string, any>
-  task_type: string
-}
-
-interface RunningJobsResponse {
-  status: string
-  jobs: OptimizationJob[]
-  total_count: number
-}
-
-// API functions
-async function fetchModels(page: number = 1, perPage: number = 10): Promise<ModelsResponse> {
-  const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-  return apiFetch<ModelsResponse>(
-    `/api/model-optimization/models?page=${page}&per_page=${perPage}${projectIdFromUrl ? `&projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`
-  )
-}
-
-async function fetchAssociatedModels(baseModelId: string): Promise<AssociatedModelsResponse> {
-  return apiFetch<AssociatedModelsResponse>(`/api/model-optimization/models/${baseModelId}/associated`)
-}
-
-async function fetchOptimizationPresets(): Promise<OptimizationPresets> {
-  return apiFetch<OptimizationPresets>(`/api/model-optimization/presets`)
-}
-
-async function optimizeModel(modelId: string, presetId: string, exportName: string): Promise<any> {
-  return apiFetch<any>(`/api/model-optimization/optimize/single`, {
-    method: 'POST',
-    body: {
-      model_id: modelId,
-      config: {
-        preset_id: presetId,
-        exportName: exportName
-      }
-    }
-  })
-}
-
-async function optimizeMultipleModels(optimizations: OptimizationRequest[]): Promise<any> {
-  return apiFetch<any>(`/api/model-optimization/optimize/multiple`, {
-    method: 'POST',
-    body: {
-      optimizations: optimizations.map(opt => ({
-        model_id: opt.modelId,
-        config: {
-          preset_id: opt.presetId,
-          exportName: opt.modelName
-        }
-      }))
-    }
-  })
-}
-
-async function uploadModel(file: File, modelName: string): Promise<any> {
-  const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-
-  try {
-    const res = await apiFetch<any>(`/api/model-optimization/get-signed-url`, {
-      method: "POST",
-      body: { 
-        model_name: modelName, 
-        filename: file.name 
-      },
-      headers: {
-        ...(projectIdFromUrl ? { "x-project-id": projectIdFromUrl } : {}),
-      },
-    });
-    
-    const { s3_upload_url, asset_id } = res;
-
-    if (!s3_upload_url) throw new Error("Failed to get signed URL");
-
-    const uploadRes = await fetch(s3_upload_url, {
-      method: "PUT",
-      body: file,
-      headers: {
-        "Content-Type": "application/octet-stream",
-      },
-    });
-    
-    if (!uploadRes.ok) throw new Error("Upload failed");
-
-    const completeRes = await apiFetch<any>(`/api/model-optimization/complete-upload/${asset_id}`, {
-      method: "GET",
-    });
-    
-    if (completeRes) {
-      return { success: true, asset_id, message: "Upload completed successfully" };
-    } else {
-      throw new Error("Upload succeeded, but completion failed.");
-    }
-
-  } catch (error) {
-    console.error("Upload error:", error);
-    throw error;
-  }
-}
-
-async function fetchRunningJobs(): Promise<RunningJobsResponse> {
-  return apiFetch<RunningJobsResponse>(`/api/model-optimization/running-jobs`)
-}
-
 function convertApiModelToComponentModel(apiModel: ModelInfo, associatedModels: AssociatedModelInfo[] = []) {
   return {
     id: parseInt(apiModel.assetId),
     name: apiModel.fileName,
-    image: apiModel.thumbnailUrl || "/placeholder.svg?height=100&width=100",
+    // Missing thumbnails are rendered in the list and saved back
+    image: apiModel.thumbnailUrl,
     creationDate: new Date(apiModel.createdAt).toLocaleDateString(),
     creditsUsed: apiModel.creditsUsed,
     optimizedVersions: associatedModels.map(model => ({
@@ -229,6 +97,11 @@ export default function ModelOptimization({ isActive = false, onSendMessage, onA
   const [optimizationRequests, setOptimizationRequests] = useState<OptimizationRequest[]>([])
   const [runningTasks, setRunningTasks] = useState<RunningTask[]>([])
   const [isOptimizing, setIsOptimizing] = useState(false)
+  const { upload: uploadModel, cancel: cancelModelUpload, progress: uploadProgress } = useModelUpload()
+  // Picked model waiting for its inspection report to be confirmed
+  const [pendingModelFile, setPendingModelFile] = useState<File | null>(null)
+  // Optimized version opened next to the selected model's original
+  const [comparedVariantId, setComparedVariantId] = useState<string | null>(null)
 
   // API data states
   const [models, setModels] = useState<any[]>([])
@@ -271,7 +144,7 @@ export default function ModelOptimization({ isActive = false, onSendMessage, onA
       console.log("Optimization started from chat, checking for running jobs...", event.detail)
       
       try {
-        const response = await fetchRunningJobs()
+        const response = await fetchRunningOptimizationJobs()
         const runningJobs = response.jobs
 
         console.log("Found running jobs after chat optimization:", runningJobs)
@@ -331,7 +204,7 @@ export default function ModelOptimization({ isActive = false, onSendMessage, onA
     const runInitialPolling = async () => {
       try {
         console.log("Running initial polling check...")
-        const response = await fetchRunningJobs()
+        const response = await fetchRunningOptimizationJobs()
         const runningJobs = response.jobs
 
         console.log("Initial polling found jobs:", runningJobs)
@@ -372,7 +245,7 @@ export default function ModelOptimization({ isActive = false, onSendMessage, onA
 
     const pollInterval = setInterval(async () => {
       try {
-        const response = await fetchRunningJobs()
+        const response = await fetchRunningOptimizationJobs()
         const runningJobs = response.jobs
 
         console.log("Polling running jobs:", runningJobs)
@@ -546,24 +419,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
 
     // Step 2: Send the actual system prompt to backend silently
     try {
-      const API_URL = import.meta.env.VITE_API_BASE_URL;
-      // Get access token from localStorage
-      const authToken = localStorage.getItem(LocalStorageKeys.AccessToken);
-      
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (authToken) {
-        headers["Authorization"] = `Bearer ${authToken}`;
-      }
-
-      const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-      if (projectIdFromUrl) {
-        headers["x-project-id"] = projectIdFromUrl;
-      }
-
-      const payload: any = {
+      const payload: AskRequest = {
         query: systemPrompt,
         session_id: localStorage.getItem("mcp_session_id")
       };
@@ -572,13 +428,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
         payload.email = userProfile.email;
       }
 
-      const response = await fetch(`${API_URL}/ask`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
+      const data = await ask(payload);
 
       // Real tool invocation detection
       const isToolInvocation = (content: string): boolean => {
@@ -681,7 +531,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
     try {
       setLoading(true)
       setError(null)
-      const response = await fetchModels(1, 10)
+      const response = await fetchOptimizationModels({ page: 1, perPage: 10 })
       const convertedModels = response.models.map(model => convertApiModelToComponentModel(model))
       setModels(convertedModels)
       setCurrentPage(1)
@@ -705,7 +555,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
     try {
       setLoadingMore(true)
       const nextPage = currentPage + 1
-      const response = await fetchModels(nextPage, 10)
+      const response = await fetchOptimizationModels({ page: nextPage, perPage: 10 })
       const newConvertedModels = response.models.map(model => convertApiModelToComponentModel(model))
       
       setModels(prev => [...prev, ...newConvertedModels])
@@ -722,7 +572,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
     try {
       setRefreshingModels(true)
       setError(null)
-      const response = await fetchModels(1, 10)
+      const response = await fetchOptimizationModels({ page: 1, perPage: 10 })
       const convertedModels = response.models.map(model => convertApiModelToComponentModel(model))
       setModels(convertedModels)
       setCurrentPage(1)
@@ -822,7 +672,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
         console.log("Submitting single optimization request...")
         
         try {
-          const result = await optimizeModel(request.modelId, request.presetId, request.modelName)
+          const result = await optimizeModel({ modelId: request.modelId, presetId: request.presetId, exportName: request.modelName })
           console.log("Single optimization result:", result)
           
           if (result.success) {
@@ -838,7 +688,9 @@ Be friendly and instructive. Use short explanations and examples where needed.`
         console.log("Submitting multiple optimization requests...")
         
         try {
-          const result = await optimizeMultipleModels(optimizationRequests)
+          const result = await optimizeMultipleModels(
+            optimizationRequests.map((opt) => ({ modelId: opt.modelId, presetId: opt.presetId, exportName: opt.modelName }))
+          )
           console.log("Multiple optimization result:", result)
           
           if (result.success) {
@@ -868,8 +720,8 @@ Be friendly and instructive. Use short explanations and examples where needed.`
     try {
       const modelName = file.name.split(".")[0]
       const result = await uploadModel(file, modelName)
-      
-      if (result.success) {
+
+      if (result.registration) {
         setSuccessMessage({
           title: "Upload Complete!",
           description: "Your model has been uploaded successfully."
@@ -881,15 +733,26 @@ Be friendly and instructive. Use short explanations and examples where needed.`
         
         await refreshModelsData()
       } else {
-        throw new Error("Upload failed")
+        throw new Error("Upload succeeded, but completion failed.")
       }
     } catch (error) {
+      if (isUploadCancelled(error)) return
       console.error("Upload failed:", error)
     } finally {
       setIsOptimizing(false)
     }
   }
 
+  // Uploads a model once its report was confirmed and preselects the suggested preset
+  const handleReportConfirmed = (file: File, suggestion: PresetSuggestion | null) => {
+    setPendingModelFile(null)
+    if (suggestion) {
+      setOptimizationType(suggestion.type)
+      setOptimizationStrength(suggestion.preset.id)
+    }
+    handleModelUpload(file)
+  }
+
   const addOptimizationRequest = () => {
     if (optimizationType && optimizationStrength && selectedModel) {
       const selectedModelData = models.find((m) => m.id === selectedModel)
@@ -1022,7 +885,7 @@ Be friendly and instructive. Use short explanations and examples where needed.`
                 onChange={(e) => {
                   const file = e.target.files?.[0]
                   if (file) {
-                    handleModelUpload(file)
+                    setPendingModelFile(file)
                     // Reset the input so the same file can be selected again
                     e.target.value = ""
                   }
@@ -1032,6 +895,27 @@ Be friendly and instructive. Use short explanations and examples where needed.`
             <p className="text-black/60 mt-2">
               Optimize your 3D models for better performance
             </p>
+            {uploadProgress && (
+              <ModelUploadStatus progress={uploadProgress} onCancel={cancelModelUpload} className="mt-4" />
+            )}
+            <ModelReportDialog
+              file={pendingModelFile}
+              onConfirm={handleReportConfirmed}
+              onCancel={() => setPendingModelFile(null)}
+            />
+            <ModelComparisonDialog
+              baseModel={
+                comparedVariantId && selectedModel
+                  ? {
+                      id: selectedModel.toString(),
+                      name: models.find((model) => model.id === selectedModel)?.name ?? "",
+                    }
+                  : null
+              }
+              variants={associatedModels}
+              initialVariantId={comparedVariantId ?? undefined}
+              onClose={() => setComparedVariantId(null)}
+            />
           </div>
           
           <div className="pt-6">
@@ -1090,10 +974,27 @@ Be friendly and instructive. Use short explanations and examples where needed.`
                         >
                           <CardContent className="p-3">
                             <div className="flex items-center gap-3">
-                              <img
-                                src={model.image || "/placeholder.svg"}
+                              <ModelThumbnail
+                                thumbnailUrl={model.image}
                                 alt={model.name}
-                                className="w-12 h-12 rounded-lg object-cover bg-black/10"
+                                className="w-12 h-12 shrink-0"
+                                imageClassName="w-12 h-12 rounded-lg object-cover bg-black/10"
+                                thumbnailKey={`optimization-model:${model.id}`}
+                                resolveSource={async () => {
+                                  const { url, file_name } = await fetchModelDownloadUrl(String(model.id))
+                                  return { url, type: modelExtension(file_name ?? model.name) }
+                                }}
+                                persist={(image) => storeModelThumbnail("optimized_model", model.id, image)}
+                                onStored={(image) =>
+                                  setModels(prev => prev.map(m => (m.id === model.id ? { ...m, image } : m)))
+                                }
+                                fallback={
+                                  <img
+                                    src="/placeholder.svg"
+                                    alt={model.name}
+                                    className="w-12 h-12 rounded-lg object-cover bg-black/10"
+                                  />
+                                }
                               />
                               <div className="flex-1">
                                 <h4 className="text-black font-medium text-sm">{model.name}</h4>
@@ -1158,46 +1059,80 @@ Be friendly and instructive. Use short explanations and examples where needed.`
                       associatedModels.map((version) => (
                         <Card key={version.id} className="border-black/10 bg-black/5">
                           <CardContent className="p-3">
-                            <div className="space-y-2">
-                              <h4 className="text-black font-medium text-sm">{version.preset_name}</h4>
-                              <p className="text-black/60 text-xs">Status: {version.optimization_status}</p>
-                              <div className="flex gap-2 flex-wrap">
-                                {version.downloads.glb && (
-                                  <Button
-                                    type="button"
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleDownload(version.downloads.glb!, `${version.name}.glb`)}
-                                    className="border-black/20 text-black hover:bg-black/10 bg-transparent"
-                                  >
-                                    <Download className="h-3 w-3 mr-1" />
-                                    GLB
-                                  </Button>
-                                )}
-                                {version.downloads.usdz && (
-                                  <Button
-                                    type="button"
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleDownload(version.downloads.usdz!, `${version.name}.usdz`)}
-                                    className="border-black/20 text-black hover:bg-black/10 bg-transparent"
-                                  >
-                                    <Download className="h-3 w-3 mr-1" />
-                                    USDZ
-                                  </Button>
-                                )}
-                                {version.downloads.fbx && (
-                                  <Button
-                                    type="button"
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleDownload(version.downloads.fbx!, `${version.name}.fbx`)}
-                                    className="border-black/20 text-black hover:bg-black/10 bg-transparent"
-                                  >
-                                    <Download className="h-3 w-3 mr-1" />
-                                    FBX
-                                  </Button>
-                                )}
+                            <div className="flex gap-3">
+                              <ModelThumbnail
+                                thumbnailUrl={version.thumbnail_url}
+                                alt={version.name}
+                                className="w-12 h-12 shrink-0"
+                                imageClassName="w-12 h-12 rounded-lg object-cover bg-black/10"
+                                thumbnailKey={`optimized-model:${version.id}`}
+                                resolveSource={async () => {
+                                  // GLB first, as in the comparison view
+                                  if (version.downloads.glb) return { url: version.downloads.glb, type: ".glb" }
+                                  if (version.downloads.fbx) return { url: version.downloads.fbx, type: ".fbx" }
+                                  return null
+                                }}
+                                persist={(image) => storeModelThumbnail("optimized_model", version.id, image)}
+                                onStored={(thumbnail_url) =>
+                                  setAssociatedModels(prev =>
+                                    prev.map(m => (m.id === version.id ? { ...m, thumbnail_url } : m))
+                                  )
+                                }
+                                fallback={<div className="w-12 h-12 rounded-lg bg-black/10" />}
+                              />
+                              <div className="flex-1 space-y-2">
+                                <h4 className="text-black font-medium text-sm">{version.preset_name}</h4>
+                                <p className="text-black/60 text-xs">Status: {version.optimization_status}</p>
+                                <div className="flex gap-2 flex-wrap">
+                                  {(version.downloads.glb || version.downloads.fbx) && (
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setComparedVariantId(version.id)}
+                                      className="border-black/20 text-black hover:bg-black/10 bg-transparent"
+                                    >
+                                      <Columns2 className="h-3 w-3 mr-1" />
+                                      Compare
+                                    </Button>
+                                  )}
+                                  {version.downloads.glb && (
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleDownload(version.downloads.glb!, `${version.name}.glb`)}
+                                      className="border-black/20 text-black hover:bg-black/10 bg-transparent"
+                                    >
+                                      <Download className="h-3 w-3 mr-1" />
+                                      GLB
+                                    </Button>
+                                  )}
+                                  {version.downloads.usdz && (
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleDownload(version.downloads.usdz!, `${version.name}.usdz`)}
+                                      className="border-black/20 text-black hover:bg-black/10 bg-transparent"
+                                    >
+                                      <Download className="h-3 w-3 mr-1" />
+                                      USDZ
+                                    </Button>
+                                  )}
+                                  {version.downloads.fbx && (
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleDownload(version.downloads.fbx!, `${version.name}.fbx`)}
+                                      className="border-black/20 text-black hover:bg-black/10 bg-transparent"
+                                    >
+                                      <Download className="h-3 w-3 mr-1" />
+                                      FBX
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </CardContent>
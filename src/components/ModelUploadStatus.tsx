@@ -0,0 +1,53 @@
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { formatBytes } from "@/components/chat/imagePreprocess";
+import { cn } from "@/lib/utils";
+import type { ModelUploadProgress } from "@/utils/modelUploader";
+
+interface ModelUploadStatusProps {
+  progress: ModelUploadProgress;
+  onCancel?: () => void;
+  className?: string;
+}
+
+const formatEta = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const mins = Math.floor(seconds / 60);
+  if (mins < 60) return `${mins}m ${seconds % 60}s`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+};
+
+// Progress bar for a model upload: bytes sent, speed, time left and a cancel button
+export const ModelUploadStatus = ({ progress, onCancel, className }: ModelUploadStatusProps) => {
+  const isRegistering = progress.stage === "registering";
+
+  return (
+    <div className={cn("p-2.5 rounded-lg border border-border bg-muted/30 space-y-1.5", className)}>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="flex items-center gap-1.5 font-medium text-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {isRegistering ? "Registering model..." : progress.resumed ? "Resuming upload..." : "Uploading model..."}
+        </span>
+        {onCancel && !isRegistering && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onCancel}>
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </div>
+      <Progress value={progress.percent} className="h-1.5" />
+      <div className="flex justify-between text-[11px] text-muted-foreground tabular-nums">
+        <span>
+          {progress.percent}% · {formatBytes(progress.loaded)} of {formatBytes(progress.total)}
+        </span>
+        {!isRegistering && progress.bytesPerSecond > 0 && (
+          <span>
+            {formatBytes(progress.bytesPerSecond)}/s
+            {progress.etaSeconds !== null && ` · ${formatEta(progress.etaSeconds)} left`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -13,18 +13,25 @@ import {
 } from "@/components/ui/dialog";
 import { Upload, Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { LocalStorageKeys } from "@/enums/localstorage";
+import { useModelUpload } from "@/hooks/use-model-upload";
+import { isUploadCancelled } from "@/utils/modelUploader";
+import { ModelUploadStatus } from "./ModelUploadStatus";
+import { ModelReportPanel } from "./models/ModelReportPanel";
+import { useModelReport } from "./models/useModelReport";
 
 interface ModelUploaderProps {
-  apiUrl: string;
-  authToken: string;
   onUploadComplete?: (assetId: number) => void;
 }
 
-export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUploaderProps) => {
+export const ModelUploader = ({ onUploadComplete }: ModelUploaderProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [modelName, setModelName] = useState("");
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { upload, cancel, progress } = useModelUpload();
+  // Checked in the browser as soon as it is picked, before anything is uploaded
+  const modelReport = useModelReport(selectedFile);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -37,33 +44,6 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
     }
   };
 
-  const uploadToSignedUrl = async (signedUrl: string, file: File) => {
-    const response = await fetch(signedUrl, {
-      method: "PUT",
-      headers: { "Content-Type": "application/octet-stream" },
-      body: file,
-    });
-
-    if (!response.ok) {
-      throw new Error("Failed to upload model to S3");
-    }
-  };
-
-  const completeUpload = async (assetId: number) => {
-    const response = await fetch(`${apiUrl}/api/model-optimization/complete-upload/${assetId}`, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${authToken}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error("Model registration failed");
-    }
-
-    return response.json();
-  };
-
   const handleUpload = async () => {
     if (!modelName || !selectedFile) {
       toast({
@@ -74,7 +54,7 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
       return;
     }
 
-    if (!authToken) {
+    if (!localStorage.getItem(LocalStorageKeys.AccessToken)) {
       toast({
         title: "Authentication required",
         description: "Please authenticate first.",
@@ -86,40 +66,8 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
     setIsUploading(true);
 
     try {
-      // Step 1: Get signed URL
-      const signedUrlResponse = await fetch(`${apiUrl}/api/model-optimization/get-signed-url`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${authToken}`,
-        },
-        body: JSON.stringify({
-          model_name: modelName,
-          filename: selectedFile.name,
-        }),
-      });
-
-      if (!signedUrlResponse.ok) {
-        throw new Error("Failed to get signed URL");
-      }
-
-      const { s3_upload_url, asset_id } = await signedUrlResponse.json();
-
-      // Step 2: Upload to S3
-      toast({
-        title: "Uploading...",
-        description: "Uploading your model to storage.",
-      });
-
-      await uploadToSignedUrl(s3_upload_url, selectedFile);
-
-      // Step 3: Complete upload/register model
-      toast({
-        title: "Registering...",
-        description: "Registering your model for optimization.",
-      });
-
-      const result = await completeUpload(asset_id);
+      // Uploads to storage (in resumable parts for large files), then registers the model
+      const { assetId: asset_id, registration: result } = await upload(selectedFile, modelName);
 
       toast({
         title: "Success!",
@@ -138,6 +86,7 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
         onUploadComplete(asset_id);
       }
     } catch (error) {
+      if (isUploadCancelled(error)) return;
       console.error("Upload error:", error);
       toast({
         title: "Upload failed",
@@ -157,7 +106,7 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
           Upload Model
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Upload 3D Model</DialogTitle>
           <DialogDescription>
@@ -190,6 +139,8 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
               </p>
             )}
           </div>
+          {selectedFile && !progress && <ModelReportPanel {...modelReport} />}
+          {progress && <ModelUploadStatus progress={progress} onCancel={cancel} />}
         </div>
         <DialogFooter>
           <Button
@@ -200,7 +151,7 @@ export const ModelUploader = ({ apiUrl, authToken, onUploadComplete }: ModelUplo
           >
             Cancel
           </Button>
-          <Button onClick={handleUpload} disabled={isUploading}>
+          <Button onClick={handleUpload} disabled={isUploading || modelReport.isInspecting}>
             {isUploading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
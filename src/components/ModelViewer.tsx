@@ -1,19 +1,35 @@
 import { useState, useEffect, Suspense, useRef, useCallback } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { Canvas, useThree } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
-import { FBXLoader } from "three/addons/loaders/FBXLoader.js";
-import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js";
 import * as THREE from "three";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Box, ZoomIn, ZoomOut, Palette, Download, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { RefreshCw, Box, ZoomIn, ZoomOut, Palette, Download, ChevronDown, ChevronUp, Loader2, Sun, RotateCw, Film } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Toggle } from "@/components/ui/toggle";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { LocalStorageKeys } from "@/enums/localstorage";
-import { apiFetch } from "@/lib/api";
+import { fetchModel3DHistory, getActiveProjectId } from "@/lib/backend";
+import type { AssetLibraryFilters } from "@/types/backend.types";
+import { AssetLibraryFilter } from "@/components/assets/AssetLibraryFilter";
+import { AssetOrganizer, type AssetOrganization } from "@/components/assets/AssetOrganizer";
+import { assetIdFor, storeModelThumbnail } from "@/components/assets/assetActions";
+import { ModelThumbnail } from "@/components/models/ModelThumbnail";
+import { InspectionToolbar } from "@/components/viewer/InspectionToolbar";
+import { DEFAULT_INSPECTION, type GeometryStats, type ViewerInspection } from "@/components/viewer/inspectionModes";
+import { Model } from "@/components/viewer/Model";
+import { AnimationControls } from "@/components/viewer/AnimationControls";
+import { useAnimationControls } from "@/components/viewer/useAnimationControls";
+import { LightingPanel } from "@/components/viewer/LightingPanel";
+import { SceneLighting } from "@/components/viewer/SceneLighting";
+import { DEFAULT_LIGHTING, type ViewerLighting } from "@/components/viewer/lighting";
+import { TurntableRig } from "@/components/viewer/TurntableRig";
+import { TurntableDialog } from "@/components/viewer/TurntableDialog";
+import type { TurntableHandle } from "@/components/viewer/turntableCapture";
 
 interface ModelData {
   id: string;
@@ -24,129 +40,23 @@ interface ModelData {
   prompt: string;
   creditsUsed: number;
   createdAt: string;
+  tags?: string[];
+  favorite?: boolean;
+  collectionIds?: string[];
 }
 
 interface ModelViewerProps {
-  apiUrl: string;
   selectedModel?: { modelUrl: string; thumbnailUrl: string; workflow: string } | null;
   refreshTrigger?: number;
   onInternalModelSelect?: () => void;
 }
 
-interface ModelProps {
-  url: string;
-  type: string;
-  onError: (error: string | null) => void;
-  onLoad?: () => void;
-}
-
-function Model({ url, type, onError, onLoad }: ModelProps) {
-  const [model, setModel] = useState<THREE.Object3D | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const hasNotifiedLoad = useRef(false);
-  const modelRef = useRef<THREE.Object3D | null>(null);
-  const frameCountRef = useRef(0);
-
-  // Use useFrame to detect when model is actually rendered
-  useFrame(() => {
-    if (model && !hasNotifiedLoad.current) {
-      frameCountRef.current++;
-      
-      // Check if model has geometry/children (actually rendered)
-      let hasGeometry = false;
-      model.traverse((child) => {
-        if ((child as THREE.Mesh).isMesh && (child as THREE.Mesh).geometry) {
-          hasGeometry = true;
-        }
-      });
-      
-      // Wait for geometry to be present AND wait at least 5 frames to ensure rendering
-      if (hasGeometry && frameCountRef.current >= 5) {
-        hasNotifiedLoad.current = true;
-        // Wait for one more frame to ensure rendering is complete
-        requestAnimationFrame(() => {
-          onLoad?.();
-        });
-      }
-    }
-  });
-
-  useEffect(() => {
-    setModel(null);
-    setError(null);
-    hasNotifiedLoad.current = false;
-    frameCountRef.current = 0;
-
-    const loadModel = async () => {
-      try {
-        let loadedModel: THREE.Object3D;
-        
-        if (type === '.fbx') {
-          const loader = new FBXLoader();
-          loadedModel = await new Promise((resolve, reject) => {
-            loader.load(
-              url,
-              (object) => resolve(object),
-              undefined,
-              (error) => reject(error)
-            );
-          });
-        } else if (type === '.glb' || type === '.gltf') {
-          const loader = new GLTFLoader();
-          const gltf = await new Promise<any>((resolve, reject) => {
-            loader.load(
-              url,
-              (gltf) => resolve(gltf),
-              undefined,
-              (error) => reject(error)
-            );
-          });
-          loadedModel = gltf.scene;
-        } else {
-          throw new Error('Unsupported model type');
-        }
-
-        if (loadedModel) {
-          const box = new THREE.Box3().setFromObject(loadedModel);
-          const center = box.getCenter(new THREE.Vector3());
-          const size = box.getSize(new THREE.Vector3());
-          
-          const maxDim = Math.max(size.x, size.y, size.z);
-          const scale = 2 / maxDim;
-          loadedModel.scale.multiplyScalar(scale);
-          
-          loadedModel.position.sub(center.multiplyScalar(scale));
-          // Position model above the grid
-          loadedModel.position.y += 1;
-          
-          setModel(loadedModel);
-          modelRef.current = loadedModel;
-          onError(null);
-          // onLoad will be called by useFrame when model is actually rendered
-        }
-      } catch (err) {
-        console.error('Error loading model:', err);
-        const errorMsg = 'Failed to load model. The file may be corrupted or in an unsupported format.';
-        setError(errorMsg);
-        onError(errorMsg);
-        onLoad?.(); // Still call onLoad to hide loader even on error
-      }
-    };
-
-    if (url) {
-      loadModel();
-    }
-  }, [url, type]); // Removed onError and onLoad from dependencies to prevent reload loop
-
-  if (error || !model) {
-    return null;
-  }
-
-  return <primitive object={model} />;
-}
+// File name base for captures of a model, from its prompt
+const fileStem = (prompt: string) =>
+  prompt.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "model";
 
 // Component to handle zoom controls
-function ZoomControls({ onControlsReady }: { onControlsReady: (controls: any) => void }) {
+function ZoomControls({ onControlsReady, autoRotate = false }: { onControlsReady: (controls: any) => void; autoRotate?: boolean }) {
   const controlsRef = useRef<any>(null);
 
   useEffect(() => {
@@ -164,11 +74,12 @@ function ZoomControls({ onControlsReady }: { onControlsReady: (controls: any) =>
       dampingFactor={0.05}
       minDistance={1}
       maxDistance={10}
+      autoRotate={autoRotate}
     />
   );
 }
 
-const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrigger, onInternalModelSelect }: ModelViewerProps) => {
+const ModelViewer = ({ selectedModel: externalSelectedModel, refreshTrigger, onInternalModelSelect }: ModelViewerProps) => {
   const [models, setModels] = useState<ModelData[]>([]);
   const [internalSelectedModel, setInternalSelectedModel] = useState<ModelData | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -178,8 +89,17 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
   const [lightIntensity, setLightIntensity] = useState([2.5]);
   const [cameraHeight, setCameraHeight] = useState([3]);
   const [bgColor, setBgColor] = useState("#e5e5e5");
+  const [inspection, setInspection] = useState<ViewerInspection>(DEFAULT_INSPECTION);
+  const [geometryStats, setGeometryStats] = useState<GeometryStats | null>(null);
+  const animation = useAnimationControls();
+  const [lighting, setLighting] = useState<ViewerLighting>(DEFAULT_LIGHTING);
+  const [autoRotate, setAutoRotate] = useState(false);
+  const [isTurntableOpen, setIsTurntableOpen] = useState(false);
+  const turntableRef = useRef<TurntableHandle | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(true);
+  const [libraryFilters, setLibraryFilters] = useState<AssetLibraryFilters>({});
+  const projectId = getActiveProjectId();
   const { toast } = useToast();
 
   // Pagination state
@@ -297,28 +217,28 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
 
     try {
       const currentOffset = append ? offset : 0;
-      const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-      const data = await apiFetch<any>(
-        `/api/model-generate-3d/history?limit=${LIMIT}&offset=${currentOffset}${projectIdFromUrl ? `&projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`
-      );
+      const data = await fetchModel3DHistory({ limit: LIMIT, offset: currentOffset, ...libraryFilters });
       // Handle different response structures: items, data, or direct array
-      const rawModels = data.items || data.data || data || [];
+      const rawModels = Array.isArray(data) ? data : data.items || data.data || [];
       
       // Map API response to ModelData format if needed
-      const newModels: ModelData[] = rawModels.map((item: any) => ({
+      const newModels: ModelData[] = rawModels.map((item) => ({
         id: item.id || item._id || String(item.taskId || Date.now()),
         generationType: item.generationType || item.generation_type || item.type || "TEXT_TO_3D",
-        status: item.status || "COMPLETED",
+        status: (item.status || "COMPLETED") as ModelData["status"],
         modelUrl: item.modelUrl || item.model_url || item.modelPath || item.model_path,
         thumbnailUrl: item.thumbnailUrl || item.thumbnail_url || item.thumbnailPath || item.thumbnail_path,
         prompt: item.prompt || item.text || item.description || "",
         creditsUsed: item.creditsUsed || item.credits_used || 0,
         createdAt: item.createdAt || item.created_at || item.timestamp || new Date().toISOString(),
+        tags: item.tags,
+        favorite: item.favorite,
+        collectionIds: item.collectionIds,
       }));
       
       // Check if there are more models to load
       // Use hasMore from API response if available, otherwise check by length
-      const apiHasMore = data.hasMore !== undefined ? data.hasMore : newModels.length === LIMIT;
+      const apiHasMore = !Array.isArray(data) && data.hasMore !== undefined ? data.hasMore : newModels.length === LIMIT;
       
       if (append) {
         setModels(prev => [...prev, ...newModels]);
@@ -349,12 +269,27 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
       setHasMore(true);
       loadModels(false);
     }
-  }, [apiUrl, token, refreshTrigger]);
+  }, [token, refreshTrigger, libraryFilters]);
+
+  // Keep the gallery and the selected model in step with tag / favorite changes
+  const handleModelOrganized = (modelId: string, next: AssetOrganization) => {
+    const update = (model: ModelData) => (model.id === modelId ? { ...model, ...next } : model);
+    setModels(prev => prev.map(update));
+    setInternalSelectedModel(prev => (prev ? update(prev) : prev));
+  };
+
+  // A new thumbnail from a turntable capture or a client-side render
+  const handleModelPreviewChange = (modelId: string, thumbnailUrl: string) => {
+    const update = (model: ModelData) => (model.id === modelId ? { ...model, thumbnailUrl } : model);
+    setModels(prev => prev.map(update));
+    setInternalSelectedModel(prev => (prev ? update(prev) : prev));
+  };
 
   useEffect(() => {
     if (selectedModel?.modelUrl) {
       setLoadError(null);
       setIsModelLoading(true);
+      setGeometryStats(null);
     }
   }, [selectedModel?.modelUrl]);
 
@@ -378,6 +313,7 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
     if (!url) return '.glb';
     if (url.endsWith('.fbx')) return '.fbx';
     if (url.endsWith('.gltf')) return '.gltf';
+    if (url.endsWith('.obj')) return '.obj';
     return '.glb';
   };
 
@@ -419,6 +355,18 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
                       <b>Credits Used:</b> {selectedModel.creditsUsed}
                     </p>
                   )}
+                  {/* Only gallery models have an id to tag; models opened from chat don't */}
+                  {internalSelectedModel?.id && (
+                    <AssetOrganizer
+                      key={internalSelectedModel.id}
+                      assetId={assetIdFor("model_3d", internalSelectedModel.id)}
+                      projectId={projectId}
+                      tags={internalSelectedModel.tags}
+                      favorite={internalSelectedModel.favorite}
+                      collectionIds={internalSelectedModel.collectionIds}
+                      onChange={(next) => handleModelOrganized(internalSelectedModel.id, next)}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -446,8 +394,58 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
                       </div>
                     )}
                     
+                    {/* Inspection modes and geometry counts */}
+                    <InspectionToolbar
+                      inspection={inspection}
+                      onChange={(patch) => setInspection((prev) => ({ ...prev, ...patch }))}
+                      stats={geometryStats}
+                      className="absolute top-4 left-4 z-10"
+                    />
+
+                    {/* Clip browser and playback for rigged models */}
+                    <AnimationControls
+                      playback={animation.playback}
+                      animations={animation.animations}
+                      time={animation.time}
+                      onChange={animation.update}
+                      onSeek={animation.seek}
+                      className="absolute top-4 right-4 z-10 w-[260px]"
+                    />
+
                     {/* Zoom Controls */}
                     <div className="absolute bottom-4 right-4 z-10 bg-background/80 backdrop-blur-sm rounded-lg border border-border shadow-sm flex flex-col gap-1 p-1">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Lighting & environment">
+                            <Sun className="w-4 h-4 text-foreground" />
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent side="left" align="end" className="w-56 p-3">
+                          <LightingPanel
+                            lighting={lighting}
+                            onChange={(patch) => setLighting((prev) => ({ ...prev, ...patch }))}
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <Toggle
+                        size="sm"
+                        className="h-8 w-8 px-0"
+                        pressed={autoRotate}
+                        onPressedChange={setAutoRotate}
+                        title="Turntable"
+                        aria-label="Turntable"
+                      >
+                        <RotateCw className="w-4 h-4 text-foreground" />
+                      </Toggle>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setIsTurntableOpen(true)}
+                        title="Capture turntable"
+                      >
+                        <Film className="w-4 h-4 text-foreground" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -506,28 +504,33 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
 
                     {/* Light Controls */}
                     <div className="absolute bottom-4 left-4 z-10 bg-background/90 backdrop-blur-sm p-2 rounded-lg border border-border shadow-lg space-y-2" style={{ width: '160px' }}>
-                      <div className="space-y-1">
-                        <label className="text-[10px] font-medium text-foreground">Angle X: {lightAngleX[0]}°</label>
-                        <Slider
-                          value={lightAngleX}
-                          onValueChange={setLightAngleX}
-                          min={0}
-                          max={360}
-                          step={5}
-                          className="w-full"
-                        />
-                      </div>
-                      <div className="space-y-1">
-                        <label className="text-[10px] font-medium text-foreground">Angle Y: {lightAngleY[0]}°</label>
-                        <Slider
-                          value={lightAngleY}
-                          onValueChange={setLightAngleY}
-                          min={0}
-                          max={360}
-                          step={5}
-                          className="w-full"
-                        />
-                      </div>
+                      {/* The angles only steer the custom lights; presets bring their own */}
+                      {lighting.preset === "custom" && (
+                        <>
+                          <div className="space-y-1">
+                            <label className="text-[10px] font-medium text-foreground">Angle X: {lightAngleX[0]}°</label>
+                            <Slider
+                              value={lightAngleX}
+                              onValueChange={setLightAngleX}
+                              min={0}
+                              max={360}
+                              step={5}
+                              className="w-full"
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <label className="text-[10px] font-medium text-foreground">Angle Y: {lightAngleY[0]}°</label>
+                            <Slider
+                              value={lightAngleY}
+                              onValueChange={setLightAngleY}
+                              min={0}
+                              max={360}
+                              step={5}
+                              className="w-full"
+                            />
+                          </div>
+                        </>
+                      )}
                       <div className="space-y-1">
                         <label className="text-[10px] font-medium text-foreground">Brightness: {lightIntensity[0]}</label>
                         <Slider
@@ -564,31 +567,36 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
                       </div>
                     </div>
 
+                    <TurntableDialog
+                      open={isTurntableOpen}
+                      onOpenChange={setIsTurntableOpen}
+                      handleRef={turntableRef}
+                      background={bgColor}
+                      baseName={fileStem(selectedModel.prompt)}
+                      storeThumbnail={
+                        internalSelectedModel?.id
+                          ? (image) => storeModelThumbnail("model_3d", internalSelectedModel.id, image)
+                          : undefined
+                      }
+                      onPreviewChange={(previewUrl) => {
+                        if (internalSelectedModel?.id) handleModelPreviewChange(internalSelectedModel.id, previewUrl);
+                      }}
+                    />
+
                     <Canvas shadows style={{ background: bgColor }}>
                       <PerspectiveCamera makeDefault position={[3, cameraHeight[0], 3]} />
-                      <ZoomControls onControlsReady={(controls) => {
+                      <ZoomControls autoRotate={autoRotate} onControlsReady={(controls) => {
                         controlsRef.current = controls;
                       }} />
                       
-                      <ambientLight intensity={0.5} />
-                      <directionalLight 
-                        position={[
-                          10 * Math.cos((lightAngleX[0] * Math.PI) / 180),
-                          10 * Math.sin((lightAngleY[0] * Math.PI) / 180),
-                          10 * Math.sin((lightAngleX[0] * Math.PI) / 180)
-                        ]} 
-                        intensity={lightIntensity[0]} 
-                        castShadow 
-                      />
-                      <directionalLight 
-                        position={[
-                          -10 * Math.cos((lightAngleX[0] * Math.PI) / 180),
-                          -10 * Math.sin((lightAngleY[0] * Math.PI) / 180),
-                          -10 * Math.sin((lightAngleX[0] * Math.PI) / 180)
-                        ]} 
-                        intensity={lightIntensity[0] * 0.4} 
+                      <SceneLighting
+                        lighting={lighting}
+                        brightness={lightIntensity[0]}
+                        angleX={lightAngleX[0]}
+                        angleY={lightAngleY[0]}
                       />
-                      
+                      <TurntableRig handleRef={turntableRef} />
+
                       <Suspense fallback={null}>
                         <Model 
                           key={selectedModel.modelUrl}
@@ -596,6 +604,9 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
                           type={getModelType(selectedModel.modelUrl)} 
                           onError={setLoadError}
                           onLoad={() => setIsModelLoading(false)}
+                          inspection={inspection}
+                          onStats={setGeometryStats}
+                          animation={animation.binding}
                         />
                       </Suspense>
                       
@@ -620,8 +631,9 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
         {/* Generated Models Panel */}
         <ResizablePanel defaultSize={40} minSize={20}>
           <div className="h-full flex flex-col bg-background">
-            <div className="px-3 pt-3 pb-2 shrink-0">
+            <div className="px-3 pt-3 pb-2 shrink-0 space-y-2">
               <h3 className="text-base font-semibold">Generated models</h3>
+              <AssetLibraryFilter value={libraryFilters} onChange={setLibraryFilters} projectId={projectId} />
             </div>
             <ScrollArea className="h-full px-3 flex-1">
               <div className="pb-3">
@@ -654,25 +666,26 @@ const ModelViewer = ({ apiUrl, selectedModel: externalSelectedModel, refreshTrig
                         }}
                       >
                         <div className="relative">
-                          {model.thumbnailUrl ? (
-                            <div className="aspect-square overflow-hidden bg-muted/20 relative rounded-t-md">
-                              <img 
-                                src={model.thumbnailUrl} 
-                                alt={model.prompt}
-                                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                                loading="lazy"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).src = "/placeholder.svg";
-                                }}
-                              />
-                            </div>
-                          ) : (
-                            <div className="aspect-square bg-muted rounded-t-md flex items-center justify-center">
-                              <span className="text-xs font-medium text-muted-foreground">
-                                {getModelType(model.modelUrl).toUpperCase()}
-                              </span>
-                            </div>
-                          )}
+                          {/* Models without a server thumbnail get one rendered and saved back */}
+                          <ModelThumbnail
+                            thumbnailUrl={model.thumbnailUrl}
+                            alt={model.prompt}
+                            className="aspect-square overflow-hidden bg-muted/20 relative rounded-t-md"
+                            imageClassName="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                            thumbnailKey={assetIdFor("model_3d", model.id)}
+                            resolveSource={async () =>
+                              model.modelUrl ? { url: model.modelUrl, type: getModelType(model.modelUrl) } : null
+                            }
+                            persist={(image) => storeModelThumbnail("model_3d", model.id, image)}
+                            onStored={(thumbnailUrl) => handleModelPreviewChange(model.id, thumbnailUrl)}
+                            fallback={
+                              <div className="w-full h-full bg-muted flex items-center justify-center">
+                                <span className="text-xs font-medium text-muted-foreground">
+                                  {getModelType(model.modelUrl).toUpperCase()}
+                                </span>
+                              </div>
+                            }
+                          />
                           {/* Download button - prominent on hover */}
                           <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity z-20">
                             <Button
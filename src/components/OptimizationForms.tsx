@@ -3,7 +3,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar, Upload, Download, CheckCircle, Loader2 } from "lucide-react";
+import { Calendar, Upload, Download, CheckCircle, Loader2, Box } from "lucide-react";
+import { ModelUploadStatus } from "./ModelUploadStatus";
+import { ModelPreview } from "./viewer/ModelPreview";
+import type { ModelUploadProgress } from "@/utils/modelUploader";
 
 export interface ModelInfo {
   id: number;
@@ -34,9 +37,19 @@ interface ModelSelectionFormProps {
   onUploadNew: () => void;
   isUploading?: boolean;
   isDisabled?: boolean;
+  uploadProgress?: ModelUploadProgress;
+  onCancelUpload?: () => void;
 }
 
-export const ModelSelectionForm = ({ models, onModelSelect, onUploadNew, isUploading = false, isDisabled = false }: ModelSelectionFormProps) => {
+export const ModelSelectionForm = ({
+  models,
+  onModelSelect,
+  onUploadNew,
+  isUploading = false,
+  isDisabled = false,
+  uploadProgress,
+  onCancelUpload,
+}: ModelSelectionFormProps) => {
   const [selectedModel, setSelectedModel] = useState<number | null>(null);
   const [confirmedModelId, setConfirmedModelId] = useState<number | null>(null);
 
@@ -88,7 +101,9 @@ export const ModelSelectionForm = ({ models, onModelSelect, onUploadNew, isUploa
           </Card>
         ))}
       </div>
-      
+
+      {uploadProgress && <ModelUploadStatus progress={uploadProgress} onCancel={onCancelUpload} />}
+
       <div className="flex gap-2">
         <Button
           onClick={handleConfirm}
@@ -287,6 +302,14 @@ interface OptimizedModelCardProps {
 }
 
 export const OptimizedModelCard = ({ preset_name, optimization_status, name, downloads }: OptimizedModelCardProps) => {
+  const [showPreview, setShowPreview] = useState(false);
+  // The browser limits live WebGL contexts, so a card only opens its viewer when asked to
+  const preview = downloads.glb
+    ? { url: downloads.glb, type: ".glb" as const }
+    : downloads.fbx
+      ? { url: downloads.fbx, type: ".fbx" as const }
+      : null;
+
   const handleDownload = (url: string, filename: string) => {
     window.open(url, '_blank');
   };
@@ -295,7 +318,19 @@ export const OptimizedModelCard = ({ preset_name, optimization_status, name, dow
     <div className="p-3 bg-background border border-border rounded-lg space-y-3">
       <h4 className="text-foreground font-medium text-sm">{preset_name}</h4>
       <p className="text-muted-foreground text-xs">Status: {optimization_status}</p>
+      {preview && showPreview && <ModelPreview url={preview.url} type={preview.type} />}
       <div className="flex gap-2 flex-wrap">
+        {preview && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowPreview((open) => !open)}
+            className="border-black/20 text-black hover:bg-black/10 bg-transparent"
+          >
+            <Box className="h-3 w-3 mr-1" />
+            {showPreview ? "Hide preview" : "Preview"}
+          </Button>
+        )}
         {downloads.glb && (
           <Button
             size="sm"
@@ -4,6 +4,14 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, CheckCircle2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  fetchAssociatedModels,
+  fetchInProgressOptimizationJobs,
+  fetchOptimizationModels,
+  fetchOptimizationPresets,
+  optimizeModel,
+} from "@/lib/backend";
+import type { InProgressOptimizationJob, PresetOption } from "@/types/backend.types";
 
 interface Model {
   id: number;
@@ -12,25 +20,12 @@ interface Model {
   creationDate: string;
 }
 
-interface OptimizationPreset {
-  id: string;
-  text: string;
-}
-
 interface OptimizationInlineFormProps {
-  apiUrl: string;
-  authToken: string | null;
   onOptimizationStart: () => void;
   onOptimizationComplete: (result: any) => void;
   onOptimizationError: (error: string) => void;
 }
 
-interface RunningJob {
-  optimize_id: number;
-  asset_id: number | null;
-  preset_id: number | null;
-}
-
 interface PollResult {
   optimize_id: number | null;
   asset_id: number;
@@ -40,8 +35,6 @@ interface PollResult {
 const OPTIMIZATION_TYPES = ["Simple", "Batch", "Hard Surface", "Foliage", "Animated"];
 
 export const OptimizationInlineForm = ({
-  apiUrl,
-  authToken,
   onOptimizationStart,
   onOptimizationComplete,
   onOptimizationError
@@ -52,7 +45,7 @@ export const OptimizationInlineForm = ({
   const [optimizationStrength, setOptimizationStrength] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingModels, setIsFetchingModels] = useState(true);
-  const [presets, setPresets] = useState<Record<string, OptimizationPreset[]>>({});
+  const [presets, setPresets] = useState<Record<string, PresetOption[]>>({});
   const [pollingStatus, setPollingStatus] = useState<string>("");
   const [optimizationSuccess, setOptimizationSuccess] = useState(false);
 
@@ -64,17 +57,8 @@ export const OptimizationInlineForm = ({
   const fetchModels = async () => {
     try {
       setIsFetchingModels(true);
-      const response = await fetch(`${apiUrl}/api/model-optimization/models`, {
-        headers: {
-          "Authorization": `Bearer ${authToken}`,
-          "Content-Type": "application/json"
-        }
-      });
-
-      if (!response.ok) throw new Error("Failed to fetch models");
-
-      const data = await response.json();
-      setModels(data.models || []);
+      const data = await fetchOptimizationModels();
+      setModels((data.models || []) as unknown as Model[]);
     } catch (error) {
       console.error("Error fetching models:", error);
     } finally {
@@ -84,34 +68,16 @@ export const OptimizationInlineForm = ({
 
   const fetchPresets = async () => {
     try {
-      const response = await fetch(`${apiUrl}/api/model-optimization/presets`, {
-        headers: {
-          "Authorization": `Bearer ${authToken}`,
-          "Content-Type": "application/json"
-        }
-      });
-
-      if (!response.ok) throw new Error("Failed to fetch presets");
-
-      const data = await response.json();
+      const data = await fetchOptimizationPresets();
       setPresets(data.presets || {});
     } catch (error) {
       console.error("Error fetching presets:", error);
     }
   };
 
-  const fetchRunningJobs = async (): Promise<RunningJob[]> => {
+  const fetchRunningJobs = async (): Promise<InProgressOptimizationJob[]> => {
     try {
-      const response = await fetch(`${apiUrl}/api/model-optimization/jobs/running`, {
-        headers: {
-          "Authorization": `Bearer ${authToken}`,
-          "Content-Type": "application/json"
-        }
-      });
-
-      if (!response.ok) throw new Error("Failed to fetch running jobs");
-
-      const data = await response.json();
+      const data = await fetchInProgressOptimizationJobs();
       return data.jobs || [];
     } catch (error) {
       console.error("Error fetching running jobs:", error);
@@ -184,27 +150,11 @@ export const OptimizationInlineForm = ({
 
     try {
       // Step 1: Start optimization
-      const response = await fetch(`${apiUrl}/api/model-optimization/optimize/single`, {
-        method: 'POST',
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${authToken}`
-        },
-        body: JSON.stringify({
-          model_id: selectedModel,
-          config: {
-            preset_id: optimizationStrength,
-            exportName: `optimized_${Date.now()}`
-          }
-        })
+      await optimizeModel({
+        modelId: selectedModel,
+        presetId: optimizationStrength,
+        exportName: `optimized_${Date.now()}`
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || "Optimization failed");
-      }
-
-      const optimizationData = await response.json();
       setPollingStatus("Optimization job submitted successfully!");
 
       // Step 2: Poll until complete
@@ -214,16 +164,7 @@ export const OptimizationInlineForm = ({
       await pollUntilComplete(assetId, presetId);
 
       // Step 3: Fetch the optimized model result
-      const resultResponse = await fetch(`${apiUrl}/api/model-optimization/models/${selectedModel}/associated`, {
-        headers: {
-          "Authorization": `Bearer ${authToken}`,
-          "Content-Type": "application/json"
-        }
-      });
-
-      if (!resultResponse.ok) throw new Error("Failed to fetch optimization result");
-
-      const resultData = await resultResponse.json();
+      const resultData = await fetchAssociatedModels(selectedModel);
 
       if (resultData.models && resultData.models.length > 0) {
         setPollingStatus("Success! Model optimized and ready.");
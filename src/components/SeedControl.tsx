@@ -0,0 +1,66 @@
+import { Dices, Lock, LockOpen } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_SEED, randomSeed } from "./chat/utils";
+
+interface SeedControlProps {
+  // Undefined means a new random seed for every generation
+  value?: number;
+  onChange: (seed: number | undefined) => void;
+  // Without the lock there is always a seed; only its value can change
+  lockable?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Seed field with a lock: locked keeps the same seed across generations so a composition can be
+ * iterated on, unlocked lets every generation pick its own
+ */
+export const SeedControl = ({ value, onChange, lockable = true, disabled, className }: SeedControlProps) => {
+  const isLocked = value !== undefined;
+
+  const handleInput = (raw: string) => {
+    const digits = raw.replace(/\D/g, "");
+    if (!digits) {
+      onChange(lockable ? undefined : 0);
+      return;
+    }
+    onChange(Math.min(Number(digits), MAX_SEED));
+  };
+
+  return (
+    <div className={cn("flex items-center rounded-lg border border-border overflow-hidden", className)}>
+      {lockable && (
+        <button
+          type="button"
+          onClick={() => onChange(isLocked ? undefined : randomSeed())}
+          disabled={disabled}
+          className={cn(
+            "px-2 py-1 transition-colors disabled:opacity-50",
+            isLocked ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+          )}
+          title={isLocked ? "Seed locked: click to use a random seed each time" : "Lock a seed to reproduce results"}
+        >
+          {isLocked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+        </button>
+      )}
+      <input
+        value={value ?? ""}
+        inputMode="numeric"
+        disabled={disabled}
+        placeholder="Random seed"
+        onChange={(e) => handleInput(e.target.value)}
+        className="w-[96px] px-2 py-1 text-[11px] bg-transparent text-foreground placeholder:text-muted-foreground focus:outline-none disabled:opacity-50"
+      />
+      <button
+        type="button"
+        onClick={() => onChange(randomSeed())}
+        disabled={disabled}
+        className="px-2 py-1 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+        title="New random seed"
+      >
+        <Dices className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { RefreshCw, ImageIcon, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogClose, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { fetchImageGenerationHistory } from "@/lib/backend";
 
 interface ThumbnailGalleryProps {
   apiUrl: string;
@@ -29,23 +30,9 @@ const ThumbnailGallery = ({ apiUrl, onThumbnailClick }: ThumbnailGalleryProps) =
         return;
       }
 
-      const backendUrl = import.meta.env.VITE_API_BACKEND_URL;
-      const response = await fetch(
-        `${backendUrl}/api/image-generation/history?limit=6&offset=0`,
-        {
-          method: "GET",
-          headers: {
-            "accept": "*/*",
-            "Authorization": `Bearer ${authToken}`,
-          },
-        }
-      );
-      
-      if (!response.ok) throw new Error("Failed to load image history");
-      
-      const data = await response.json();
+      const data = await fetchImageGenerationHistory({ limit: 6, offset: 0 });
       // Extract image URLs from the response
-      const imageUrls = data.map((item: any) => item.img_url || item.image_url || item.path).filter(Boolean);
+      const imageUrls = (data.data || []).map((item) => item.img_url || item.imagePath).filter(Boolean);
       setThumbnails(imageUrls);
     } catch (error) {
       console.error("Error loading image history:", error);
@@ -1,6 +1,19 @@
-import { AlertCircle, CheckCircle2, Clock, Zap } from 'lucide-react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  Clock,
+  FastForward,
+  Loader2,
+  RotateCcw,
+  SkipForward,
+  XCircle,
+  Zap,
+} from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import type { ChainTaskState, ChainTaskStatus } from '@/utils/workflowChainHandler';
 
 interface WorkflowProgressDisplayProps {
   chainId: string;
@@ -9,8 +22,36 @@ interface WorkflowProgressDisplayProps {
   currentStatus?: string;
   isLoading?: boolean;
   error?: string | null;
+  tasks?: ChainTaskState[];
+  // Task number whose retry request is in flight
+  retryingTask?: number | null;
+  onRetryTask?: (taskNumber: number) => void;
+  onContinueFrom?: (taskNumber: number) => void;
 }
 
+const TASK_STATUS_LABELS: Record<ChainTaskStatus, string> = {
+  pending: 'Pending',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+const TaskStatusIcon = ({ status }: { status: ChainTaskStatus }) => {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 text-amber-500 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    case 'skipped':
+      return <SkipForward className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground/50" />;
+  }
+};
+
 export const WorkflowProgressDisplay = ({
   chainId,
   totalTasks,
@@ -18,10 +59,15 @@ export const WorkflowProgressDisplay = ({
   currentStatus = 'Initializing workflow...',
   isLoading = true,
   error = null,
+  tasks = [],
+  retryingTask = null,
+  onRetryTask,
+  onContinueFrom,
 }: WorkflowProgressDisplayProps) => {
   const progressPercent = totalTasks > 0 ? (currentTask / totalTasks) * 100 : 0;
+  const hasFailedTask = tasks.some((task) => task.status === 'failed');
 
-  if (error) {
+  if (error && tasks.length === 0) {
     return (
       <Alert variant="destructive" className="mb-4">
         <AlertCircle className="h-4 w-4" />
@@ -37,6 +83,8 @@ export const WorkflowProgressDisplay = ({
         <div className="flex items-center gap-2">
           {isLoading ? (
             <Zap className="h-5 w-5 text-amber-500 animate-pulse" />
+          ) : hasFailedTask ? (
+            <AlertCircle className="h-5 w-5 text-destructive" />
           ) : (
             <CheckCircle2 className="h-5 w-5 text-green-500" />
           )}
@@ -56,11 +104,71 @@ export const WorkflowProgressDisplay = ({
           <span>{Math.round(progressPercent)}% complete</span>
           <span className="flex items-center gap-1">
             <Clock className="h-3 w-3" />
-            Processing...
+            {hasFailedTask && !isLoading ? 'Stopped' : 'Processing...'}
           </span>
         </div>
       </div>
 
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Per-task status */}
+      {tasks.length > 0 && (
+        <ul className="space-y-1.5">
+          {tasks.map((task) => (
+            <li key={task.task_number} className="rounded bg-background/50 px-2 py-1.5 text-xs">
+              <div className="flex items-center gap-2">
+                <TaskStatusIcon status={task.status} />
+                <span className="font-medium text-foreground">Task {task.task_number}</span>
+                <span className="flex-1 truncate text-muted-foreground">
+                  {task.prompt || task.task_type?.replace(/_/g, ' ') || ''}
+                </span>
+                <span className="text-muted-foreground">{TASK_STATUS_LABELS[task.status]}</span>
+              </div>
+              {task.status === 'failed' && (
+                <div className="mt-1.5 space-y-1.5 pl-6">
+                  {task.error && <p className="text-destructive">{task.error}</p>}
+                  <div className="flex gap-2">
+                    {onRetryTask && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        disabled={retryingTask !== null}
+                        onClick={() => onRetryTask(task.task_number)}
+                      >
+                        {retryingTask === task.task_number ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                        )}
+                        Retry this task
+                      </Button>
+                    )}
+                    {onContinueFrom && task.task_number < totalTasks && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        disabled={retryingTask !== null}
+                        onClick={() => onContinueFrom(task.task_number)}
+                      >
+                        <FastForward className="h-3 w-3 mr-1" />
+                        Continue from here
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Task Counter - Commented out per user request */}
       {/* <div className="grid grid-cols-3 gap-2 text-xs">
         <div className="p-2 rounded bg-background/50 text-center">
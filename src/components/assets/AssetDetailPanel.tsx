@@ -0,0 +1,124 @@
+import { format } from "date-fns";
+import { Download, ExternalLink, GitBranch, MessageSquare, Trash2 } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { AssetRecord } from "@/types/backend.types";
+import { ASSET_KINDS, assetTitle, isModelAsset } from "./assetActions";
+import { AssetOrganizer } from "./AssetOrganizer";
+
+interface AssetDetailPanelProps {
+  asset: AssetRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onDownload: (asset: AssetRecord) => void;
+  onSendToChat: (asset: AssetRecord) => void;
+  onShowLineage: (asset: AssetRecord) => void;
+  onDelete: (asset: AssetRecord) => void;
+}
+
+const DetailRow = ({ label, value }: { label: string; value?: string | number | null }) =>
+  value === undefined || value === null || value === "" ? null : (
+    <div className="flex items-start justify-between gap-4 py-1.5 border-b border-border/50 text-xs">
+      <span className="text-muted-foreground shrink-0">{label}</span>
+      <span className="text-foreground text-right break-words min-w-0">{value}</span>
+    </div>
+  );
+
+/**
+ * Details of one asset, whatever history it came from
+ */
+export const AssetDetailPanel = ({
+  asset,
+  onOpenChange,
+  onDownload,
+  onSendToChat,
+  onShowLineage,
+  onDelete,
+}: AssetDetailPanelProps) => {
+  const kind = asset ? ASSET_KINDS[asset.kind] : null;
+  const KindIcon = kind?.icon;
+
+  return (
+    <Sheet open={!!asset} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {asset && kind && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6 line-clamp-2">{assetTitle(asset)}</SheetTitle>
+              <SheetDescription className="flex items-center gap-1.5">
+                {KindIcon && <KindIcon className="w-3.5 h-3.5" />} {kind.label}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-4 rounded-lg bg-secondary overflow-hidden aspect-square flex items-center justify-center">
+              {asset.previewUrl ? (
+                <img src={asset.previewUrl} alt={assetTitle(asset)} className="w-full h-full object-contain" />
+              ) : (
+                KindIcon && <KindIcon className="w-10 h-10 text-muted-foreground" />
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <button
+                onClick={() => onDownload(asset)}
+                disabled={!asset.fileUrl}
+                className="flex items-center gap-1.5 text-xs font-medium text-primary disabled:opacity-50"
+              >
+                <Download className="w-3 h-3" /> Download
+              </button>
+              <button
+                onClick={() => onSendToChat(asset)}
+                disabled={!asset.fileUrl}
+                className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+              >
+                <MessageSquare className="w-3 h-3" /> Send to chat
+              </button>
+              <button
+                onClick={() => onShowLineage(asset)}
+                className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+              >
+                <GitBranch className="w-3 h-3" /> Lineage
+              </button>
+              {asset.fileUrl && (
+                <a
+                  href={asset.fileUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                >
+                  <ExternalLink className="w-3 h-3" /> Open {isModelAsset(asset) ? "file" : "full size"}
+                </a>
+              )}
+              <button
+                onClick={() => onDelete(asset)}
+                className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            </div>
+
+            <div className="mt-6">
+              {asset.prompt && asset.prompt !== asset.title && (
+                <p className="text-xs text-foreground whitespace-pre-wrap mb-4">{asset.prompt}</p>
+              )}
+              <DetailRow label="Model" value={asset.modelName} />
+              <DetailRow label="Seed" value={asset.seed} />
+              <DetailRow label="Project" value={asset.projectName} />
+              <DetailRow label="Created by" value={asset.creator?.name || asset.creator?.email} />
+              <DetailRow label="Created" value={format(new Date(asset.createdAt), "PPp")} />
+              <DetailRow label="Credits used" value={asset.creditsUsed} />
+            </div>
+
+            <AssetOrganizer
+              key={asset.id}
+              className="mt-6"
+              assetId={asset.id}
+              projectId={asset.projectId}
+              tags={asset.tags}
+              favorite={asset.favorite}
+              collectionIds={asset.collectionIds}
+            />
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
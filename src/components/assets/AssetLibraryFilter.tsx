@@ -0,0 +1,92 @@
+import { useEffect, useId, useState } from "react";
+import { Star, X } from "lucide-react";
+import { useCollections } from "@/hooks/use-collections";
+import { cn } from "@/lib/utils";
+import type { AssetLibraryFilters } from "@/types/backend.types";
+
+interface AssetLibraryFilterProps {
+  value: AssetLibraryFilters;
+  onChange: (next: AssetLibraryFilters) => void;
+  // Collections are listed for this project only
+  projectId?: string | null;
+  // Known tags, offered as suggestions
+  tags?: string[];
+  className?: string;
+}
+
+const hasLibraryFilters = ({ tag, collectionId, favorite }: AssetLibraryFilters) =>
+  !!tag || !!collectionId || !!favorite;
+
+/**
+ * Favorites / tag / collection filter shared by the asset grids
+ */
+export const AssetLibraryFilter = ({ value, onChange, projectId, tags = [], className }: AssetLibraryFilterProps) => {
+  const { data: collections = [] } = useCollections(projectId);
+  const [tagInput, setTagInput] = useState(value.tag ?? "");
+  const listId = useId();
+
+  useEffect(() => {
+    setTagInput(value.tag ?? "");
+  }, [value.tag]);
+
+  const applyTag = () => {
+    const tag = tagInput.trim().toLowerCase() || undefined;
+    if (tag !== value.tag) onChange({ ...value, tag });
+  };
+
+  const fieldClass =
+    "px-2.5 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <button
+        onClick={() => onChange({ ...value, favorite: value.favorite ? undefined : true })}
+        className={cn(
+          "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-lg border transition-colors",
+          value.favorite
+            ? "border-amber-500/60 bg-amber-500/10 text-amber-500"
+            : "border-border bg-secondary text-muted-foreground hover:text-foreground"
+        )}
+      >
+        <Star className={cn("w-3 h-3", value.favorite && "fill-current")} /> Favorites
+      </button>
+      <input
+        value={tagInput}
+        list={listId}
+        onChange={(e) => setTagInput(e.target.value)}
+        onBlur={applyTag}
+        onKeyDown={(e) => e.key === "Enter" && applyTag()}
+        placeholder="Tag…"
+        className={cn(fieldClass, "w-28")}
+      />
+      <datalist id={listId}>
+        {tags.map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+      {projectId && (
+        <select
+          value={value.collectionId ?? ""}
+          onChange={(e) => onChange({ ...value, collectionId: e.target.value || undefined })}
+          className={cn(fieldClass, "max-w-[160px]")}
+        >
+          <option value="">All collections</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+              {collection.assetCount !== undefined && ` (${collection.assetCount})`}
+            </option>
+          ))}
+        </select>
+      )}
+      {hasLibraryFilters(value) && (
+        <button
+          onClick={() => onChange({})}
+          className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+        >
+          <X className="w-3 h-3" /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { FolderPlus, Loader2, Star, X } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCollections } from "@/hooks/use-collections";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addAssetsToCollection,
+  createCollection,
+  removeAssetsFromCollection,
+  updateAsset,
+} from "@/lib/backend";
+import { cn } from "@/lib/utils";
+import { normalizeTags } from "./assetActions";
+
+export interface AssetOrganization {
+  tags: string[];
+  favorite: boolean;
+  collectionIds: string[];
+}
+
+interface AssetOrganizerProps extends Partial<AssetOrganization> {
+  assetId: string;
+  // Collections are per project; without one only tags and favorites are offered
+  projectId?: string | null;
+  onChange?: (next: AssetOrganization) => void;
+  className?: string;
+}
+
+/**
+ * Favorite star, tag editor and collection membership for one asset. Each change is saved
+ * right away.
+ */
+export const AssetOrganizer = ({
+  assetId,
+  projectId,
+  tags: initialTags = [],
+  favorite: initialFavorite = false,
+  collectionIds: initialCollectionIds = [],
+  onChange,
+  className,
+}: AssetOrganizerProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: collections = [] } = useCollections(projectId);
+
+  const [state, setState] = useState<AssetOrganization>({
+    tags: initialTags,
+    favorite: initialFavorite,
+    collectionIds: initialCollectionIds,
+  });
+  const [tagInput, setTagInput] = useState("");
+  const [newCollection, setNewCollection] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Applies a change optimistically and rolls it back if saving fails
+  const save = async (next: AssetOrganization, persist: () => Promise<unknown>, failure: string) => {
+    const previous = state;
+    setState(next);
+    setIsSaving(true);
+    try {
+      await persist();
+      onChange?.(next);
+      queryClient.invalidateQueries({ queryKey: ["assets"] });
+    } catch (error) {
+      console.error("Error organizing asset:", error);
+      setState(previous);
+      toast({ title: "Not saved", description: failure, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setTags = (tags: string[]) =>
+    save({ ...state, tags }, () => updateAsset(assetId, { tags }), "Could not update the tags");
+
+  const addTags = () => {
+    const tags = normalizeTags([...state.tags, ...tagInput.split(",")]);
+    setTagInput("");
+    if (tags.length !== state.tags.length) setTags(tags);
+  };
+
+  const toggleFavorite = () =>
+    save(
+      { ...state, favorite: !state.favorite },
+      () => updateAsset(assetId, { favorite: !state.favorite }),
+      "Could not update favorites"
+    );
+
+  const toggleCollection = (collectionId: string) => {
+    const isMember = state.collectionIds.includes(collectionId);
+    save(
+      {
+        ...state,
+        collectionIds: isMember
+          ? state.collectionIds.filter((id) => id !== collectionId)
+          : [...state.collectionIds, collectionId],
+      },
+      () =>
+        isMember ? removeAssetsFromCollection(collectionId, [assetId]) : addAssetsToCollection(collectionId, [assetId]),
+      "Could not update the collection"
+    ).then(() => queryClient.invalidateQueries({ queryKey: ["collections", projectId ?? "none"] }));
+  };
+
+  const handleCreateCollection = async () => {
+    const name = newCollection.trim();
+    if (!name || !projectId) return;
+    setIsSaving(true);
+    try {
+      const collection = await createCollection(name, projectId);
+      await addAssetsToCollection(collection.id, [assetId]);
+      const next = { ...state, collectionIds: [...state.collectionIds, collection.id] };
+      setState(next);
+      setNewCollection("");
+      onChange?.(next);
+      queryClient.invalidateQueries({ queryKey: ["collections", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["assets"] });
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      toast({ title: "Not saved", description: "Could not create the collection", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass =
+    "flex-1 min-w-0 px-2 py-1 text-xs bg-secondary border border-border rounded-md text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={toggleFavorite}
+          disabled={isSaving}
+          className={cn(
+            "flex items-center gap-1.5 text-xs font-medium transition-colors disabled:opacity-50",
+            state.favorite ? "text-amber-500" : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          <Star className={cn("w-3.5 h-3.5", state.favorite && "fill-current")} />
+          {state.favorite ? "Favorite" : "Add to favorites"}
+        </button>
+        {isSaving && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+      </div>
+
+      {/* Tags */}
+      <div className="space-y-1.5">
+        <span className="text-[11px] font-medium text-muted-foreground">Tags</span>
+        {state.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {state.tags.map((tag) => (
+              <span
+                key={tag}
+                className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded bg-secondary text-foreground"
+              >
+                {tag}
+                <button
+                  onClick={() => setTags(state.tags.filter((t) => t !== tag))}
+                  disabled={isSaving}
+                  className="text-muted-foreground hover:text-foreground"
+                  title={`Remove ${tag}`}
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex gap-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addTags();
+          }}
+        >
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Add tags, comma separated"
+            className={fieldClass}
+          />
+          <button
+            type="submit"
+            disabled={!tagInput.trim() || isSaving}
+            className="px-2 text-xs font-medium text-primary disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+
+      {/* Collections */}
+      {projectId && (
+        <div className="space-y-1.5">
+          <span className="text-[11px] font-medium text-muted-foreground">Collections</span>
+          {collections.map((collection) => (
+            <label key={collection.id} className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={state.collectionIds.includes(collection.id)}
+                disabled={isSaving}
+                onChange={() => toggleCollection(collection.id)}
+                className="accent-primary"
+              />
+              {collection.name}
+            </label>
+          ))}
+          <form
+            className="flex gap-1.5"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreateCollection();
+            }}
+          >
+            <input
+              value={newCollection}
+              onChange={(e) => setNewCollection(e.target.value)}
+              placeholder="New collection, e.g. Act 1 props"
+              className={fieldClass}
+            />
+            <button
+              type="submit"
+              disabled={!newCollection.trim() || isSaving}
+              className="flex items-center gap-1 px-2 text-xs font-medium text-primary disabled:opacity-50"
+            >
+              <FolderPlus className="w-3 h-3" /> Create
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Check, FolderOpen, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useAssets } from "@/hooks/use-assets";
+import { cn } from "@/lib/utils";
+import type { AssetKind, AssetLibraryFilters, AssetRecord } from "@/types/backend.types";
+import { AssetLibraryFilter } from "./AssetLibraryFilter";
+import { ASSET_KINDS, assetTitle } from "./assetActions";
+
+const PICKER_PAGE_SIZE = 30;
+
+interface AssetPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPick: (assets: AssetRecord[]) => void;
+  kinds: AssetKind[];
+  // Collections are listed for this project
+  projectId?: string | null;
+  max?: number;
+  title?: string;
+}
+
+/**
+ * Picks assets from the library, narrowed by tag, collection or favorites, as inputs for a chat
+ * or a workflow step
+ */
+export const AssetPickerDialog = ({
+  open,
+  onOpenChange,
+  onPick,
+  kinds,
+  projectId,
+  max = 1,
+  title = "Choose from assets",
+}: AssetPickerDialogProps) => {
+  const [filters, setFilters] = useState<AssetLibraryFilters>({});
+  const [selected, setSelected] = useState<AssetRecord[]>([]);
+
+  const { data, isLoading } = useAssets(
+    { ...filters, kind: kinds, limit: PICKER_PAGE_SIZE },
+    open
+  );
+  const assets = (data?.data ?? []).filter((asset) => asset.fileUrl);
+
+  useEffect(() => {
+    if (open) setSelected([]);
+  }, [open]);
+
+  const toggle = (asset: AssetRecord) => {
+    setSelected((prev) => {
+      if (prev.some((item) => item.id === asset.id)) return prev.filter((item) => item.id !== asset.id);
+      if (max === 1) return [asset];
+      return prev.length < max ? [...prev, asset] : prev;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {max === 1 ? "Select one asset." : `Select up to ${max} assets.`} Filter by tag, collection or favorites.
+          </DialogDescription>
+        </DialogHeader>
+
+        <AssetLibraryFilter value={filters} onChange={setFilters} projectId={projectId} tags={data?.facets?.tags} />
+
+        <div className="h-[360px] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : assets.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-center">
+              <FolderOpen className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">No assets match.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+              {assets.map((asset) => {
+                const isSelected = selected.some((item) => item.id === asset.id);
+                const KindIcon = ASSET_KINDS[asset.kind].icon;
+                return (
+                  <button
+                    key={asset.id}
+                    onClick={() => toggle(asset)}
+                    title={assetTitle(asset)}
+                    className={cn(
+                      "relative aspect-square rounded-lg border-2 overflow-hidden bg-secondary flex items-center justify-center",
+                      isSelected ? "border-primary" : "border-transparent hover:border-primary/40"
+                    )}
+                  >
+                    {asset.previewUrl ? (
+                      <img src={asset.previewUrl} alt={assetTitle(asset)} loading="lazy" className="w-full h-full object-cover" />
+                    ) : (
+                      <KindIcon className="w-6 h-6 text-muted-foreground" />
+                    )}
+                    {isSelected && (
+                      <span className="absolute top-1 right-1 w-4 h-4 rounded bg-primary text-primary-foreground flex items-center justify-center">
+                        <Check className="w-3 h-3" />
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onPick(selected)} disabled={selected.length === 0}>
+            Use {selected.length > 1 ? `${selected.length} assets` : "asset"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,127 @@
+import { zipSync } from "fflate";
+import { Box, Boxes, Image, Wand2, type LucideIcon } from "lucide-react";
+import {
+  fetchModelDownloadUrl,
+  updateModel3DThumbnail,
+  updateOptimizationModelThumbnail,
+  uploadImage,
+} from "@/lib/backend";
+import type { AssetKind, AssetRecord } from "@/types/backend.types";
+
+export const ASSET_KINDS: Record<AssetKind, { label: string; icon: LucideIcon }> = {
+  image: { label: "Image", icon: Image },
+  edit: { label: "Edit", icon: Wand2 },
+  model_3d: { label: "3D model", icon: Box },
+  optimized_model: { label: "Optimized model", icon: Boxes },
+};
+
+// Histories (ImageViewer, ModelViewer) know a record's own id; the asset index keys it by kind too
+export const assetIdFor = (kind: AssetKind, sourceId: string | number) => `${kind}:${sourceId}`;
+
+// Tags as typed by the user: trimmed, lower-case, no duplicates
+export const normalizeTags = (tags: string[]) => [
+  ...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
+
+export const isModelAsset = (asset: Pick<AssetRecord, "kind">) =>
+  asset.kind === "model_3d" || asset.kind === "optimized_model";
+
+export const assetTitle = (asset: AssetRecord) => asset.title || asset.prompt || ASSET_KINDS[asset.kind].label;
+
+// ============================================
+// THUMBNAIL
+// ============================================
+
+/**
+ * Uploads a model thumbnail to the history the model is listed from: the 3D history for generated
+ * models, the optimization service for uploaded models and their optimized versions. Returns the
+ * stored image's URL.
+ */
+export async function storeModelThumbnail(
+  kind: Extract<AssetKind, "model_3d" | "optimized_model">,
+  sourceId: string | number,
+  image: File
+): Promise<string> {
+  const uploaded = await uploadImage(image);
+  if (!uploaded.success || !uploaded.url) throw new Error("Thumbnail upload failed");
+  if (kind === "model_3d") await updateModel3DThumbnail(String(sourceId), uploaded.url);
+  else await updateOptimizationModelThumbnail(String(sourceId), uploaded.url);
+  return uploaded.url;
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+const fileNameFor = (asset: AssetRecord, index: number) => {
+  const stem = assetTitle(asset).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || asset.kind;
+  const extension = asset.fileUrl?.split("?")[0].match(/\.([a-z0-9]{2,4})$/i)?.[1].toLowerCase() ?? (isModelAsset(asset) ? "glb" : "png");
+  return `${String(index + 1).padStart(3, "0")}-${stem}.${extension}`;
+};
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads one asset as-is, or several as a zip. Returns the assets that couldn't be fetched;
+ * throws when none could.
+ */
+export async function downloadAssets(assets: AssetRecord[]): Promise<AssetRecord[]> {
+  const failed: AssetRecord[] = [];
+  const entries: Record<string, Uint8Array> = {};
+
+  for (const [index, asset] of assets.entries()) {
+    try {
+      // Uploaded models are listed without a file URL; sign one for the download
+      const fileUrl =
+        asset.fileUrl ?? (asset.kind === "optimized_model" ? (await fetchModelDownloadUrl(asset.sourceId)).url : undefined);
+      if (!fileUrl) throw new Error("The asset has no file");
+      const res = await fetch(fileUrl);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      entries[fileNameFor(asset, index)] = new Uint8Array(await res.arrayBuffer());
+    } catch (error) {
+      console.error(`Could not download asset ${asset.id}:`, error);
+      failed.push(asset);
+    }
+  }
+
+  const names = Object.keys(entries);
+  if (names.length === 0) throw new Error("None of the selected assets could be downloaded.");
+  if (names.length === 1) {
+    saveBlob(new Blob([entries[names[0]]]), names[0].replace(/^\d+-/, ""));
+  } else {
+    saveBlob(new Blob([zipSync(entries, { level: 0 })], { type: "application/zip" }), `assets-${names.length}.zip`);
+  }
+  return failed;
+}
+
+// ============================================
+// SEND TO CHAT
+// ============================================
+
+/**
+ * Studio URL that opens a new chat with the assets attached: images as reference images, models
+ * by link in the prompt, since chat attachments only take images.
+ */
+export function buildChatLink(assets: AssetRecord[], projectId?: string | null): string {
+  const images = assets.filter((asset) => !isModelAsset(asset) && asset.fileUrl).map((asset) => asset.fileUrl as string);
+  const models = assets.filter((asset) => isModelAsset(asset) && asset.fileUrl);
+
+  const lines = [
+    images.length > 0 ? `Here ${images.length === 1 ? "is an image" : `are ${images.length} images`} from my assets.` : "",
+    ...models.map((asset) => `3D model "${assetTitle(asset)}": ${asset.fileUrl}`),
+  ].filter(Boolean);
+
+  const params = new URLSearchParams();
+  const targetProject = projectId ?? assets.find((asset) => asset.projectId)?.projectId;
+  if (targetProject) params.set("projectId", targetProject);
+  params.set("initial_prompt", lines.join("\n"));
+  if (images.length > 0) params.set("image_urls", encodeURIComponent(JSON.stringify(images)));
+  return `/studio?${params.toString()}`;
+}
@@ -0,0 +1,81 @@
+import { Coins, Play } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { BatchPromptRow } from "@/types/backend.types";
+import type { BatchCreditEstimate } from "./batchFile";
+import { BATCH_CONCURRENCY } from "./useBatchQueue";
+
+interface BatchConfirmDialogProps {
+  rows: BatchPromptRow[] | null;
+  estimate: BatchCreditEstimate | null;
+  // Credits left on the account, when known
+  balance?: number;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (rows: BatchPromptRow[]) => void;
+}
+
+/**
+ * Shows what a batch will cost before any job is queued
+ */
+export const BatchConfirmDialog = ({ rows, estimate, balance, onOpenChange, onConfirm }: BatchConfirmDialogProps) => {
+  const exceedsBalance = balance !== undefined && !!estimate && estimate.total > balance;
+
+  return (
+    <Dialog open={!!rows} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Run {rows?.length} generations?</DialogTitle>
+          <DialogDescription>
+            Rows run {BATCH_CONCURRENCY} at a time. You can cancel the ones that haven't started yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {estimate && (
+          <div className="space-y-2 text-xs">
+            {estimate.byModel.map((entry) => (
+              <div key={entry.model} className="flex items-center justify-between">
+                <span className="text-muted-foreground">
+                  {entry.model} × {entry.rows}
+                </span>
+                <span className="text-foreground">{entry.credits === null ? "price unknown" : `${entry.credits} credits`}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2 border-t border-border font-medium">
+              <span className="flex items-center gap-1.5 text-foreground">
+                <Coins className="w-3.5 h-3.5 text-primary" /> Estimated total
+              </span>
+              <span className="text-foreground">~{estimate.total} credits</span>
+            </div>
+            {estimate.unpricedRows > 0 && (
+              <p className="text-amber-500">
+                {estimate.unpricedRows} row{estimate.unpricedRows === 1 ? " uses a model" : "s use models"} without a
+                listed price and {estimate.unpricedRows === 1 ? "isn't" : "aren't"} counted.
+              </p>
+            )}
+            {exceedsBalance && (
+              <p className="text-destructive">
+                You have {balance} credits. Rows that run out of credits will fail and can be retried after a top-up.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => rows && onConfirm(rows)}>
+            <Play className="w-3.5 h-3.5 mr-1" /> Start batch
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
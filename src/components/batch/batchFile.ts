@@ -0,0 +1,237 @@
+import { zipSync } from "fflate";
+import { PriceCategory, type BatchPromptRow, type ModelPrice } from "@/types/backend.types";
+import { DEFAULT_ASPECT_RATIO, DEFAULT_IMAGE_MODEL } from "@/components/settings/models";
+
+export const DEFAULT_BATCH_MODEL = DEFAULT_IMAGE_MODEL;
+export const DEFAULT_BATCH_RATIO = DEFAULT_ASPECT_RATIO;
+export const MAX_BATCH_ROWS = 200;
+
+const RATIO_PATTERN = /^\d+:\d+$/;
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, newlines and doubled
+ * quotes, CRLF line endings and a leading byte-order mark.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) throw new Error("The CSV has a quote that is never closed.");
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+const splitTags = (value: unknown): string[] | undefined => {
+  const tags = (Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(/[;|,]/) : [])
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+};
+
+// Checks one row from either file format; `line` is how the user finds it in their sheet
+function toBatchRow(raw: Record<string, unknown>, line: string): BatchPromptRow {
+  const prompt = typeof raw.prompt === "string" ? raw.prompt.trim() : "";
+  if (!prompt) throw new Error(`${line} has no prompt.`);
+
+  const ratio = raw.ratio === undefined || raw.ratio === "" ? undefined : String(raw.ratio).trim();
+  if (ratio && !RATIO_PATTERN.test(ratio)) throw new Error(`${line} has an invalid ratio "${ratio}". Use a form like 16:9.`);
+
+  let seed: number | undefined;
+  if (raw.seed !== undefined && raw.seed !== "") {
+    seed = Number(raw.seed);
+    if (!Number.isInteger(seed) || seed < 0) throw new Error(`${line} has an invalid seed "${String(raw.seed)}".`);
+  }
+
+  const model = typeof raw.model === "string" && raw.model.trim() ? raw.model.trim() : undefined;
+  return { prompt, model, ratio, seed, tags: splitTags(raw.tags) };
+}
+
+function parseCsvRows(text: string): BatchPromptRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  if (!columns.includes("prompt")) {
+    throw new Error("The CSV needs a header row with a \"prompt\" column (and optionally model, ratio, seed, tags).");
+  }
+
+  return rows.map((cells, index) =>
+    toBatchRow(Object.fromEntries(columns.map((name, column) => [name, cells[column]?.trim() ?? ""])), `Row ${index + 2}`)
+  );
+}
+
+function parseJsonRows(text: string): BatchPromptRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  // Either a bare list or { "rows": [...] }; a row may be just the prompt
+  const list = Array.isArray(data) ? data : (data as { rows?: unknown } | null)?.rows;
+  if (!Array.isArray(list)) throw new Error("The JSON must be a list of prompts, or an object with a \"rows\" list.");
+
+  return list.map((item, index) =>
+    toBatchRow(typeof item === "string" ? { prompt: item } : ((item ?? {}) as Record<string, unknown>), `Item ${index + 1}`)
+  );
+}
+
+/**
+ * Reads a prompt sheet: CSV with a header row, or JSON. Throws with a user-facing message
+ * naming the first bad row.
+ */
+export function parseBatchFile(fileName: string, text: string): BatchPromptRow[] {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const rows = isJson ? parseJsonRows(text) : parseCsvRows(text);
+
+  if (rows.length === 0) throw new Error("The file has no prompts.");
+  if (rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`The file has ${rows.length} prompts; a batch can have at most ${MAX_BATCH_ROWS}.`);
+  }
+  return rows;
+}
+
+// ============================================
+// CREDITS
+// ============================================
+
+export interface BatchCreditEstimate {
+  total: number;
+  byModel: { model: string; rows: number; credits: number | null }[];
+  // Rows whose model has no known price; they are not counted in `total`
+  unpricedRows: number;
+}
+
+// Image generation prices are keyed like IMAGE_GENERATION_QWEN
+const findModelPrice = (model: string, prices: ModelPrice[]) => {
+  const name = model.toUpperCase();
+  return prices.find(
+    (price) =>
+      price.isActive &&
+      price.category === PriceCategory.IMAGE_GENERATION &&
+      (price.key.toUpperCase() === name || price.key.toUpperCase().endsWith(`_${name}`))
+  );
+};
+
+export function estimateBatchCredits(rows: BatchPromptRow[], prices: ModelPrice[]): BatchCreditEstimate {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const model = row.model || DEFAULT_BATCH_MODEL;
+    counts.set(model, (counts.get(model) ?? 0) + 1);
+  });
+
+  const byModel = [...counts].map(([model, count]) => {
+    const price = findModelPrice(model, prices);
+    return { model, rows: count, credits: price ? price.credits * count : null };
+  });
+
+  return {
+    total: byModel.reduce((sum, entry) => sum + (entry.credits ?? 0), 0),
+    byModel,
+    unpricedRows: byModel.reduce((sum, entry) => sum + (entry.credits === null ? entry.rows : 0), 0),
+  };
+}
+
+// ============================================
+// RESULTS ZIP
+// ============================================
+
+export interface BatchResultFile {
+  index: number;
+  row: BatchPromptRow;
+  url: string;
+}
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const fileStem = (index: number, prompt: string) =>
+  `${String(index + 1).padStart(3, "0")}-${prompt.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "image"}`;
+
+const extensionFor = (url: string, contentType: string | null) => {
+  const fromType = contentType?.match(/^image\/(png|jpe?g|webp|gif)/)?.[1];
+  if (fromType) return fromType === "jpeg" ? "jpg" : fromType;
+  return url.split("?")[0].match(/\.(png|jpe?g|webp|gif)$/i)?.[1].toLowerCase() ?? "png";
+};
+
+/**
+ * Downloads every result and packs it into one zip, with a manifest.csv mapping files back to
+ * their rows. Images that can't be fetched are listed in the manifest and returned in `failed`.
+ */
+export async function buildBatchZip(files: BatchResultFile[]): Promise<{ blob: Blob; failed: number[] }> {
+  const entries: Record<string, Uint8Array> = {};
+  const manifest = [["row", "prompt", "model", "ratio", "seed", "tags", "file", "url"].join(",")];
+  const failed: number[] = [];
+
+  for (const file of files) {
+    let name = "";
+    try {
+      const res = await fetch(file.url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const fileName = `${fileStem(file.index, file.row.prompt)}.${extensionFor(file.url, res.headers.get("content-type"))}`;
+      entries[fileName] = new Uint8Array(await res.arrayBuffer());
+      name = fileName;
+    } catch (error) {
+      console.error(`Could not download batch result ${file.index + 1}:`, error);
+      failed.push(file.index);
+    }
+
+    const { prompt, model, ratio, seed, tags } = file.row;
+    manifest.push(
+      [
+        String(file.index + 1),
+        prompt,
+        model || DEFAULT_BATCH_MODEL,
+        ratio || DEFAULT_BATCH_RATIO,
+        seed === undefined ? "" : String(seed),
+        tags?.join(";") ?? "",
+        name,
+        file.url,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+
+  entries["manifest.csv"] = new TextEncoder().encode(manifest.join("\n"));
+  // Images are already compressed; storing them keeps zipping fast for large batches
+  const zipped = zipSync(entries, { level: 0 });
+  return { blob: new Blob([zipped], { type: "application/zip" }), failed };
+}
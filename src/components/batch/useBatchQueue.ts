@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { submitImageGeneration } from "@/lib/backend";
+import type { BatchPromptRow, GenerationStreamEvent } from "@/types/backend.types";
+import { generationStreamManager, isTerminalGenerationEvent } from "@/utils/generationStreamManager";
+import { DEFAULT_BATCH_MODEL, DEFAULT_BATCH_RATIO } from "./batchFile";
+
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = "queued" | "submitting" | "running" | "done" | "failed" | "cancelled";
+
+export interface BatchItem {
+  index: number;
+  row: BatchPromptRow;
+  status: BatchItemStatus;
+  jobId?: string;
+  imageUrl?: string;
+  error?: string;
+  attempts: number;
+}
+
+const ACTIVE_STATUSES: BatchItemStatus[] = ["submitting", "running"];
+
+const resultUrl = (event: GenerationStreamEvent) => {
+  const url = event.image_path || event.image_url || event.thumbnail_url;
+  return typeof url === "string" ? url : undefined;
+};
+
+const isCompleted = (event: GenerationStreamEvent) => (event.status || "").toLowerCase() === "completed";
+
+/**
+ * Runs a batch of prompts as individual generation jobs, at most `concurrency` at a time,
+ * following each job on its status stream until it finishes.
+ */
+export function useBatchQueue({
+  projectId,
+  email,
+  concurrency = BATCH_CONCURRENCY,
+}: {
+  projectId: string | null;
+  email?: string;
+  concurrency?: number;
+}) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  // Status streams of running jobs, by row index
+  const subscriptionsRef = useRef(new Map<number, () => void>());
+  // Rows whose submission is in flight, by row index. Cancel, clear and start drop them, so a job id
+  // that arrives afterwards is neither followed nor written over a row of another batch.
+  const submissionsRef = useRef(new Map<number, symbol>());
+
+  const updateItem = useCallback((index: number, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.index === index ? { ...item, ...patch } : item)));
+  }, []);
+
+  const stopFollowing = useCallback((index: number) => {
+    subscriptionsRef.current.get(index)?.();
+    subscriptionsRef.current.delete(index);
+  }, []);
+
+  const runItem = useCallback(
+    async (item: BatchItem, currentBatchId: string) => {
+      const { prompt, model, ratio, seed, tags } = item.row;
+      const submission = Symbol(item.index);
+      submissionsRef.current.set(item.index, submission);
+      const isAbandoned = () => submissionsRef.current.get(item.index) !== submission;
+      try {
+        const { job_id } = await submitImageGeneration(
+          {
+            prompt,
+            model: model || DEFAULT_BATCH_MODEL,
+            aspect_ratio: ratio || DEFAULT_BATCH_RATIO,
+            seed,
+            tags,
+            batch_id: currentBatchId,
+          },
+          projectId
+        );
+        if (isAbandoned()) return;
+        if (!job_id) throw new Error("The server didn't return a job for this row.");
+        updateItem(item.index, { status: "running", jobId: job_id });
+
+        const unsubscribe = generationStreamManager.subscribe(
+          job_id,
+          {
+            onEvent: (event) => {
+              if (!isTerminalGenerationEvent(event)) return;
+              stopFollowing(item.index);
+              const url = resultUrl(event);
+              if (isCompleted(event) && url) {
+                updateItem(item.index, { status: "done", imageUrl: url });
+              } else {
+                updateItem(item.index, {
+                  status: "failed",
+                  error: event.message || (isCompleted(event) ? "The job finished without an image." : "Generation failed"),
+                });
+              }
+            },
+            onError: (message) => {
+              stopFollowing(item.index);
+              updateItem(item.index, { status: "failed", error: message });
+            },
+          },
+          { email, resync: true }
+        );
+        subscriptionsRef.current.set(item.index, unsubscribe);
+        submissionsRef.current.delete(item.index);
+      } catch (error) {
+        if (isAbandoned()) return;
+        submissionsRef.current.delete(item.index);
+        console.error(`Batch row ${item.index + 1} failed to start:`, error);
+        updateItem(item.index, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Could not start the generation",
+        });
+      }
+    },
+    [projectId, email, updateItem, stopFollowing]
+  );
+
+  // Fill free slots from the front of the queue whenever a row changes state
+  useEffect(() => {
+    if (!batchId) return;
+    const free = concurrency - items.filter((item) => ACTIVE_STATUSES.includes(item.status)).length;
+    if (free <= 0) return;
+
+    const next = items.filter((item) => item.status === "queued").slice(0, free);
+    if (next.length === 0) return;
+
+    const starting = new Set(next.map((item) => item.index));
+    setItems((prev) =>
+      prev.map((item) =>
+        starting.has(item.index) ? { ...item, status: "submitting", error: undefined, attempts: item.attempts + 1 } : item
+      )
+    );
+    next.forEach((item) => void runItem(item, batchId));
+  }, [items, batchId, runItem, concurrency]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
+
+  const start = useCallback((rows: BatchPromptRow[]) => {
+    subscriptionsRef.current.forEach((unsubscribe) => unsubscribe());
+    subscriptionsRef.current.clear();
+    submissionsRef.current.clear();
+    setItems(rows.map((row, index) => ({ index, row, status: "queued", attempts: 0 })));
+    setBatchId(`batch_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`);
+  }, []);
+
+  // Puts a failed or cancelled row back at the end of the queue
+  const retry = useCallback((index: number) => {
+    setItems((prev) => {
+      const item = prev.find((entry) => entry.index === index);
+      if (!item || (item.status !== "failed" && item.status !== "cancelled")) return prev;
+      return [
+        ...prev.filter((entry) => entry.index !== index),
+        { ...item, status: "queued", error: undefined, jobId: undefined },
+      ];
+    });
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setItems((prev) => [
+      ...prev.filter((item) => item.status !== "failed"),
+      ...prev
+        .filter((item) => item.status === "failed")
+        .map((item) => ({ ...item, status: "queued" as const, error: undefined, jobId: undefined })),
+    ]);
+  }, []);
+
+  // Rows already running keep running; queued rows and rows still being submitted are dropped
+  const cancel = useCallback(() => {
+    submissionsRef.current.clear();
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === "queued" || item.status === "submitting" ? { ...item, status: "cancelled" } : item
+      )
+    );
+  }, []);
+
+  const clear = useCallback(() => {
+    subscriptionsRef.current.forEach((unsubscribe) => unsubscribe());
+    subscriptionsRef.current.clear();
+    submissionsRef.current.clear();
+    setItems([]);
+    setBatchId(null);
+  }, []);
+
+  return { items, batchId, start, retry, retryFailed, cancel, clear };
+}
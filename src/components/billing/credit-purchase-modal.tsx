@@ -12,17 +12,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { useMutation, useQueryClient } from "@tanstack/react-query"
-import { apiFetch } from "@/lib/api"
+import { createCheckoutSession } from "@/lib/backend"
 import { useCreditPackages, CreditPackage } from "@/hooks/use-credit-packages"
 
-interface CheckoutSessionResponse {
-  sessionUrl: string
-  sessionId: string
-  paymentRecordId: string
-  amount: number
-  credits: number
-}
-
 interface CreditPurchaseModalProps {
   isOpen: boolean
   onClose: () => void
@@ -41,11 +33,7 @@ function CheckoutButton({
   const [error, setError] = useState<string | null>(null)
 
   const createCheckoutSessionMutation = useMutation({
-    mutationFn: (packageId: string) => 
-      apiFetch<CheckoutSessionResponse>('/billing/create-checkout-session', {
-        method: 'POST',
-        body: { creditPackageId: packageId }
-      }),
+    mutationFn: (packageId: string) => createCheckoutSession(packageId),
     onSuccess: async (data) => {
       setIsProcessing(true)
       setError(null)
@@ -1,10 +1,11 @@
 import { useMemo } from "react";
 import { Message } from "./types";
-import { Sparkles, ChevronDown, Box, ZoomIn, Wand2, Settings, Scissors } from "lucide-react";
+import { Sparkles, ChevronDown, Box, ZoomIn, Wand2, Settings, Scissors, Wrench } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cleanImageTags, isImageUrl, parseToolResponse, is3DModelTool } from "./utils";
 import TypewriterText from "../TypewriterText";
+import { StreamingText } from "./StreamingText";
 import { MessageImageRenderer } from "./MessageImageRenderer";
 import { 
   ModelSelectionForm, 
@@ -17,6 +18,7 @@ import {
 } from "../OptimizationForms";
 import { OptimizationInlineForm } from "../OptimizationInlineForm";
 import { ImageWithFallback } from "./ImageWithFallback";
+import type { ModelUploadProgress } from "@/utils/modelUploader";
 
 const GENERATING_HINTS = [
   "Start your next generation while this one finishes. 🚀",
@@ -31,6 +33,7 @@ interface AssistantMessageProps {
   onImageZoom: (src: string) => void;
   onModelSelect?: (modelUrl: string, thumbnailUrl: string, workflow: string) => void;
   onOptimizationFormSubmit?: (type: string, data: unknown) => void;
+  onRegenerateImage?: (message: Message, seed: number) => void;
 }
 
 export const AssistantMessage = ({
@@ -39,6 +42,7 @@ export const AssistantMessage = ({
   onImageZoom,
   onModelSelect,
   onOptimizationFormSubmit,
+  onRegenerateImage,
 }: AssistantMessageProps) => {
   const isProd = import.meta.env.VITE_APP_ENV === "production";
   // Handle case where text might be null, undefined, or non-string (images/models come in separate fields)
@@ -100,7 +104,26 @@ export const AssistantMessage = ({
 
         {/* Render text content first if it's not just an image URL */}
         {shouldShowText && (
-          <TypewriterText text={cleanedText} speed={3} />
+          message.isStreaming !== undefined ? (
+            <StreamingText text={cleanedText} isStreaming={message.isStreaming} />
+          ) : (
+            <TypewriterText text={cleanedText} speed={3} />
+          )
+        )}
+
+        {/* Tools the agent picked while the answer is still streaming */}
+        {message.isStreaming && message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {message.toolCalls.map((toolCall) => (
+              <span
+                key={toolCall.id}
+                className="inline-flex items-center gap-1 text-[11px] text-muted-foreground bg-secondary/40 border border-border/50 px-2 py-0.5 rounded-full"
+              >
+                <Wrench className="w-3 h-3" />
+                {toolCall.name}
+              </span>
+            ))}
+          </div>
         )}
 
         {/* Render image placeholder when status is listening and no image content exists */}
@@ -135,6 +158,7 @@ export const AssistantMessage = ({
             apiUrl={apiUrl}
             onImageZoom={onImageZoom}
             onModelSelect={onModelSelect}
+            onRegenerate={onRegenerateImage}
           />
         )}
 
@@ -299,13 +323,20 @@ const OptimizationForms = ({
   const authToken = (window as { authToken?: string }).authToken || null;
 
   if (message.formType === "model-selection" && message.formData) {
-    const formData = message.formData as { models: ModelInfo[]; isUploading?: boolean; isDisabled?: boolean };
+    const formData = message.formData as {
+      models: ModelInfo[];
+      isUploading?: boolean;
+      isDisabled?: boolean;
+      uploadProgress?: ModelUploadProgress;
+    };
     return (
       <div className="mt-3">
         <ModelSelectionForm
           models={formData.models}
           isUploading={formData.isUploading || false}
           isDisabled={formData.isDisabled || false}
+          uploadProgress={formData.uploadProgress}
+          onCancelUpload={() => onOptimizationFormSubmit?.("cancel-upload", {})}
           onModelSelect={(modelId) => {
             onOptimizationFormSubmit?.("model-selected", { modelId });
           }}
@@ -363,8 +394,6 @@ const OptimizationForms = ({
   if (message.formType === "optimization-inline") {
     return (
       <OptimizationInlineForm
-        apiUrl={apiUrl}
-        authToken={authToken}
         onOptimizationStart={() => {
           onOptimizationFormSubmit?.("optimization-started", {});
         }}
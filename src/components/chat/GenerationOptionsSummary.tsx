@@ -0,0 +1,17 @@
+import { SlidersHorizontal } from "lucide-react";
+import { describeGenerationOptions } from "@/components/settings/generationOptions";
+import { Message } from "./types";
+
+/**
+ * The prompt bar settings a generated image was made with
+ */
+export const GenerationOptionsSummary = ({ message }: { message: Message }) => {
+  if (!message.generationOptions) return null;
+
+  return (
+    <p className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+      <SlidersHorizontal className="w-3 h-3 shrink-0" />
+      {describeGenerationOptions(message.generationOptions).join(" · ")}
+    </p>
+  );
+};
@@ -0,0 +1,60 @@
+import { Dices, Hash, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Message } from "./types";
+import { randomSeed } from "./utils";
+
+interface ImageSeedActionsProps {
+  message: Message;
+  onRegenerate?: (message: Message, seed: number) => void;
+}
+
+/**
+ * The seed a generated image was made with, and re-running its prompt with that seed or a new one
+ */
+export const ImageSeedActions = ({ message, onRegenerate }: ImageSeedActionsProps) => {
+  const { toast } = useToast();
+  const canRegenerate = !!onRegenerate && !!message.prompt;
+  if (message.seed === undefined && !canRegenerate) return null;
+
+  const copySeed = async () => {
+    try {
+      await navigator.clipboard.writeText(String(message.seed));
+      toast({ title: "Seed copied", description: String(message.seed) });
+    } catch {
+      toast({ title: "Copy failed", description: "Your browser blocked clipboard access.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-[11px]">
+      {message.seed !== undefined && (
+        <button
+          onClick={copySeed}
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+          title="Copy seed"
+        >
+          <Hash className="w-3 h-3" /> {message.seed}
+        </button>
+      )}
+      {canRegenerate && (
+        <>
+          <button
+            onClick={() => onRegenerate(message, message.seed!)}
+            disabled={message.seed === undefined}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+            title="Generate again with the same seed"
+          >
+            <RotateCcw className="w-3 h-3" /> Same seed
+          </button>
+          <button
+            onClick={() => onRegenerate(message, randomSeed())}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+            title="Generate again with a new seed"
+          >
+            <Dices className="w-3 h-3" /> Vary seed
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
 import { Message } from "./types";
 import { parseToolResponse, isImageUrl, is3DModelTool } from "./utils";
 import { ImageWithFallback } from "./ImageWithFallback";
+import { ImageSeedActions } from "./ImageSeedActions";
+import { GenerationOptionsSummary } from "./GenerationOptionsSummary";
 
 interface MessageImageRendererProps {
   message: Message;
   apiUrl: string;
   onImageZoom: (src: string) => void;
   onModelSelect?: (modelUrl: string, thumbnailUrl: string, workflow: string) => void;
+  onRegenerate?: (message: Message, seed: number) => void;
 }
 
 export const MessageImageRenderer = ({
@@ -14,6 +17,7 @@ export const MessageImageRenderer = ({
   apiUrl,
   onImageZoom,
   onModelSelect,
+  onRegenerate,
 }: MessageImageRendererProps) => {
   const isProd = import.meta.env.VITE_APP_ENV === "production";
   // Check status - only hide images when processing/listening, show otherwise
@@ -140,7 +144,8 @@ export const MessageImageRenderer = ({
         {/* {!isProd && message.jobId && (
           <p className="text-xs text-muted-foreground italic">Job ID: {message.jobId}</p>
         )} */}
-
+        <GenerationOptionsSummary message={message} />
+        <ImageSeedActions message={message} onRegenerate={onRegenerate} />
       </div>
     );
   }
@@ -163,6 +168,8 @@ export const MessageImageRenderer = ({
             {message.prompt}
           </p>
         )}
+        <GenerationOptionsSummary message={message} />
+        <ImageSeedActions message={message} onRegenerate={onRegenerate} />
       </div>
     );
   }
@@ -182,6 +189,8 @@ export const MessageImageRenderer = ({
             {message.prompt}
           </p>
         )}
+        <GenerationOptionsSummary message={message} />
+        <ImageSeedActions message={message} onRegenerate={onRegenerate} />
       </div>
     );
   }
@@ -0,0 +1,40 @@
+import { memo, useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+
+interface StreamingTextProps {
+  text: string;
+  isStreaming: boolean;
+}
+
+// Half-received markdown renders badly (an open ``` swallows the rest of the bubble, a lone ** shows
+// up literally), so close whatever is still open before handing the text to the renderer.
+const closePartialMarkdown = (text: string): string => {
+  let result = text;
+  const fenceCount = (result.match(/```/g) || []).length;
+  if (fenceCount % 2 === 1) {
+    result += "\n```";
+  } else {
+    const boldCount = (result.match(/\*\*/g) || []).length;
+    if (boldCount % 2 === 1) result += "**";
+    const inlineCodeCount = (result.replace(/```/g, "").match(/`/g) || []).length;
+    if (inlineCodeCount % 2 === 1) result += "`";
+  }
+  return result;
+};
+
+/**
+ * Renders assistant text that arrives token by token. Unlike TypewriterText it never restarts when
+ * the text grows, so appending tokens doesn't flicker.
+ */
+export const StreamingText = memo(({ text, isStreaming }: StreamingTextProps) => {
+  const rendered = useMemo(() => (isStreaming ? closePartialMarkdown(text) : text), [text, isStreaming]);
+
+  return (
+    <div className="prose prose-sm max-w-none text-chat-assistant-foreground">
+      <ReactMarkdown>{rendered}</ReactMarkdown>
+      {isStreaming && <span className="inline-block w-1 h-4 bg-primary animate-pulse ml-0.5 align-middle" />}
+    </div>
+  );
+});
+
+StreamingText.displayName = "StreamingText";
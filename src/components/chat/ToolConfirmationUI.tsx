@@ -6,7 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Sparkles, Edit2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { validateToolArgs, getVisibleToolArgs, formatArgLabel } from "./utils";
+import { validateToolArgs, getVisibleToolArgs, formatArgLabel, findSeedParam } from "./utils";
+import { SeedControl } from "../SeedControl";
 import { useState } from "react";
 
 interface ToolConfirmationUIProps {
@@ -59,6 +60,8 @@ export const ToolConfirmationUI = ({
             {toolCalls.map((toolCall, idx) => {
               const args = editedArgs[toolCall.name] || toolCall.args || {};
               const visibleArgs = getVisibleToolArgs(args);
+              const seedKey = findSeedParam(args);
+              const seedValue = seedKey !== undefined ? Number(args[seedKey]) : NaN;
 
               return (
                 <div key={`${toolCall.id}-${idx}`} className="bg-background border border-border rounded-lg p-2 space-y-2">
@@ -173,6 +176,24 @@ export const ToolConfirmationUI = ({
                         </div>
                       );
                     })}
+
+                    {seedKey && (
+                      <div className="space-y-0.5">
+                        <Label className="text-xs font-medium">Seed</Label>
+                        <SeedControl
+                          lockable={false}
+                          value={Number.isFinite(seedValue) && seedValue >= 0 ? seedValue : undefined}
+                          onChange={(seed) => onArgChange(toolCall.name, seedKey, seed)}
+                          className="w-fit"
+                        />
+                        <p className="text-[10px] text-muted-foreground">
+                          Keep the seed to reproduce a result; change it for a variation.
+                        </p>
+                        {validationErrors[`${toolCall.name}.${seedKey}`] && (
+                          <p className="text-[10px] text-destructive">{validationErrors[`${toolCall.name}.${seedKey}`]}</p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               );
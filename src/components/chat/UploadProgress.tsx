@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import { formatBytes, type PreparedImage } from "./imagePreprocess";
+
+interface UploadProgressProps {
+  isPreparing: boolean;
+  preparedImages: PreparedImage[];
+  className?: string;
+}
+
+// Spinner shown while uploads are prepared and sent, listing what each file became
+export const UploadProgress = ({ isPreparing, preparedImages, className }: UploadProgressProps) => (
+  <div className={cn("p-2 bg-muted/30 rounded-lg border border-border", className)}>
+    <div className="flex items-center gap-2">
+      <div className="animate-spin rounded-full h-3 w-3 border-2 border-primary border-t-transparent" />
+      <span className="text-xs text-muted-foreground">
+        {isPreparing ? "Preparing images..." : `Uploading ${preparedImages.length || ""} ${preparedImages.length === 1 ? "image" : "images"}...`}
+      </span>
+    </div>
+    {!isPreparing && preparedImages.length > 0 && (
+      <ul className="mt-1.5 space-y-0.5 pl-5">
+        {preparedImages.map((image, index) => (
+          <li key={index} className="text-[11px] text-muted-foreground truncate">
+            <span className="text-foreground">{image.file.name}</span>
+            {image.width && image.height ? ` · ${image.width}×${image.height}` : ""}
+            {" · "}
+            {image.converted && image.originalSize !== image.file.size
+              ? `${formatBytes(image.originalSize)} → ${formatBytes(image.file.size)}`
+              : formatBytes(image.file.size)}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -1,5 +1,6 @@
 import { Message } from "./types";
 import { cleanImageInputBlocks } from "./utils";
+import { REFERENCE_ROLES } from "@/components/references/referenceRoles";
 
 interface UserMessageProps {
   message: Message;
@@ -15,18 +16,26 @@ export const UserMessage = ({ message }: UserMessageProps) => {
       {imagePaths.length > 0 && (
         <div className="max-w-[80%] ml-4">
           <div className="flex flex-wrap gap-2">
-            {imagePaths.map((imagePath, index) => (
-              <div
-                key={index}
-                className="w-32 h-32 rounded-lg border border-border/50 overflow-hidden bg-muted/20 flex-shrink-0"
-              >
-                <img
-                  src={imagePath}
-                  alt={`Uploaded image ${index + 1}`}
-                  className="w-full h-full object-cover"
-                />
-              </div>
-            ))}
+            {imagePaths.map((imagePath, index) => {
+              const reference = message.imageReferences?.find((ref) => ref.url === imagePath);
+              return (
+                <div
+                  key={index}
+                  className="relative w-32 h-32 rounded-lg border border-border/50 overflow-hidden bg-muted/20 flex-shrink-0"
+                >
+                  <img
+                    src={imagePath}
+                    alt={`Uploaded image ${index + 1}`}
+                    className="w-full h-full object-cover"
+                  />
+                  {reference && (
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px]">
+                      {REFERENCE_ROLES[reference.role].label} · {reference.weight.toFixed(1)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
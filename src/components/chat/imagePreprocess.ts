@@ -0,0 +1,53 @@
+// ============================================
+// IMAGE PREPROCESSING (shared with the worker)
+// ============================================
+// Uploads are normalized in the browser before they reach the backend: formats it can't take
+// (WebP, HEIC, AVIF) become PNG or JPEG, very large images are scaled down, and re-encoding
+// through a canvas drops EXIF after its orientation has been applied to the pixels.
+
+// Largest file the upload endpoint accepts
+export const MAX_UPLOAD_BYTES = 28 * 1024 * 1024;
+
+// Largest file we try to decode; past this a batch can run the tab out of memory
+export const MAX_SOURCE_BYTES = 100 * 1024 * 1024;
+
+// Longest side an uploaded image is scaled down to
+export const MAX_IMAGE_DIMENSION = 4096;
+
+export const JPEG_QUALITY = 0.9;
+
+// Extensions for files browsers often report without a MIME type
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|heic|heif|avif)$/i;
+const HEIC_EXTENSIONS = /\.(heic|heif)$/i;
+
+// File input `accept` covering everything the preprocessor can turn into an upload
+export const IMAGE_UPLOAD_ACCEPT = "image/png,image/jpeg,image/jpg,image/gif,image/webp,image/avif,image/heic,image/heif,.heic,.heif";
+
+export const isImageFile = (file: File) => file.type.startsWith("image/") || IMAGE_EXTENSIONS.test(file.name);
+
+export const isHeicFile = (file: File) =>
+  file.type === "image/heic" || file.type === "image/heif" || HEIC_EXTENSIONS.test(file.name);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export interface PreparedImage {
+  // What gets uploaded
+  file: File;
+  originalName: string;
+  originalSize: number;
+  width?: number;
+  height?: number;
+  // False when the file is uploaded as-is (PNGs and JPEGs that need no changes, GIFs, or when the
+  // browser can't run the worker)
+  converted: boolean;
+}
+
+export interface PreprocessRequest {
+  id: number;
+  file: File;
+}
+
+export type PreprocessResponse =
+  | { id: number; ok: true; blob: Blob; name: string; width: number; height: number; converted: boolean }
+  | { id: number; ok: false; error: string };
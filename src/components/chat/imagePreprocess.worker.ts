@@ -0,0 +1,142 @@
+import {
+  JPEG_QUALITY,
+  MAX_IMAGE_DIMENSION,
+  MAX_UPLOAD_BYTES,
+  isHeicFile,
+  type PreprocessRequest,
+  type PreprocessResponse,
+} from "./imagePreprocess";
+
+// Each retry shrinks the image by this much until the encoded file fits the upload limit
+const RETRY_SCALE = 0.75;
+const MAX_ATTEMPTS = 5;
+
+// Formats that can carry transparency; only these are checked for it
+const ALPHA_TYPES = ["image/png", "image/webp", "image/avif", "image/gif"];
+
+// Formats the backend takes as they are, so they're only re-encoded when something has to change
+const PASSTHROUGH_TYPES = ["image/png", "image/jpeg"];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Walks the JPEG segments / PNG chunks up to the image data, looking for an Exif block to strip
+async function hasExif(file: File): Promise<boolean> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (file.type === "image/jpeg") {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // Start of scan: no metadata after this
+      if (marker === 0xda) return false;
+      if (marker === 0xe1 && ascii(bytes, offset + 4, 4) === "Exif") return true;
+      offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    }
+    return false;
+  }
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "eXIf") return true;
+    if (type === "IEND") return false;
+    offset += 12 + new DataView(bytes.buffer, offset, 4).getUint32(0);
+  }
+  return false;
+}
+
+// Only Safari decodes HEIC natively; elsewhere libheif (a ~2 MB wasm build) is loaded the first time
+// a HEIC photo needs it. The photo's rotation and mirroring are applied by libheif while decoding.
+async function decodeHeic(file: File): Promise<ImageBitmap> {
+  const { default: createLibheif } = await import("libheif-js/libheif-wasm/libheif-bundle.mjs");
+  const libheif = createLibheif();
+  const [image] = new libheif.HeifDecoder().decode(new Uint8Array(await file.arrayBuffer()));
+  if (!image) throw new Error(`${file.name} couldn't be read as a HEIC photo.`);
+  try {
+    const pixels = new ImageData(image.get_width(), image.get_height());
+    await new Promise<void>((resolve, reject) =>
+      image.display(pixels, (result) => (result ? resolve() : reject(new Error(`${file.name} couldn't be decoded.`))))
+    );
+    return await createImageBitmap(pixels);
+  } finally {
+    image.free();
+  }
+}
+
+const decode = async (file: File) => {
+  try {
+    // Applies the EXIF orientation to the pixels, so nothing depends on the tag after re-encoding
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    if (isHeicFile(file)) return decodeHeic(file);
+    throw new Error(`${file.name} couldn't be read as an image.`);
+  }
+};
+
+const hasTransparency = (ctx: OffscreenCanvasRenderingContext2D, width: number, height: number) => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const renamed = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, "") || "image"}.${type === "image/png" ? "png" : "jpg"}`;
+
+async function preprocess(file: File): Promise<Omit<Extract<PreprocessResponse, { ok: true }>, "id" | "ok">> {
+  const bitmap = await decode(file);
+  try {
+    // Animated GIFs would lose their frames on a canvas, so they go up untouched when they fit
+    if (file.type === "image/gif" && file.size <= MAX_UPLOAD_BYTES) {
+      return { blob: file, name: file.name, width: bitmap.width, height: bitmap.height, converted: false };
+    }
+
+    // PNGs and JPEGs that fit and carry no EXIF go up byte for byte, without a lossy round trip
+    if (
+      PASSTHROUGH_TYPES.includes(file.type) &&
+      file.size <= MAX_UPLOAD_BYTES &&
+      Math.max(bitmap.width, bitmap.height) <= MAX_IMAGE_DIMENSION &&
+      !(await hasExif(file))
+    ) {
+      return { blob: file, name: file.name, width: bitmap.width, height: bitmap.height, converted: false };
+    }
+
+    let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    let type: string | undefined;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext("2d")!;
+      ctx.drawImage(bitmap, 0, 0, width, height);
+
+      // Decided once, on the first draw: PNG sources stay PNG, other formats become PNG only to keep
+      // transparency since JPEG is much smaller
+      type ??=
+        file.type === "image/png" || (ALPHA_TYPES.includes(file.type) && hasTransparency(ctx, width, height))
+          ? "image/png"
+          : "image/jpeg";
+
+      const blob = await canvas.convertToBlob({ type, quality: JPEG_QUALITY });
+      if (blob.size <= MAX_UPLOAD_BYTES) {
+        return { blob, name: renamed(file.name, type), width, height, converted: true };
+      }
+      scale *= RETRY_SCALE;
+    }
+    throw new Error(`${file.name} is still over the upload limit after resizing.`);
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, file } = event.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, ok: true, ...(await preprocess(file)) };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : "Image preprocessing failed" };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,78 @@
+import { MAX_SOURCE_BYTES, formatBytes, type PreparedImage, type PreprocessResponse } from "./imagePreprocess";
+
+export interface PreprocessOutcome {
+  prepared: PreparedImage[];
+  // One message per file that couldn't be prepared
+  errors: string[];
+}
+
+const canUseWorker = () => typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+const asIs = (file: File): PreparedImage => ({
+  file,
+  originalName: file.name,
+  originalSize: file.size,
+  converted: false,
+});
+
+/**
+ * Normalizes images for upload in a Web Worker, one file at a time so a large batch never holds
+ * more than one decoded image. Without worker/OffscreenCanvas support files are passed through
+ * unchanged and the upload limit decides.
+ */
+export async function preprocessImages(files: File[]): Promise<PreprocessOutcome> {
+  const errors: string[] = [];
+  const sources = files.filter((file) => {
+    if (file.size <= MAX_SOURCE_BYTES) return true;
+    errors.push(`${file.name} is larger than ${formatBytes(MAX_SOURCE_BYTES)}.`);
+    return false;
+  });
+
+  if (!canUseWorker()) {
+    return { prepared: sources.map(asIs), errors };
+  }
+
+  const worker = new Worker(new URL("./imagePreprocess.worker.ts", import.meta.url), { type: "module" });
+  const run = (id: number, file: File) =>
+    new Promise<PreprocessResponse>((resolve) => {
+      const cleanup = () => {
+        worker.removeEventListener("message", handleMessage);
+        worker.removeEventListener("error", handleError);
+      };
+      const handleMessage = (event: MessageEvent<PreprocessResponse>) => {
+        if (event.data.id !== id) return;
+        cleanup();
+        resolve(event.data);
+      };
+      // The worker script itself failed (e.g. it couldn't load); report instead of waiting forever
+      const handleError = () => {
+        cleanup();
+        resolve({ id, ok: false, error: `${file.name} couldn't be prepared for upload.` });
+      };
+      worker.addEventListener("message", handleMessage);
+      worker.addEventListener("error", handleError);
+      worker.postMessage({ id, file });
+    });
+
+  const prepared: PreparedImage[] = [];
+  try {
+    for (const [id, file] of sources.entries()) {
+      const result = await run(id, file);
+      if ("error" in result) {
+        errors.push(result.error);
+        continue;
+      }
+      prepared.push({
+        file: result.converted ? new File([result.blob], result.name, { type: result.blob.type }) : file,
+        originalName: file.name,
+        originalSize: file.size,
+        width: result.width,
+        height: result.height,
+        converted: result.converted,
+      });
+    }
+  } finally {
+    worker.terminate();
+  }
+  return { prepared, errors };
+}
@@ -1,3 +1,5 @@
+import type { GenerationOptions, ImageReference } from "@/types/backend.types";
+
 export interface ToolCall {
   id: string;
   name: string;
@@ -36,6 +38,16 @@ export interface Message {
   taskNumber?: number;
   seed?: number;
   model?: string;
+  aspect_ratio?: string;
+  // Prompt bar settings the generation ran with
+  generationOptions?: GenerationOptions;
+  // Role and weight the user gave each attached image
+  imageReferences?: ImageReference[];
+  /**
+   * Set on assistant text that came from a streamed /ask: true while tokens are still arriving,
+   * false once finished (rendered as-is instead of through the typewriter).
+   */
+  isStreaming?: boolean;
 }
 
 export interface ChatInterfaceProps {
@@ -47,10 +59,12 @@ export interface ChatInterfaceProps {
     aiResponse?: unknown,
     uploadSessionId?: string,
     responseMode?: "thinking" | "fast",
-    humanInLoop?: boolean
+    humanInLoop?: boolean,
+    imageReferences?: ImageReference[]
   ) => void;
   onToolConfirmation?: (action: "confirm" | "modify" | "cancel", modifiedArgs?: Record<string, Record<string, unknown>>) => void;
   isGenerating?: boolean;
+  onStopGenerating?: () => void;
   apiUrl: string;
   onModelSelect?: (modelUrl: string, thumbnailUrl: string, workflow: string) => void;
   onImageGenerated?: () => void;
@@ -60,6 +74,11 @@ export interface ChatInterfaceProps {
   sessionId?: string;
   accessToken?: string;
   isReadOnlySession?: boolean;
+  // Seed sent with every message while locked; undefined lets the tools pick
+  seed?: number;
+  onSeedChange?: (seed: number | undefined) => void;
+  // Generates a chat image's prompt again with the given seed
+  onRegenerateImage?: (message: Message, seed: number) => void;
 }
 
 export interface ParsedToolResponse {
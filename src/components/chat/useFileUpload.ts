@@ -1,6 +1,10 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { apiFetch } from "@/lib/api";
+import { uploadImage } from "@/lib/backend";
+import { MAX_UPLOAD_BYTES, formatBytes, isImageFile, type PreparedImage } from "./imagePreprocess";
+import { preprocessImages } from "./preprocessImages";
+import { defaultReferenceSetting, type ReferenceSetting } from "@/components/references/referenceRoles";
+import type { ImageReference } from "@/types/backend.types";
 
 interface UploadOptions {
   apiUrl: string;
@@ -20,42 +24,34 @@ export const useFileUpload = (options: UploadOptions) => {
   const { apiUrl, userEmail, sessionId, accessToken } = options;
   const { toast } = useToast();
   const [isUploading, setIsUploading] = useState(false);
+  // True while selected files are being converted/resized, before the upload starts
+  const [isPreparing, setIsPreparing] = useState(false);
+  // The batch currently being uploaded, with its final sizes
+  const [preparedImages, setPreparedImages] = useState<PreparedImage[]>([]);
   const [uploadedImageUrls, setUploadedImageUrls] = useState<string[]>([]);
   const [uploadedImagePreviews, setUploadedImagePreviews] = useState<string[]>([]);
+  // Role and weight of each uploaded image, by position
+  const [referenceSettings, setReferenceSettings] = useState<ReferenceSetting[]>([]);
+  // URLs including ones added since the last render, so repeated events in one tick see each other
+  const latestUrlsRef = useRef(uploadedImageUrls);
+  latestUrlsRef.current = uploadedImageUrls;
 
   const uploadImages = useCallback(async (
     files: File[],
     query?: string
   ): Promise<UploadResult> => {
     try {
-      // Safety check: Reject WebP files
-      const webpFiles = files.filter(file => file.type === 'image/webp' || file.name.toLowerCase().endsWith('.webp'));
-      if (webpFiles.length > 0) {
-        const fileNames = webpFiles.map(f => f.name).join(', ');
-        throw new Error(`WebP format is not supported. Please use PNG, JPEG, or GIF format instead. The following file(s) were rejected: ${fileNames}`);
-      }
+      // Safety check: files are normally preprocessed to fit, but uploadImages can be called directly
+      const oversizedFiles = files.filter(file => file.size > MAX_UPLOAD_BYTES);
 
-      // Safety check: Validate file sizes before uploading
-      const MAX_FILE_SIZE = 28 * 1024 * 1024; // 28MB
-      const oversizedFiles = files.filter(file => file.size > MAX_FILE_SIZE);
-      
       if (oversizedFiles.length > 0) {
         const fileNames = oversizedFiles.map(f => f.name).join(', ');
-        throw new Error(`File size must be less than 28MB. The following file(s) exceed this limit: ${fileNames}`);
+        throw new Error(`File size must be less than ${formatBytes(MAX_UPLOAD_BYTES)}. The following file(s) exceed this limit: ${fileNames}`);
       }
 
-      // Upload each file to Nest endpoint /api/v1/upload-image using apiFetch
+      // Upload each file to Nest endpoint /api/v1/upload-image
       const uploadPromises = files.map(async (file) => {
-        const formData = new FormData();
-        formData.append("file", file);
-
-        const data = await apiFetch<{ success: boolean; filename?: string; url?: string }>(
-          "/api/v1/upload-image",
-          {
-            method: "POST",
-            body: formData,
-          }
-        );
+        const data = await uploadImage(file);
         
         if (!data.success || !data.url) {
           throw new Error("Invalid response from upload endpoint");
@@ -91,35 +87,10 @@ export const useFileUpload = (options: UploadOptions) => {
   const handleFileSelect = useCallback(async (files: FileList | null) => {
     if (!files) return;
 
-    let fileArray = Array.from(files).filter(file => file.type.startsWith('image/'));
+    // HEIC photos often come without a MIME type, so the extension counts too
+    const fileArray = Array.from(files).filter(isImageFile);
     if (fileArray.length === 0) return;
 
-    // Reject WebP files
-    const webpFiles = fileArray.filter(file => file.type === 'image/webp' || file.name.toLowerCase().endsWith('.webp'));
-    if (webpFiles.length > 0) {
-      toast({
-        title: "WebP format not supported",
-        description: `WebP format is not supported. Please use PNG, JPEG, or GIF format instead. The following file(s) were rejected: ${webpFiles.map(file => file.name).join(', ')}`,
-        variant: "destructive",
-      });
-      // Remove WebP files from the array
-      fileArray = fileArray.filter(file => file.type !== 'image/webp' && !file.name.toLowerCase().endsWith('.webp'));
-      if (fileArray.length === 0) return;
-    }
-
-    // Check file size (28MB = 28 * 1024 * 1024 bytes)
-    const MAX_FILE_SIZE = 28 * 1024 * 1024; // 28MB
-    const oversizedFiles = fileArray.filter(file => file.size > MAX_FILE_SIZE);
-    
-    if (oversizedFiles.length > 0) {
-      toast({
-        title: "File too large",
-        description: `File size must be less than 28MB. The following file(s) exceed this limit: ${oversizedFiles.map(file => file.name).join(', ')}`,
-        variant: "destructive",
-      });
-      return;
-    }
-
     const MAX_FILES = 4;
     const currentCount = uploadedImageUrls.length;
     const remainingSlots = MAX_FILES - currentCount;
@@ -143,17 +114,42 @@ export const useFileUpload = (options: UploadOptions) => {
     }
 
     setIsUploading(true);
-    const previews = filesToProcess.map(file => URL.createObjectURL(file));
-    setUploadedImagePreviews(prev => [...prev, ...previews]);
+    setIsPreparing(true);
+    let previews: string[] = [];
 
     try {
-      const uploadResult = await uploadImages(filesToProcess);
+      // Convert, resize and strip metadata off the main thread; bad files are reported and skipped
+      const { prepared, errors } = await preprocessImages(filesToProcess);
+      setIsPreparing(false);
+      if (errors.length > 0) {
+        toast({
+          title: "Some images couldn't be used",
+          description: errors.join(" "),
+          variant: "destructive",
+        });
+      }
+      if (prepared.length === 0) return;
+
+      setPreparedImages(prepared);
+      // Previews come from the prepared files so they show the orientation and format that gets uploaded
+      previews = prepared.map(image => URL.createObjectURL(image.file));
+      setUploadedImagePreviews(prev => [...prev, ...previews]);
+
+      const uploadResult = await uploadImages(prepared.map(image => image.file));
       setUploadedImageUrls(prev => [...prev, ...uploadResult.urls]);
+      setReferenceSettings(prev => [
+        ...prev,
+        ...uploadResult.urls.map((_, offset) => defaultReferenceSetting(prev.length + offset)),
+      ]);
     } catch (error) {
       console.error("Upload error:", error);
-      setUploadedImagePreviews(prev => prev.slice(0, -(previews.length)));
+      if (previews.length > 0) {
+        setUploadedImagePreviews(prev => prev.slice(0, -(previews.length)));
+      }
     } finally {
+      setIsPreparing(false);
       setIsUploading(false);
+      setPreparedImages([]);
     }
   }, [uploadImages, uploadedImageUrls.length, toast]);
 
@@ -171,17 +167,21 @@ export const useFileUpload = (options: UploadOptions) => {
       newPreviews.splice(index, 1);
       return newPreviews;
     });
+    setReferenceSettings(prev => prev.filter((_, i) => i !== index));
   }, []);
 
   const clearUploads = useCallback(() => {
     uploadedImagePreviews.forEach(preview => URL.revokeObjectURL(preview));
     setUploadedImageUrls([]);
     setUploadedImagePreviews([]);
+    setReferenceSettings([]);
   }, [uploadedImagePreviews]);
 
   const addImageUrl = useCallback((imageUrl: string) => {
     const MAX_FILES = 4;
-    if (uploadedImageUrls.length >= MAX_FILES) {
+    // Avoid duplicates (e.g. remix event fired multiple times)
+    if (latestUrlsRef.current.includes(imageUrl)) return;
+    if (latestUrlsRef.current.length >= MAX_FILES) {
       toast({
         title: "Upload limit reached",
         description: `You can add a maximum of ${MAX_FILES} files. Please remove some files before adding more.`,
@@ -189,19 +189,31 @@ export const useFileUpload = (options: UploadOptions) => {
       });
       return;
     }
-    // Avoid duplicates (e.g. remix event fired multiple times)
-    setUploadedImageUrls(prev => {
-      if (prev.includes(imageUrl)) return prev;
-      return [...prev, imageUrl];
-    });
-    setUploadedImagePreviews(prev => {
-      if (prev.includes(imageUrl)) return prev;
-      return [...prev, imageUrl];
-    });
-  }, [uploadedImageUrls.length, toast]);
+    latestUrlsRef.current = [...latestUrlsRef.current, imageUrl];
+    setUploadedImageUrls(prev => (prev.includes(imageUrl) ? prev : [...prev, imageUrl]));
+    setUploadedImagePreviews(prev => (prev.includes(imageUrl) ? prev : [...prev, imageUrl]));
+    // Only reached when the URL is new, so the settings stay aligned with the URLs
+    setReferenceSettings(prev => [...prev, defaultReferenceSetting(prev.length)]);
+  }, [toast]);
+
+  const updateReference = useCallback((index: number, patch: Partial<ReferenceSetting>) => {
+    setReferenceSettings(prev => prev.map((setting, i) => (i === index ? { ...setting, ...patch } : setting)));
+  }, []);
+
+  // What each image is for, in the structured form the agent takes
+  const imageReferences = useMemo<ImageReference[]>(
+    () =>
+      uploadedImageUrls.map((url, index) => ({
+        url,
+        ...(referenceSettings[index] ?? defaultReferenceSetting(index)),
+      })),
+    [uploadedImageUrls, referenceSettings]
+  );
 
   return {
     isUploading,
+    isPreparing,
+    preparedImages,
     uploadedImageUrls,
     uploadedImagePreviews,
     handleFileSelect,
@@ -209,6 +221,9 @@ export const useFileUpload = (options: UploadOptions) => {
     clearUploads,
     uploadImages,
     addImageUrl,
+    referenceSettings,
+    updateReference,
+    imageReferences,
   };
 };
 
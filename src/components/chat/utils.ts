@@ -12,7 +12,18 @@ const IMAGE_TAG_PATTERNS = [
   /\[Image:.*?\]/g,
 ];
 
-const HIDDEN_PARAMS = ["output_path", "input_path", "random_seed", "filename"];
+// Seeds get their own control in the confirmation form instead of a plain field
+const SEED_PARAMS = ["random_seed", "seed"];
+
+const HIDDEN_PARAMS = ["output_path", "input_path", "filename", ...SEED_PARAMS];
+
+// Image tools take a signed 32-bit seed
+export const MAX_SEED = 2147483647;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+export const findSeedParam = (args: Record<string, unknown>): string | undefined =>
+  Object.keys(args).find((key) => SEED_PARAMS.includes(key));
 
 export const extractImageUrls = (text: string | null | undefined): string[] => {
   // Ensure we always have a string
@@ -106,6 +117,8 @@ export const filterMessages = (messages: Message[]): Message[] => {
   return messages
     .filter(msg => msg.role !== "system")
     .filter(msg => msg.role === "user" || msg.role === "assistant")
+    // A stream that hasn't produced anything yet is represented by the "Thinking…" indicator
+    .filter(msg => !(msg.isStreaming && !msg.text && !msg.toolCalls?.length))
     // .map(msg => {
     //   if (msg.role === "user") {
     //     return {
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Loader2, RotateCcw, Trophy, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { BatchItem } from "@/components/batch/useBatchQueue";
+import { comparisonIndex, type ComparisonRun } from "./comparison";
+
+// How far hovering one result magnifies all of them
+const ZOOM = 2.5;
+
+interface ComparisonGridProps {
+  run: ComparisonRun;
+  items: BatchItem[];
+  // Row index of the result voted best, once there is one
+  winnerIndex: number | null;
+  isVoting: boolean;
+  onVote: (item: BatchItem) => void;
+  onRetry: (index: number) => void;
+}
+
+/**
+ * Results of a comparison, one column per model and one row per seed. Hovering a result zooms
+ * every result to the same spot so details can be compared side by side.
+ */
+export const ComparisonGrid = ({ run, items, winnerIndex, isVoting, onVote, onRetry }: ComparisonGridProps) => {
+  // Pointer position over a result, as fractions of its size
+  const [focus, setFocus] = useState<{ x: number; y: number } | null>(null);
+  const byIndex = new Map(items.map((item) => [item.index, item]));
+  const allDone = items.length > 0 && items.every((item) => item.status === "done" || item.status === "failed");
+  const seedRows = run.seeds.length > 0 ? run.seeds : [undefined];
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  return (
+    <div
+      className="grid gap-3"
+      style={{ gridTemplateColumns: `auto repeat(${run.models.length}, minmax(0, 1fr))` }}
+    >
+      {/* Column headers */}
+      <span />
+      {run.models.map((model) => (
+        <span key={model} className="text-xs font-semibold text-foreground text-center truncate">
+          {model}
+        </span>
+      ))}
+
+      {seedRows.map((seed, seedIndex) => (
+        <div key={seed ?? "random"} className="contents">
+          <span className="self-center text-[10px] text-muted-foreground [writing-mode:vertical-rl] rotate-180">
+            {seed === undefined ? "Random seeds" : `Seed ${seed}`}
+          </span>
+          {run.models.map((model, modelIndex) => {
+            const item = byIndex.get(comparisonIndex(run, seedIndex, modelIndex));
+            const isWinner = !!item && item.index === winnerIndex;
+            return (
+              <div
+                key={model}
+                className={cn(
+                  "relative rounded-xl border bg-card overflow-hidden",
+                  isWinner ? "border-primary ring-2 ring-primary/40" : "border-border"
+                )}
+              >
+                <div
+                  className="relative aspect-square bg-secondary overflow-hidden flex items-center justify-center"
+                  onPointerMove={item?.imageUrl ? handlePointerMove : undefined}
+                  onPointerLeave={() => setFocus(null)}
+                >
+                  {item?.imageUrl ? (
+                    <img
+                      src={item.imageUrl}
+                      alt={`${model} result`}
+                      className="w-full h-full object-contain transition-transform duration-75"
+                      style={
+                        focus
+                          ? { transform: `scale(${ZOOM})`, transformOrigin: `${focus.x * 100}% ${focus.y * 100}%` }
+                          : undefined
+                      }
+                    />
+                  ) : item?.status === "failed" ? (
+                    <div className="flex flex-col items-center gap-2 p-3 text-center">
+                      <XCircle className="w-5 h-5 text-destructive" />
+                      <p className="text-[10px] text-muted-foreground line-clamp-3">{item.error}</p>
+                      <button
+                        onClick={() => onRetry(item.index)}
+                        className="flex items-center gap-1 text-[11px] font-medium text-primary"
+                      >
+                        <RotateCcw className="w-3 h-3" /> Retry
+                      </button>
+                    </div>
+                  ) : (
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                  )}
+                  {isWinner && (
+                    <span className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary text-primary-foreground text-[10px] font-medium">
+                      <Trophy className="w-3 h-3" /> Winner
+                    </span>
+                  )}
+                </div>
+                {item?.status === "done" && allDone && winnerIndex === null && (
+                  <button
+                    onClick={() => onVote(item)}
+                    disabled={isVoting}
+                    className="w-full flex items-center justify-center gap-1.5 py-1.5 text-[11px] font-medium text-muted-foreground hover:text-primary border-t border-border transition-colors disabled:opacity-50"
+                  >
+                    <Trophy className="w-3 h-3" /> Pick as winner
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
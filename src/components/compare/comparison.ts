@@ -0,0 +1,24 @@
+import type { BatchPromptRow } from "@/types/backend.types";
+
+export const MAX_COMPARE_MODELS = 4;
+export const MAX_COMPARE_SEEDS = 3;
+
+export interface ComparisonRun {
+  prompt: string;
+  ratio: string;
+  models: string[];
+  // Empty lets every model pick its own seed, which gives a single grid row
+  seeds: number[];
+}
+
+/**
+ * One generation per model and seed, seed-major so row `s` of the grid holds rows
+ * `s * models.length` to `(s + 1) * models.length - 1`
+ */
+export function buildComparisonRows({ prompt, ratio, models, seeds }: ComparisonRun): BatchPromptRow[] {
+  const seedRows = seeds.length > 0 ? seeds : [undefined];
+  return seedRows.flatMap((seed) => models.map((model) => ({ prompt, model, ratio, seed, tags: ["comparison"] })));
+}
+
+export const comparisonIndex = (run: ComparisonRun, seedIndex: number, modelIndex: number) =>
+  seedIndex * run.models.length + modelIndex;
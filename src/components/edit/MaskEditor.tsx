@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Brush,
+  Check,
+  Crop,
+  FlipVertical2,
+  Lasso,
+  Layers,
+  Loader2,
+  Minus,
+  Plus,
+  RotateCcw,
+  RotateCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { createCanvas, fillLasso, paintStroke, rectFromPoints, selectSegment, type CropRect, type Point } from "./maskCanvas";
+import type { MaskEditorState } from "./useMaskEditor";
+
+type MaskTool = "brush" | "lasso" | "segment" | "crop";
+
+const TOOLS: { id: MaskTool; label: string; icon: typeof Brush }[] = [
+  { id: "brush", label: "Brush", icon: Brush },
+  { id: "lasso", label: "Lasso", icon: Lasso },
+  { id: "segment", label: "Segments", icon: Layers },
+  { id: "crop", label: "Crop", icon: Crop },
+];
+
+const MASK_TINT = "rgba(239, 68, 68, 0.5)";
+const SEGMENTS_OPACITY = 0.45;
+
+interface MaskEditorProps {
+  editor: MaskEditorState;
+  // Asks the page for a segmentation map to select regions from
+  onPickSegments: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Canvas editor for the area an edit applies to: paint it with a brush, outline it with a lasso
+ * or click regions of a "Segment" result. Crop and rotation apply to the image and mask together.
+ */
+export const MaskEditor = ({ editor, onPickSegments, disabled }: MaskEditorProps) => {
+  const { canvasesRef, version } = editor;
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  const tintRef = useRef<HTMLCanvasElement | null>(null);
+  const [tool, setTool] = useState<MaskTool>("brush");
+  const [subtract, setSubtract] = useState(false);
+  const [brushSize, setBrushSize] = useState(40);
+  const [cropRect, setCropRect] = useState<CropRect | null>(null);
+
+  // In-progress gestures, in image pixels
+  const lastPointRef = useRef<Point | null>(null);
+  const lassoRef = useRef<Point[]>([]);
+  const cropStartRef = useRef<Point | null>(null);
+
+  const canvases = canvasesRef.current;
+
+  // ----------------------------------------
+  // Drawing
+  // ----------------------------------------
+  const draw = useCallback(() => {
+    const display = displayRef.current;
+    const layers = canvasesRef.current;
+    if (!display || !layers) return;
+
+    const { source, mask, segments } = layers;
+    if (display.width !== source.width || display.height !== source.height) {
+      display.width = source.width;
+      display.height = source.height;
+    }
+    const ctx = display.getContext("2d")!;
+    ctx.clearRect(0, 0, display.width, display.height);
+    ctx.drawImage(source, 0, 0);
+
+    if (segments && tool === "segment") {
+      ctx.globalAlpha = SEGMENTS_OPACITY;
+      ctx.drawImage(segments, 0, 0);
+      ctx.globalAlpha = 1;
+    }
+
+    // Tint the mask by filling its opaque pixels with a colour
+    if (!tintRef.current || tintRef.current.width !== mask.width || tintRef.current.height !== mask.height) {
+      tintRef.current = createCanvas(mask.width, mask.height);
+    }
+    const tint = tintRef.current.getContext("2d")!;
+    tint.globalCompositeOperation = "source-over";
+    tint.clearRect(0, 0, mask.width, mask.height);
+    tint.drawImage(mask, 0, 0);
+    tint.globalCompositeOperation = "source-in";
+    tint.fillStyle = MASK_TINT;
+    tint.fillRect(0, 0, mask.width, mask.height);
+    ctx.drawImage(tintRef.current, 0, 0);
+
+    const lineWidth = Math.max(2, display.width / 400);
+    if (lassoRef.current.length > 1) {
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+      ctx.beginPath();
+      ctx.moveTo(lassoRef.current[0].x, lassoRef.current[0].y);
+      lassoRef.current.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (cropRect) {
+      ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+      ctx.fillRect(0, 0, display.width, cropRect.y);
+      ctx.fillRect(0, cropRect.y + cropRect.height, display.width, display.height - cropRect.y - cropRect.height);
+      ctx.fillRect(0, cropRect.y, cropRect.x, cropRect.height);
+      ctx.fillRect(cropRect.x + cropRect.width, cropRect.y, display.width - cropRect.x - cropRect.width, cropRect.height);
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = lineWidth;
+      ctx.strokeRect(cropRect.x, cropRect.y, cropRect.width, cropRect.height);
+    }
+  }, [canvasesRef, tool, cropRect]);
+
+  useEffect(() => {
+    draw();
+  }, [draw, version]);
+
+  useEffect(() => {
+    if (tool !== "crop") setCropRect(null);
+  }, [tool]);
+
+  // ----------------------------------------
+  // Pointer input
+  // ----------------------------------------
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  // The brush is sized in screen pixels so it feels the same at any image size
+  const brushInImagePixels = (canvas: HTMLCanvasElement) =>
+    (brushSize * canvas.width) / Math.max(1, canvas.getBoundingClientRect().width);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const layers = canvasesRef.current;
+    if (!layers || disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+
+    if (tool === "brush") {
+      lastPointRef.current = point;
+      paintStroke(layers.mask, point, point, brushInImagePixels(e.currentTarget), subtract);
+    } else if (tool === "lasso") {
+      lassoRef.current = [point];
+    } else if (tool === "segment") {
+      if (layers.segments) selectSegment(layers.mask, layers.segments, point, subtract);
+    } else {
+      cropStartRef.current = point;
+      setCropRect(null);
+    }
+    draw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const layers = canvasesRef.current;
+    if (!layers) return;
+    const point = toImagePoint(e);
+
+    if (tool === "brush" && lastPointRef.current) {
+      paintStroke(layers.mask, lastPointRef.current, point, brushInImagePixels(e.currentTarget), subtract);
+      lastPointRef.current = point;
+      draw();
+    } else if (tool === "lasso" && lassoRef.current.length > 0) {
+      lassoRef.current.push(point);
+      draw();
+    } else if (tool === "crop" && cropStartRef.current) {
+      setCropRect(rectFromPoints(cropStartRef.current, point, layers.source.width, layers.source.height));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const layers = canvasesRef.current;
+    if (layers && tool === "lasso") fillLasso(layers.mask, lassoRef.current, subtract);
+    lastPointRef.current = null;
+    lassoRef.current = [];
+    cropStartRef.current = null;
+    draw();
+  };
+
+  const applyCrop = () => {
+    if (cropRect) editor.crop(cropRect);
+    setCropRect(null);
+  };
+
+  const buttonClass =
+    "flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-lg border transition-colors disabled:opacity-50";
+
+  return (
+    <div className="w-full max-w-3xl space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setTool(id)}
+            disabled={disabled}
+            className={cn(
+              buttonClass,
+              tool === id
+                ? "border-primary/60 bg-primary/10 text-primary"
+                : "border-border bg-secondary text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <Icon className="w-3.5 h-3.5" /> {label}
+          </button>
+        ))}
+
+        <span className="w-px h-5 bg-border" />
+
+        {tool !== "crop" && (
+          <div className="flex items-center rounded-lg border border-border overflow-hidden">
+            <button
+              onClick={() => setSubtract(false)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-1.5 text-[11px] font-medium transition-colors",
+                !subtract ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Plus className="w-3 h-3" /> Add
+            </button>
+            <button
+              onClick={() => setSubtract(true)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-1.5 text-[11px] font-medium transition-colors",
+                subtract ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Minus className="w-3 h-3" /> Subtract
+            </button>
+          </div>
+        )}
+
+        {tool === "brush" && (
+          <label className="flex items-center gap-2 text-[11px] text-muted-foreground">
+            Size
+            <input
+              type="range"
+              min={4}
+              max={160}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-24 accent-primary"
+            />
+          </label>
+        )}
+
+        {tool === "segment" && (
+          <button
+            onClick={onPickSegments}
+            disabled={disabled}
+            className={cn(buttonClass, "border-border bg-secondary text-foreground hover:border-primary/40")}
+          >
+            <Layers className="w-3.5 h-3.5" /> {canvases?.segments ? "Change segments" : "Load segments"}
+          </button>
+        )}
+
+        {tool === "crop" && cropRect && cropRect.width > 0 && cropRect.height > 0 && (
+          <>
+            <button
+              onClick={applyCrop}
+              className={cn(buttonClass, "border-primary/60 bg-primary/10 text-primary")}
+            >
+              <Check className="w-3.5 h-3.5" /> Apply crop
+            </button>
+            <button
+              onClick={() => setCropRect(null)}
+              className={cn(buttonClass, "border-border bg-secondary text-muted-foreground hover:text-foreground")}
+            >
+              <X className="w-3.5 h-3.5" /> Cancel
+            </button>
+          </>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => editor.rotate(-1)}
+            disabled={disabled}
+            title="Rotate left"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => editor.rotate(1)}
+            disabled={disabled}
+            title="Rotate right"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50"
+          >
+            <RotateCw className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={editor.invert}
+            disabled={disabled}
+            title="Invert mask"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-50"
+          >
+            <FlipVertical2 className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={editor.clearMask}
+            disabled={disabled}
+            title="Clear mask"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-secondary disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div className="relative flex items-center justify-center rounded-2xl border border-border bg-muted/20 overflow-hidden">
+        {editor.isLoading || !canvases ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <canvas
+            ref={displayRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={cn("max-w-full max-h-[560px] touch-none", tool === "crop" ? "cursor-crosshair" : "cursor-cell")}
+          />
+        )}
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        {tool === "segment" && !canvases?.segments
+          ? "Load a Segment result, then click regions to add them to the mask."
+          : "Red marks the area the edit applies to. Leave it empty to edit the whole image."}
+      </p>
+    </div>
+  );
+};
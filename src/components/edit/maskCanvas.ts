@@ -0,0 +1,186 @@
+// ============================================
+// MASK CANVAS HELPERS
+// ============================================
+// The editor keeps the source image, the mask and an optional segmentation map as offscreen
+// canvases of the same size. Masks are painted opaque white on transparent and only turned into
+// the black-and-white PNG edit tools expect when exported.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Colour distance (per channel) under which a segmentation pixel counts as the clicked segment
+const SEGMENT_TOLERANCE = 24;
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement) => canvas.getContext("2d", { willReadFrequently: true })!;
+
+/**
+ * Loads an image so it can be drawn and read back; remote images need CORS for the canvas to
+ * stay exportable
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image couldn't be loaded."));
+    img.src = src;
+  });
+}
+
+export function drawToCanvas(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = createCanvas(width, height);
+  context(canvas).drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+// ============================================
+// TRANSFORMS
+// ============================================
+
+// Quarter turn clockwise (1) or counter-clockwise (-1)
+export function rotateCanvas(canvas: HTMLCanvasElement, direction: 1 | -1): HTMLCanvasElement {
+  const rotated = createCanvas(canvas.height, canvas.width);
+  const ctx = context(rotated);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((direction * Math.PI) / 2);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+}
+
+export function cropCanvas(canvas: HTMLCanvasElement, rect: CropRect): HTMLCanvasElement {
+  const cropped = createCanvas(rect.width, rect.height);
+  context(cropped).drawImage(canvas, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return cropped;
+}
+
+// Rectangle between two drag points, clamped to the canvas and rounded to whole pixels
+export function rectFromPoints(a: Point, b: Point, width: number, height: number): CropRect {
+  const x = Math.round(Math.max(0, Math.min(a.x, b.x)));
+  const y = Math.round(Math.max(0, Math.min(a.y, b.y)));
+  return {
+    x,
+    y,
+    width: Math.round(Math.min(width, Math.max(a.x, b.x))) - x,
+    height: Math.round(Math.min(height, Math.max(a.y, b.y))) - y,
+  };
+}
+
+// ============================================
+// PAINTING
+// ============================================
+
+export function paintStroke(mask: HTMLCanvasElement, from: Point, to: Point, size: number, erase: boolean) {
+  const ctx = context(mask);
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? "destination-out" : "source-over";
+  ctx.strokeStyle = "#fff";
+  ctx.lineWidth = size;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.restore();
+}
+
+export function fillLasso(mask: HTMLCanvasElement, points: Point[], erase: boolean) {
+  if (points.length < 3) return;
+  const ctx = context(mask);
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? "destination-out" : "source-over";
+  ctx.fillStyle = "#fff";
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
+
+export function invertMask(mask: HTMLCanvasElement) {
+  const ctx = context(mask);
+  const data = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 0; i < data.data.length; i += 4) {
+    const masked = data.data[i + 3] > 0;
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = 255;
+    data.data[i + 3] = masked ? 0 : 255;
+  }
+  ctx.putImageData(data, 0, 0);
+}
+
+export function isMaskEmpty(mask: HTMLCanvasElement): boolean {
+  const { data } = context(mask).getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+}
+
+// ============================================
+// SEGMENTS
+// ============================================
+
+/**
+ * Adds (or removes) every pixel of the segmentation map with the same colour as the one at
+ * `point`, so a "Segment" result can be used as a selection one region at a time
+ */
+export function selectSegment(mask: HTMLCanvasElement, segments: HTMLCanvasElement, point: Point, erase: boolean) {
+  const x = Math.floor(point.x);
+  const y = Math.floor(point.y);
+  if (x < 0 || y < 0 || x >= segments.width || y >= segments.height) return;
+
+  const source = context(segments).getImageData(0, 0, segments.width, segments.height).data;
+  const ctx = context(mask);
+  const target = ctx.getImageData(0, 0, mask.width, mask.height);
+  const start = (y * segments.width + x) * 4;
+  const [r, g, b] = [source[start], source[start + 1], source[start + 2]];
+
+  for (let i = 0; i < source.length; i += 4) {
+    if (
+      Math.abs(source[i] - r) <= SEGMENT_TOLERANCE &&
+      Math.abs(source[i + 1] - g) <= SEGMENT_TOLERANCE &&
+      Math.abs(source[i + 2] - b) <= SEGMENT_TOLERANCE
+    ) {
+      target.data[i] = target.data[i + 1] = target.data[i + 2] = 255;
+      target.data[i + 3] = erase ? 0 : 255;
+    }
+  }
+  ctx.putImageData(target, 0, 0);
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The image couldn't be exported."))), "image/png");
+  });
+}
+
+// White where the edit applies, black everywhere else
+export function maskToBlob(mask: HTMLCanvasElement): Promise<Blob> {
+  const output = createCanvas(mask.width, mask.height);
+  const ctx = context(output);
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(mask, 0, 0);
+  return canvasToBlob(output);
+}
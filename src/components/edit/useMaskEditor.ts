@@ -0,0 +1,138 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  canvasToBlob,
+  createCanvas,
+  cropCanvas,
+  drawToCanvas,
+  invertMask,
+  isMaskEmpty,
+  loadImage,
+  maskToBlob,
+  rotateCanvas,
+  type CropRect,
+} from "./maskCanvas";
+
+export interface MaskEditorCanvases {
+  source: HTMLCanvasElement;
+  mask: HTMLCanvasElement;
+  // Segmentation map scaled to the source, when one was loaded
+  segments: HTMLCanvasElement | null;
+}
+
+/**
+ * State of the mask editor: the source image, its mask and an optional segmentation map, kept the
+ * same size through crops and rotations. `version` changes whenever any of them is redrawn.
+ */
+export function useMaskEditor() {
+  const canvasesRef = useRef<MaskEditorCanvases | null>(null);
+  const [version, setVersion] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const touch = useCallback(() => setVersion((v) => v + 1), []);
+
+  const load = useCallback(
+    async (url: string) => {
+      setIsLoading(true);
+      try {
+        const img = await loadImage(url);
+        canvasesRef.current = {
+          source: drawToCanvas(img, img.naturalWidth, img.naturalHeight),
+          mask: createCanvas(img.naturalWidth, img.naturalHeight),
+          segments: null,
+        };
+        touch();
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [touch]
+  );
+
+  const reset = useCallback(() => {
+    canvasesRef.current = null;
+    touch();
+  }, [touch]);
+
+  // Applies the same transform to every layer so they stay aligned
+  const transform = useCallback(
+    (apply: (canvas: HTMLCanvasElement) => HTMLCanvasElement) => {
+      const canvases = canvasesRef.current;
+      if (!canvases) return;
+      canvasesRef.current = {
+        source: apply(canvases.source),
+        mask: apply(canvases.mask),
+        segments: canvases.segments && apply(canvases.segments),
+      };
+      touch();
+    },
+    [touch]
+  );
+
+  const rotate = useCallback((direction: 1 | -1) => transform((canvas) => rotateCanvas(canvas, direction)), [transform]);
+
+  const crop = useCallback(
+    (rect: CropRect) => {
+      if (rect.width < 1 || rect.height < 1) return;
+      transform((canvas) => cropCanvas(canvas, rect));
+    },
+    [transform]
+  );
+
+  const clearMask = useCallback(() => {
+    const canvases = canvasesRef.current;
+    if (!canvases) return;
+    canvases.mask = createCanvas(canvases.source.width, canvases.source.height);
+    touch();
+  }, [touch]);
+
+  const invert = useCallback(() => {
+    if (!canvasesRef.current) return;
+    invertMask(canvasesRef.current.mask);
+    touch();
+  }, [touch]);
+
+  const loadSegments = useCallback(
+    async (url: string) => {
+      const canvases = canvasesRef.current;
+      if (!canvases) return;
+      const img = await loadImage(url);
+      canvases.segments = drawToCanvas(img, canvases.source.width, canvases.source.height);
+      touch();
+    },
+    [touch]
+  );
+
+  const clearSegments = useCallback(() => {
+    if (!canvasesRef.current) return;
+    canvasesRef.current.segments = null;
+    touch();
+  }, [touch]);
+
+  // The edited source as PNG, and the mask unless nothing is painted
+  const exportImages = useCallback(async (): Promise<{ source: Blob; mask: Blob | null }> => {
+    const canvases = canvasesRef.current;
+    if (!canvases) throw new Error("There is no image to export.");
+    return {
+      source: await canvasToBlob(canvases.source),
+      mask: isMaskEmpty(canvases.mask) ? null : await maskToBlob(canvases.mask),
+    };
+  }, []);
+
+  return {
+    canvasesRef,
+    version,
+    isLoading,
+    touch,
+    load,
+    reset,
+    rotate,
+    crop,
+    clearMask,
+    invert,
+    loadSegments,
+    clearSegments,
+    exportImages,
+  };
+}
+
+export type MaskEditorState = ReturnType<typeof useMaskEditor>;
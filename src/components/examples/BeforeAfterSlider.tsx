@@ -5,9 +5,11 @@ interface BeforeAfterSliderProps {
   beforeUrl: string;
   afterUrl: string;
   isBackgroundRemove?: boolean;
+  // Height of the slider; the gallery cards use a fixed 280px
+  className?: string;
 }
 
-const BeforeAfterSlider = ({ beforeUrl, afterUrl, isBackgroundRemove }: BeforeAfterSliderProps) => {
+const BeforeAfterSlider = ({ beforeUrl, afterUrl, isBackgroundRemove, className = "h-[280px]" }: BeforeAfterSliderProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState(50);
   const [dragging, setDragging] = useState(false);
@@ -35,7 +37,7 @@ const BeforeAfterSlider = ({ beforeUrl, afterUrl, isBackgroundRemove }: BeforeAf
   return (
     <div
       ref={containerRef}
-      className="relative w-full h-[280px] overflow-hidden select-none touch-none cursor-col-resize"
+      className={`relative w-full ${className} overflow-hidden select-none touch-none cursor-col-resize`}
       onPointerDown={onPointerDown}
       onPointerMove={onPointerMove}
       onPointerUp={onPointerUp}
@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Loader2 } from "lucide-react";
-import { apiFetch } from "@/lib/api";
+import { createProject } from "@/lib/backend";
 
 const modes = [
   { id: "assist", label: "✦ Assist", placeholder: "Ask anything — create images, 3D models, or get ideas…" },
@@ -70,10 +70,7 @@ const CreationWidget = ({ promptValue, onPromptChange, pulsePrompt }: CreationWi
       default: {
         setIsSubmitting(true);
         try {
-          const project = await apiFetch<{ id: string }>("/api/projects", {
-            method: "POST",
-            body: { name: currentPrompt.trim().slice(0, 60) || "New Project" },
-          });
+          const project = await createProject(currentPrompt.trim().slice(0, 60) || "New Project");
           const params = new URLSearchParams();
           params.set("projectId", project.id);
           params.set("initial_prompt", currentPrompt.trim());
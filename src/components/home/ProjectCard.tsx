@@ -1,10 +1,9 @@
 import { useMemo, useState } from "react";
 import { Plus, Pencil, Share2, Trash2, Users } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import { apiFetch } from "@/lib/api";
+import { deleteProject, renameProject, shareProject } from "@/lib/backend";
 import { useToast } from "@/components/ui/use-toast";
 import { Input } from "@/components/ui/input";
-import type { Project } from "@/hooks/use-projects";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -107,7 +106,7 @@ const ProjectCard = ({
 
     try {
       setIsDeleting(true);
-      await apiFetch<void>(`/api/projects/${id}`, { method: "DELETE" });
+      await deleteProject(id);
       toast({
         title: "Project deleted",
         description: "Your project has been removed.",
@@ -130,10 +129,7 @@ const ProjectCard = ({
 
     try {
       setIsRenaming(true);
-      const updated = await apiFetch<Project>(`/api/projects/${id}`, {
-        method: "PATCH",
-        body: { name: newName.trim() },
-      });
+      const updated = await renameProject(id, newName.trim());
       const finalName = updated?.name || newName.trim();
       toast({
         title: "Project renamed",
@@ -157,10 +153,7 @@ const ProjectCard = ({
 
     try {
       setIsSharing(true);
-      await apiFetch<Project>(`/api/projects/${id}/share`, {
-        method: "POST",
-        body: { email: shareEmail.trim() },
-      });
+      await shareProject(id, shareEmail.trim());
       toast({
         title: "Invite sent",
         description: `An invite has been sent to ${shareEmail.trim()}.`,
@@ -1,16 +1,11 @@
 import * as React from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { fetchProjectMembers, removeProjectMember } from "@/lib/backend";
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-
-interface ProjectMember {
-  id: string;
-  name?: string;
-  email?: string;
-}
+import type { ProjectMember } from "@/types/backend.types";
 
 interface ProjectMembersModalProps {
   projectCreatorId: string;
@@ -32,7 +27,7 @@ export const ProjectMembersModal: React.FC<ProjectMembersModalProps> = ({
 
   const { data, isLoading, isError } = useQuery<ProjectMember[]>({
     queryKey: ["project-members", projectId],
-    queryFn: () => apiFetch<ProjectMember[]>(`/api/projects/${projectId}/members`, { method: "GET" }),
+    queryFn: () => fetchProjectMembers(projectId),
     enabled: open && !!projectId,
   });
 
@@ -43,9 +38,7 @@ export const ProjectMembersModal: React.FC<ProjectMembersModalProps> = ({
 
   const removeMutation = useMutation({
     mutationFn: async (memberId: string) => {
-      await apiFetch<void>(`/api/projects/${projectId}/members/${memberId}`, {
-        method: "DELETE",
-      });
+      await removeProjectMember(projectId, memberId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["project-members", projectId] });
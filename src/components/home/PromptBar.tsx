@@ -1,31 +1,71 @@
-import { useRef, useState } from "react";
-import { Plus, Sparkles, X, Settings2, Zap, Brain } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Plus, Sparkles, X, Settings2, Zap, Brain, Layers, Library, Columns3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import SuggestionChips from "./SuggestionChips";
 import { useNavigate } from "react-router-dom";
-import { apiFetch } from "@/lib/api";
+import { createProject } from "@/lib/backend";
 import { useToast } from "@/components/ui/use-toast";
-import type { Project } from "@/hooks/use-projects";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useFileUpload } from "@/components/chat/useFileUpload";
+import { UploadProgress } from "@/components/chat/UploadProgress";
+import { IMAGE_UPLOAD_ACCEPT } from "@/components/chat/imagePreprocess";
+import { PromptPalette } from "@/components/prompts/PromptPalette";
+import { SeedControl } from "@/components/SeedControl";
+import SettingsModal from "@/components/settings/SettingsModal";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  MAX_VARIATIONS,
+  MODE_PARAM,
+  OPTIONS_PARAM,
+  loadGenerationDefaults,
+  saveGenerationDefaults,
+} from "@/components/settings/generationOptions";
+import { ReferenceBoard } from "@/components/references/ReferenceBoard";
+import { REFERENCES_PARAM } from "@/components/references/referenceRoles";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import type { GenerationOptions, PromptRecord, ResponseMode } from "@/types/backend.types";
 
 const MAX_CHARS = 500;
 
 const PromptBar = () => {
   const [prompt, setPrompt] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [model, setModel] = useState("QWEN");
-  const [ratio, setRatio] = useState("1:1");
-  const [variations, setVariations] = useState(1);
-  const [mode, setMode] = useState<"fast" | "think">("fast");
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [mode, setMode] = useState<ResponseMode>("fast");
   const [showUploadPanel, setShowUploadPanel] = useState(false);
+  const [showPromptPalette, setShowPromptPalette] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [seed, setSeed] = useState<number | undefined>(undefined);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { data: userProfile } = useUserProfile();
+  // Set once the user's saved defaults are applied, so they aren't overwritten before loading
+  const loadedDefaultsForRef = useRef<string | null>(null);
+
+  const updateOptions = (patch: Partial<GenerationOptions>) => setOptions((prev) => ({ ...prev, ...patch }));
+
+  useEffect(() => {
+    const userId = userProfile?.id;
+    if (!userId || loadedDefaultsForRef.current === userId) return;
+    loadedDefaultsForRef.current = userId;
+    const defaults = loadGenerationDefaults(userId);
+    if (defaults) {
+      setOptions(defaults.options);
+      setMode(defaults.mode);
+    }
+  }, [userProfile?.id]);
+
+  // Whatever the user last picked becomes their default
+  useEffect(() => {
+    const userId = userProfile?.id;
+    if (!userId || loadedDefaultsForRef.current !== userId) return;
+    saveGenerationDefaults(userId, { options, mode });
+  }, [options, mode, userProfile?.id]);
 
   const {
     handleFileSelect: handleUploadFiles,
@@ -33,6 +73,11 @@ const PromptBar = () => {
     uploadedImagePreviews,
     removeUploadedUrl,
     isUploading,
+    isPreparing,
+    preparedImages,
+    referenceSettings,
+    updateReference,
+    imageReferences,
   } = useFileUpload({ apiUrl: "" } as any);
 
   const handleUploadClick = () => fileInputRef.current?.click();
@@ -52,22 +97,31 @@ const PromptBar = () => {
     }
   };
 
+  // A prompt from the library brings the settings it last ran with
+  const handlePromptPicked = (picked: PromptRecord) => {
+    setPrompt(picked.prompt.slice(0, MAX_CHARS));
+    if (picked.modelName) updateOptions({ model: picked.modelName });
+    if (picked.ratio) updateOptions({ aspect_ratio: picked.ratio });
+    if (picked.seed !== undefined) setSeed(picked.seed);
+  };
+
   const handleGenerate = async () => {
     const trimmed = prompt.trim();
     if (!trimmed || isSubmitting) return;
 
     try {
       setIsSubmitting(true);
-      const project = await apiFetch<Project>("/api/projects", {
-        method: "POST",
-        body: { name: trimmed },
-      });
+      const project = await createProject(trimmed);
 
       const params = new URLSearchParams();
       if (project.id) params.set("projectId", project.id);
       params.set("initial_prompt", trimmed);
+      if (seed !== undefined) params.set("seed", String(seed));
+      params.set(OPTIONS_PARAM, JSON.stringify(options));
+      params.set(MODE_PARAM, mode);
       if (uploadedImageUrls && uploadedImageUrls.length > 0) {
         params.set("image_urls", encodeURIComponent(JSON.stringify(uploadedImageUrls)));
+        params.set(REFERENCES_PARAM, JSON.stringify(imageReferences));
       }
       navigate(`/studio?${params.toString()}`);
     } catch (error: any) {
@@ -106,7 +160,7 @@ const PromptBar = () => {
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/png,image/jpeg,image/jpg,image/webp"
+            accept={IMAGE_UPLOAD_ACCEPT}
             multiple
             className="hidden"
             onChange={handleFileSelect}
@@ -125,31 +179,18 @@ const PromptBar = () => {
 
               {/* Uploading indicator */}
               {isUploading && (
-                <div className="flex items-center gap-2 p-2 bg-muted/30 rounded-lg border border-border mb-2">
-                  <div className="animate-spin rounded-full h-3 w-3 border-2 border-primary border-t-transparent" />
-                  <span className="text-xs text-muted-foreground">Uploading...</span>
-                </div>
+                <UploadProgress isPreparing={isPreparing} preparedImages={preparedImages} className="mb-2" />
               )}
 
               {/* Thumbnails */}
-              {uploadedImagePreviews.length > 0 && !isUploading && (
-                <div className="flex flex-wrap gap-2 mb-2">
-                  {uploadedImagePreviews.map((preview, index) => (
-                    <div key={index} className="relative group">
-                      <img
-                        src={preview}
-                        alt={`Upload ${index + 1}`}
-                        className="w-16 h-16 object-cover rounded-lg border border-border"
-                      />
-                      <button
-                        onClick={() => removeUploadedUrl(index)}
-                        className="absolute -top-1 -right-1 bg-destructive text-destructive-foreground rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
-                    </div>
-                  ))}
-                </div>
+              {!isUploading && (
+                <ReferenceBoard
+                  previews={uploadedImagePreviews}
+                  references={referenceSettings}
+                  onChange={updateReference}
+                  onRemove={removeUploadedUrl}
+                  className="mb-2"
+                />
               )}
 
               {/* Drop zone */}
@@ -207,20 +248,71 @@ const PromptBar = () => {
                 </TooltipContent>
               </Tooltip>
 
+              {/* Batch from a prompt sheet */}
+              <Tooltip delayDuration={200}>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => navigate("/batch")}
+                    className="h-7 w-7 rounded-lg flex items-center justify-center transition-all hover:bg-muted/50 text-muted-foreground"
+                  >
+                    <Layers className="w-4 h-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="bg-popover border-border text-popover-foreground">
+                  Batch from CSV/JSON
+                </TooltipContent>
+              </Tooltip>
+
+              {/* Same prompt on several models */}
+              <Tooltip delayDuration={200}>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => navigate(prompt.trim() ? `/compare?${new URLSearchParams({ prompt: prompt.trim() })}` : "/compare")}
+                    className="h-7 w-7 rounded-lg flex items-center justify-center transition-all hover:bg-muted/50 text-muted-foreground"
+                  >
+                    <Columns3 className="w-4 h-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="bg-popover border-border text-popover-foreground">
+                  Compare models
+                </TooltipContent>
+              </Tooltip>
+
+              {/* Prompt library */}
+              <Tooltip delayDuration={200}>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => setShowPromptPalette(true)}
+                    className="h-7 w-7 rounded-lg flex items-center justify-center transition-all hover:bg-muted/50 text-muted-foreground"
+                  >
+                    <Library className="w-4 h-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="bg-popover border-border text-popover-foreground">
+                  Prompt library (⌘K)
+                </TooltipContent>
+              </Tooltip>
+
               {/* Model/ratio chip */}
-              <button className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[11px] font-medium bg-secondary border border-border text-foreground hover:border-primary-glow transition-colors">
+              <button
+                onClick={() => setShowSettings(true)}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[11px] font-medium bg-secondary border border-border text-foreground hover:border-primary-glow transition-colors"
+              >
                 <Settings2 className="w-3 h-3" />
-                {model} / {ratio}
+                {options.model} / {options.aspect_ratio}
               </button>
 
+              {/* Seed lock */}
+              <SeedControl value={seed} onChange={setSeed} />
+
               {/* Variations picker */}
               <div className="flex items-center rounded-lg border border-border overflow-hidden">
-                {[1, 2, 3, 4].map((n) => (
+                {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map((n) => (
                   <button
                     key={n}
-                    onClick={() => setVariations(n)}
+                    onClick={() => updateOptions({ variations: n })}
                     className={`px-2 py-1 text-[11px] font-medium transition-colors ${
-                      variations === n
+                      options.variations === n
                         ? "bg-primary/15 text-primary"
                         : "text-muted-foreground hover:text-foreground"
                     }`}
@@ -243,9 +335,9 @@ const PromptBar = () => {
                   <Zap className="w-3 h-3" /> Fast
                 </button>
                 <button
-                  onClick={() => setMode("think")}
+                  onClick={() => setMode("thinking")}
                   className={`flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium transition-colors ${
-                    mode === "think"
+                    mode === "thinking"
                       ? "bg-primary/15 text-primary"
                       : "text-muted-foreground hover:text-foreground"
                   }`}
@@ -259,8 +351,8 @@ const PromptBar = () => {
 
             {/* Right: Create button */}
             <div className="flex items-center gap-2">
-              {variations > 1 && (
-                <span className="text-[11px] text-muted-foreground">(~{variations} credits)</span>
+              {options.variations > 1 && (
+                <span className="text-[11px] text-muted-foreground">(~{options.variations} credits)</span>
               )}
               <Button
                 onClick={handleGenerate}
@@ -274,6 +366,16 @@ const PromptBar = () => {
           </div>
         </div>
       </div>
+
+      <PromptPalette open={showPromptPalette} onOpenChange={setShowPromptPalette} onSelect={handlePromptPicked} />
+      <SettingsModal
+        open={showSettings}
+        onClose={() => setShowSettings(false)}
+        options={options}
+        onOptionsChange={updateOptions}
+        seed={seed}
+        onSeedChange={setSeed}
+      />
     </div>
   );
 };
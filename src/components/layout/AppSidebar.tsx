@@ -12,6 +12,9 @@ import {
   Settings,
   FolderOpen,
   LayoutGrid,
+  Layers,
+  Library,
+  Columns3,
 } from "lucide-react";
 import {
   Tooltip,
@@ -22,11 +25,14 @@ import {
 const navItems = [
   { icon: Home, label: "Home", tooltip: "Home", path: "/home" },
   { icon: FolderOpen, label: "Assets", tooltip: "Your Assets", path: "/assets" },
+  { icon: Library, label: "Prompts", tooltip: "Prompt Library", path: "/prompts" },
   { icon: Image, label: "Image", tooltip: "Image Generation", path: "/image" },
   { icon: Box, label: "3D", tooltip: "3D Generation", path: "/3d" },
   { icon: Wand2, label: "Edit", tooltip: "Edit Image", path: "/edit" },
   { icon: ZoomIn, label: "Upscale", tooltip: "Upscale Image", path: "/studio" },
   { icon: GitBranch, label: "Workflow", tooltip: "Workflows", path: "/workflow" },
+  { icon: Layers, label: "Batch", tooltip: "Batch Generation", path: "/batch" },
+  { icon: Columns3, label: "Compare", tooltip: "Compare Models", path: "/compare" },
   { icon: Wrench, label: "Tools", tooltip: "All Tools", path: "/studio" },
   { icon: LayoutGrid, label: "Gallery", tooltip: "Examples Gallery", path: "/examples" },
   { icon: Users, label: "Community", tooltip: "Community", path: "/home" },
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import ReactFlow, { Background, Controls } from "reactflow";
+import "reactflow/dist/style.css";
+import { format } from "date-fns";
+import { GitBranch, Loader2, Play, Target } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAssetLineage } from "@/hooks/use-assets";
+import { useToast } from "@/hooks/use-toast";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { getActiveProjectId, runWorkflowChain } from "@/lib/backend";
+import { createChainSSEConnection } from "@/utils/workflowChainHandler";
+import { WORKFLOW_STEPS } from "@/components/workflow/workflowGraph";
+import { assetTitle } from "@/components/assets/assetActions";
+import { LineageNode } from "./LineageNode";
+import { buildRerunTask, canRerun, layoutLineage, rerunDefaults } from "./lineageGraph";
+
+const nodeTypes = {
+  lineageNode: LineageNode,
+};
+
+interface AssetLineageDialogProps {
+  // Asset to open the lineage on; the dialog is closed while null
+  assetId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Graph of everything an asset was made from and everything made from it, with the tool, model,
+ * seed and credits of each step. Any step can be run again with changed parameters.
+ */
+export const AssetLineageDialog = ({ assetId, onOpenChange }: AssetLineageDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userProfile } = useUserProfile();
+
+  const [focusId, setFocusId] = useState(assetId);
+  const [selectedId, setSelectedId] = useState<string | null>(assetId);
+  const [params, setParams] = useState<Record<string, string>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [runStatus, setRunStatus] = useState("");
+  const chainSSERef = useRef<(() => void) | null>(null);
+
+  const { data: lineage, isLoading, isError } = useAssetLineage(focusId);
+  const graph = useMemo(() => (lineage ? layoutLineage(lineage) : null), [lineage]);
+  const selected = lineage?.nodes.find((node) => node.id === selectedId) ?? null;
+  const stepDefinition = selected?.producedBy?.step ? WORKFLOW_STEPS[selected.producedBy.step] : null;
+
+  useEffect(() => {
+    setFocusId(assetId);
+    setSelectedId(assetId);
+  }, [assetId]);
+
+  useEffect(() => {
+    setParams(selected ? rerunDefaults(selected) : {});
+    // Only a different node resets the form, not a refetch of the same one
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected?.id]);
+
+  useEffect(() => {
+    return () => {
+      chainSSERef.current?.();
+    };
+  }, []);
+
+  // ----------------------------------------
+  // Re-run
+  // ----------------------------------------
+  const handleRerun = async () => {
+    if (!lineage || !selected) return;
+    let task: ReturnType<typeof buildRerunTask>;
+    try {
+      task = buildRerunTask(lineage, selected, params);
+    } catch (error) {
+      toast({ title: "Can't re-run this step", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
+
+    chainSSERef.current?.();
+    setIsRunning(true);
+    setRunStatus("Starting...");
+    try {
+      const chain = await runWorkflowChain(
+        { rerun_of: selected.asset?.id, tasks: [task] },
+        selected.asset?.projectId ?? getActiveProjectId()
+      );
+      chainSSERef.current = createChainSSEConnection(chain.chain_id, userProfile?.email || "", chain.total_tasks, {
+        onStatusUpdate: setRunStatus,
+        onChainCompleted: (_, results) => {
+          setIsRunning(false);
+          setRunStatus("");
+          if (results.tasks.some((task) => task.status === "failed")) return;
+          queryClient.invalidateQueries({ queryKey: ["asset-lineage"] });
+          queryClient.invalidateQueries({ queryKey: ["assets"] });
+          queryClient.invalidateQueries({ queryKey: ["user-profile"] });
+          toast({ title: "Re-run complete", description: "The new result was added to the lineage." });
+        },
+        onTaskFailed: (event) => {
+          setIsRunning(false);
+          setRunStatus("");
+          toast({ title: "Re-run failed", description: event.error || "Unknown error", variant: "destructive" });
+        },
+        onError: (message) => {
+          setIsRunning(false);
+          setRunStatus(message);
+        },
+      });
+    } catch (error) {
+      console.error("Error re-running step:", error);
+      setIsRunning(false);
+      setRunStatus("");
+      toast({
+        title: "Re-run failed",
+        description: error instanceof Error ? error.message : "Could not start the step",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fieldClass =
+    "w-full px-2 py-1 text-[11px] bg-secondary border border-border rounded text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <Dialog open={!!assetId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4" /> Lineage
+          </DialogTitle>
+          <DialogDescription>
+            Where this asset came from and what was made from it. Select a step to see how it ran or run it again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-[560px] rounded-lg border border-border overflow-hidden">
+          {/* Graph */}
+          <div className="flex-1">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-full">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : isError || !graph ? (
+              <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                Could not load the lineage.
+              </div>
+            ) : (
+              <ReactFlow
+                key={focusId}
+                nodes={graph.nodes.map((node) => ({ ...node, selected: node.id === selectedId }))}
+                edges={graph.edges}
+                nodeTypes={nodeTypes}
+                onNodeClick={(_, node) => setSelectedId(node.id)}
+                nodesDraggable={false}
+                nodesConnectable={false}
+                fitView
+                minZoom={0.3}
+                maxZoom={1.5}
+              >
+                <Controls showInteractive={false} />
+                <Background />
+              </ReactFlow>
+            )}
+          </div>
+
+          {/* Selected step */}
+          <div className="w-72 shrink-0 space-y-3 p-3 border-l border-border overflow-y-auto">
+            {!selected ? (
+              <p className="text-xs text-muted-foreground">Select a node to see its details.</p>
+            ) : (
+              <>
+                <div>
+                  <p className="text-xs font-semibold text-foreground line-clamp-2">
+                    {selected.asset ? assetTitle(selected.asset) : "Prompt"}
+                  </p>
+                  {selected.asset && (
+                    <p className="text-[10px] text-muted-foreground">
+                      {format(new Date(selected.asset.createdAt), "PPp")}
+                    </p>
+                  )}
+                </div>
+
+                {selected.producedBy && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[11px]">
+                    <dt className="text-muted-foreground">Tool</dt>
+                    <dd className="text-foreground">{selected.producedBy.tool}</dd>
+                    {selected.producedBy.modelName && (
+                      <>
+                        <dt className="text-muted-foreground">Model</dt>
+                        <dd className="text-foreground">{selected.producedBy.modelName}</dd>
+                      </>
+                    )}
+                    {selected.producedBy.seed !== undefined && (
+                      <>
+                        <dt className="text-muted-foreground">Seed</dt>
+                        <dd className="text-foreground">{selected.producedBy.seed}</dd>
+                      </>
+                    )}
+                    {selected.producedBy.creditsUsed !== undefined && (
+                      <>
+                        <dt className="text-muted-foreground">Credits</dt>
+                        <dd className="text-foreground">{selected.producedBy.creditsUsed}</dd>
+                      </>
+                    )}
+                  </dl>
+                )}
+                {!selected.asset && selected.prompt && (
+                  <p className="text-[11px] text-foreground whitespace-pre-wrap">{selected.prompt}</p>
+                )}
+
+                {selected.asset && selected.id !== focusId && (
+                  <button
+                    onClick={() => setFocusId(selected.id)}
+                    className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                  >
+                    <Target className="w-3 h-3" /> Show this asset's lineage
+                  </button>
+                )}
+
+                {canRerun(selected) && stepDefinition && (
+                  <div className="space-y-2 pt-3 border-t border-border">
+                    <span className="block text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+                      Re-run {stepDefinition.label.toLowerCase()}
+                    </span>
+                    {stepDefinition.params.map((param) => (
+                      <label key={param.key} className="block space-y-1">
+                        <span className="text-[10px] text-muted-foreground">{param.label}</span>
+                        {param.options ? (
+                          <select
+                            value={params[param.key] ?? ""}
+                            disabled={isRunning}
+                            onChange={(e) => setParams((prev) => ({ ...prev, [param.key]: e.target.value }))}
+                            className={fieldClass}
+                          >
+                            {param.options.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <textarea
+                            value={params[param.key] ?? ""}
+                            rows={param.multiline ? 3 : 1}
+                            disabled={isRunning}
+                            placeholder={param.placeholder}
+                            onChange={(e) => setParams((prev) => ({ ...prev, [param.key]: e.target.value }))}
+                            className={`${fieldClass} resize-none`}
+                          />
+                        )}
+                      </label>
+                    ))}
+                    {"model" in params && (
+                      <label className="block space-y-1">
+                        <span className="text-[10px] text-muted-foreground">Model</span>
+                        <input
+                          value={params.model}
+                          disabled={isRunning}
+                          onChange={(e) => setParams((prev) => ({ ...prev, model: e.target.value }))}
+                          className={fieldClass}
+                        />
+                      </label>
+                    )}
+                    <label className="block space-y-1">
+                      <span className="text-[10px] text-muted-foreground">Seed</span>
+                      <input
+                        value={params.seed ?? ""}
+                        inputMode="numeric"
+                        disabled={isRunning}
+                        placeholder="Random"
+                        onChange={(e) => setParams((prev) => ({ ...prev, seed: e.target.value.replace(/\D/g, "") }))}
+                        className={fieldClass}
+                      />
+                    </label>
+                    <button
+                      onClick={handleRerun}
+                      disabled={isRunning}
+                      className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                      {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                      Re-run
+                    </button>
+                    {runStatus && <p className="text-[10px] text-muted-foreground">{runStatus}</p>}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
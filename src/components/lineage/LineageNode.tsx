@@ -0,0 +1,61 @@
+import { memo } from "react";
+import { Handle, Position, type NodeProps } from "reactflow";
+import { Type } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ASSET_KINDS, assetTitle } from "@/components/assets/assetActions";
+import type { LineageNodeData } from "./lineageGraph";
+
+export const LineageNode = memo(({ data, selected }: NodeProps<LineageNodeData>) => {
+  const { node, focused } = data;
+  const kind = node.kind === "prompt" ? { label: "Prompt", icon: Type } : ASSET_KINDS[node.kind];
+  const Icon = kind.icon;
+  const step = node.producedBy;
+
+  return (
+    <div
+      className={cn(
+        "w-[200px] rounded-lg border-2 bg-card shadow-lg",
+        focused ? "border-primary" : "border-border",
+        selected && "ring-2 ring-primary/40"
+      )}
+    >
+      <Handle type="target" position={Position.Left} className="w-2 h-2 !bg-muted-foreground" />
+
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <Icon className="h-3.5 w-3.5 text-primary" />
+        <span className="flex-1 text-xs font-semibold text-foreground">{kind.label}</span>
+        {step?.tool && <span className="text-[10px] text-muted-foreground truncate max-w-[90px]">{step.tool}</span>}
+      </div>
+
+      <div className="space-y-1.5 px-3 py-2">
+        {node.asset ? (
+          <>
+            {node.asset.previewUrl && (
+              <img
+                src={node.asset.previewUrl}
+                alt={assetTitle(node.asset)}
+                loading="lazy"
+                className="w-full h-20 object-cover rounded"
+              />
+            )}
+            <p className="text-[11px] text-foreground line-clamp-2">{assetTitle(node.asset)}</p>
+          </>
+        ) : (
+          <p className="text-[11px] text-foreground line-clamp-4 whitespace-pre-wrap">{node.prompt}</p>
+        )}
+
+        {step && (
+          <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-[10px] text-muted-foreground">
+            {step.modelName && <span>{step.modelName}</span>}
+            {step.seed !== undefined && <span>seed {step.seed}</span>}
+            {step.creditsUsed !== undefined && <span>{step.creditsUsed} credits</span>}
+          </div>
+        )}
+      </div>
+
+      <Handle type="source" position={Position.Right} className="w-2 h-2 !bg-muted-foreground" />
+    </div>
+  );
+});
+
+LineageNode.displayName = "LineageNode";
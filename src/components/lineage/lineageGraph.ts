@@ -0,0 +1,138 @@
+import { MarkerType, type Edge, type Node } from "reactflow";
+import type { AssetLineage, AssetLineageNode, WorkflowChainTask, WorkflowStepType } from "@/types/backend.types";
+import { WORKFLOW_STEPS, WORKFLOW_STEP_TYPES, defaultStepParams } from "@/components/workflow/workflowGraph";
+
+// ============================================
+// LAYOUT
+// ============================================
+
+export interface LineageNodeData {
+  node: AssetLineageNode;
+  // The asset the lineage was opened for
+  focused: boolean;
+}
+
+export type LineageFlowNode = Node<LineageNodeData>;
+
+const COLUMN_WIDTH = 260;
+const ROW_HEIGHT = 200;
+
+/**
+ * Puts every node one column right of its deepest input, so a chain reads left to right
+ * (prompt → image → edit → 3D → optimized). Nodes sharing a column keep creation order.
+ */
+export function layoutLineage(lineage: AssetLineage): { nodes: LineageFlowNode[]; edges: Edge[] } {
+  const inputs = new Map<string, string[]>();
+  lineage.edges.forEach((edge) => inputs.set(edge.target, [...(inputs.get(edge.target) ?? []), edge.source]));
+
+  const depths = new Map<string, number>();
+  const depthOf = (id: string, visiting: Set<string>): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    // A loop would be bad data; stop walking instead of recursing forever
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const depth = Math.max(-1, ...(inputs.get(id) ?? []).map((source) => depthOf(source, visiting))) + 1;
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const columns = new Map<number, AssetLineageNode[]>();
+  lineage.nodes.forEach((node) => {
+    const depth = depthOf(node.id, new Set());
+    columns.set(depth, [...(columns.get(depth) ?? []), node]);
+  });
+
+  const createdAt = (node: AssetLineageNode) => node.asset?.createdAt ?? "";
+  const nodes: LineageFlowNode[] = [];
+  columns.forEach((column, depth) => {
+    column
+      .sort((a, b) => createdAt(a).localeCompare(createdAt(b)))
+      .forEach((node, row) =>
+        nodes.push({
+          id: node.id,
+          type: "lineageNode",
+          position: { x: depth * COLUMN_WIDTH, y: row * ROW_HEIGHT },
+          data: { node, focused: node.id === lineage.focusId },
+        })
+      );
+  });
+
+  const edges: Edge[] = lineage.edges.map((edge) => ({
+    id: `${edge.source}->${edge.target}`,
+    source: edge.source,
+    target: edge.target,
+    label: edge.role,
+    markerEnd: { type: MarkerType.ArrowClosed },
+  }));
+
+  return { nodes, edges };
+}
+
+// ============================================
+// RE-RUN
+// ============================================
+
+/**
+ * Files that fed `nodeId`, in input order: the backend lists a step's edges in the order the step
+ * took its inputs (e.g. source before mask)
+ */
+export function lineageInputUrls(lineage: AssetLineage, nodeId: string): string[] {
+  const byId = new Map(lineage.nodes.map((node) => [node.id, node]));
+  return lineage.edges
+    .filter((edge) => edge.target === nodeId)
+    .map((edge) => byId.get(edge.source)?.asset?.fileUrl)
+    .filter((url): url is string => !!url);
+}
+
+// Steps recorded by other clients or older versions may not exist in this one
+const isKnownStep = (step: string | undefined): step is WorkflowStepType =>
+  !!step && WORKFLOW_STEP_TYPES.includes(step as WorkflowStepType);
+
+export const canRerun = (node: AssetLineageNode) => isKnownStep(node.producedBy?.step);
+
+/**
+ * Values the node ran with, used to pre-fill the re-run form
+ */
+export function rerunDefaults(node: AssetLineageNode): Record<string, string> {
+  const producedBy = node.producedBy;
+  if (!isKnownStep(producedBy?.step)) return {};
+  const prompt = producedBy.params?.prompt ?? node.asset?.prompt;
+  return {
+    ...defaultStepParams(producedBy.step),
+    ...producedBy.params,
+    ...(prompt !== undefined && { prompt }),
+    ...(producedBy.modelName && { model: producedBy.modelName }),
+    ...(producedBy.seed !== undefined && { seed: String(producedBy.seed) }),
+  };
+}
+
+/**
+ * Turns a lineage node back into a one-task chain that runs its step again on the same inputs,
+ * with `params` in place of the original values. Throws with a user-facing message when it can't.
+ */
+export function buildRerunTask(lineage: AssetLineage, node: AssetLineageNode, params: Record<string, string>): WorkflowChainTask {
+  const step = node.producedBy?.step;
+  if (!isKnownStep(step)) throw new Error("This step can't be re-run from here.");
+
+  const definition = WORKFLOW_STEPS[step];
+  const missing = definition.params.find((param) => param.required && !params[param.key]?.trim());
+  if (missing) throw new Error(`"${definition.label}" is missing its ${missing.label.toLowerCase()}.`);
+
+  const { prompt, ...rest } = params;
+  const taskParams = Object.fromEntries(Object.entries(rest).filter(([, value]) => value.trim() !== ""));
+  if (definition.input) {
+    const urls = lineageInputUrls(lineage, node.id);
+    if (urls.length === 0) throw new Error("The inputs of this step are no longer available.");
+    taskParams.source_url = urls[0];
+    // Edits can take several images; the first stays in `source_url` for single-input tools
+    if (urls.length > 1) taskParams.source_urls = urls.join(",");
+  }
+
+  return {
+    task_number: 1,
+    task_type: definition.taskType,
+    prompt: prompt?.trim() || undefined,
+    params: taskParams,
+  };
+}
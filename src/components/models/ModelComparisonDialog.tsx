@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ModelComparison, type ComparisonSource } from "@/components/viewer/ModelComparison";
+import { useModelDownloadUrl } from "@/hooks/use-model-download-url";
+import type { AssociatedModelInfo, ModelDownloads } from "@/types/backend.types";
+import { modelExtension } from "./modelInspection";
+
+const VIEWABLE_EXTENSIONS = [".glb", ".gltf", ".fbx", ".obj"] as const;
+
+// The type comes from the file name when there is one; signed URLs carry a query string
+function comparisonSource(url: string | undefined, fileName?: string): ComparisonSource | null {
+  if (!url) return null;
+  const extension = modelExtension(fileName ?? new URL(url, window.location.href).pathname);
+  const type = VIEWABLE_EXTENSIONS.find((viewable) => viewable === extension);
+  return type ? { url, type } : null;
+}
+
+// GLB first: it's what the optimizer produces natively and loads without side files
+const variantSource = (downloads: ModelDownloads) =>
+  comparisonSource(downloads.glb) ?? comparisonSource(downloads.fbx);
+
+interface ModelComparisonDialogProps {
+  // The uploaded model; the dialog is open while it is set
+  baseModel: { id: string; name: string } | null;
+  variants: AssociatedModelInfo[];
+  initialVariantId?: string;
+  onClose: () => void;
+}
+
+// Compares an uploaded model with one of its optimized versions before the preset is accepted
+export const ModelComparisonDialog = ({ baseModel, variants, initialVariantId, onClose }: ModelComparisonDialogProps) => {
+  const viewable = variants.filter((variant) => variantSource(variant.downloads));
+  const [variantId, setVariantId] = useState(initialVariantId);
+  const { data: download, isError } = useModelDownloadUrl(baseModel?.id ?? null);
+
+  useEffect(() => {
+    setVariantId(initialVariantId);
+  }, [initialVariantId]);
+
+  const variant = viewable.find((item) => item.id === variantId) ?? viewable[0];
+  const original = download ? comparisonSource(download.url, download.file_name ?? baseModel?.name) : null;
+  const optimized = variant ? variantSource(variant.downloads) : null;
+
+  return (
+    <Dialog open={!!baseModel} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[960px]">
+        <DialogHeader>
+          <DialogTitle>Compare with original</DialogTitle>
+          <DialogDescription className="truncate">{baseModel?.name}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm shrink-0">Optimized version</Label>
+            <Select value={variant?.id} onValueChange={setVariantId} disabled={viewable.length === 0}>
+              <SelectTrigger className="h-8 max-w-xs text-xs">
+                <SelectValue placeholder="No viewable versions" />
+              </SelectTrigger>
+              <SelectContent>
+                {viewable.map((item) => (
+                  <SelectItem key={item.id} value={item.id} className="text-xs">
+                    {item.preset_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isError && <p className="text-destructive text-xs">Couldn't get the original model to compare with.</p>}
+          {download && !original && (
+            <p className="text-muted-foreground text-xs">The original model's format can't be shown in the viewer.</p>
+          )}
+          <ModelComparison key={baseModel?.id} original={original} optimized={optimized} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
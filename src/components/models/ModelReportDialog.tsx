@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ModelReportPanel } from "./ModelReportPanel";
+import { useModelReport } from "./useModelReport";
+import type { PresetSuggestion } from "./modelInspection";
+
+interface ModelReportDialogProps {
+  // The file waiting to be uploaded; the dialog is open while it is set
+  file: File | null;
+  onConfirm: (file: File, suggestion: PresetSuggestion | null) => void;
+  onCancel: () => void;
+}
+
+// Shows the inspection report of a model before it is uploaded
+export const ModelReportDialog = ({ file, onConfirm, onCancel }: ModelReportDialogProps) => {
+  const { report, error, isInspecting, suggestion } = useModelReport(file);
+  const hasErrors = !!error || !!report?.issues.some((issue) => issue.severity === "error");
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Check model before upload</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          <ModelReportPanel report={report} error={error} isInspecting={isInspecting} suggestion={suggestion} />
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button disabled={isInspecting} onClick={() => file && onConfirm(file, suggestion)}>
+            {hasErrors ? "Upload anyway" : "Upload"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,121 @@
+import { AlertCircle, AlertTriangle, Info, Loader2, Sparkles } from "lucide-react";
+import { formatBytes } from "@/components/chat/imagePreprocess";
+import { cn } from "@/lib/utils";
+import type { ModelIssueSeverity, ModelReport, PresetSuggestion } from "./modelInspection";
+
+interface ModelReportPanelProps {
+  report: ModelReport | null;
+  error: string | null;
+  isInspecting: boolean;
+  suggestion: PresetSuggestion | null;
+  className?: string;
+}
+
+// Textures listed by name before the rest are summarized as a count
+const MAX_LISTED_TEXTURES = 6;
+
+const ISSUE_STYLES: Record<ModelIssueSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: "text-destructive" },
+  warning: { icon: AlertTriangle, className: "text-amber-600" },
+  info: { icon: Info, className: "text-muted-foreground" },
+};
+
+const formatSize = (value: number) => (value >= 100 ? Math.round(value).toLocaleString() : value.toPrecision(3));
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium text-foreground tabular-nums">{value}</span>
+  </div>
+);
+
+// What inspecting a model file found: counts, textures, animations, problems and a preset to use
+export const ModelReportPanel = ({ report, error, isInspecting, suggestion, className }: ModelReportPanelProps) => {
+  if (isInspecting) {
+    return (
+      <div className={cn("flex items-center gap-2 p-3 rounded-lg border border-border bg-muted/30 text-xs text-muted-foreground", className)}>
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Inspecting model...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={cn("flex items-start gap-2 p-3 rounded-lg border border-destructive/30 bg-destructive/5 text-xs", className)}>
+        <AlertCircle className="h-3.5 w-3.5 mt-0.5 text-destructive flex-shrink-0" />
+        <span className="text-foreground">{error}</span>
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const hiddenTextures = report.textures.length - MAX_LISTED_TEXTURES;
+
+  return (
+    <div className={cn("p-3 rounded-lg border border-border bg-muted/30 space-y-3 text-xs", className)}>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+        <Stat label="Format" value={`${report.format} · ${formatBytes(report.fileSize)}`} />
+        <Stat label="Triangles" value={report.triangles.toLocaleString()} />
+        <Stat label="Vertices" value={report.vertices.toLocaleString()} />
+        <Stat label="Meshes" value={report.meshes.toLocaleString()} />
+        <Stat label="Materials" value={report.materials.toLocaleString()} />
+        <Stat label="Textures" value={report.textures.length.toLocaleString()} />
+        <Stat label="UVs" value={report.meshesWithoutUVs === 0 ? "All meshes" : `${report.meshes - report.meshesWithoutUVs} of ${report.meshes}`} />
+        <Stat label="Size" value={`${formatSize(report.size.x)} × ${formatSize(report.size.y)} × ${formatSize(report.size.z)}`} />
+        <Stat label="Animations" value={report.animations.length.toLocaleString()} />
+        <Stat label="Skeleton" value={report.bones > 0 ? `${report.bones} bones` : "None"} />
+      </div>
+
+      {report.textures.length > 0 && (
+        <div className="space-y-0.5">
+          <div className="font-medium text-foreground">Textures</div>
+          {report.textures.slice(0, MAX_LISTED_TEXTURES).map((texture, index) => (
+            <div key={index} className="flex justify-between gap-2 text-muted-foreground">
+              <span className="truncate">{texture.name}</span>
+              <span className="tabular-nums">{texture.width}×{texture.height}</span>
+            </div>
+          ))}
+          {hiddenTextures > 0 && <div className="text-muted-foreground">and {hiddenTextures} more</div>}
+        </div>
+      )}
+
+      {report.animations.length > 0 && (
+        <div className="space-y-0.5">
+          <div className="font-medium text-foreground">Animations</div>
+          {report.animations.map((animation, index) => (
+            <div key={index} className="flex justify-between gap-2 text-muted-foreground">
+              <span className="truncate">{animation.name}</span>
+              <span className="tabular-nums">{animation.duration.toFixed(1)}s</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.issues.length > 0 && (
+        <ul className="space-y-1">
+          {report.issues.map((issue, index) => {
+            const { icon: Icon, className: iconClassName } = ISSUE_STYLES[issue.severity];
+            return (
+              <li key={index} className="flex items-start gap-1.5">
+                <Icon className={cn("h-3.5 w-3.5 mt-px flex-shrink-0", iconClassName)} />
+                <span className="text-foreground">{issue.message}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {suggestion && (
+        <div className="flex items-start gap-1.5 p-2 rounded-md bg-primary/5 border border-primary/20">
+          <Sparkles className="h-3.5 w-3.5 mt-px text-primary flex-shrink-0" />
+          <span className="text-foreground">
+            Suggested preset: <span className="font-medium">{suggestion.type} · {suggestion.preset.text}</span>.{" "}
+            <span className="text-muted-foreground">{suggestion.reason}</span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useGeneratedThumbnail, type GeneratedThumbnailOptions } from "@/components/viewer/useGeneratedThumbnail";
+
+interface ModelThumbnailProps extends Omit<GeneratedThumbnailOptions, "enabled"> {
+  // Server thumbnail; a thumbnail is only rendered when this is missing
+  thumbnailUrl?: string;
+  alt: string;
+  className?: string;
+  imageClassName?: string;
+  // Shown until there is an image
+  fallback: ReactNode;
+}
+
+// List thumbnail of a model, rendered client-side once the card scrolls into view if the server has none
+export const ModelThumbnail = ({
+  thumbnailUrl,
+  alt,
+  className,
+  imageClassName,
+  fallback,
+  ...generation
+}: ModelThumbnailProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    if (thumbnailUrl || isVisible) return;
+    const element = containerRef.current;
+    if (!element || typeof IntersectionObserver === "undefined") {
+      setIsVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setIsVisible(true);
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [thumbnailUrl, isVisible]);
+
+  const generatedUrl = useGeneratedThumbnail({ ...generation, enabled: !thumbnailUrl && isVisible });
+  const src = thumbnailUrl || generatedUrl;
+
+  return (
+    <div ref={containerRef} className={className}>
+      {src ? (
+        <img
+          src={src}
+          alt={alt}
+          className={imageClassName}
+          loading="lazy"
+          onError={(e) => {
+            (e.target as HTMLImageElement).src = "/placeholder.svg";
+          }}
+        />
+      ) : (
+        fallback
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,413 @@
+// ============================================
+// MODEL INSPECTION
+// ============================================
+// Parses a model file in the browser with the same three.js loaders the viewer uses and
+// summarizes what the optimizer will have to deal with, before anything is uploaded.
+
+import * as THREE from "three";
+import { FBXLoader } from "three/addons/loaders/FBXLoader.js";
+import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/addons/loaders/OBJLoader.js";
+import type { OptimizationPresets, PresetOption } from "@/types/backend.types";
+
+export const INSPECTABLE_EXTENSIONS = [".glb", ".gltf", ".fbx", ".obj"];
+
+// Triangle counts past which a model is heavy for real-time use, and past which it is extreme
+const HEAVY_TRIANGLES = 500_000;
+const EXTREME_TRIANGLES = 2_000_000;
+const LARGE_TEXTURE = 4096;
+const MANY_MATERIALS = 32;
+// Edge checks hold every edge in memory, so very dense models skip them
+const EDGE_CHECK_MAX_TRIANGLES = 1_000_000;
+// Positions closer than this are welded for the edge check, so UV and normal seams don't count as holes
+const WELD_PRECISION = 1e4;
+// Longest side (in file units) outside this range usually means the wrong export unit
+const MIN_SIZE = 0.01;
+const MAX_SIZE = 1000;
+// Stop waiting for textures an FBX references after this long
+const TEXTURE_TIMEOUT_MS = 10_000;
+
+const TEXTURE_SLOTS = [
+  "map",
+  "normalMap",
+  "roughnessMap",
+  "metalnessMap",
+  "aoMap",
+  "emissiveMap",
+  "alphaMap",
+  "bumpMap",
+  "displacementMap",
+  "specularMap",
+  "lightMap",
+] as const;
+
+export type ModelIssueSeverity = "info" | "warning" | "error";
+
+export interface ModelIssue {
+  severity: ModelIssueSeverity;
+  message: string;
+}
+
+export interface ModelTextureInfo {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ModelAnimationInfo {
+  name: string;
+  duration: number;
+  tracks: number;
+}
+
+export interface ModelReport {
+  format: string;
+  fileSize: number;
+  triangles: number;
+  vertices: number;
+  meshes: number;
+  materials: number;
+  textures: ModelTextureInfo[];
+  // Texture files the model points at that aren't inside it
+  missingTextures: string[];
+  meshesWithoutUVs: number;
+  // Size of the bounding box in file units
+  size: { x: number; y: number; z: number };
+  animations: ModelAnimationInfo[];
+  skinnedMeshes: number;
+  bones: number;
+  // Edges used by one triangle (holes) and by more than two (non-manifold); null when skipped
+  openEdges: number | null;
+  nonManifoldEdges: number | null;
+  issues: ModelIssue[];
+}
+
+export interface PresetSuggestion {
+  type: string;
+  preset: PresetOption;
+  reason: string;
+}
+
+export const modelExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : "";
+};
+
+// ============================================
+// LOADING
+// ============================================
+
+interface LoadedModel {
+  scene: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+  missingTextures: string[];
+  notes: ModelIssue[];
+}
+
+/**
+ * Loading manager that only lets embedded resources load. Anything the file merely references
+ * by path is recorded as missing, since only the one file is available.
+ */
+function createManager() {
+  const missing = new Set<string>();
+  let started = false;
+  let finish: () => void = () => undefined;
+  const finished = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  // Rejected references fail on the placeholder URL and were recorded already; anything else is a broken embedded image
+  const manager = new THREE.LoadingManager(
+    () => finish(),
+    undefined,
+    (url) => url !== "data:," && missing.add(url.startsWith("blob:") || url.startsWith("data:") ? "embedded image" : url)
+  );
+  manager.onStart = () => {
+    started = true;
+  };
+  manager.setURLModifier((url) => {
+    if (url.startsWith("blob:") || url.startsWith("data:")) return url;
+    missing.add(url.split(/[\\/]/).pop() || url);
+    // Fails straight away instead of requesting some path relative to the app
+    return "data:,";
+  });
+
+  // Resolves once referenced textures settled; only waits when loading actually started
+  const settled = () =>
+    started
+      ? Promise.race([finished, new Promise<void>((resolve) => setTimeout(resolve, TEXTURE_TIMEOUT_MS))])
+      : Promise.resolve();
+
+  return { manager, missing, settled };
+}
+
+async function loadModel(file: File): Promise<LoadedModel> {
+  const extension = modelExtension(file.name);
+  const { manager, missing, settled } = createManager();
+  const notes: ModelIssue[] = [];
+
+  if (extension === ".glb" || extension === ".gltf") {
+    const data = extension === ".glb" ? await file.arrayBuffer() : await file.text();
+    const gltf = await new Promise<{ scene: THREE.Object3D; animations: THREE.AnimationClip[] }>((resolve, reject) =>
+      new GLTFLoader(manager).parse(data, "", resolve, reject)
+    ).catch((error) => {
+      throw new Error(
+        extension === ".gltf" && missing.size > 0
+          ? `This .gltf points at files that aren't included (${[...missing].join(", ")}). Export it as a single .glb instead.`
+          : `The model couldn't be read: ${error instanceof Error ? error.message : "unknown error"}`
+      );
+    });
+    return { scene: gltf.scene, animations: gltf.animations, missingTextures: [...missing], notes };
+  }
+
+  if (extension === ".fbx") {
+    const scene = new FBXLoader(manager).parse(await file.arrayBuffer(), "");
+    await settled();
+    return { scene, animations: scene.animations, missingTextures: [...missing], notes };
+  }
+
+  if (extension === ".obj") {
+    const scene = new OBJLoader(manager).parse(await file.text());
+    notes.push({ severity: "info", message: "OBJ materials live in a separate .mtl file, so materials and textures aren't checked." });
+    return { scene, animations: [], missingTextures: [], notes };
+  }
+
+  throw new Error(`Unsupported model format "${extension || file.name}". Use ${INSPECTABLE_EXTENSIONS.join(", ")}.`);
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+function countEdgeIssues(geometry: THREE.BufferGeometry): { open: number; nonManifold: number } {
+  const position = geometry.getAttribute("position");
+  if (!position) return { open: 0, nonManifold: 0 };
+  const welded = new Uint32Array(position.count);
+  const ids = new Map<string, number>();
+  for (let i = 0; i < position.count; i++) {
+    const key = `${Math.round(position.getX(i) * WELD_PRECISION)},${Math.round(position.getY(i) * WELD_PRECISION)},${Math.round(position.getZ(i) * WELD_PRECISION)}`;
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    welded[i] = id;
+  }
+
+  const index = geometry.getIndex();
+  const corner = (i: number) => welded[index ? index.getX(i) : i];
+  const cornerCount = index ? index.count : position.count;
+  const stride = ids.size;
+  const edges = new Map<number, number>();
+  const addEdge = (a: number, b: number) => {
+    const key = a < b ? a * stride + b : b * stride + a;
+    edges.set(key, (edges.get(key) ?? 0) + 1);
+  };
+
+  for (let i = 0; i + 2 < cornerCount; i += 3) {
+    const [a, b, c] = [corner(i), corner(i + 1), corner(i + 2)];
+    // Degenerate triangles don't form real edges
+    if (a === b || b === c || a === c) continue;
+    addEdge(a, b);
+    addEdge(b, c);
+    addEdge(c, a);
+  }
+
+  let open = 0;
+  let nonManifold = 0;
+  edges.forEach((count) => {
+    if (count === 1) open++;
+    else if (count > 2) nonManifold++;
+  });
+  return { open, nonManifold };
+}
+
+const triangleCount = (geometry: THREE.BufferGeometry) =>
+  Math.floor((geometry.getIndex()?.count ?? geometry.getAttribute("position")?.count ?? 0) / 3);
+
+const textureSize = (texture: THREE.Texture) => {
+  const image = texture.image as { width?: number; height?: number; naturalWidth?: number; naturalHeight?: number } | undefined;
+  return {
+    width: image?.naturalWidth || image?.width || 0,
+    height: image?.naturalHeight || image?.height || 0,
+  };
+};
+
+function collectIssues(report: Omit<ModelReport, "issues">, notes: ModelIssue[]): ModelIssue[] {
+  const issues: ModelIssue[] = [...notes];
+  const add = (severity: ModelIssueSeverity, message: string) => issues.push({ severity, message });
+
+  if (report.meshes === 0) add("error", "The file contains no meshes.");
+  if (report.triangles > EXTREME_TRIANGLES) {
+    add("error", `${report.triangles.toLocaleString()} triangles is far beyond real-time budgets; a strong reduction is needed.`);
+  } else if (report.triangles > HEAVY_TRIANGLES) {
+    add("warning", `${report.triangles.toLocaleString()} triangles is heavy for real-time use.`);
+  }
+  if (report.missingTextures.length > 0) {
+    add("warning", `Missing textures (not embedded): ${report.missingTextures.join(", ")}.`);
+  }
+  if (report.meshesWithoutUVs > 0) {
+    add(
+      "warning",
+      `${report.meshesWithoutUVs} of ${report.meshes} meshes have no UVs, so textures can't be baked or applied to them.`
+    );
+  }
+  const largeTextures = report.textures.filter((texture) => Math.max(texture.width, texture.height) > LARGE_TEXTURE);
+  if (largeTextures.length > 0) {
+    add("warning", `${largeTextures.length} texture(s) larger than ${LARGE_TEXTURE}px.`);
+  }
+  if (report.materials > MANY_MATERIALS) {
+    add("warning", `${report.materials} materials means many draw calls; merging materials would help.`);
+  }
+  if (report.nonManifoldEdges) {
+    add("warning", `${report.nonManifoldEdges.toLocaleString()} non-manifold edges (shared by more than two faces).`);
+  }
+  if (report.openEdges) {
+    add("info", `${report.openEdges.toLocaleString()} open edges; the mesh isn't watertight.`);
+  }
+  if (report.openEdges === null && report.meshes > 0) {
+    add("info", "The model is too dense for the edge check; manifold problems weren't looked for.");
+  }
+  const longest = Math.max(report.size.x, report.size.y, report.size.z);
+  if (report.meshes > 0 && longest > MAX_SIZE) {
+    add("warning", `The model is ${Math.round(longest).toLocaleString()} units across; it was probably exported in millimetres or centimetres.`);
+  } else if (report.meshes > 0 && longest < MIN_SIZE) {
+    add("warning", `The model is only ${longest.toPrecision(2)} units across; check the export scale.`);
+  }
+  return issues;
+}
+
+function disposeScene(scene: THREE.Object3D) {
+  scene.traverse((object) => {
+    const mesh = object as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.geometry?.dispose();
+    (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach((material) => {
+      TEXTURE_SLOTS.forEach((slot) => (material as unknown as Record<string, THREE.Texture | null>)[slot]?.dispose());
+      material?.dispose();
+    });
+  });
+}
+
+/**
+ * Loads `file` and reports its geometry, materials, textures, animations and likely problems.
+ * Rejects when the file can't be parsed at all.
+ */
+export async function inspectModelFile(file: File): Promise<ModelReport> {
+  const { scene, animations, missingTextures, notes } = await loadModel(file);
+
+  try {
+    scene.updateMatrixWorld(true);
+    const materials = new Set<THREE.Material>();
+    const textures = new Map<string, ModelTextureInfo>();
+    const bones = new Set<THREE.Bone>();
+    const geometries: THREE.BufferGeometry[] = [];
+    let meshes = 0;
+    let skinnedMeshes = 0;
+    let triangles = 0;
+    let vertices = 0;
+    let meshesWithoutUVs = 0;
+
+    scene.traverse((object) => {
+      const mesh = object as THREE.Mesh;
+      if (!mesh.isMesh || !mesh.geometry) return;
+      meshes++;
+      geometries.push(mesh.geometry);
+      triangles += triangleCount(mesh.geometry);
+      vertices += mesh.geometry.getAttribute("position")?.count ?? 0;
+      if (!mesh.geometry.getAttribute("uv")) meshesWithoutUVs++;
+
+      const skinned = object as THREE.SkinnedMesh;
+      if (skinned.isSkinnedMesh) {
+        skinnedMeshes++;
+        skinned.skeleton?.bones.forEach((bone) => bones.add(bone));
+      }
+
+      (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach((material) => {
+        if (!material) return;
+        materials.add(material);
+        TEXTURE_SLOTS.forEach((slot) => {
+          const texture = (material as unknown as Record<string, THREE.Texture | null>)[slot];
+          if (!texture || textures.has(texture.uuid)) return;
+          const { width, height } = textureSize(texture);
+          // Textures whose image never arrived are already reported as missing
+          if (width && height) textures.set(texture.uuid, { name: texture.name || slot, width, height });
+        });
+      });
+    });
+
+    const checkEdges = triangles <= EDGE_CHECK_MAX_TRIANGLES;
+    const edgeIssues = checkEdges
+      ? geometries.map(countEdgeIssues).reduce(
+          (sum, next) => ({ open: sum.open + next.open, nonManifold: sum.nonManifold + next.nonManifold }),
+          { open: 0, nonManifold: 0 }
+        )
+      : null;
+
+    const box = new THREE.Box3().setFromObject(scene);
+    const size = box.isEmpty() ? new THREE.Vector3() : box.getSize(new THREE.Vector3());
+
+    const report: Omit<ModelReport, "issues"> = {
+      format: modelExtension(file.name).slice(1).toUpperCase(),
+      fileSize: file.size,
+      triangles,
+      vertices,
+      meshes,
+      materials: materials.size,
+      textures: [...textures.values()],
+      missingTextures,
+      meshesWithoutUVs,
+      size: { x: size.x, y: size.y, z: size.z },
+      animations: animations.map((clip) => ({ name: clip.name || "Untitled", duration: clip.duration, tracks: clip.tracks.length })),
+      skinnedMeshes,
+      bones: bones.size,
+      openEdges: edgeIssues?.open ?? null,
+      nonManifoldEdges: edgeIssues?.nonManifold ?? null,
+    };
+    return { ...report, issues: collectIssues(report, notes) };
+  } finally {
+    disposeScene(scene);
+  }
+}
+
+// ============================================
+// PRESET SUGGESTION
+// ============================================
+
+const GEOMETRY_PRESET = /poly|decimat|mesh|geometr|reduc|lod/i;
+const TEXTURE_PRESET = /textur|material|bake|atlas/i;
+
+// 0 (fine as is) to 3 (needs the strongest reduction)
+const triangleLevel = (triangles: number) =>
+  triangles > EXTREME_TRIANGLES ? 3 : triangles > HEAVY_TRIANGLES ? 2 : triangles > 100_000 ? 1 : 0;
+
+const textureLevel = (report: ModelReport) => {
+  const largest = Math.max(0, ...report.textures.map((texture) => Math.max(texture.width, texture.height)));
+  return largest > 2 * LARGE_TEXTURE ? 3 : largest > LARGE_TEXTURE ? 2 : report.textures.length > 8 ? 1 : 0;
+};
+
+/**
+ * Picks the optimization type that addresses the model's biggest cost and a strength to match.
+ * Types are matched by name and each type's options are assumed to go from mild to strong.
+ * Returns null when the model doesn't need optimizing or no presets are loaded.
+ */
+export function suggestPreset(report: ModelReport, presets: OptimizationPresets | undefined): PresetSuggestion | null {
+  const types = Object.keys(presets?.presets ?? {});
+  if (!presets || types.length === 0) return null;
+
+  const geometry = triangleLevel(report.triangles);
+  const texture = textureLevel(report);
+  const level = Math.max(geometry, texture);
+  if (level === 0) return null;
+
+  const focusTextures = texture > geometry;
+  const type = types.find((name) => (focusTextures ? TEXTURE_PRESET : GEOMETRY_PRESET).test(name)) ?? types[0];
+  const options = presets.presets[type] ?? [];
+  if (options.length === 0) return null;
+
+  const preset = options[Math.round(((level - 1) / 2) * (options.length - 1))];
+  const reason = focusTextures
+    ? `Textures are the heaviest part (largest ${Math.max(...report.textures.map((t) => Math.max(t.width, t.height)))}px).`
+    : `${report.triangles.toLocaleString()} triangles; ${level === 3 ? "a strong" : level === 2 ? "a medium" : "a light"} reduction fits.`;
+  return { type, preset, reason };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useMemo, useState } from "react";
+import { useOptimizationPresets } from "@/hooks/use-optimization-presets";
+import { inspectModelFile, suggestPreset, type ModelReport } from "./modelInspection";
+
+/**
+ * Inspects `file` whenever it changes and suggests an optimization preset from the report.
+ * A newer file replaces the result of an inspection still running for an older one.
+ */
+export function useModelReport(file: File | null) {
+  const [report, setReport] = useState<ModelReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const { data: presets } = useOptimizationPresets(!!file);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+    if (!file) return;
+
+    let current = true;
+    setIsInspecting(true);
+    inspectModelFile(file)
+      .then((next) => current && setReport(next))
+      .catch((err) => {
+        console.error("Model inspection failed:", err);
+        if (current) setError(err instanceof Error ? err.message : "The model couldn't be inspected.");
+      })
+      .finally(() => current && setIsInspecting(false));
+    return () => {
+      current = false;
+    };
+  }, [file]);
+
+  const suggestion = useMemo(() => (report ? suggestPreset(report, presets) : null), [report, presets]);
+
+  return { report, error, isInspecting, suggestion };
+}
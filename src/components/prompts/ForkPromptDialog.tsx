@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { GitFork, Loader2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { submitImageGeneration } from "@/lib/backend";
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, DEFAULT_IMAGE_MODEL } from "@/components/settings/models";
+import type { PromptRecord } from "@/types/backend.types";
+
+interface ForkPromptDialogProps {
+  // Prompt to fork; the dialog is closed while null
+  prompt: PromptRecord | null;
+  onOpenChange: (open: boolean) => void;
+  projectId?: string | null;
+}
+
+/**
+ * Starts a new generation from a saved prompt, with its text, model, ratio and seed editable first
+ */
+export const ForkPromptDialog = ({ prompt, onOpenChange, projectId }: ForkPromptDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [text, setText] = useState("");
+  const [model, setModel] = useState(DEFAULT_IMAGE_MODEL);
+  const [ratio, setRatio] = useState(DEFAULT_ASPECT_RATIO);
+  const [seed, setSeed] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!prompt) return;
+    setText(prompt.prompt);
+    setModel(prompt.modelName || DEFAULT_IMAGE_MODEL);
+    setRatio(prompt.ratio || DEFAULT_ASPECT_RATIO);
+    setSeed(prompt.seed !== undefined ? String(prompt.seed) : "");
+  }, [prompt]);
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await submitImageGeneration(
+        {
+          prompt: text.trim(),
+          model: model.trim() || DEFAULT_IMAGE_MODEL,
+          aspect_ratio: ratio,
+          seed: seed ? Number(seed) : undefined,
+        },
+        projectId ?? prompt?.projectId
+      );
+      queryClient.invalidateQueries({ queryKey: ["prompts"] });
+      toast({ title: "Generation started", description: "The result will show up in your history." });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error forking prompt:", error);
+      toast({
+        title: "Generation failed",
+        description: error instanceof Error ? error.message : "Could not start the generation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fieldClass =
+    "w-full px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitFork className="w-4 h-4" /> Fork prompt
+          </DialogTitle>
+          <DialogDescription>Change anything before generating. The original prompt stays as it was.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <textarea
+            value={text}
+            rows={4}
+            onChange={(e) => setText(e.target.value)}
+            className={`${fieldClass} resize-none`}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <label className="space-y-1">
+              <span className="text-[11px] text-muted-foreground">Model</span>
+              <input value={model} onChange={(e) => setModel(e.target.value)} className={fieldClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-muted-foreground">Ratio</span>
+              <select value={ratio} onChange={(e) => setRatio(e.target.value)} className={fieldClass}>
+                {[...new Set([ratio, ...ASPECT_RATIOS])].map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-muted-foreground">Seed</span>
+              <input
+                value={seed}
+                inputMode="numeric"
+                placeholder="Random"
+                onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+                className={fieldClass}
+              />
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !text.trim()}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Library, Loader2 } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { usePrompts } from "@/hooks/use-prompts";
+import type { PromptRecord } from "@/types/backend.types";
+
+// Enough for a palette; the library page pages through the rest
+const PALETTE_LIMIT = 100;
+
+interface PromptPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (prompt: PromptRecord) => void;
+  // Includes the project's prompts from other members when set
+  projectId?: string | null;
+}
+
+export const PromptMeta = ({ prompt }: { prompt: PromptRecord }) => (
+  <span className="text-[10px] text-muted-foreground">
+    {[prompt.modelName, prompt.ratio, prompt.seed !== undefined && `seed ${prompt.seed}`].filter(Boolean).join(" · ")}
+  </span>
+);
+
+/**
+ * Command palette over the prompt library. Opens with ⌘K / Ctrl+K while mounted.
+ */
+export const PromptPalette = ({ open, onOpenChange, onSelect, projectId }: PromptPaletteProps) => {
+  const navigate = useNavigate();
+  const { data, isLoading } = usePrompts(
+    { scope: projectId ? "project" : "mine", projectId, limit: PALETTE_LIMIT },
+    open
+  );
+  const prompts = data?.data ?? [];
+  const pinned = prompts.filter((prompt) => prompt.pinned);
+  const recent = prompts.filter((prompt) => !prompt.pinned);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onOpenChange]);
+
+  const renderItem = (prompt: PromptRecord) => (
+    <CommandItem
+      key={prompt.id}
+      // cmdk matches on the value, so it has to be unique per prompt
+      value={`${prompt.prompt} ${prompt.id}`}
+      onSelect={() => {
+        onSelect(prompt);
+        onOpenChange(false);
+      }}
+      className="flex items-start gap-3"
+    >
+      <div className="flex-1 min-w-0 space-y-0.5">
+        <p className="text-xs text-foreground line-clamp-2">{prompt.prompt}</p>
+        <PromptMeta prompt={prompt} />
+      </div>
+      {prompt.thumbnails && prompt.thumbnails.length > 0 && (
+        <div className="flex gap-1 shrink-0">
+          {prompt.thumbnails.slice(0, 3).map((url) => (
+            <img key={url} src={url} alt="" loading="lazy" className="w-8 h-8 rounded object-cover" />
+          ))}
+        </div>
+      )}
+    </CommandItem>
+  );
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search your prompts…" />
+      <CommandList className="max-h-[420px]">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <CommandEmpty>No prompts found.</CommandEmpty>
+        )}
+        {pinned.length > 0 && (
+          <CommandGroup heading="Pinned">{pinned.map(renderItem)}</CommandGroup>
+        )}
+        {recent.length > 0 && (
+          <CommandGroup heading="Recent">{recent.map(renderItem)}</CommandGroup>
+        )}
+        <CommandSeparator />
+        <CommandGroup>
+          <CommandItem
+            value="open prompt library"
+            onSelect={() => {
+              onOpenChange(false);
+              navigate("/prompts");
+            }}
+          >
+            <Library className="w-4 h-4 mr-2" />
+            <span className="text-xs">Open prompt library</span>
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
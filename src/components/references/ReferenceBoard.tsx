@@ -0,0 +1,80 @@
+import { X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import type { ReferenceRole } from "@/types/backend.types";
+import { REFERENCE_ROLES, REFERENCE_ROLE_TYPES, defaultReferenceSetting, type ReferenceSetting } from "./referenceRoles";
+
+interface ReferenceBoardProps {
+  previews: string[];
+  references: ReferenceSetting[];
+  onChange: (index: number, patch: Partial<ReferenceSetting>) => void;
+  onRemove: (index: number) => void;
+  className?: string;
+}
+
+/**
+ * Attached images with what each one is for: a role the agent should take from it and how
+ * strongly (weight) it should count
+ */
+export function ReferenceBoard({ previews, references, onChange, onRemove, className }: ReferenceBoardProps) {
+  if (previews.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {previews.map((preview, index) => {
+        const reference = references[index] ?? defaultReferenceSetting(index);
+        return (
+          <div
+            key={`${preview}-${index}`}
+            className="relative group flex gap-2 p-1.5 pr-2.5 bg-secondary/40 border border-border/50 rounded-lg"
+          >
+            <img
+              src={preview}
+              alt={`${REFERENCE_ROLES[reference.role].label} reference ${index + 1}`}
+              className="w-12 h-12 object-cover rounded-md border border-border/50"
+            />
+            <div className="flex flex-col justify-between w-28">
+              <Select value={reference.role} onValueChange={(role) => onChange(index, { role: role as ReferenceRole })}>
+                <SelectTrigger className="h-6 px-2 text-xs" aria-label={`Role of image ${index + 1}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFERENCE_ROLE_TYPES.map((role) => (
+                    <SelectItem key={role} value={role} className="text-xs">
+                      <div className="flex flex-col">
+                        <span>{REFERENCE_ROLES[role].label}</span>
+                        <span className="text-[10px] text-muted-foreground">{REFERENCE_ROLES[role].description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-1.5">
+                <Slider
+                  value={[reference.weight]}
+                  min={0.1}
+                  max={1}
+                  step={0.1}
+                  onValueChange={([weight]) => onChange(index, { weight })}
+                  className="[&_[role=slider]]:h-3 [&_[role=slider]]:w-3"
+                  aria-label={`Weight of image ${index + 1}`}
+                />
+                <span className="text-[10px] tabular-nums text-muted-foreground w-6 text-right">
+                  {reference.weight.toFixed(1)}
+                </span>
+              </div>
+            </div>
+            <button
+              onClick={() => onRemove(index)}
+              className="absolute -top-1 -right-1 bg-destructive text-destructive-foreground rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label="Remove image"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { ImageReference, ReferenceRole } from "@/types/backend.types";
+
+export const REFERENCE_ROLES: Record<ReferenceRole, { label: string; description: string }> = {
+  subject: { label: "Subject", description: "The image to work on or the main subject to keep" },
+  style: { label: "Style", description: "Colours, medium and rendering to match" },
+  character: { label: "Character", description: "A character whose look should stay consistent" },
+  pose: { label: "Pose", description: "Body pose or composition to follow" },
+  background: { label: "Background", description: "Scene or backdrop to place the subject in" },
+};
+
+export const REFERENCE_ROLE_TYPES = Object.keys(REFERENCE_ROLES) as ReferenceRole[];
+
+export const DEFAULT_REFERENCE_WEIGHT = 1;
+
+// URL param the prompt bar hands references to the studio with (JSON array)
+export const REFERENCES_PARAM = "references";
+
+export type ReferenceSetting = Omit<ImageReference, "url">;
+
+// The first image is what the user most likely wants to change; later ones usually guide it
+export const defaultReferenceSetting = (index: number): ReferenceSetting => ({
+  role: index === 0 ? "subject" : "style",
+  weight: DEFAULT_REFERENCE_WEIGHT,
+});
+
+const isReferenceRole = (value: unknown): value is ReferenceRole =>
+  typeof value === "string" && REFERENCE_ROLE_TYPES.includes(value as ReferenceRole);
+
+/**
+ * Reads references from untrusted JSON (a URL param), dropping entries without a URL and
+ * clamping weights into 0..1
+ */
+export function parseImageReferences(raw: string | null): ImageReference[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data)) return undefined;
+    const references = data
+      .filter((entry) => entry && typeof entry.url === "string" && entry.url)
+      .map((entry, index) => {
+        const weight = Number(entry.weight);
+        return {
+          url: entry.url as string,
+          role: isReferenceRole(entry.role) ? entry.role : defaultReferenceSetting(index).role,
+          weight: Number.isFinite(weight) ? Math.min(1, Math.max(0, weight)) : DEFAULT_REFERENCE_WEIGHT,
+        };
+      });
+    return references.length > 0 ? references : undefined;
+  } catch {
+    return undefined;
+  }
+}
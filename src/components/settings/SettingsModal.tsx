@@ -1,55 +1,41 @@
 import { useState } from "react";
 import { X, Search, Lock, Check } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { SeedControl } from "@/components/SeedControl";
+import type { GenerationOptions } from "@/types/backend.types";
+import { MODEL_CATEGORIES, MODELS } from "./models";
+import { RESOLUTIONS } from "./generationOptions";
 
 interface SettingsModalProps {
   open: boolean;
   onClose: () => void;
-  selectedModel: string;
-  onModelChange: (model: string) => void;
-  selectedRatio: string;
-  onRatioChange: (ratio: string) => void;
+  options: GenerationOptions;
+  onOptionsChange: (patch: Partial<GenerationOptions>) => void;
+  // Undefined means a random seed per generation
+  seed?: number;
+  onSeedChange?: (seed: number | undefined) => void;
 }
 
-const modelCategories = ["All", "Image", "3D", "Edit"] as const;
-
-const models = [
-  { name: "QWEN", type: "Image", description: "Versatile all-rounder", locked: false },
-  { name: "Seedream4", type: "Image", description: "Photorealistic quality", locked: false },
-  { name: "Nano Banana", type: "Image", description: "Creative & stylized", locked: false },
-  { name: "Flux", type: "Image", description: "Fast generation", locked: false },
-  { name: "Flux Pro", type: "Image", description: "Premium quality", locked: true },
-  { name: "Text → 3D", type: "3D", description: "Generate 3D from text", locked: false },
-  { name: "Image → 3D", type: "3D", description: "Convert images to 3D", locked: false },
-  { name: "Flux Kontext", type: "Edit", description: "Color & material edits", locked: false },
-  { name: "Nano Banana Edit", type: "Edit", description: "Complex transforms", locked: false },
-  { name: "Seedream4 Edit", type: "Edit", description: "Lighting & weather", locked: false },
-  { name: "QWEN Edit Plus", type: "Edit", description: "General editing", locked: false },
-];
-
 const orientations = [
   { label: "Portrait", ratio: "3:4", preview: "w-[36px] h-[48px]" },
   { label: "Square", ratio: "1:1", preview: "w-[44px] h-[44px]" },
   { label: "Landscape", ratio: "4:3", preview: "w-[56px] h-[36px]" },
 ];
 
-const resolutions = ["Standard", "2K", "4K"] as const;
-
 const SettingsModal = ({
   open,
   onClose,
-  selectedModel,
-  onModelChange,
-  selectedRatio,
-  onRatioChange,
+  options,
+  onOptionsChange,
+  seed,
+  onSeedChange,
 }: SettingsModalProps) => {
-  const [category, setCategory] = useState<typeof modelCategories[number]>("All");
+  const [category, setCategory] = useState<typeof MODEL_CATEGORIES[number]>("All");
   const [search, setSearch] = useState("");
-  const [promptEnhancer, setPromptEnhancer] = useState(false);
-  const [visibility, setVisibility] = useState<"public" | "private">("public");
-  const [resolution, setResolution] = useState<typeof resolutions[number]>("Standard");
+  const { model: selectedModel, aspect_ratio: selectedRatio, resolution, prompt_enhancer: promptEnhancer, visibility } =
+    options;
 
-  const filteredModels = models.filter((m) => {
+  const filteredModels = MODELS.filter((m) => {
     const matchCat = category === "All" || m.type === category;
     const matchSearch = !search || m.name.toLowerCase().includes(search.toLowerCase());
     return matchCat && matchSearch;
@@ -92,7 +78,7 @@ const SettingsModal = ({
 
                 {/* Category tabs */}
                 <div className="flex gap-1 mb-3">
-                  {modelCategories.map((cat) => (
+                  {MODEL_CATEGORIES.map((cat) => (
                     <button
                       key={cat}
                       onClick={() => setCategory(cat)}
@@ -128,7 +114,7 @@ const SettingsModal = ({
                   {filteredModels.map((m) => (
                     <button
                       key={m.name}
-                      onClick={() => !m.locked && onModelChange(m.name)}
+                      onClick={() => !m.locked && onOptionsChange({ model: m.name })}
                       className={`p-3 rounded-xl border text-left transition-all ${
                         selectedModel === m.name
                           ? "border-primary bg-primary/10"
@@ -162,7 +148,7 @@ const SettingsModal = ({
                   {orientations.map((o) => (
                     <button
                       key={o.label}
-                      onClick={() => onRatioChange(o.ratio)}
+                      onClick={() => onOptionsChange({ aspect_ratio: o.ratio })}
                       className={`flex flex-col items-center gap-1.5 p-3 rounded-xl border transition-all ${
                         selectedRatio === o.ratio
                           ? "border-primary bg-primary/10"
@@ -179,12 +165,12 @@ const SettingsModal = ({
 
                 {/* Resolution */}
                 <div className="flex gap-1">
-                  {resolutions.map((r) => {
+                  {RESOLUTIONS.map((r) => {
                     const locked = r === "4K";
                     return (
                       <button
                         key={r}
-                        onClick={() => !locked && setResolution(r)}
+                        onClick={() => !locked && onOptionsChange({ resolution: r })}
                         className={`flex items-center gap-1 px-3 py-1.5 text-[11px] font-medium rounded-lg transition-colors ${
                           resolution === r
                             ? "bg-primary/15 text-primary"
@@ -201,6 +187,17 @@ const SettingsModal = ({
                 </div>
               </section>
 
+              {/* Seed */}
+              {onSeedChange && (
+                <section>
+                  <h3 className="text-xs font-semibold text-foreground">Seed</h3>
+                  <p className="text-[11px] text-muted-foreground mt-0.5 mb-2">
+                    Lock a seed to keep the composition while you change the prompt
+                  </p>
+                  <SeedControl value={seed} onChange={onSeedChange} className="w-fit" />
+                </section>
+              )}
+
               {/* Prompt Enhancer */}
               <section>
                 <div className="flex items-center justify-between">
@@ -209,7 +206,7 @@ const SettingsModal = ({
                     <p className="text-[11px] text-muted-foreground mt-0.5">AI rewrites your prompt for better results</p>
                   </div>
                   <button
-                    onClick={() => setPromptEnhancer(!promptEnhancer)}
+                    onClick={() => onOptionsChange({ prompt_enhancer: !promptEnhancer })}
                     className={`w-10 h-6 rounded-full transition-colors ${
                       promptEnhancer ? "bg-primary" : "bg-secondary"
                     }`}
@@ -226,7 +223,7 @@ const SettingsModal = ({
                 <h3 className="text-xs font-semibold text-foreground mb-2">Visibility</h3>
                 <div className="flex gap-1">
                   <button
-                    onClick={() => setVisibility("public")}
+                    onClick={() => onOptionsChange({ visibility: "public" })}
                     className={`px-3 py-1.5 text-[11px] font-medium rounded-lg transition-colors ${
                       visibility === "public"
                         ? "bg-primary/15 text-primary"
@@ -236,7 +233,7 @@ const SettingsModal = ({
                     Public
                   </button>
                   <button
-                    onClick={() => setVisibility("private")}
+                    onClick={() => onOptionsChange({ visibility: "private" })}
                     className={`flex items-center gap-1 px-3 py-1.5 text-[11px] font-medium rounded-lg transition-colors text-muted-foreground opacity-50 cursor-not-allowed`}
                   >
                     Private <Lock className="w-2.5 h-2.5" />
@@ -0,0 +1,120 @@
+import { LocalStorageKeys } from "@/enums/localstorage";
+import type {
+  GenerationOptions,
+  GenerationResolution,
+  GenerationVisibility,
+  ResponseMode,
+} from "@/types/backend.types";
+import { DEFAULT_ASPECT_RATIO, DEFAULT_IMAGE_MODEL } from "./models";
+
+export const RESOLUTIONS: GenerationResolution[] = ["Standard", "2K", "4K"];
+export const MAX_VARIATIONS = 4;
+
+// URL params the prompt bar hands its settings to the studio with
+export const OPTIONS_PARAM = "options";
+export const MODE_PARAM = "mode";
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  model: DEFAULT_IMAGE_MODEL,
+  aspect_ratio: DEFAULT_ASPECT_RATIO,
+  variations: 1,
+  resolution: "Standard",
+  prompt_enhancer: false,
+  visibility: "public",
+};
+
+export interface GenerationDefaults {
+  options: GenerationOptions;
+  mode: ResponseMode;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Reads options from untrusted JSON (a URL param or storage). Missing or invalid fields fall back
+ * to the defaults; undefined when there is nothing usable.
+ */
+export function parseGenerationOptions(raw: unknown): GenerationOptions | undefined {
+  let data = raw;
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!data || typeof data !== "object") return undefined;
+
+  const value = data as Record<string, unknown>;
+  const variations = Number(value.variations);
+  return {
+    model: typeof value.model === "string" && value.model.trim() ? value.model.trim() : DEFAULT_GENERATION_OPTIONS.model,
+    aspect_ratio:
+      typeof value.aspect_ratio === "string" && /^\d+:\d+$/.test(value.aspect_ratio)
+        ? value.aspect_ratio
+        : DEFAULT_GENERATION_OPTIONS.aspect_ratio,
+    variations:
+      Number.isInteger(variations) && variations >= 1 && variations <= MAX_VARIATIONS
+        ? variations
+        : DEFAULT_GENERATION_OPTIONS.variations,
+    resolution: RESOLUTIONS.includes(value.resolution as GenerationResolution)
+      ? (value.resolution as GenerationResolution)
+      : DEFAULT_GENERATION_OPTIONS.resolution,
+    prompt_enhancer: value.prompt_enhancer === true,
+    visibility: (["public", "private"] as GenerationVisibility[]).includes(value.visibility as GenerationVisibility)
+      ? (value.visibility as GenerationVisibility)
+      : DEFAULT_GENERATION_OPTIONS.visibility,
+  };
+}
+
+export const parseResponseMode = (raw: unknown): ResponseMode | undefined =>
+  raw === "fast" || raw === "thinking" ? raw : undefined;
+
+// ============================================
+// PER-USER DEFAULTS
+// ============================================
+// The last settings a user picked become their defaults on this device, keyed by user id so a
+// shared browser doesn't mix accounts.
+
+type DefaultsStore = Record<string, GenerationDefaults>;
+
+const readStore = (): DefaultsStore => {
+  try {
+    return JSON.parse(localStorage.getItem(LocalStorageKeys.GenerationDefaults) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export function loadGenerationDefaults(userId: string): GenerationDefaults | null {
+  const saved = readStore()[userId];
+  const options = saved && parseGenerationOptions(saved.options);
+  if (!options) return null;
+  return { options, mode: parseResponseMode(saved.mode) ?? "fast" };
+}
+
+export function saveGenerationDefaults(userId: string, defaults: GenerationDefaults) {
+  try {
+    localStorage.setItem(LocalStorageKeys.GenerationDefaults, JSON.stringify({ ...readStore(), [userId]: defaults }));
+  } catch (error) {
+    console.error("Failed to save generation defaults:", error);
+  }
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+// Model and ratio always, the rest only where they differ from the defaults
+export function describeGenerationOptions(options: GenerationOptions): string[] {
+  return [
+    options.model,
+    options.aspect_ratio,
+    options.variations > 1 && `${options.variations} variations`,
+    options.resolution !== DEFAULT_GENERATION_OPTIONS.resolution && options.resolution,
+    options.prompt_enhancer && "Prompt enhancer",
+    options.visibility === "private" && "Private",
+  ].filter((part): part is string => !!part);
+}
@@ -0,0 +1,33 @@
+export const MODEL_CATEGORIES = ["All", "Image", "3D", "Edit"] as const;
+
+export interface ModelOption {
+  name: string;
+  type: Exclude<typeof MODEL_CATEGORIES[number], "All">;
+  description: string;
+  // Shown but not selectable on the current plan
+  locked: boolean;
+}
+
+export const MODELS: ModelOption[] = [
+  { name: "QWEN", type: "Image", description: "Versatile all-rounder", locked: false },
+  { name: "Seedream4", type: "Image", description: "Photorealistic quality", locked: false },
+  { name: "Nano Banana", type: "Image", description: "Creative & stylized", locked: false },
+  { name: "Flux", type: "Image", description: "Fast generation", locked: false },
+  { name: "Flux Pro", type: "Image", description: "Premium quality", locked: true },
+  { name: "Text → 3D", type: "3D", description: "Generate 3D from text", locked: false },
+  { name: "Image → 3D", type: "3D", description: "Convert images to 3D", locked: false },
+  { name: "Flux Kontext", type: "Edit", description: "Color & material edits", locked: false },
+  { name: "Nano Banana Edit", type: "Edit", description: "Complex transforms", locked: false },
+  { name: "Seedream4 Edit", type: "Edit", description: "Lighting & weather", locked: false },
+  { name: "QWEN Edit Plus", type: "Edit", description: "General editing", locked: false },
+];
+
+// What a generation uses when the user hasn't picked a model or aspect ratio
+export const DEFAULT_IMAGE_MODEL = "QWEN";
+export const DEFAULT_ASPECT_RATIO = "1:1";
+
+// Aspect ratios offered wherever a single image generation is configured
+export const ASPECT_RATIOS = ["1:1", "3:4", "4:3", "16:9", "9:16"];
+
+// Text-to-image models the user can run right now
+export const IMAGE_MODELS = MODELS.filter((model) => model.type === "Image" && !model.locked);
@@ -0,0 +1,141 @@
+import { Bone, Footprints, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import { cn } from "@/lib/utils";
+import {
+  ANIMATION_LOOP_MODES,
+  PLAYBACK_SPEEDS,
+  formatClipTime,
+  type AnimationLoopMode,
+  type AnimationPlayback,
+  type ModelAnimations,
+} from "./animationPlayer";
+
+interface AnimationControlsProps {
+  playback: AnimationPlayback;
+  animations: ModelAnimations;
+  time: number;
+  onChange: (patch: Partial<AnimationPlayback>) => void;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+// Clip list, transport, speed and loop mode for a rigged model; nothing for a static one
+export const AnimationControls = ({ playback, animations, time, onChange, onSeek, className }: AnimationControlsProps) => {
+  const { clips, hasSkeleton } = animations;
+  if (clips.length === 0 && !hasSkeleton) return null;
+
+  const clip = clips[playback.clipIndex];
+  const duration = clip?.duration ?? 0;
+
+  return (
+    <div
+      className={cn(
+        "bg-background/90 backdrop-blur-sm p-1.5 rounded-lg border border-border shadow-lg flex flex-col gap-1.5",
+        className
+      )}
+    >
+      {clip && (
+        <>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => onChange({ playing: !playback.playing })}
+              title={playback.playing ? "Pause" : "Play"}
+              aria-label={playback.playing ? "Pause" : "Play"}
+            >
+              {playback.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            </Button>
+            <Select
+              value={String(playback.clipIndex)}
+              onValueChange={(value) => onChange({ clipIndex: Number(value), playing: true })}
+            >
+              <SelectTrigger className="h-7 min-w-0 flex-1 text-xs" aria-label="Animation clip">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {clips.map((item, index) => (
+                  <SelectItem key={index} value={String(index)} className="text-xs">
+                    {item.name} ({formatClipTime(item.duration)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 px-1">
+            <Slider
+              value={[Math.min(time, duration)]}
+              onValueChange={([value]) => onSeek(value)}
+              min={0}
+              max={duration || 1}
+              step={0.01}
+              className="flex-1"
+              aria-label="Animation time"
+            />
+            <span className="text-[10px] text-muted-foreground tabular-nums whitespace-nowrap">
+              {formatClipTime(time)} / {formatClipTime(duration)}
+            </span>
+          </div>
+        </>
+      )}
+      <div className="flex items-center gap-1">
+        {clip && (
+          <>
+            <Select value={String(playback.speed)} onValueChange={(value) => onChange({ speed: Number(value) })}>
+              <SelectTrigger className="h-7 w-[70px] text-xs" aria-label="Playback speed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_SPEEDS.map((speed) => (
+                  <SelectItem key={speed} value={String(speed)} className="text-xs">
+                    {speed}x
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={playback.loop} onValueChange={(loop) => onChange({ loop: loop as AnimationLoopMode })}>
+              <SelectTrigger className="h-7 w-[100px] text-xs" aria-label="Loop mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANIMATION_LOOP_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value} className="text-xs">
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        {hasSkeleton && (
+          <Toggle
+            size="sm"
+            className="h-7 w-7 px-0"
+            pressed={playback.skeleton}
+            onPressedChange={(skeleton) => onChange({ skeleton })}
+            aria-label="Show skeleton"
+            title="Show skeleton"
+          >
+            <Bone className="w-3.5 h-3.5" />
+          </Toggle>
+        )}
+        {clip && hasSkeleton && (
+          <Toggle
+            size="sm"
+            className="h-7 w-7 px-0"
+            pressed={playback.rootMotion}
+            onPressedChange={(rootMotion) => onChange({ rootMotion })}
+            aria-label="Root motion"
+            title={playback.rootMotion ? "Root motion on" : "Root motion off (in place)"}
+          >
+            <Footprints className="w-3.5 h-3.5" />
+          </Toggle>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { Grid3x3, MoveUpRight } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { cn } from "@/lib/utils";
+import { DISPLAY_MODES, type DisplayMode, type GeometryStats, type ViewerInspection } from "./inspectionModes";
+
+interface InspectionToolbarProps {
+  inspection: ViewerInspection;
+  onChange: (patch: Partial<ViewerInspection>) => void;
+  stats: GeometryStats | null;
+  className?: string;
+}
+
+// Display mode, wireframe and normals toggles, and the triangle/vertex count of the loaded model
+export const InspectionToolbar = ({ inspection, onChange, stats, className }: InspectionToolbarProps) => (
+  <div
+    className={cn(
+      "bg-background/90 backdrop-blur-sm p-1.5 rounded-lg border border-border shadow-lg flex flex-col gap-1.5",
+      className
+    )}
+  >
+    <div className="flex items-center gap-1">
+      <Select value={inspection.mode} onValueChange={(mode) => onChange({ mode: mode as DisplayMode })}>
+        <SelectTrigger className="h-7 w-[150px] text-xs" aria-label="Display mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DISPLAY_MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value} className="text-xs">
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Toggle
+        size="sm"
+        className="h-7 w-7 px-0"
+        pressed={inspection.wireframe}
+        onPressedChange={(wireframe) => onChange({ wireframe })}
+        aria-label="Wireframe overlay"
+        title="Wireframe overlay"
+      >
+        <Grid3x3 className="w-3.5 h-3.5" />
+      </Toggle>
+      <Toggle
+        size="sm"
+        className="h-7 w-7 px-0"
+        pressed={inspection.normals}
+        onPressedChange={(normals) => onChange({ normals })}
+        aria-label="Vertex normals"
+        title="Vertex normals"
+      >
+        <MoveUpRight className="w-3.5 h-3.5" />
+      </Toggle>
+    </div>
+    {stats && (
+      <div className="px-1 text-[10px] text-muted-foreground tabular-nums flex gap-2">
+        <span>{stats.triangles.toLocaleString()} tris</span>
+        <span>{stats.vertices.toLocaleString()} verts</span>
+        <span>{stats.meshes.toLocaleString()} {stats.meshes === 1 ? "mesh" : "meshes"}</span>
+      </div>
+    )}
+  </div>
+);
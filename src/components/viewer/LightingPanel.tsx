@@ -0,0 +1,103 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  ENVIRONMENTS,
+  LIGHTING_PRESETS,
+  TONE_MAPPINGS,
+  type EnvironmentId,
+  type LightingPresetId,
+  type ToneMappingId,
+  type ViewerLighting,
+} from "./lighting";
+
+interface LightingPanelProps {
+  lighting: ViewerLighting;
+  onChange: (patch: Partial<ViewerLighting>) => void;
+}
+
+// Lighting preset, environment, ground shadows and tone mapping of the viewer
+export const LightingPanel = ({ lighting, onChange }: LightingPanelProps) => (
+  <div className="space-y-3">
+    <div className="space-y-1">
+      <Label className="text-[10px] font-medium">Lighting</Label>
+      <Select value={lighting.preset} onValueChange={(preset) => onChange({ preset: preset as LightingPresetId })}>
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {LIGHTING_PRESETS.map((preset) => (
+            <SelectItem key={preset.id} value={preset.id} className="text-xs">
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-1">
+      <Label className="text-[10px] font-medium">Environment</Label>
+      <Select
+        value={lighting.environment}
+        onValueChange={(environment) => onChange({ environment: environment as EnvironmentId })}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ENVIRONMENTS.map((environment) => (
+            <SelectItem key={environment.id} value={environment.id} className="text-xs">
+              {environment.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="flex items-center justify-between">
+      <Label htmlFor="viewer-env-background" className="text-[10px] font-medium">
+        Show environment
+      </Label>
+      <Switch
+        id="viewer-env-background"
+        checked={lighting.environmentBackground}
+        onCheckedChange={(environmentBackground) => onChange({ environmentBackground })}
+        disabled={lighting.environment === "none"}
+      />
+    </div>
+    <div className="flex items-center justify-between">
+      <Label htmlFor="viewer-shadows" className="text-[10px] font-medium">
+        Ground shadows
+      </Label>
+      <Switch id="viewer-shadows" checked={lighting.shadows} onCheckedChange={(shadows) => onChange({ shadows })} />
+    </div>
+    <div className="space-y-1">
+      <Label className="text-[10px] font-medium">Tone mapping</Label>
+      <Select
+        value={lighting.toneMapping}
+        onValueChange={(toneMapping) => onChange({ toneMapping: toneMapping as ToneMappingId })}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TONE_MAPPINGS.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-1">
+      <Label className="text-[10px] font-medium">Exposure: {lighting.exposure.toFixed(2)}</Label>
+      <Slider
+        value={[lighting.exposure]}
+        onValueChange={([exposure]) => onChange({ exposure })}
+        min={0.25}
+        max={3}
+        step={0.05}
+        disabled={lighting.toneMapping === "none"}
+      />
+    </div>
+  </div>
+);
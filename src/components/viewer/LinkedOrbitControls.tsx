@@ -0,0 +1,50 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+import type { CameraLink, ComparisonSide } from "./modelComparison";
+
+interface LinkedOrbitControlsProps {
+  link: CameraLink;
+  side: ComparisonSide;
+}
+
+// Orbit controls that publish their camera pose to `link` and follow it when the other view moves
+export const LinkedOrbitControls = ({ link, side }: LinkedOrbitControlsProps) => {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const seenVersion = useRef(-1);
+  // Set while copying the other view's pose, so the resulting change isn't published back
+  const following = useRef(false);
+
+  useFrame(({ camera }) => {
+    const controls = controlsRef.current;
+    if (!controls || link.version === seenVersion.current) return;
+    seenVersion.current = link.version;
+    if (link.source === side) return;
+    following.current = true;
+    camera.position.copy(link.position);
+    controls.target.copy(link.target);
+    controls.update();
+    following.current = false;
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      // No damping: an easing camera would keep moving after the other view has caught up
+      enableDamping={false}
+      minDistance={1}
+      maxDistance={10}
+      target={link.target.toArray()}
+      onChange={() => {
+        const controls = controlsRef.current;
+        if (!controls || following.current) return;
+        link.position.copy(controls.object.position);
+        link.target.copy(controls.target);
+        link.source = side;
+        link.version++;
+        seenVersion.current = link.version;
+      }}
+    />
+  );
+};
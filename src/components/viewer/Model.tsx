@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { FBXLoader } from "three/addons/loaders/FBXLoader.js";
+import { GLTFLoader, type GLTF } from "three/addons/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/addons/loaders/OBJLoader.js";
+import * as THREE from "three";
+import {
+  DEFAULT_INSPECTION,
+  applyDisplayMode,
+  countSceneStats,
+  createNormalsHelpers,
+  disposeNormalsHelpers,
+  setWireframe,
+  type SceneStats,
+  type ViewerInspection,
+} from "./inspectionModes";
+import type { AnimationBinding } from "./animationPlayer";
+import { useAnimationPlayer } from "./useAnimationPlayer";
+
+interface ModelProps {
+  url: string;
+  type: string;
+  onError: (error: string | null) => void;
+  onLoad?: () => void;
+  inspection?: ViewerInspection;
+  onStats?: (stats: SceneStats) => void;
+  animation?: AnimationBinding;
+}
+
+export function Model({ url, type, onError, onLoad, inspection = DEFAULT_INSPECTION, onStats, animation }: ModelProps) {
+  const [model, setModel] = useState<THREE.Object3D | null>(null);
+  const [animations, setAnimations] = useState<THREE.AnimationClip[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const hasNotifiedLoad = useRef(false);
+  const modelRef = useRef<THREE.Object3D | null>(null);
+  const frameCountRef = useRef(0);
+  const [normalsHelpers, setNormalsHelpers] = useState<THREE.Group | null>(null);
+  // Parents pass new callbacks on every render; only a new url / type should reload the model
+  const callbacks = useRef({ onError, onLoad, onStats });
+  callbacks.current = { onError, onLoad, onStats };
+
+  // Use useFrame to detect when model is actually rendered
+  useFrame(() => {
+    if (model && !hasNotifiedLoad.current) {
+      frameCountRef.current++;
+      
+      // Check if model has geometry/children (actually rendered)
+      let hasGeometry = false;
+      model.traverse((child) => {
+        if ((child as THREE.Mesh).isMesh && (child as THREE.Mesh).geometry) {
+          hasGeometry = true;
+        }
+      });
+      
+      // Wait for geometry to be present AND wait at least 5 frames to ensure rendering
+      if (hasGeometry && frameCountRef.current >= 5) {
+        hasNotifiedLoad.current = true;
+        // Wait for one more frame to ensure rendering is complete
+        requestAnimationFrame(() => {
+          callbacks.current.onLoad?.();
+        });
+      }
+    }
+  });
+
+  useEffect(() => {
+    setModel(null);
+    setAnimations([]);
+    setError(null);
+    hasNotifiedLoad.current = false;
+    frameCountRef.current = 0;
+
+    const loadModel = async () => {
+      try {
+        let loadedModel: THREE.Object3D;
+        let clips: THREE.AnimationClip[] = [];
+        
+        if (type === '.fbx') {
+          const loader = new FBXLoader();
+          loadedModel = await new Promise((resolve, reject) => {
+            loader.load(
+              url,
+              (object) => resolve(object),
+              undefined,
+              (error) => reject(error)
+            );
+          });
+          clips = loadedModel.animations;
+        } else if (type === '.glb' || type === '.gltf') {
+          const loader = new GLTFLoader();
+          const gltf = await new Promise<GLTF>((resolve, reject) => {
+            loader.load(
+              url,
+              (gltf) => resolve(gltf),
+              undefined,
+              (error) => reject(error)
+            );
+          });
+          loadedModel = gltf.scene;
+          clips = gltf.animations;
+        } else if (type === '.obj') {
+          // Uploaded originals can be OBJ; they have no animations
+          const loader = new OBJLoader();
+          loadedModel = await new Promise((resolve, reject) => {
+            loader.load(
+              url,
+              (object) => resolve(object),
+              undefined,
+              (error) => reject(error)
+            );
+          });
+        } else {
+          throw new Error('Unsupported model type');
+        }
+
+        if (loadedModel) {
+          const box = new THREE.Box3().setFromObject(loadedModel);
+          const center = box.getCenter(new THREE.Vector3());
+          const size = box.getSize(new THREE.Vector3());
+          
+          const maxDim = Math.max(size.x, size.y, size.z);
+          const scale = 2 / maxDim;
+          loadedModel.scale.multiplyScalar(scale);
+          
+          loadedModel.position.sub(center.multiplyScalar(scale));
+          // Position model above the grid
+          loadedModel.position.y += 1;
+          
+          setModel(loadedModel);
+          setAnimations(clips);
+          modelRef.current = loadedModel;
+          callbacks.current.onStats?.(countSceneStats(loadedModel));
+          callbacks.current.onError(null);
+          // onLoad will be called by useFrame when model is actually rendered
+        }
+      } catch (err) {
+        console.error('Error loading model:', err);
+        const errorMsg = 'Failed to load model. The file may be corrupted or in an unsupported format.';
+        setError(errorMsg);
+        callbacks.current.onError(errorMsg);
+        callbacks.current.onLoad?.(); // Still call onLoad to hide loader even on error
+      }
+    };
+
+    if (url) {
+      loadModel();
+    }
+  }, [url, type]);
+
+  // Inspection modes change the loaded object in place rather than reloading it
+  useEffect(() => {
+    if (model) applyDisplayMode(model, inspection.mode);
+  }, [model, inspection.mode]);
+
+  useEffect(() => {
+    if (model) setWireframe(model, inspection.wireframe);
+  }, [model, inspection.wireframe]);
+
+  useEffect(() => {
+    if (!model || !inspection.normals) return;
+    const helpers = createNormalsHelpers(model);
+    setNormalsHelpers(helpers);
+    return () => {
+      disposeNormalsHelpers(helpers);
+      setNormalsHelpers(null);
+    };
+  }, [model, inspection.normals]);
+
+  const skeletonHelper = useAnimationPlayer(model, animations, animation);
+
+  if (error || !model) {
+    return null;
+  }
+
+  return (
+    <>
+      <primitive object={model} />
+      {normalsHelpers && <primitive object={normalsHelpers} />}
+      {skeletonHelper && <primitive object={skeletonHelper} />}
+    </>
+  );
+}
@@ -0,0 +1,268 @@
+import { Suspense, useCallback, useEffect, useMemo, useState, type CSSProperties } from "react";
+import { Canvas } from "@react-three/fiber";
+import { PerspectiveCamera } from "@react-three/drei";
+import { Loader2, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Model } from "./Model";
+import { LinkedOrbitControls } from "./LinkedOrbitControls";
+import { useModelFile } from "./useModelFile";
+import type { SceneStats } from "./inspectionModes";
+import {
+  COMPARISON_CAMERA_POSITION,
+  COMPARISON_MODES,
+  FLICKER_INTERVAL_MS,
+  compareModels,
+  createCameraLink,
+  formatChange,
+  type CameraLink,
+  type ComparisonMode,
+  type ComparisonSide,
+} from "./modelComparison";
+
+export interface ComparisonSource {
+  url: string;
+  type: ".glb" | ".gltf" | ".fbx" | ".obj";
+}
+
+interface ComparisonViewProps {
+  side: ComparisonSide;
+  label: string;
+  source: ComparisonSource | null;
+  link: CameraLink;
+  onStats: (side: ComparisonSide, stats: SceneStats | null) => void;
+  onFileSize: (side: ComparisonSide, size: number | null) => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const ComparisonView = ({ side, label, source, link, onStats, onFileSize, className, style }: ComparisonViewProps) => {
+  const file = useModelFile(source?.url ?? null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const error = file.error ?? loadError;
+
+  useEffect(() => {
+    onFileSize(side, file.size);
+  }, [side, file.size, onFileSize]);
+
+  useEffect(() => {
+    setIsRendering(true);
+    setLoadError(null);
+    onStats(side, null);
+  }, [side, file.objectUrl, onStats]);
+
+  return (
+    <div className={cn("bg-background", className)} style={style}>
+      {/* Opposite corners, so both labels stay visible when the views are stacked */}
+      <span
+        className={cn(
+          "absolute top-2 z-10 rounded bg-background/90 border border-border px-1.5 py-0.5 text-[10px] font-medium",
+          side === "original" ? "left-2" : "right-2"
+        )}
+      >
+        {label}
+      </span>
+      {(file.isLoading || (file.objectUrl && isRendering)) && !error && (
+        <div className="absolute inset-0 flex items-center justify-center z-10">
+          <Loader2 className="w-6 h-6 text-primary animate-spin" />
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center z-10 p-3">
+          <p className="text-destructive text-xs text-center">{error}</p>
+        </div>
+      )}
+      <Canvas>
+        <PerspectiveCamera makeDefault position={COMPARISON_CAMERA_POSITION} />
+        <LinkedOrbitControls link={link} side={side} />
+        <ambientLight intensity={0.5} />
+        <directionalLight position={[7, 7, 7]} intensity={2.5} />
+        <directionalLight position={[-7, -7, -7]} intensity={1} />
+        {file.objectUrl && source && (
+          <Suspense fallback={null}>
+            <Model
+              key={file.objectUrl}
+              url={file.objectUrl}
+              type={source.type}
+              onError={setLoadError}
+              onLoad={() => setIsRendering(false)}
+              onStats={(stats) => onStats(side, stats)}
+            />
+          </Suspense>
+        )}
+        <gridHelper args={[10, 10]} />
+      </Canvas>
+    </div>
+  );
+};
+
+interface ModelComparisonProps {
+  original: ComparisonSource | null;
+  optimized: ComparisonSource | null;
+  className?: string;
+}
+
+/**
+ * Original and optimized model with linked cameras, viewed side by side, through a swipe divider or
+ * flickering between the two, above a diff of their stats.
+ */
+export const ModelComparison = ({ original, optimized, className }: ModelComparisonProps) => {
+  const link = useMemo(createCameraLink, []);
+  const [mode, setMode] = useState<ComparisonMode>("split");
+  const [swipe, setSwipe] = useState(50);
+  const [flickerSide, setFlickerSide] = useState<ComparisonSide>("optimized");
+  const [autoFlicker, setAutoFlicker] = useState(false);
+  const [stats, setStats] = useState<Record<ComparisonSide, SceneStats | null>>({ original: null, optimized: null });
+  const [fileSizes, setFileSizes] = useState<Record<ComparisonSide, number | null>>({ original: null, optimized: null });
+
+  const handleStats = useCallback(
+    (side: ComparisonSide, next: SceneStats | null) => setStats((prev) => ({ ...prev, [side]: next })),
+    []
+  );
+  const handleFileSize = useCallback(
+    (side: ComparisonSide, next: number | null) => setFileSizes((prev) => ({ ...prev, [side]: next })),
+    []
+  );
+
+  useEffect(() => {
+    if (mode !== "flicker" || !autoFlicker) return;
+    const timer = setInterval(
+      () => setFlickerSide((side) => (side === "original" ? "optimized" : "original")),
+      FLICKER_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [mode, autoFlicker]);
+
+  const rows = compareModels(
+    { stats: stats.original, fileSize: fileSizes.original },
+    { stats: stats.optimized, fileSize: fileSizes.optimized }
+  );
+
+  const stacked = mode !== "split";
+  // The optimized view sits on top when stacked; swipe uncovers the original to the left of the divider
+  const optimizedStyle: CSSProperties | undefined =
+    mode === "swipe"
+      ? { clipPath: `inset(0 0 0 ${swipe}%)` }
+      : mode === "flicker"
+        ? { visibility: flickerSide === "optimized" ? "visible" : "hidden" }
+        : undefined;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-2 flex-wrap">
+        <Select value={mode} onValueChange={(value) => setMode(value as ComparisonMode)}>
+          <SelectTrigger className="h-8 w-[150px] text-xs" aria-label="Comparison mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COMPARISON_MODES.map((item) => (
+              <SelectItem key={item.value} value={item.value} className="text-xs">
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {mode === "flicker" && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 text-xs"
+              onClick={() => setFlickerSide((side) => (side === "original" ? "optimized" : "original"))}
+            >
+              Showing {flickerSide}
+            </Button>
+            <Toggle
+              size="sm"
+              className="h-8 gap-1 text-xs"
+              pressed={autoFlicker}
+              onPressedChange={setAutoFlicker}
+              aria-label="Flicker automatically"
+            >
+              <Repeat className="w-3.5 h-3.5" />
+              Auto
+            </Toggle>
+          </>
+        )}
+      </div>
+
+      <div
+        className={cn(
+          "relative h-[420px] rounded-md overflow-hidden border border-border",
+          stacked ? "" : "grid grid-cols-2 gap-px bg-border"
+        )}
+      >
+        <ComparisonView
+          side="original"
+          label="Original"
+          source={original}
+          link={link}
+          onStats={handleStats}
+          onFileSize={handleFileSize}
+          className={stacked ? "absolute inset-0" : "relative h-full"}
+        />
+        <ComparisonView
+          side="optimized"
+          label="Optimized"
+          source={optimized}
+          link={link}
+          onStats={handleStats}
+          onFileSize={handleFileSize}
+          className={stacked ? "absolute inset-0" : "relative h-full"}
+          style={optimizedStyle}
+        />
+        {mode === "swipe" && (
+          <div
+            className="absolute inset-y-0 z-20 w-0.5 bg-primary pointer-events-none"
+            style={{ left: `${swipe}%` }}
+          />
+        )}
+      </div>
+
+      {mode === "swipe" && (
+        <Slider
+          value={[swipe]}
+          onValueChange={([value]) => setSwipe(value)}
+          min={0}
+          max={100}
+          step={1}
+          aria-label="Swipe position"
+        />
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 text-xs" />
+            <TableHead className="h-8 text-xs text-right">Original</TableHead>
+            <TableHead className="h-8 text-xs text-right">Optimized</TableHead>
+            <TableHead className="h-8 text-xs text-right">Change</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.label}>
+              <TableCell className="py-1.5 text-xs font-medium">{row.label}</TableCell>
+              <TableCell className="py-1.5 text-xs text-right tabular-nums">{row.original}</TableCell>
+              <TableCell className="py-1.5 text-xs text-right tabular-nums">{row.optimized}</TableCell>
+              <TableCell
+                className={cn(
+                  "py-1.5 text-xs text-right tabular-nums",
+                  row.change !== null && row.change < 0 && "text-green-600",
+                  row.change !== null && row.change > 0 && "text-amber-600"
+                )}
+              >
+                {row.change === null ? "—" : formatChange(row.change)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
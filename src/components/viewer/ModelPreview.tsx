@@ -0,0 +1,64 @@
+import { Suspense, useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Model } from "./Model";
+import { AnimationControls } from "./AnimationControls";
+import { useAnimationControls } from "./useAnimationControls";
+
+interface ModelPreviewProps {
+  url: string;
+  type: ".glb" | ".gltf" | ".fbx";
+  className?: string;
+}
+
+// Compact viewer for a single model, with the animation player underneath for rigged ones
+export const ModelPreview = ({ url, type, className }: ModelPreviewProps) => {
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const animation = useAnimationControls();
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative h-56 rounded-md overflow-hidden border border-border bg-muted/30">
+        {isLoading && !loadError && (
+          <div className="absolute inset-0 flex items-center justify-center z-10">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        )}
+        {loadError && (
+          <div className="absolute inset-0 flex items-center justify-center z-10 p-3">
+            <p className="text-destructive text-xs text-center">{loadError}</p>
+          </div>
+        )}
+        <Canvas>
+          <PerspectiveCamera makeDefault position={[3, 2.5, 3]} />
+          <OrbitControls enableDamping dampingFactor={0.05} minDistance={1} maxDistance={10} target={[0, 1, 0]} />
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[7, 7, 7]} intensity={2.5} />
+          <directionalLight position={[-7, -7, -7]} intensity={1} />
+          <Suspense fallback={null}>
+            <Model
+              key={url}
+              url={url}
+              type={type}
+              onError={setLoadError}
+              onLoad={() => setIsLoading(false)}
+              animation={animation.binding}
+            />
+          </Suspense>
+          <gridHelper args={[10, 10]} />
+        </Canvas>
+      </div>
+      <AnimationControls
+        playback={animation.playback}
+        animations={animation.animations}
+        time={animation.time}
+        onChange={animation.update}
+        onSeek={animation.seek}
+        className="shadow-none"
+      />
+    </div>
+  );
+};
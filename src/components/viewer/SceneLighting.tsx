@@ -0,0 +1,97 @@
+import { useEffect, useMemo } from "react";
+import { useThree } from "@react-three/fiber";
+import { ContactShadows, Environment, Lightformer } from "@react-three/drei";
+import { RoomEnvironment } from "three/addons/environments/RoomEnvironment.js";
+import * as THREE from "three";
+import { environmentPreset, lightingPreset, toneMappingFor, type ViewerLighting } from "./lighting";
+
+interface SceneLightingProps {
+  lighting: ViewerLighting;
+  // Multiplies every light of the preset
+  brightness: number;
+  // Direction of the custom key light, in degrees
+  angleX: number;
+  angleY: number;
+}
+
+// Neutral environment from three's procedural room, prefiltered once per renderer
+const RoomEnvironmentMap = ({ background }: { background: boolean }) => {
+  const gl = useThree((state) => state.gl);
+  const texture = useMemo(() => {
+    const pmrem = new THREE.PMREMGenerator(gl);
+    const room = new RoomEnvironment();
+    const map = pmrem.fromScene(room, 0.04).texture;
+    room.dispose();
+    pmrem.dispose();
+    return map;
+  }, [gl]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return <Environment map={texture} background={background} />;
+};
+
+// Lights, environment, ground shadows and tone mapping of a viewer canvas
+export const SceneLighting = ({ lighting, brightness, angleX, angleY }: SceneLightingProps) => {
+  const gl = useThree((state) => state.gl);
+  const preset = lightingPreset(lighting.preset);
+  const environment = environmentPreset(lighting.environment);
+
+  useEffect(() => {
+    gl.toneMapping = toneMappingFor(lighting.toneMapping);
+    gl.toneMappingExposure = lighting.exposure;
+  }, [gl, lighting.toneMapping, lighting.exposure]);
+
+  const x = (angleX * Math.PI) / 180;
+  const y = (angleY * Math.PI) / 180;
+
+  return (
+    <>
+      {preset.id === "custom" ? (
+        <>
+          <ambientLight intensity={0.5} />
+          <directionalLight
+            position={[10 * Math.cos(x), 10 * Math.sin(y), 10 * Math.sin(x)]}
+            intensity={brightness}
+            castShadow
+          />
+          <directionalLight
+            position={[-10 * Math.cos(x), -10 * Math.sin(y), -10 * Math.sin(x)]}
+            intensity={brightness * 0.4}
+          />
+        </>
+      ) : (
+        preset.lights.map((light, index) => {
+          // Presets are tuned for the default brightness of 2.5
+          const intensity = (light.intensity * brightness) / 2.5;
+          if (light.type === "ambient") return <ambientLight key={index} intensity={intensity} color={light.color} />;
+          if (light.type === "hemisphere") {
+            return <hemisphereLight key={index} intensity={intensity} color={light.color} groundColor={light.groundColor} />;
+          }
+          return <directionalLight key={index} intensity={intensity} color={light.color} position={light.position} />;
+        })
+      )}
+
+      {environment.id === "room" && <RoomEnvironmentMap background={lighting.environmentBackground} />}
+      {environment.panels.length > 0 && (
+        <Environment key={environment.id} resolution={256} background={lighting.environmentBackground}>
+          <color attach="background" args={[environment.background ?? "#000000"]} />
+          {environment.panels.map((panel, index) => (
+            <Lightformer
+              key={index}
+              form={panel.form}
+              intensity={panel.intensity}
+              color={panel.color}
+              position={panel.position}
+              scale={panel.scale}
+            />
+          ))}
+        </Environment>
+      )}
+
+      {lighting.shadows && (
+        <ContactShadows position={[0, 0.001, 0]} opacity={0.55} scale={10} blur={2.2} far={3} resolution={512} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,271 @@
+import { useEffect, useState, type MutableRefObject } from "react";
+import { Download, ImageUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CAPTURE_FORMATS,
+  CAPTURE_FPS,
+  CAPTURE_FRAME_COUNTS,
+  CAPTURE_SIZES,
+  DEFAULT_TURNTABLE_OPTIONS,
+  encodeTurntable,
+  isWebmSupported,
+  type CaptureFormat,
+  type TurntableCapture,
+  type TurntableHandle,
+  type TurntableOptions,
+} from "./turntableCapture";
+
+interface TurntableDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  handleRef: MutableRefObject<TurntableHandle | null>;
+  // Fills GIF / WebM frames, where the canvas is transparent
+  background: string;
+  baseName: string;
+  // Saves an image as the model's thumbnail where its list reads it and returns the stored URL;
+  // without it the capture can only be downloaded
+  storeThumbnail?: (image: File) => Promise<string>;
+  onPreviewChange?: (previewUrl: string) => void;
+}
+
+type Phase = "idle" | "capturing" | "encoding" | "done";
+
+// Options, progress and result of a turntable capture of the current viewer
+export const TurntableDialog = ({
+  open,
+  onOpenChange,
+  handleRef,
+  background,
+  baseName,
+  storeThumbnail,
+  onPreviewChange,
+}: TurntableDialogProps) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<Omit<TurntableOptions, "background">>(DEFAULT_TURNTABLE_OPTIONS);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [progress, setProgress] = useState(0);
+  const [capture, setCapture] = useState<TurntableCapture | null>(null);
+  const [captureUrl, setCaptureUrl] = useState<string | null>(null);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const formats = CAPTURE_FORMATS.filter((format) => format.value !== "webm" || isWebmSupported());
+  const isBusy = phase === "capturing" || phase === "encoding";
+
+  useEffect(() => {
+    if (!capture) return;
+    const url = URL.createObjectURL(capture.format === "png" ? capture.poster : capture.blob);
+    setCaptureUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [capture]);
+
+  const update = (patch: Partial<typeof options>) => {
+    setOptions((prev) => ({ ...prev, ...patch }));
+    setCapture(null);
+    setPhase("idle");
+  };
+
+  const handleCapture = async () => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    setCapture(null);
+    setProgress(0);
+    setPhase("capturing");
+    try {
+      const frames = await handle.captureFrames({ ...options, background }, (done, total) =>
+        setProgress((done / total) * 100)
+      );
+      setPhase("encoding");
+      setProgress(0);
+      const result = await encodeTurntable(frames, { ...options, background }, baseName, (done, total) =>
+        setProgress((done / total) * 100)
+      );
+      setCapture(result);
+      setPhase("done");
+    } catch (error) {
+      console.error("Turntable capture failed:", error);
+      toast({
+        title: "Capture Failed",
+        description: error instanceof Error ? error.message : "Unable to capture the turntable",
+        variant: "destructive",
+      });
+      setPhase("idle");
+    }
+  };
+
+  const handleDownload = () => {
+    if (!capture) return;
+    const url = URL.createObjectURL(capture.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = capture.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // A GIF is used as is; videos and PNG sequences attach their first frame
+  const handleAttach = async () => {
+    if (!capture || !storeThumbnail) return;
+    setIsAttaching(true);
+    try {
+      const image =
+        capture.format === "gif"
+          ? new File([capture.blob], capture.fileName, { type: "image/gif" })
+          : new File([capture.poster], capture.fileName.replace(/\.\w+$/, ".png"), { type: "image/png" });
+      onPreviewChange?.(await storeThumbnail(image));
+      toast({ title: "Thumbnail Updated", description: "The capture is now the model's thumbnail" });
+    } catch (error) {
+      console.error("Failed to attach thumbnail:", error);
+      toast({
+        title: "Thumbnail Update Failed",
+        description: "Unable to attach the capture to the model",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isBusy && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Turntable capture</DialogTitle>
+          <DialogDescription>
+            One full turn of the camera around the model, with the current lighting and display mode.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5 col-span-2">
+            <Label className="text-xs">Format</Label>
+            <Select value={options.format} onValueChange={(format) => update({ format: format as CaptureFormat })}>
+              <SelectTrigger className="h-8 text-xs" disabled={isBusy}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {formats.map((format) => (
+                  <SelectItem key={format.value} value={format.value} className="text-xs">
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Size</Label>
+            <Select value={String(options.size)} onValueChange={(size) => update({ size: Number(size) })}>
+              <SelectTrigger className="h-8 text-xs" disabled={isBusy}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTURE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)} className="text-xs">
+                    {size} × {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Frames per turn</Label>
+            <Select value={String(options.frames)} onValueChange={(frames) => update({ frames: Number(frames) })}>
+              <SelectTrigger className="h-8 text-xs" disabled={isBusy}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTURE_FRAME_COUNTS.map((frames) => (
+                  <SelectItem key={frames} value={String(frames)} className="text-xs">
+                    {frames}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {options.format !== "png" && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Frame rate</Label>
+              <Select value={String(options.fps)} onValueChange={(fps) => update({ fps: Number(fps) })}>
+                <SelectTrigger className="h-8 text-xs" disabled={isBusy}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAPTURE_FPS.map((fps) => (
+                    <SelectItem key={fps} value={String(fps)} className="text-xs">
+                      {fps} fps ({(options.frames / fps).toFixed(1)}s)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {options.format === "png" && (
+            <div className="flex items-center gap-2 pt-5">
+              <Switch
+                id="turntable-transparent"
+                checked={options.transparent}
+                onCheckedChange={(transparent) => update({ transparent })}
+                disabled={isBusy}
+              />
+              <Label htmlFor="turntable-transparent" className="text-xs">
+                Transparent background
+              </Label>
+            </div>
+          )}
+        </div>
+
+        {isBusy && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {phase === "capturing" ? "Rendering frames..." : "Encoding..."}
+            </p>
+            <Progress value={progress} className="h-2" />
+          </div>
+        )}
+
+        {capture && captureUrl && (
+          <div className="rounded-md border border-border overflow-hidden bg-muted/30 flex justify-center">
+            {capture.format === "webm" ? (
+              <video src={captureUrl} className="max-h-64" autoPlay loop muted playsInline />
+            ) : (
+              <img src={captureUrl} alt="Turntable capture" className="max-h-64 object-contain" />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {capture ? (
+            <>
+              {storeThumbnail && (
+                <Button variant="outline" onClick={handleAttach} disabled={isAttaching}>
+                  {isAttaching ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <ImageUp className="w-4 h-4 mr-1" />}
+                  Use as thumbnail
+                </Button>
+              )}
+              <Button onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-1" />
+                Download
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleCapture} disabled={isBusy}>
+              {isBusy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Capture
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,63 @@
+import { useEffect, type MutableRefObject } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import type { TurntableHandle } from "./turntableCapture";
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Lets the capture dialog outside the canvas orbit the camera and read frames back
+export const TurntableRig = ({ handleRef }: { handleRef: MutableRefObject<TurntableHandle | null> }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+
+  useEffect(() => {
+    handleRef.current = {
+      captureFrames: async ({ size, frames, transparent, background }, onFrame) => {
+        const start = { position: camera.position.clone(), quaternion: camera.quaternion.clone() };
+        const output = document.createElement("canvas");
+        output.width = output.height = size;
+        const ctx = output.getContext("2d", { willReadFrequently: true })!;
+        const source = gl.domElement;
+        // Largest centred square of the viewport
+        const side = Math.min(source.width, source.height);
+        const sx = (source.width - side) / 2;
+        const sy = (source.height - side) / 2;
+        const turn = new THREE.Quaternion();
+        const captured: ImageData[] = [];
+
+        try {
+          for (let i = 0; i < frames; i++) {
+            const angle = (i / frames) * Math.PI * 2;
+            turn.setFromAxisAngle(UP, angle);
+            camera.position.copy(start.position).applyQuaternion(turn);
+            camera.quaternion.copy(start.quaternion).premultiply(turn);
+            camera.updateMatrixWorld();
+            gl.render(scene, camera);
+
+            // Read back in the same task as the render, before the drawing buffer is cleared
+            ctx.clearRect(0, 0, size, size);
+            if (!transparent) {
+              ctx.fillStyle = background;
+              ctx.fillRect(0, 0, size, size);
+            }
+            ctx.drawImage(source, sx, sy, side, side, 0, 0, size, size);
+            captured.push(ctx.getImageData(0, 0, size, size));
+            onFrame(i + 1, frames);
+            await new Promise((resolve) => requestAnimationFrame(resolve));
+          }
+        } finally {
+          camera.position.copy(start.position);
+          camera.quaternion.copy(start.quaternion);
+          camera.updateMatrixWorld();
+        }
+        return captured;
+      },
+    };
+    return () => {
+      handleRef.current = null;
+    };
+  }, [gl, scene, camera, handleRef]);
+
+  return null;
+};
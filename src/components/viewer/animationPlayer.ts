@@ -0,0 +1,137 @@
+// ============================================
+// VIEWER ANIMATION PLAYBACK
+// ============================================
+// Clips come from the loaded file (gltf.animations / the FBX object's animations) and are played
+// through one AnimationMixer per model. Root motion is turned off by pinning the root bone's
+// horizontal position, so a walk cycle plays in place instead of leaving the frame.
+
+import type { MutableRefObject } from "react";
+import * as THREE from "three";
+
+export type AnimationLoopMode = "repeat" | "once" | "pingpong";
+
+export const ANIMATION_LOOP_MODES: { value: AnimationLoopMode; label: string }[] = [
+  { value: "repeat", label: "Loop" },
+  { value: "once", label: "Play once" },
+  { value: "pingpong", label: "Ping-pong" },
+];
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+export interface AnimationPlayback {
+  clipIndex: number;
+  playing: boolean;
+  speed: number;
+  loop: AnimationLoopMode;
+  skeleton: boolean;
+  rootMotion: boolean;
+}
+
+export const DEFAULT_PLAYBACK: AnimationPlayback = {
+  clipIndex: 0,
+  playing: true,
+  speed: 1,
+  loop: "repeat",
+  skeleton: false,
+  rootMotion: true,
+};
+
+export interface AnimationClipInfo {
+  name: string;
+  duration: number;
+}
+
+// What the loaded model offers, reported once per load
+export interface ModelAnimations {
+  clips: AnimationClipInfo[];
+  hasSkeleton: boolean;
+}
+
+// Imperative side of the player, for what isn't state: jumping to a point in the clip
+export interface AnimationPlayerHandle {
+  seek: (time: number) => void;
+}
+
+// Everything the in-canvas player needs from the controls outside the canvas
+export interface AnimationBinding {
+  playback: AnimationPlayback;
+  onAnimations: (animations: ModelAnimations) => void;
+  onTime: (time: number) => void;
+  onFinished: () => void;
+  playerRef: MutableRefObject<AnimationPlayerHandle | null>;
+}
+
+const LOOP_MODES: Record<AnimationLoopMode, THREE.AnimationActionLoopStyles> = {
+  repeat: THREE.LoopRepeat,
+  once: THREE.LoopOnce,
+  pingpong: THREE.LoopPingPong,
+};
+
+export const describeClips = (animations: THREE.AnimationClip[]): AnimationClipInfo[] =>
+  animations.map((clip, index) => ({ name: clip.name || `Clip ${index + 1}`, duration: clip.duration }));
+
+export function hasBones(root: THREE.Object3D): boolean {
+  let found = false;
+  root.traverse((object) => {
+    if ((object as THREE.Bone).isBone) found = true;
+  });
+  return found;
+}
+
+// The topmost bone of the first skeleton, usually the hips
+function findRootBone(root: THREE.Object3D): THREE.Bone | null {
+  let rootBone: THREE.Bone | null = null;
+  root.traverse((object) => {
+    if (!rootBone && (object as THREE.Bone).isBone && !(object.parent as THREE.Bone | null)?.isBone) {
+      rootBone = object as THREE.Bone;
+    }
+  });
+  return rootBone;
+}
+
+/**
+ * Copy of `clip` with the root bone's X/Z position held at its first keyframe. Vertical motion is
+ * kept so jumps and crouches still read. Clips without a root position track come back as is.
+ */
+export function inPlaceClip(clip: THREE.AnimationClip, root: THREE.Object3D): THREE.AnimationClip {
+  const rootBone = findRootBone(root);
+  if (!rootBone) return clip;
+  const names = new Set([rootBone.name, THREE.PropertyBinding.sanitizeNodeName(rootBone.name), rootBone.uuid]);
+
+  let changed = false;
+  const tracks = clip.tracks.map((track) => {
+    const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(track.name);
+    if (propertyName !== "position" || !names.has(nodeName)) return track;
+    changed = true;
+    const pinned = track.clone();
+    const { values, times } = pinned;
+    // Cubic spline keys (glTF) are stored as [in tangent, value, out tangent]
+    const stride = values.length / times.length;
+    const valueOffset = stride === 9 ? 3 : 0;
+    const x = values[valueOffset];
+    const z = values[valueOffset + 2];
+    for (let key = 0; key < values.length; key += stride) {
+      for (let offset = 0; offset < stride; offset += 3) {
+        values[key + offset] = offset === valueOffset ? x : 0;
+        values[key + offset + 2] = offset === valueOffset ? z : 0;
+      }
+    }
+    return pinned;
+  });
+
+  return changed ? new THREE.AnimationClip(clip.name, clip.duration, tracks) : clip;
+}
+
+export function applyPlayback(action: THREE.AnimationAction, playback: AnimationPlayback) {
+  action.setLoop(LOOP_MODES[playback.loop], Infinity);
+  // A finished "once" clip holds its last pose instead of snapping back to the bind pose
+  action.clampWhenFinished = true;
+  action.timeScale = playback.speed;
+  action.paused = !playback.playing;
+}
+
+export const formatClipTime = (seconds: number) => {
+  const whole = Math.max(0, seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${(whole % 60).toFixed(1).padStart(4, "0")}`;
+};
@@ -0,0 +1,141 @@
+// ============================================
+// ANIMATED GIF ENCODER
+// ============================================
+// Minimal GIF89a writer for turntable captures. Every frame is mapped onto one fixed 252-colour
+// palette (6 red x 7 green x 6 blue levels) with ordered dithering, which keeps encoding a single
+// pass per frame and is plenty for a rotating model on a plain background.
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+// 4x4 Bayer matrix, normalized to [-0.5, 0.5)
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map((value) => value / 16 - 0.5);
+
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array(256 * 3);
+  let index = 0;
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[index++] = Math.round((r * 255) / (RED_LEVELS - 1));
+        palette[index++] = Math.round((g * 255) / (GREEN_LEVELS - 1));
+        palette[index++] = Math.round((b * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+  return palette;
+}
+
+const quantizeChannel = (value: number, levels: number, threshold: number) =>
+  Math.min(levels - 1, Math.max(0, Math.round((value / 255) * (levels - 1) + threshold)));
+
+// RGBA pixels to palette indices; alpha is ignored, frames are expected to be opaque
+function indexPixels(rgba: Uint8ClampedArray, width: number): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < indices.length; i++) {
+    const threshold = BAYER[((Math.floor(i / width) & 3) << 2) | (i % width & 3)];
+    const r = quantizeChannel(rgba[i * 4], RED_LEVELS, threshold);
+    const g = quantizeChannel(rgba[i * 4 + 1], GREEN_LEVELS, threshold);
+    const b = quantizeChannel(rgba[i * 4 + 2], BLUE_LEVELS, threshold);
+    indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+  }
+  return indices;
+}
+
+// Variable-length LZW as GIF wants it: codes packed LSB first, then cut into sub-blocks
+function lzwEncode(indices: Uint8Array): Uint8Array {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i];
+    const key = (prefix << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+  const blocks: number[] = [];
+  for (let start = 0; start < bytes.length; start += 255) {
+    const block = bytes.slice(start, start + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+}
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encodes same-sized RGBA frames as a looping GIF. `delayMs` is rounded to the 10ms steps GIF
+ * supports. Yields between frames so a progress bar can update.
+ */
+export async function encodeGif(
+  frames: ImageData[],
+  delayMs: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const { width, height } = frames[0];
+  const delay = Math.max(2, Math.round(delayMs / 10));
+  const parts: BlobPart[] = [
+    new TextEncoder().encode("GIF89a"),
+    // Logical screen: global colour table of 256 entries, 8 bits per channel
+    Uint8Array.from([...uint16(width), ...uint16(height), 0xf7, 0, 0]),
+    buildPalette(),
+    // Loop forever
+    Uint8Array.from([0x21, 0xff, 0x0b, ...new TextEncoder().encode("NETSCAPE2.0"), 0x03, 0x01, 0, 0, 0]),
+  ];
+
+  for (const [index, frame] of frames.entries()) {
+    parts.push(
+      // Graphic control: no disposal, frame delay, no transparency
+      Uint8Array.from([0x21, 0xf9, 0x04, 0x04, ...uint16(delay), 0, 0]),
+      Uint8Array.from([0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0]),
+      Uint8Array.from([MIN_CODE_SIZE]),
+      lzwEncode(indexPixels(frame.data, width))
+    );
+    onProgress?.(index + 1, frames.length);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  parts.push(Uint8Array.from([0x3b]));
+  return new Blob(parts, { type: "image/gif" });
+}
@@ -0,0 +1,266 @@
+// ============================================
+// VIEWER INSPECTION MODES
+// ============================================
+// Display modes for reviewing a loaded model: materials are swapped for a UV checker or a single
+// texture channel, and wireframe / vertex normal helpers are layered on top. Original materials are
+// kept on the mesh so switching back to "shaded" restores exactly what was loaded.
+
+import * as THREE from "three";
+import { VertexNormalsHelper } from "three/addons/helpers/VertexNormalsHelper.js";
+
+export type DisplayMode = "shaded" | "uv_checker" | "albedo" | "normal" | "roughness" | "metalness" | "ao";
+
+export const DISPLAY_MODES: { value: DisplayMode; label: string }[] = [
+  { value: "shaded", label: "Shaded" },
+  { value: "uv_checker", label: "UV checker" },
+  { value: "albedo", label: "Albedo" },
+  { value: "normal", label: "Normal map" },
+  { value: "roughness", label: "Roughness" },
+  { value: "metalness", label: "Metalness" },
+  { value: "ao", label: "Ambient occlusion" },
+];
+
+export interface ViewerInspection {
+  mode: DisplayMode;
+  wireframe: boolean;
+  normals: boolean;
+}
+
+export const DEFAULT_INSPECTION: ViewerInspection = { mode: "shaded", wireframe: false, normals: false };
+
+export interface GeometryStats {
+  triangles: number;
+  vertices: number;
+  meshes: number;
+}
+
+// Geometry counts plus what the materials reference, for comparing a model with its optimized version
+export interface SceneStats extends GeometryStats {
+  materials: number;
+  textures: number;
+  // Sum of the texture resolutions, in pixels
+  texturePixels: number;
+}
+
+// Length of the normal lines, in world units of the viewer (models are scaled to 2 units)
+const NORMAL_LENGTH = 0.04;
+const CHECKER_SIZE = 512;
+const CHECKER_CELLS = 8;
+
+type MaterialSlot = THREE.Material | THREE.Material[];
+
+interface InspectedMesh extends THREE.Mesh {
+  userData: {
+    originalMaterial?: MaterialSlot;
+    inspectionMaterial?: MaterialSlot;
+    wireframe?: THREE.LineSegments;
+  };
+}
+
+const meshesOf = (root: THREE.Object3D): InspectedMesh[] => {
+  const meshes: InspectedMesh[] = [];
+  root.traverse((object) => {
+    // Helpers added by this module are meshes' children too, but never meshes themselves
+    if ((object as THREE.Mesh).isMesh) meshes.push(object as InspectedMesh);
+  });
+  return meshes;
+};
+
+const asArray = (slot: MaterialSlot) => (Array.isArray(slot) ? slot : [slot]);
+
+export function countGeometry(root: THREE.Object3D): GeometryStats {
+  return meshesOf(root).reduce(
+    (stats, mesh) => {
+      const position = mesh.geometry.getAttribute("position");
+      const corners = mesh.geometry.getIndex()?.count ?? position?.count ?? 0;
+      return {
+        triangles: stats.triangles + Math.floor(corners / 3),
+        vertices: stats.vertices + (position?.count ?? 0),
+        meshes: stats.meshes + 1,
+      };
+    },
+    { triangles: 0, vertices: 0, meshes: 0 }
+  );
+}
+
+export function countSceneStats(root: THREE.Object3D): SceneStats {
+  const materials = new Set<THREE.Material>();
+  const textures = new Set<THREE.Texture>();
+  meshesOf(root).forEach((mesh) => {
+    // Count what was loaded, not the materials of the current display mode
+    asArray(mesh.userData.originalMaterial ?? mesh.material).forEach((material) => {
+      materials.add(material);
+      Object.values(material).forEach((value) => {
+        if ((value as THREE.Texture | null)?.isTexture) textures.add(value as THREE.Texture);
+      });
+    });
+  });
+  const texturePixels = [...textures].reduce((sum, texture) => {
+    const image = texture.image as { width?: number; height?: number } | undefined;
+    return sum + (image?.width ?? 0) * (image?.height ?? 0);
+  }, 0);
+  return { ...countGeometry(root), materials: materials.size, textures: textures.size, texturePixels };
+}
+
+// ============================================
+// MATERIALS
+// ============================================
+
+let checkerTexture: THREE.CanvasTexture | null = null;
+
+// Numbered checkerboard, so stretching, seams and flipped islands are easy to spot
+function getCheckerTexture(): THREE.CanvasTexture {
+  if (checkerTexture) return checkerTexture;
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = CHECKER_SIZE;
+  const ctx = canvas.getContext("2d")!;
+  const cell = CHECKER_SIZE / CHECKER_CELLS;
+  ctx.font = `${Math.round(cell / 3)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (let y = 0; y < CHECKER_CELLS; y++) {
+    for (let x = 0; x < CHECKER_CELLS; x++) {
+      ctx.fillStyle = (x + y) % 2 === 0 ? "#e8e8e8" : "#4a4a4a";
+      ctx.fillRect(x * cell, y * cell, cell, cell);
+      ctx.fillStyle = (x + y) % 2 === 0 ? "#c0392b" : "#f1c40f";
+      ctx.fillText(`${String.fromCharCode(65 + y)}${x + 1}`, x * cell + cell / 2, y * cell + cell / 2);
+    }
+  }
+  checkerTexture = new THREE.CanvasTexture(canvas);
+  checkerTexture.colorSpace = THREE.SRGBColorSpace;
+  checkerTexture.wrapS = checkerTexture.wrapT = THREE.RepeatWrapping;
+  return checkerTexture;
+}
+
+// Which part of a texture a mode shows; glTF packs roughness in G, metalness in B and AO in R
+const CHANNELS: Record<Exclude<DisplayMode, "shaded" | "uv_checker">, { slot: string; channel: number | null }> = {
+  albedo: { slot: "map", channel: null },
+  normal: { slot: "normalMap", channel: null },
+  roughness: { slot: "roughnessMap", channel: 1 },
+  metalness: { slot: "metalnessMap", channel: 2 },
+  ao: { slot: "aoMap", channel: 0 },
+};
+
+/**
+ * Unlit material showing one texture (or one of its channels as grey). Without the texture it
+ * shows the material's scalar value, e.g. a flat roughness, so the mode still says something.
+ */
+function channelMaterial(source: THREE.Material, mode: keyof typeof CHANNELS): THREE.Material {
+  const { slot, channel } = CHANNELS[mode];
+  const standard = source as THREE.MeshStandardMaterial;
+  const texture = (source as unknown as Record<string, THREE.Texture | null | undefined>)[slot] ?? null;
+
+  if (!texture) {
+    if (mode === "normal") return new THREE.MeshNormalMaterial();
+    const fallback =
+      mode === "albedo"
+        ? standard.color?.clone() ?? new THREE.Color(1, 1, 1)
+        : new THREE.Color().setScalar(
+            mode === "roughness" ? standard.roughness ?? 1 : mode === "metalness" ? standard.metalness ?? 0 : 1
+          );
+    return new THREE.MeshBasicMaterial({ color: fallback });
+  }
+
+  if (channel === null) return new THREE.MeshBasicMaterial({ map: texture });
+
+  return new THREE.ShaderMaterial({
+    uniforms: { channelMap: { value: texture }, channel: { value: channel } },
+    vertexShader: `
+      varying vec2 vUv;
+      void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: `
+      uniform sampler2D channelMap;
+      uniform int channel;
+      varying vec2 vUv;
+      void main() {
+        vec4 texel = texture2D(channelMap, vUv);
+        float value = channel == 0 ? texel.r : channel == 1 ? texel.g : texel.b;
+        gl_FragColor = vec4(vec3(value), 1.0);
+      }
+    `,
+  });
+}
+
+function inspectionMaterial(source: THREE.Material, mode: Exclude<DisplayMode, "shaded">): THREE.Material {
+  if (mode === "uv_checker") return new THREE.MeshStandardMaterial({ map: getCheckerTexture(), roughness: 0.8 });
+  return channelMaterial(source, mode);
+}
+
+// Generated materials only; the textures they show belong to the original materials
+const disposeInspectionMaterial = (mesh: InspectedMesh) => {
+  if (!mesh.userData.inspectionMaterial) return;
+  asArray(mesh.userData.inspectionMaterial).forEach((material) => material.dispose());
+  mesh.userData.inspectionMaterial = undefined;
+};
+
+export function applyDisplayMode(root: THREE.Object3D, mode: DisplayMode) {
+  meshesOf(root).forEach((mesh) => {
+    const original = mesh.userData.originalMaterial ?? mesh.material;
+    disposeInspectionMaterial(mesh);
+
+    if (mode === "shaded") {
+      mesh.material = original;
+      mesh.userData.originalMaterial = undefined;
+      return;
+    }
+
+    mesh.userData.originalMaterial = original;
+    const replaced = Array.isArray(original)
+      ? original.map((material) => inspectionMaterial(material, mode))
+      : inspectionMaterial(original, mode);
+    mesh.userData.inspectionMaterial = replaced;
+    mesh.material = replaced;
+  });
+}
+
+// ============================================
+// OVERLAYS
+// ============================================
+
+export function setWireframe(root: THREE.Object3D, enabled: boolean) {
+  meshesOf(root).forEach((mesh) => {
+    const existing = mesh.userData.wireframe;
+    if (!enabled) {
+      if (existing) {
+        mesh.remove(existing);
+        existing.geometry.dispose();
+        (existing.material as THREE.Material).dispose();
+        mesh.userData.wireframe = undefined;
+      }
+      return;
+    }
+    if (existing) return;
+    const lines = new THREE.LineSegments(
+      new THREE.WireframeGeometry(mesh.geometry),
+      new THREE.LineBasicMaterial({ color: 0x111111, transparent: true, opacity: 0.35, depthTest: true })
+    );
+    lines.raycast = () => undefined;
+    mesh.add(lines);
+    mesh.userData.wireframe = lines;
+  });
+}
+
+/**
+ * Vertex normal helpers for every mesh of `root`. They live in world space, so they are grouped
+ * separately from the model and have to be rebuilt if it moves.
+ */
+export function createNormalsHelpers(root: THREE.Object3D): THREE.Group {
+  root.updateMatrixWorld(true);
+  const group = new THREE.Group();
+  meshesOf(root).forEach((mesh) => {
+    if (!mesh.geometry.getAttribute("normal")) return;
+    const helper = new VertexNormalsHelper(mesh, NORMAL_LENGTH, 0x22d3ee);
+    helper.raycast = () => undefined;
+    group.add(helper);
+  });
+  return group;
+}
+
+export function disposeNormalsHelpers(group: THREE.Group) {
+  group.children.forEach((helper) => (helper as VertexNormalsHelper).dispose());
+  group.clear();
+}
@@ -0,0 +1,161 @@
+// ============================================
+// VIEWER LIGHTING
+// ============================================
+// Lighting presets are plain light rigs; environments are HDR cube maps rendered in the browser
+// from light panels (or three's RoomEnvironment), so they ship with the app and need no download.
+// "Custom" keeps the adjustable key/fill pair the viewer always had.
+
+import * as THREE from "three";
+
+export type LightingPresetId = "custom" | "three_point" | "product" | "dramatic" | "flat" | "environment_only";
+
+interface PresetLight {
+  type: "ambient" | "hemisphere" | "directional";
+  intensity: number;
+  color?: string;
+  // Hemisphere lights only
+  groundColor?: string;
+  position?: [number, number, number];
+}
+
+export interface LightingPreset {
+  id: LightingPresetId;
+  label: string;
+  lights: PresetLight[];
+}
+
+export const LIGHTING_PRESETS: LightingPreset[] = [
+  { id: "custom", label: "Custom", lights: [] },
+  {
+    id: "three_point",
+    label: "Studio three-point",
+    lights: [
+      { type: "ambient", intensity: 0.2 },
+      { type: "directional", intensity: 2.2, position: [5, 5, 5] },
+      { type: "directional", intensity: 0.8, position: [-5, 3, 3] },
+      { type: "directional", intensity: 1.5, position: [0, 4, -6] },
+    ],
+  },
+  {
+    id: "product",
+    label: "Product",
+    lights: [
+      { type: "hemisphere", intensity: 0.9, color: "#ffffff", groundColor: "#b8b8b8" },
+      { type: "directional", intensity: 1.6, position: [1, 8, 3] },
+      { type: "directional", intensity: 0.5, position: [-4, 2, -4] },
+    ],
+  },
+  {
+    id: "dramatic",
+    label: "Dramatic",
+    lights: [
+      { type: "ambient", intensity: 0.05 },
+      { type: "directional", intensity: 3, position: [6, 3, 1] },
+      { type: "directional", intensity: 2, color: "#9ec5ff", position: [-3, 4, -5] },
+    ],
+  },
+  {
+    id: "flat",
+    label: "Flat (albedo check)",
+    lights: [
+      { type: "ambient", intensity: 1.2 },
+      { type: "hemisphere", intensity: 0.6, color: "#ffffff", groundColor: "#ffffff" },
+    ],
+  },
+  { id: "environment_only", label: "Environment only", lights: [] },
+];
+
+export type EnvironmentId = "none" | "room" | "softbox" | "overcast" | "sunset";
+
+export interface LightPanel {
+  form: "rect" | "ring" | "circle";
+  intensity: number;
+  color?: string;
+  position: [number, number, number];
+  scale: [number, number, number];
+}
+
+export interface EnvironmentPreset {
+  id: EnvironmentId;
+  label: string;
+  // Fills the cube map behind the panels
+  background?: string;
+  panels: LightPanel[];
+}
+
+export const ENVIRONMENTS: EnvironmentPreset[] = [
+  { id: "none", label: "None", panels: [] },
+  // Built from RoomEnvironment instead of panels
+  { id: "room", label: "Neutral room", panels: [] },
+  {
+    id: "softbox",
+    label: "Softbox studio",
+    background: "#1a1a1a",
+    panels: [
+      { form: "rect", intensity: 4, position: [0, 5, 0], scale: [6, 6, 1] },
+      { form: "rect", intensity: 2, position: [-5, 1, 0], scale: [2, 8, 1] },
+      { form: "rect", intensity: 2, position: [5, 1, 0], scale: [2, 8, 1] },
+      { form: "rect", intensity: 1, position: [0, 1, -6], scale: [8, 2, 1] },
+    ],
+  },
+  {
+    id: "overcast",
+    label: "Overcast",
+    background: "#b9c0c8",
+    panels: [
+      { form: "rect", intensity: 1.5, position: [0, 6, 0], scale: [14, 14, 1] },
+      { form: "rect", intensity: 0.4, color: "#8a8f7a", position: [0, -4, 0], scale: [14, 14, 1] },
+    ],
+  },
+  {
+    id: "sunset",
+    label: "Sunset",
+    background: "#2a2440",
+    panels: [
+      { form: "circle", intensity: 12, color: "#ffb066", position: [6, 1, -4], scale: [1.5, 1.5, 1] },
+      { form: "rect", intensity: 0.8, color: "#6d8ccf", position: [0, 6, 0], scale: [14, 14, 1] },
+      { form: "rect", intensity: 0.3, color: "#7a4b36", position: [0, -4, 0], scale: [14, 14, 1] },
+    ],
+  },
+];
+
+export type ToneMappingId = "none" | "linear" | "reinhard" | "cineon" | "aces" | "agx" | "neutral";
+
+export const TONE_MAPPINGS: { value: ToneMappingId; label: string; mapping: THREE.ToneMapping }[] = [
+  { value: "aces", label: "ACES Filmic", mapping: THREE.ACESFilmicToneMapping },
+  { value: "agx", label: "AgX", mapping: THREE.AgXToneMapping },
+  { value: "neutral", label: "Neutral", mapping: THREE.NeutralToneMapping },
+  { value: "reinhard", label: "Reinhard", mapping: THREE.ReinhardToneMapping },
+  { value: "cineon", label: "Cineon", mapping: THREE.CineonToneMapping },
+  { value: "linear", label: "Linear", mapping: THREE.LinearToneMapping },
+  { value: "none", label: "None", mapping: THREE.NoToneMapping },
+];
+
+export interface ViewerLighting {
+  preset: LightingPresetId;
+  environment: EnvironmentId;
+  // Show the environment instead of the background colour
+  environmentBackground: boolean;
+  shadows: boolean;
+  toneMapping: ToneMappingId;
+  exposure: number;
+}
+
+// What the viewer looked like before presets existed: custom lights, ACES (the canvas default)
+export const DEFAULT_LIGHTING: ViewerLighting = {
+  preset: "custom",
+  environment: "none",
+  environmentBackground: false,
+  shadows: false,
+  toneMapping: "aces",
+  exposure: 1,
+};
+
+export const lightingPreset = (id: LightingPresetId) =>
+  LIGHTING_PRESETS.find((preset) => preset.id === id) ?? LIGHTING_PRESETS[0];
+
+export const environmentPreset = (id: EnvironmentId) =>
+  ENVIRONMENTS.find((environment) => environment.id === id) ?? ENVIRONMENTS[0];
+
+export const toneMappingFor = (id: ToneMappingId) =>
+  (TONE_MAPPINGS.find((option) => option.value === id) ?? TONE_MAPPINGS[0]).mapping;
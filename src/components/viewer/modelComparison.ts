@@ -0,0 +1,88 @@
+// ============================================
+// ORIGINAL VS OPTIMIZED COMPARISON
+// ============================================
+// Both models get their own canvas; the cameras are linked through a shared pose that whichever
+// view was moved last writes and the other copies on its next frame. Swipe and flicker stack the
+// two canvases on top of each other, split puts them side by side.
+
+import * as THREE from "three";
+import { formatBytes } from "@/components/chat/imagePreprocess";
+import type { SceneStats } from "./inspectionModes";
+
+export type ComparisonMode = "split" | "swipe" | "flicker";
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: "split", label: "Side by side" },
+  { value: "swipe", label: "Swipe" },
+  { value: "flicker", label: "Flicker" },
+];
+
+export type ComparisonSide = "original" | "optimized";
+
+// How long each model stays up while auto-flickering
+export const FLICKER_INTERVAL_MS = 500;
+
+export const COMPARISON_CAMERA_POSITION: [number, number, number] = [3, 2.5, 3];
+// Models are centred one unit above the grid by Model
+export const COMPARISON_CAMERA_TARGET: [number, number, number] = [0, 1, 0];
+
+export interface CameraLink {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  // Bumped on every change, so each view knows whether it has caught up
+  version: number;
+  source: ComparisonSide | null;
+}
+
+export const createCameraLink = (): CameraLink => ({
+  position: new THREE.Vector3(...COMPARISON_CAMERA_POSITION),
+  target: new THREE.Vector3(...COMPARISON_CAMERA_TARGET),
+  version: 0,
+  source: null,
+});
+
+// ============================================
+// STATS DIFF
+// ============================================
+
+export interface ComparedModel {
+  stats: SceneStats | null;
+  fileSize: number | null;
+}
+
+export interface ComparisonRow {
+  label: string;
+  original: string;
+  optimized: string;
+  // Relative change from the original, e.g. -0.4 for 40% smaller; null when either side is unknown
+  change: number | null;
+}
+
+const formatCount = (value: number) => value.toLocaleString();
+const formatPixels = (value: number) => `${(value / 1_000_000).toFixed(1)} MP`;
+
+const METRICS: { label: string; value: (model: ComparedModel) => number | null; format: (value: number) => string }[] = [
+  { label: "Triangles", value: (model) => model.stats?.triangles ?? null, format: formatCount },
+  { label: "Vertices", value: (model) => model.stats?.vertices ?? null, format: formatCount },
+  { label: "Meshes", value: (model) => model.stats?.meshes ?? null, format: formatCount },
+  { label: "Materials", value: (model) => model.stats?.materials ?? null, format: formatCount },
+  { label: "Textures", value: (model) => model.stats?.textures ?? null, format: formatCount },
+  { label: "Texture pixels", value: (model) => model.stats?.texturePixels ?? null, format: formatPixels },
+  { label: "File size", value: (model) => model.fileSize, format: formatBytes },
+];
+
+export function compareModels(original: ComparedModel, optimized: ComparedModel): ComparisonRow[] {
+  return METRICS.map(({ label, value, format }) => {
+    const before = value(original);
+    const after = value(optimized);
+    return {
+      label,
+      original: before === null ? "—" : format(before),
+      optimized: after === null ? "—" : format(after),
+      change: before === null || after === null || before === 0 ? null : (after - before) / before,
+    };
+  });
+}
+
+export const formatChange = (change: number) =>
+  `${change > 0 ? "+" : ""}${Math.round(change * 100)}%`;
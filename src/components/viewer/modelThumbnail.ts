@@ -0,0 +1,115 @@
+// ============================================
+// MODEL THUMBNAILS (shared with the worker)
+// ============================================
+// Every model is rendered the same way so lists look consistent: the camera frames the model's
+// bounding sphere from a fixed three-quarter view, lighting is three's neutral room environment
+// plus a soft key light, and the background is transparent.
+
+import { FBXLoader } from "three/addons/loaders/FBXLoader.js";
+import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/addons/loaders/OBJLoader.js";
+import { RoomEnvironment } from "three/addons/environments/RoomEnvironment.js";
+import * as THREE from "three";
+
+// Square output, in pixels
+export const THUMBNAIL_SIZE = 512;
+
+// Types the worker can load; FBX decodes its embedded textures through DOM images
+export const WORKER_MODEL_TYPES = [".glb", ".gltf", ".obj"];
+
+// Same camera for every thumbnail: slightly above and to the right of the model's front
+const VIEW_DIRECTION = new THREE.Vector3(1, 0.7, 1.4).normalize();
+const FOV = 30;
+// Room left around the bounding sphere
+const MARGIN = 1.05;
+
+export interface ThumbnailRequest {
+  id: number;
+  data: ArrayBuffer;
+  // Extension of the model file, e.g. ".glb"
+  type: string;
+  // Where a .gltf's external buffers and textures are resolved from
+  resourcePath: string;
+  size: number;
+}
+
+export type ThumbnailResponse =
+  | { id: number; ok: true; blob: Blob }
+  // `unsupported`: the worker has no WebGL, the main thread should render instead
+  | { id: number; ok: false; error: string; unsupported?: boolean };
+
+async function parseModel(data: ArrayBuffer, type: string, resourcePath: string): Promise<THREE.Object3D> {
+  if (type === ".glb" || type === ".gltf") return (await new GLTFLoader().parseAsync(data, resourcePath)).scene;
+  if (type === ".fbx") return new FBXLoader().parse(data, resourcePath);
+  if (type === ".obj") return new OBJLoader().parse(new TextDecoder().decode(data));
+  throw new Error(`Unsupported model type ${type}`);
+}
+
+const disposeModel = (root: THREE.Object3D) =>
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.geometry.dispose();
+    for (const material of [mesh.material].flat()) {
+      Object.values(material).forEach((value) => value instanceof THREE.Texture && value.dispose());
+      material.dispose();
+    }
+  });
+
+const toPng = (canvas: HTMLCanvasElement | OffscreenCanvas) =>
+  canvas instanceof HTMLCanvasElement
+    ? new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode thumbnail"))), "image/png")
+      )
+    : canvas.convertToBlob({ type: "image/png" });
+
+/**
+ * Renders one thumbnail of a model file into `canvas` and returns it as PNG. The WebGL context is
+ * released afterwards, so a canvas is good for one thumbnail.
+ */
+export async function renderModelThumbnail(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  { data, type, resourcePath, size }: Omit<ThumbnailRequest, "id">
+): Promise<Blob> {
+  const model = await parseModel(data, type, resourcePath);
+  const renderer = new THREE.WebGLRenderer({ canvas, alpha: true, antialias: true, preserveDrawingBuffer: true });
+  const pmrem = new THREE.PMREMGenerator(renderer);
+  const room = new RoomEnvironment();
+  const environment = pmrem.fromScene(room, 0.04).texture;
+
+  try {
+    renderer.setPixelRatio(1);
+    renderer.setSize(size, size, false);
+    renderer.setClearColor(0x000000, 0);
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+
+    const scene = new THREE.Scene();
+    scene.environment = environment;
+    // OBJ materials ignore the environment, so the lights alone have to carry them
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x8d8d8d, 1.2));
+    const key = new THREE.DirectionalLight(0xffffff, 1.5);
+    key.position.set(3, 5, 4);
+    scene.add(key);
+    scene.add(model);
+
+    const box = new THREE.Box3().setFromObject(model);
+    if (box.isEmpty()) throw new Error("The model has no geometry");
+    const sphere = box.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, 1e-3);
+    const distance = (radius / Math.sin(THREE.MathUtils.degToRad(FOV / 2))) * MARGIN;
+
+    const camera = new THREE.PerspectiveCamera(FOV, 1, Math.max(distance - radius * 2, distance / 100), distance + radius * 2);
+    camera.position.copy(sphere.center).addScaledVector(VIEW_DIRECTION, distance);
+    camera.lookAt(sphere.center);
+
+    renderer.render(scene, camera);
+    return await toPng(canvas);
+  } finally {
+    disposeModel(model);
+    environment.dispose();
+    room.dispose();
+    pmrem.dispose();
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+}
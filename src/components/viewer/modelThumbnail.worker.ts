@@ -0,0 +1,31 @@
+import { renderModelThumbnail, type ThumbnailRequest, type ThumbnailResponse } from "./modelThumbnail";
+
+let hasWebgl: boolean | null = null;
+
+// Some browsers have OffscreenCanvas in workers but only with 2D contexts
+const canRender = () => {
+  if (hasWebgl === null) {
+    try {
+      hasWebgl = !!new OffscreenCanvas(1, 1).getContext("webgl2");
+    } catch {
+      hasWebgl = false;
+    }
+  }
+  return hasWebgl;
+};
+
+self.onmessage = async (event: MessageEvent<ThumbnailRequest>) => {
+  const { id, ...request } = event.data;
+  let response: ThumbnailResponse;
+  if (!canRender()) {
+    response = { id, ok: false, error: "WebGL is not available in workers", unsupported: true };
+  } else {
+    try {
+      const blob = await renderModelThumbnail(new OffscreenCanvas(request.size, request.size), request);
+      response = { id, ok: true, blob };
+    } catch (error) {
+      response = { id, ok: false, error: error instanceof Error ? error.message : "Thumbnail rendering failed" };
+    }
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,82 @@
+import {
+  THUMBNAIL_SIZE,
+  WORKER_MODEL_TYPES,
+  renderModelThumbnail,
+  type ThumbnailRequest,
+  type ThumbnailResponse,
+} from "./modelThumbnail";
+
+const canUseWorker = () => typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+// Set once the worker can't render, so later thumbnails go straight to the main thread
+let workerUnsupported = false;
+let worker: Worker | null = null;
+let nextId = 0;
+let pending = 0;
+// One thumbnail at a time: each one holds a WebGL context and a whole model file
+let queue: Promise<unknown> = Promise.resolve();
+
+const renderInWorker = (request: ThumbnailRequest) =>
+  new Promise<ThumbnailResponse>((resolve) => {
+    worker ??= new Worker(new URL("./modelThumbnail.worker.ts", import.meta.url), { type: "module" });
+    const current = worker;
+    const cleanup = () => {
+      current.removeEventListener("message", handleMessage);
+      current.removeEventListener("error", handleError);
+    };
+    const handleMessage = (event: MessageEvent<ThumbnailResponse>) => {
+      if (event.data.id !== request.id) return;
+      cleanup();
+      resolve(event.data);
+    };
+    // The worker script itself failed (e.g. it couldn't load); render on the main thread instead
+    const handleError = () => {
+      cleanup();
+      resolve({ id: request.id, ok: false, error: "The thumbnail worker failed", unsupported: true });
+    };
+    current.addEventListener("message", handleMessage);
+    current.addEventListener("error", handleError);
+    current.postMessage(request);
+  });
+
+async function render(url: string, type: string, size: number): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  const request = {
+    data: await response.arrayBuffer(),
+    type,
+    resourcePath: url.split("?")[0].replace(/[^/]*$/, ""),
+    size,
+  };
+
+  if (canUseWorker() && !workerUnsupported && WORKER_MODEL_TYPES.includes(type)) {
+    const result = await renderInWorker({ id: nextId++, ...request });
+    if ("blob" in result) return result.blob;
+    if (!("unsupported" in result && result.unsupported)) throw new Error(result.error);
+    workerUnsupported = true;
+    worker?.terminate();
+    worker = null;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = size;
+  return renderModelThumbnail(canvas, request);
+}
+
+/**
+ * Downloads a model and renders its thumbnail as a transparent PNG, in a Web Worker when the
+ * browser has WebGL there and on the main thread otherwise. Calls are queued; the worker is shut
+ * down whenever the queue runs empty.
+ */
+export function renderThumbnail(url: string, type: string, size = THUMBNAIL_SIZE): Promise<Blob> {
+  pending++;
+  const job = queue.then(() => render(url, type, size));
+  queue = job
+    .catch(() => undefined)
+    .finally(() => {
+      if (--pending > 0) return;
+      worker?.terminate();
+      worker = null;
+    });
+  return job;
+}
@@ -0,0 +1,133 @@
+// ============================================
+// TURNTABLE CAPTURE
+// ============================================
+// The camera is orbited once around the vertical axis and every step is rendered and read back
+// straight away, so capture speed doesn't depend on the frame rate. The frames are then encoded
+// as a zip of PNGs, a WebM (replayed through MediaRecorder at the target fps) or a GIF.
+
+import { zipSync } from "fflate";
+import { encodeGif } from "./gifEncoder";
+
+export type CaptureFormat = "png" | "webm" | "gif";
+
+export const CAPTURE_FORMATS: { value: CaptureFormat; label: string }[] = [
+  { value: "gif", label: "Animated GIF" },
+  { value: "webm", label: "WebM video" },
+  { value: "png", label: "PNG sequence (zip)" },
+];
+
+export const CAPTURE_SIZES = [256, 512, 768];
+export const CAPTURE_FRAME_COUNTS = [36, 60, 90];
+export const CAPTURE_FPS = [12, 24, 30];
+
+export interface TurntableOptions {
+  format: CaptureFormat;
+  // Square output, in pixels
+  size: number;
+  // Frames for one full turn
+  frames: number;
+  fps: number;
+  // PNG only; GIF and WebM are always filled with the background colour
+  transparent: boolean;
+  background: string;
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: Omit<TurntableOptions, "background"> = {
+  format: "gif",
+  size: 512,
+  frames: 60,
+  fps: 24,
+  transparent: false,
+};
+
+export interface TurntableCapture {
+  format: CaptureFormat;
+  blob: Blob;
+  fileName: string;
+  // First frame as PNG, what gets attached when the capture itself can't be a thumbnail
+  poster: Blob;
+}
+
+// Registered by the rig inside the canvas; renders the frames of one turn
+export interface TurntableHandle {
+  captureFrames: (
+    options: Pick<TurntableOptions, "size" | "frames" | "transparent" | "background">,
+    onFrame: (done: number, total: number) => void
+  ) => Promise<ImageData[]>;
+}
+
+export const isWebmSupported = () =>
+  typeof MediaRecorder !== "undefined" && typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+const toCanvas = (frame: ImageData) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext("2d")!.putImageData(frame, 0, 0);
+  return canvas;
+};
+
+const toPng = (frame: ImageData) =>
+  new Promise<Blob>((resolve, reject) =>
+    toCanvas(frame).toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode frame"))), "image/png")
+  );
+
+async function encodePngSequence(frames: ImageData[], onProgress: (done: number, total: number) => void) {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [index, frame] of frames.entries()) {
+    const png = await toPng(frame);
+    entries[`frame_${String(index).padStart(3, "0")}.png`] = new Uint8Array(await png.arrayBuffer());
+    onProgress(index + 1, frames.length);
+  }
+  // PNGs are already compressed
+  return new Blob([zipSync(entries, { level: 0 })], { type: "application/zip" });
+}
+
+async function encodeWebm(frames: ImageData[], fps: number, onProgress: (done: number, total: number) => void) {
+  const canvas = toCanvas(frames[0]);
+  const ctx = canvas.getContext("2d")!;
+  const stream = canvas.captureStream(fps);
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+  // MediaRecorder timestamps by wall clock, so the frames are replayed in real time
+  recorder.start();
+  for (const [index, frame] of frames.entries()) {
+    ctx.putImageData(frame, 0, 0);
+    onProgress(index + 1, frames.length);
+    await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+/**
+ * Encodes captured frames in the requested format. `onProgress` reports encoded frames; WebM takes
+ * as long as the clip plays.
+ */
+export async function encodeTurntable(
+  frames: ImageData[],
+  options: TurntableOptions,
+  baseName: string,
+  onProgress: (done: number, total: number) => void
+): Promise<TurntableCapture> {
+  const { format } = options;
+  const poster = await toPng(frames[0]);
+  const stem = `${baseName}-turntable`;
+  if (format === "png") {
+    return { format, blob: await encodePngSequence(frames, onProgress), fileName: `${stem}.zip`, poster };
+  }
+  if (format === "webm") {
+    return { format, blob: await encodeWebm(frames, options.fps, onProgress), fileName: `${stem}.webm`, poster };
+  }
+  return { format, blob: await encodeGif(frames, 1000 / options.fps, onProgress), fileName: `${stem}.gif`, poster };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_PLAYBACK,
+  type AnimationBinding,
+  type AnimationPlayback,
+  type AnimationPlayerHandle,
+  type ModelAnimations,
+} from "./animationPlayer";
+
+/**
+ * State for the animation controls of one viewer. `binding` goes to the Model inside the canvas,
+ * the rest to AnimationControls outside it.
+ */
+export function useAnimationControls() {
+  const [playback, setPlayback] = useState<AnimationPlayback>(DEFAULT_PLAYBACK);
+  const [animations, setAnimations] = useState<ModelAnimations>({ clips: [], hasSkeleton: false });
+  const [time, setTime] = useState(0);
+  const playerRef = useRef<AnimationPlayerHandle | null>(null);
+
+  const update = useCallback((patch: Partial<AnimationPlayback>) => {
+    // A different clip starts from its beginning
+    if (patch.clipIndex !== undefined) setTime(0);
+    setPlayback((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const seek = useCallback((next: number) => {
+    playerRef.current?.seek(next);
+    setTime(next);
+  }, []);
+
+  // A newly loaded model starts on its first clip, keeping speed, loop and helper choices
+  const onAnimations = useCallback((next: ModelAnimations) => {
+    setAnimations(next);
+    setTime(0);
+    setPlayback((prev) => ({ ...prev, clipIndex: 0, playing: true }));
+  }, []);
+
+  const onFinished = useCallback(() => setPlayback((prev) => ({ ...prev, playing: false })), []);
+
+  const binding: AnimationBinding = useMemo(
+    () => ({ playback, onAnimations, onTime: setTime, onFinished, playerRef }),
+    [playback, onAnimations, onFinished]
+  );
+
+  return { binding, playback, animations, time, update, seek };
+}
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import {
+  DEFAULT_PLAYBACK,
+  applyPlayback,
+  describeClips,
+  hasBones,
+  inPlaceClip,
+  type AnimationBinding,
+} from "./animationPlayer";
+
+// How often the current time is reported to the controls while playing
+const TIME_REPORT_INTERVAL = 0.1;
+
+/**
+ * Drives the clips of a loaded model from inside the canvas: one mixer per model, one action for
+ * the selected clip. Returns the skeleton helper to render next to the model, if it's switched on.
+ */
+export function useAnimationPlayer(
+  model: THREE.Object3D | null,
+  animations: THREE.AnimationClip[],
+  binding?: AnimationBinding
+): THREE.SkeletonHelper | null {
+  const playback = binding?.playback ?? DEFAULT_PLAYBACK;
+  const playerRef = binding?.playerRef;
+  const mixer = useMemo(
+    () => (model && animations.length > 0 ? new THREE.AnimationMixer(model) : null),
+    [model, animations]
+  );
+  const [action, setAction] = useState<THREE.AnimationAction | null>(null);
+  const [skeletonHelper, setSkeletonHelper] = useState<THREE.SkeletonHelper | null>(null);
+  // Kept across action swaps so toggling root motion doesn't restart the clip
+  const lastPosition = useRef({ clipIndex: -1, time: 0 });
+  const sinceReport = useRef(0);
+  const bindingRef = useRef(binding);
+  bindingRef.current = binding;
+
+  // Also reported while loading (no model yet), so the controls never show the previous model's clips
+  useEffect(() => {
+    bindingRef.current?.onAnimations({
+      clips: model ? describeClips(animations) : [],
+      hasSkeleton: model ? hasBones(model) : false,
+    });
+  }, [model, animations]);
+
+  useEffect(() => {
+    const source = animations[playback.clipIndex];
+    if (!mixer || !model || !source) return;
+
+    const clip = playback.rootMotion ? source : inPlaceClip(source, model);
+    const next = mixer.clipAction(clip);
+    applyPlayback(next, bindingRef.current?.playback ?? DEFAULT_PLAYBACK);
+    next.play();
+    if (lastPosition.current.clipIndex === playback.clipIndex) next.time = lastPosition.current.time;
+    mixer.update(0);
+    setAction(next);
+
+    const onFinished = () => bindingRef.current?.onFinished();
+    mixer.addEventListener("finished", onFinished);
+    return () => {
+      mixer.removeEventListener("finished", onFinished);
+      lastPosition.current = { clipIndex: playback.clipIndex, time: next.time };
+      next.stop();
+      mixer.uncacheAction(clip);
+      if (clip !== source) mixer.uncacheClip(clip);
+      setAction(null);
+    };
+  }, [mixer, model, animations, playback.clipIndex, playback.rootMotion]);
+
+  useEffect(() => {
+    if (!mixer || !playerRef) return;
+    playerRef.current = {
+      seek: (time) => {
+        if (!action) return;
+        action.enabled = true;
+        action.time = THREE.MathUtils.clamp(time, 0, action.getClip().duration);
+        mixer.update(0);
+      },
+    };
+    return () => {
+      playerRef.current = null;
+    };
+  }, [mixer, action, playerRef]);
+
+  // Playing a "once" clip again from its last frame starts it over
+  useEffect(() => {
+    if (action && playback.playing && playback.loop === "once" && action.time >= action.getClip().duration) {
+      action.reset();
+    }
+  }, [action, playback.playing, playback.loop]);
+
+  useEffect(() => {
+    if (!model || !playback.skeleton || !hasBones(model)) return;
+    const helper = new THREE.SkeletonHelper(model);
+    helper.raycast = () => undefined;
+    setSkeletonHelper(helper);
+    return () => {
+      helper.dispose();
+      setSkeletonHelper(null);
+    };
+  }, [model, playback.skeleton]);
+
+  useEffect(
+    () => () => {
+      mixer?.stopAllAction();
+    },
+    [mixer]
+  );
+
+  useFrame((_, delta) => {
+    if (!mixer || !action) return;
+    applyPlayback(action, playback);
+    mixer.update(delta);
+
+    if (!playback.playing) return;
+    sinceReport.current += delta;
+    if (sinceReport.current >= TIME_REPORT_INTERVAL) {
+      sinceReport.current = 0;
+      binding?.onTime(action.time);
+    }
+  });
+
+  return skeletonHelper;
+}
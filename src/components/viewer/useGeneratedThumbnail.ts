@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+import { renderThumbnail } from "./renderThumbnails";
+
+export interface ThumbnailSource {
+  url: string;
+  // Extension of the model file, e.g. ".glb"
+  type: string;
+}
+
+export interface GeneratedThumbnailOptions {
+  // Identifies the model across renders and list reloads; each key is rendered at most once
+  thumbnailKey: string;
+  // Nothing is rendered until this is true, e.g. while the model is off screen
+  enabled: boolean;
+  // Where the model file can be downloaded; null when it has none
+  resolveSource: () => Promise<ThumbnailSource | null>;
+  // Saves the thumbnail on the model's record and returns its stored URL
+  persist: (image: File) => Promise<string | undefined>;
+  onStored?: (thumbnailUrl: string) => void;
+}
+
+type Callbacks = Pick<GeneratedThumbnailOptions, "resolveSource" | "persist" | "onStored">;
+
+// Object URLs of the thumbnails rendered this session, null for models that couldn't be rendered
+const generated = new Map<string, Promise<string | null>>();
+
+async function generate(thumbnailKey: string, callbacks: { current: Callbacks }): Promise<string | null> {
+  try {
+    const source = await callbacks.current.resolveSource();
+    if (!source) return null;
+    const blob = await renderThumbnail(source.url, source.type);
+    const image = new File([blob], `thumbnail-${thumbnailKey.replace(/[^a-z0-9]+/gi, "-")}.png`, { type: "image/png" });
+
+    // The local render is shown right away; the upload is what later sessions and other lists see
+    callbacks.current
+      .persist(image)
+      .then((stored) => stored && callbacks.current.onStored?.(stored))
+      .catch((error) => console.error("Failed to store generated thumbnail:", error));
+    return URL.createObjectURL(blob);
+  } catch (error) {
+    console.error(`Could not render a thumbnail for ${thumbnailKey}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Renders a thumbnail for a model that has none and saves it back to the model's record. Returns
+ * the rendered image's URL once it's ready.
+ */
+export function useGeneratedThumbnail({
+  thumbnailKey,
+  enabled,
+  resolveSource,
+  persist,
+  onStored,
+}: GeneratedThumbnailOptions): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  const callbacks = useRef<Callbacks>({ resolveSource, persist, onStored });
+  callbacks.current = { resolveSource, persist, onStored };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let job = generated.get(thumbnailKey);
+    if (!job) {
+      job = generate(thumbnailKey, callbacks);
+      generated.set(thumbnailKey, job);
+    }
+    job.then((next) => !cancelled && setUrl(next));
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnailKey, enabled]);
+
+  return url;
+}
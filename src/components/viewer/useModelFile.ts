@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+
+interface ModelFileState {
+  // Object URL of the downloaded file, what the Model loads from
+  objectUrl: string | null;
+  size: number | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+const IDLE: ModelFileState = { objectUrl: null, size: null, error: null, isLoading: false };
+
+/**
+ * Downloads a model once so its file size is known (signed URLs can't be HEAD-requested) and the
+ * viewer loads the same bytes from memory.
+ */
+export function useModelFile(url: string | null): ModelFileState {
+  const [state, setState] = useState<ModelFileState>(IDLE);
+
+  useEffect(() => {
+    if (!url) {
+      setState(IDLE);
+      return;
+    }
+
+    const controller = new AbortController();
+    let objectUrl: string | null = null;
+    setState({ ...IDLE, isLoading: true });
+
+    fetch(url, { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        return response.blob();
+      })
+      .then((blob) => {
+        objectUrl = URL.createObjectURL(blob);
+        setState({ objectUrl, size: blob.size, error: null, isLoading: false });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to download model:", error);
+        setState({ ...IDLE, error: "Failed to download the model." });
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url]);
+
+  return state;
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Play } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SavedWorkflow } from "@/types/backend.types";
+import { defaultVariableValues, resolveTemplateVariables } from "./workflowTemplates";
+
+interface RunTemplateDialogProps {
+  workflow: SavedWorkflow | null;
+  onOpenChange: (open: boolean) => void;
+  onRun: (workflow: SavedWorkflow, values: Record<string, string>) => void;
+}
+
+/**
+ * Asks for the values of a template's variables before it runs
+ */
+export const RunTemplateDialog = ({ workflow, onOpenChange, onRun }: RunTemplateDialogProps) => {
+  const variables = workflow ? resolveTemplateVariables(workflow, workflow.variables) : [];
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (workflow) setValues(defaultVariableValues(resolveTemplateVariables(workflow, workflow.variables)));
+  }, [workflow]);
+
+  const canRun = variables.every((variable) => values[variable.name]?.trim());
+
+  return (
+    <Dialog open={!!workflow} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Run {workflow?.name}</DialogTitle>
+          <DialogDescription>
+            {variables.length > 0
+              ? "Fill in the template's variables. They replace the matching {{placeholders}} in every step."
+              : "This workflow has no variables and runs as saved."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="run-template-form"
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (workflow && canRun) onRun(workflow, values);
+          }}
+        >
+          {variables.map((variable) => (
+            <div key={variable.name} className="space-y-1.5">
+              <Label htmlFor={`var-${variable.name}`}>{variable.label || variable.name}</Label>
+              <Input
+                id={`var-${variable.name}`}
+                value={values[variable.name] ?? ""}
+                placeholder={`{{${variable.name}}}`}
+                onChange={(e) => setValues((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="run-template-form" disabled={!canRun}>
+            <Play className="w-3.5 h-3.5 mr-1" /> Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,422 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import ReactFlow, {
+  Background,
+  Controls,
+  addEdge,
+  useEdgesState,
+  useNodesState,
+  type Connection,
+} from "reactflow";
+import "reactflow/dist/style.css";
+import { Braces, Download, Loader2, Play, Save, X } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { createWorkflow, runWorkflowChain, updateWorkflow } from "@/lib/backend";
+import type {
+  AssetKind,
+  AssetRecord,
+  WorkflowGraph,
+  WorkflowPortType,
+  WorkflowStepType,
+  WorkflowVariable,
+} from "@/types/backend.types";
+import { createChainSSEConnection, type ChainTaskState } from "@/utils/workflowChainHandler";
+import { AssetPickerDialog } from "@/components/assets/AssetPickerDialog";
+import { WorkflowStepNode } from "./WorkflowStepNode";
+import {
+  WORKFLOW_STEPS,
+  WORKFLOW_STEP_TYPES,
+  buildChainTasks,
+  createWorkflowEdge,
+  defaultStepParams,
+  toFlowEdges,
+  toFlowNodes,
+  toWorkflowGraph,
+  type WorkflowFlowNode,
+} from "./workflowGraph";
+import {
+  applyTemplateVariables,
+  defaultVariableValues,
+  downloadWorkflowTemplate,
+  extractTemplateVariables,
+  resolveTemplateVariables,
+} from "./workflowTemplates";
+
+const nodeTypes = {
+  workflowStep: WorkflowStepNode,
+};
+
+// Library assets that can feed a step's input port
+const PORT_ASSET_KINDS: Record<WorkflowPortType, AssetKind[]> = {
+  image: ["image", "edit"],
+  model: ["model_3d", "optimized_model"],
+};
+
+export interface WorkflowDraft {
+  // Set once the workflow has been saved
+  id?: string;
+  name: string;
+  description?: string;
+  graph: WorkflowGraph;
+  variables?: WorkflowVariable[];
+  // Values for the template's variables; the saved defaults when omitted
+  variableValues?: Record<string, string>;
+  // Start running as soon as the builder opens (templates started from the run form)
+  autoRun?: boolean;
+}
+
+interface WorkflowBuilderProps {
+  draft: WorkflowDraft;
+  projectId: string | null;
+  onClose: () => void;
+}
+
+export const WorkflowBuilder = ({ draft, projectId, onClose }: WorkflowBuilderProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userProfile } = useUserProfile();
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(toFlowNodes(draft.graph));
+  const [edges, setEdges, onEdgesChange] = useEdgesState(toFlowEdges(draft.graph));
+  const [name, setName] = useState(draft.name);
+  const [workflowId, setWorkflowId] = useState(draft.id);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>(
+    () => draft.variableValues ?? defaultVariableValues(draft.variables)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runStatus, setRunStatus] = useState("");
+  // Live chain task state, keyed by the node that task runs
+  const [taskStates, setTaskStates] = useState<Record<string, ChainTaskState>>({});
+  // Node whose source is being picked from the asset library
+  const [pickingNodeId, setPickingNodeId] = useState<string | null>(null);
+  const chainSSERef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    return () => {
+      chainSSERef.current?.();
+    };
+  }, []);
+
+  // ----------------------------------------
+  // Editing
+  // ----------------------------------------
+  const updateParam = useCallback(
+    (nodeId: string, key: string, value: string) => {
+      setNodes((nds) =>
+        nds.map((node) =>
+          node.id === nodeId ? { ...node, data: { ...node.data, params: { ...node.data.params, [key]: value } } } : node
+        )
+      );
+    },
+    [setNodes]
+  );
+
+  const removeNode = useCallback(
+    (nodeId: string) => {
+      setNodes((nds) => nds.filter((node) => node.id !== nodeId));
+      setEdges((eds) => eds.filter((edge) => edge.source !== nodeId && edge.target !== nodeId));
+    },
+    [setNodes, setEdges]
+  );
+
+  const pickingInput = useMemo(() => {
+    const node = nodes.find((n) => n.id === pickingNodeId);
+    return node ? WORKFLOW_STEPS[node.data.step].input : undefined;
+  }, [nodes, pickingNodeId]);
+
+  const handleSourcePicked = (assets: AssetRecord[]) => {
+    if (pickingNodeId && assets[0]?.fileUrl) updateParam(pickingNodeId, "source_url", assets[0].fileUrl);
+    setPickingNodeId(null);
+  };
+
+  const addStep = (step: WorkflowStepType) => {
+    const offset = nodes.length * 30;
+    const node: WorkflowFlowNode = {
+      id: `${step}-${Date.now()}`,
+      type: "workflowStep",
+      position: { x: 40 + offset, y: 260 + offset },
+      data: { step, params: defaultStepParams(step) },
+    };
+    setNodes((nds) => [...nds, node]);
+  };
+
+  // Outputs only connect to inputs of the same type, and each input takes a single step
+  const isValidConnection = useCallback(
+    (connection: Connection) => {
+      const source = nodes.find((node) => node.id === connection.source);
+      const target = nodes.find((node) => node.id === connection.target);
+      if (!source || !target || source.id === target.id) return false;
+      if (edges.some((edge) => edge.target === target.id)) return false;
+      return WORKFLOW_STEPS[source.data.step].output === WORKFLOW_STEPS[target.data.step].input;
+    },
+    [nodes, edges]
+  );
+
+  const onConnect = useCallback(
+    (connection: Connection) => {
+      if (!connection.source || !connection.target) return;
+      setEdges((eds) => addEdge(createWorkflowEdge(connection.source!, connection.target!), eds));
+    },
+    [setEdges]
+  );
+
+  const variableNames = useMemo(() => extractTemplateVariables(toWorkflowGraph(nodes, edges)), [nodes, edges]);
+
+  const flowNodes = useMemo(
+    () =>
+      nodes.map((node) => ({
+        ...node,
+        data: {
+          ...node.data,
+          inputConnected: edges.some((edge) => edge.target === node.id),
+          task: taskStates[node.id],
+          readOnly: isRunning,
+          onParamChange: updateParam,
+          onRemove: removeNode,
+          onPickSource: setPickingNodeId,
+        },
+      })),
+    [nodes, edges, taskStates, isRunning, updateParam, removeNode]
+  );
+
+  // ----------------------------------------
+  // Save / export
+  // ----------------------------------------
+  const handleSave = async () => {
+    if (!projectId) {
+      toast({ title: "No project selected", description: "Pick a project to save workflows to.", variant: "destructive" });
+      return;
+    }
+    const graph = toWorkflowGraph(nodes, edges);
+    const request = {
+      name: name.trim() || "Untitled workflow",
+      description: draft.description,
+      variables: resolveTemplateVariables(graph, draft.variables, variableValues),
+      ...graph,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = workflowId
+        ? await updateWorkflow(workflowId, request, projectId)
+        : await createWorkflow(request, projectId);
+      setWorkflowId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ["workflows", projectId] });
+      toast({ title: "Workflow saved", description: request.name });
+    } catch (error) {
+      console.error("Error saving workflow:", error);
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Could not save the workflow",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    const graph = toWorkflowGraph(nodes, edges);
+    downloadWorkflowTemplate({
+      name: name.trim() || "Untitled workflow",
+      description: draft.description,
+      variables: resolveTemplateVariables(graph, draft.variables, variableValues),
+      ...graph,
+    });
+  };
+
+  // ----------------------------------------
+  // Run
+  // ----------------------------------------
+  const handleRun = useCallback(async () => {
+    let plan: ReturnType<typeof buildChainTasks>;
+    try {
+      plan = buildChainTasks(applyTemplateVariables(toWorkflowGraph(nodes, edges), variableValues));
+    } catch (error) {
+      toast({ title: "Can't run workflow", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
+
+    const { tasks, nodeIds } = plan;
+    const toNodeStates = (chainTasks: ChainTaskState[]) =>
+      Object.fromEntries(
+        chainTasks
+          .filter((task) => nodeIds[task.task_number - 1])
+          .map((task) => [nodeIds[task.task_number - 1], task])
+      );
+
+    chainSSERef.current?.();
+    setIsRunning(true);
+    setRunStatus("🔗 Starting workflow...");
+    setTaskStates(toNodeStates(tasks.map((task) => ({ task_number: task.task_number, status: "pending" }))));
+
+    try {
+      const chain = await runWorkflowChain({ workflow_id: workflowId, tasks }, projectId);
+      chainSSERef.current = createChainSSEConnection(chain.chain_id, userProfile?.email || "", chain.total_tasks, {
+        onTasksChanged: (chainTasks) => setTaskStates(toNodeStates(chainTasks)),
+        onStatusUpdate: setRunStatus,
+        onChainCompleted: (_, results) => {
+          setIsRunning(false);
+          // Failed steps were already reported as they happened
+          if (results.tasks.some((task) => task.status === "failed")) return;
+          toast({ title: "Workflow Complete", description: `${chain.total_tasks} steps finished` });
+        },
+        // Steps that don't depend on the failed one keep running until the chain completes
+        onTaskFailed: (event) => {
+          toast({
+            title: "Workflow Error",
+            description: `Step ${event.task_number} failed: ${event.error || "Unknown error"}`,
+            variant: "destructive",
+          });
+        },
+        onError: (message) => {
+          setIsRunning(false);
+          setRunStatus(message);
+        },
+      });
+    } catch (error) {
+      console.error("Error starting workflow:", error);
+      setIsRunning(false);
+      setRunStatus("");
+      setTaskStates({});
+      toast({
+        title: "Run failed",
+        description: error instanceof Error ? error.message : "Could not start the workflow",
+        variant: "destructive",
+      });
+    }
+  }, [nodes, edges, variableValues, workflowId, projectId, userProfile?.email, toast]);
+
+  // A template started from the run form runs once, right after opening
+  const autoRunRef = useRef(draft.autoRun);
+  useEffect(() => {
+    if (!autoRunRef.current) return;
+    autoRunRef.current = false;
+    void handleRun();
+  }, [handleRun]);
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-border">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Workflow name"
+          className="px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 w-56"
+        />
+        {runStatus && <span className="text-[11px] text-muted-foreground truncate max-w-xs">{runStatus}</span>}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border border-border rounded-lg text-foreground hover:border-primary/40 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={nodes.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border border-border rounded-lg text-foreground hover:border-primary/40 transition-colors disabled:opacity-50"
+            title="Download as a JSON template"
+          >
+            <Download className="w-3.5 h-3.5" /> Export
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || nodes.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />} Run
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+            title="Close builder"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex h-[560px]">
+        {/* Step palette */}
+        <div className="w-48 shrink-0 space-y-1.5 p-3 border-r border-border overflow-y-auto">
+          <span className="block text-[10px] font-semibold uppercase tracking-wide text-muted-foreground mb-2">Steps</span>
+          {WORKFLOW_STEP_TYPES.map((step) => {
+            const { icon: Icon, label, description } = WORKFLOW_STEPS[step];
+            return (
+              <button
+                key={step}
+                onClick={() => addStep(step)}
+                disabled={isRunning}
+                title={description}
+                className="w-full flex items-center gap-2 px-2 py-1.5 text-xs text-left rounded-lg border border-border text-foreground hover:border-primary/40 transition-colors disabled:opacity-50"
+              >
+                <Icon className="w-3.5 h-3.5 text-primary" />
+                {label}
+              </button>
+            );
+          })}
+
+          {/* Template variables: any {{name}} used in a step's params */}
+          <span className="flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground pt-4 mb-2">
+            <Braces className="w-3 h-3" /> Variables
+          </span>
+          {variableNames.length === 0 ? (
+            <p className="text-[10px] text-muted-foreground">
+              Use {"{{name}}"} in a prompt to turn it into a template variable.
+            </p>
+          ) : (
+            variableNames.map((variable) => (
+              <label key={variable} className="block space-y-1">
+                <span className="text-[10px] text-muted-foreground">
+                  {draft.variables?.find((v) => v.name === variable)?.label || variable}
+                </span>
+                <input
+                  value={variableValues[variable] ?? ""}
+                  disabled={isRunning}
+                  onChange={(e) => setVariableValues((prev) => ({ ...prev, [variable]: e.target.value }))}
+                  className="w-full px-2 py-1 text-[11px] bg-secondary border border-border rounded text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50"
+                />
+              </label>
+            ))
+          )}
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-1">
+          <ReactFlow
+            nodes={flowNodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            isValidConnection={isValidConnection}
+            nodeTypes={nodeTypes}
+            nodesDraggable={!isRunning}
+            nodesConnectable={!isRunning}
+            deleteKeyCode={isRunning ? null : "Backspace"}
+            fitView
+            minZoom={0.5}
+            maxZoom={1.5}
+          >
+            <Controls />
+            <Background />
+          </ReactFlow>
+        </div>
+      </div>
+
+      <AssetPickerDialog
+        open={!!pickingInput}
+        onOpenChange={(open) => !open && setPickingNodeId(null)}
+        onPick={handleSourcePicked}
+        kinds={pickingInput ? PORT_ASSET_KINDS[pickingInput] : []}
+        projectId={projectId}
+        title={`Pick a source ${pickingInput ?? "asset"}`}
+      />
+    </div>
+  );
+};
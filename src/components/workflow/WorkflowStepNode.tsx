@@ -0,0 +1,161 @@
+import { memo } from "react";
+import { Handle, Position, type NodeProps } from "reactflow";
+import { CheckCircle2, Circle, FolderOpen, Loader2, SkipForward, X, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { WorkflowPortType } from "@/types/backend.types";
+import type { ChainTaskStatus } from "@/utils/workflowChainHandler";
+import { WORKFLOW_STEPS, type WorkflowStepNodeData } from "./workflowGraph";
+
+const PORT_COLORS: Record<WorkflowPortType, string> = {
+  image: "!bg-sky-500",
+  model: "!bg-violet-500",
+};
+
+const getStatusStyle = (status?: ChainTaskStatus) => {
+  switch (status) {
+    case "running":
+      return { border: "border-amber-500", icon: Loader2, iconClass: "text-amber-500 animate-spin" };
+    case "done":
+      return { border: "border-green-500", icon: CheckCircle2, iconClass: "text-green-500" };
+    case "failed":
+      return { border: "border-destructive", icon: XCircle, iconClass: "text-destructive" };
+    case "skipped":
+      return { border: "border-border opacity-60", icon: SkipForward, iconClass: "text-muted-foreground" };
+    case "pending":
+      return { border: "border-border", icon: Circle, iconClass: "text-muted-foreground/50" };
+    default:
+      return { border: "border-border", icon: null, iconClass: "" };
+  }
+};
+
+export const WorkflowStepNode = memo(({ id, data, selected }: NodeProps<WorkflowStepNodeData>) => {
+  const definition = WORKFLOW_STEPS[data.step];
+  const Icon = definition.icon;
+  const status = getStatusStyle(data.task?.status);
+  const StatusIcon = status.icon;
+  const preview = data.task?.outputs?.thumbnail_url || data.task?.outputs?.image_path;
+
+  const fieldClass =
+    "nodrag w-full px-2 py-1 text-[11px] bg-secondary border border-border rounded text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <div
+      className={cn(
+        "w-[220px] rounded-lg border-2 bg-card shadow-lg",
+        status.border,
+        selected && "ring-2 ring-primary/40"
+      )}
+    >
+      {definition.input && (
+        <Handle
+          type="target"
+          position={Position.Left}
+          className={cn("w-3 h-3", PORT_COLORS[definition.input])}
+          title={`${definition.input} in`}
+        />
+      )}
+
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+        <Icon className="h-4 w-4 text-primary" />
+        <span className="flex-1 text-xs font-semibold text-foreground">{definition.label}</span>
+        {StatusIcon && <StatusIcon className={cn("h-4 w-4", status.iconClass)} />}
+        {!data.readOnly && data.onRemove && (
+          <button
+            onClick={() => data.onRemove?.(id)}
+            className="text-muted-foreground hover:text-foreground"
+            title="Remove step"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 px-3 py-2">
+        {definition.params.map((param) => {
+          const value = data.params[param.key] ?? "";
+          const onChange = (next: string) => data.onParamChange?.(id, param.key, next);
+          return (
+            <label key={param.key} className="block space-y-1">
+              <span className="text-[10px] text-muted-foreground">{param.label}</span>
+              {param.options ? (
+                <select
+                  value={value}
+                  disabled={data.readOnly}
+                  onChange={(e) => onChange(e.target.value)}
+                  className={fieldClass}
+                >
+                  {param.options.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : param.multiline ? (
+                <textarea
+                  value={value}
+                  rows={2}
+                  disabled={data.readOnly}
+                  placeholder={param.placeholder}
+                  onChange={(e) => onChange(e.target.value)}
+                  className={cn(fieldClass, "resize-none")}
+                />
+              ) : (
+                <input
+                  value={value}
+                  disabled={data.readOnly}
+                  placeholder={param.placeholder}
+                  onChange={(e) => onChange(e.target.value)}
+                  className={fieldClass}
+                />
+              )}
+            </label>
+          );
+        })}
+
+        {definition.input && !data.inputConnected && (
+          <label className="block space-y-1">
+            <span className="text-[10px] text-muted-foreground">Source {definition.input} URL</span>
+            <div className="flex gap-1">
+              <input
+                value={data.params.source_url ?? ""}
+                disabled={data.readOnly}
+                placeholder="https://..."
+                onChange={(e) => data.onParamChange?.(id, "source_url", e.target.value)}
+                className={fieldClass}
+              />
+              {!data.readOnly && data.onPickSource && (
+                <button
+                  onClick={() => data.onPickSource?.(id)}
+                  className="nodrag shrink-0 px-1.5 rounded border border-border text-muted-foreground hover:text-foreground hover:border-primary/40"
+                  title={`Pick ${definition.input} from assets`}
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          </label>
+        )}
+
+        {definition.params.length === 0 && !(definition.input && !data.inputConnected) && (
+          <p className="text-[10px] text-muted-foreground">{definition.description}</p>
+        )}
+
+        {data.task?.status === "failed" && data.task.error && (
+          <p className="text-[10px] text-destructive">{data.task.error}</p>
+        )}
+        {preview && (
+          <img src={preview} alt={`${definition.label} output`} className="w-full h-24 object-cover rounded" />
+        )}
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        className={cn("w-3 h-3", PORT_COLORS[definition.output])}
+        title={`${definition.output} out`}
+      />
+    </div>
+  );
+});
+
+WorkflowStepNode.displayName = "WorkflowStepNode";
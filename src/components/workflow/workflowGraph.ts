@@ -0,0 +1,253 @@
+import { Box, Eraser, Gauge, ImagePlus, Maximize2, Pencil, type LucideIcon } from "lucide-react";
+import { MarkerType, type Edge, type Node } from "reactflow";
+import type {
+  WorkflowChainTask,
+  WorkflowGraph,
+  WorkflowPortType,
+  WorkflowStepType,
+} from "@/types/backend.types";
+import type { ChainTaskState } from "@/utils/workflowChainHandler";
+
+// ============================================
+// STEP DEFINITIONS
+// ============================================
+
+export interface WorkflowStepParam {
+  key: string;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean;
+  required?: boolean;
+  options?: { value: string; label: string }[];
+}
+
+export interface WorkflowStepDefinition {
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  // Chain task_type the agent runs for this step
+  taskType: string;
+  // Steps with an input take it from the connected step, or from `source_url` when nothing is connected
+  input?: WorkflowPortType;
+  output: WorkflowPortType;
+  // Takes an optional `mask_url` (white marks the region to change) to edit only part of the input
+  acceptsMask?: boolean;
+  params: WorkflowStepParam[];
+}
+
+export const WORKFLOW_STEPS: Record<WorkflowStepType, WorkflowStepDefinition> = {
+  generate_image: {
+    label: "Generate image",
+    description: "Create an image from a prompt",
+    icon: ImagePlus,
+    taskType: "image_generation",
+    output: "image",
+    params: [{ key: "prompt", label: "Prompt", placeholder: "A stylized fantasy sword...", multiline: true, required: true }],
+  },
+  edit_image: {
+    label: "Edit image",
+    description: "Change an image with an instruction",
+    icon: Pencil,
+    taskType: "image_editing",
+    input: "image",
+    output: "image",
+    acceptsMask: true,
+    params: [{ key: "prompt", label: "Instruction", placeholder: "Make it glow blue", multiline: true, required: true }],
+  },
+  remove_background: {
+    label: "Remove background",
+    description: "Cut the subject out of its background",
+    icon: Eraser,
+    taskType: "background_removal",
+    input: "image",
+    output: "image",
+    params: [],
+  },
+  upscale: {
+    label: "Upscale",
+    description: "Increase image resolution",
+    icon: Maximize2,
+    taskType: "upscale",
+    input: "image",
+    output: "image",
+    params: [
+      {
+        key: "scale",
+        label: "Scale",
+        options: [
+          { value: "2", label: "2x" },
+          { value: "4", label: "4x" },
+        ],
+      },
+    ],
+  },
+  image_to_3d: {
+    label: "Image → 3D",
+    description: "Turn an image into a 3D model",
+    icon: Box,
+    taskType: "3d_generation",
+    input: "image",
+    output: "model",
+    params: [],
+  },
+  optimize_model: {
+    label: "Optimize",
+    description: "Reduce a model for real-time use",
+    icon: Gauge,
+    taskType: "model_optimization",
+    input: "model",
+    output: "model",
+    params: [
+      {
+        key: "quality",
+        label: "Target",
+        options: [
+          { value: "low", label: "Low poly" },
+          { value: "medium", label: "Balanced" },
+          { value: "high", label: "High quality" },
+        ],
+      },
+    ],
+  },
+};
+
+export const WORKFLOW_STEP_TYPES = Object.keys(WORKFLOW_STEPS) as WorkflowStepType[];
+
+export const defaultStepParams = (step: WorkflowStepType): Record<string, string> =>
+  Object.fromEntries(WORKFLOW_STEPS[step].params.map((param) => [param.key, param.options?.[0].value ?? ""]));
+
+// ============================================
+// REACTFLOW <-> SAVED GRAPH
+// ============================================
+
+export interface WorkflowStepNodeData {
+  step: WorkflowStepType;
+  params: Record<string, string>;
+  // Whether a step feeds this node's input; unconnected inputs fall back to `source_url`
+  inputConnected?: boolean;
+  // Live state of the chain task running this node
+  task?: ChainTaskState;
+  readOnly?: boolean;
+  onParamChange?: (nodeId: string, key: string, value: string) => void;
+  onRemove?: (nodeId: string) => void;
+  // Opens the asset picker to fill `source_url`
+  onPickSource?: (nodeId: string) => void;
+}
+
+export type WorkflowFlowNode = Node<WorkflowStepNodeData>;
+
+export const createWorkflowEdge = (source: string, target: string): Edge => ({
+  id: `e${source}-${target}`,
+  source,
+  target,
+  markerEnd: { type: MarkerType.ArrowClosed },
+});
+
+export function toFlowNodes(graph: WorkflowGraph): WorkflowFlowNode[] {
+  return graph.nodes.map((node) => ({
+    id: node.id,
+    type: "workflowStep",
+    position: node.position,
+    data: { step: node.step, params: { ...defaultStepParams(node.step), ...node.params } },
+  }));
+}
+
+export function toFlowEdges(graph: WorkflowGraph): Edge[] {
+  return graph.edges.map((edge) => ({ ...createWorkflowEdge(edge.source, edge.target), id: edge.id }));
+}
+
+// Only what describes the graph is saved; live task state and callbacks stay in the editor
+export function toWorkflowGraph(nodes: WorkflowFlowNode[], edges: Edge[]): WorkflowGraph {
+  return {
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      step: node.data.step,
+      position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+      params: node.data.params,
+    })),
+    edges: edges.map(({ id, source, target }) => ({ id, source, target })),
+  };
+}
+
+/**
+ * Lays steps out left to right, each feeding the next. Used for the featured templates.
+ */
+export function createLinearGraph(steps: { step: WorkflowStepType; params?: Record<string, string> }[]): WorkflowGraph {
+  const nodes = steps.map(({ step, params }, index) => ({
+    id: String(index + 1),
+    step,
+    position: { x: index * 280, y: 80 },
+    params: { ...defaultStepParams(step), ...params },
+  }));
+  const edges = nodes.slice(1).map((node, index) => {
+    const { id, source, target } = createWorkflowEdge(nodes[index].id, node.id);
+    return { id, source, target };
+  });
+  return { nodes, edges };
+}
+
+// ============================================
+// GRAPH -> CHAIN TASKS
+// ============================================
+
+/**
+ * Orders the graph's steps so every step runs after the one feeding it and turns them into chain
+ * tasks. `nodeIds[i]` is the node run as task i + 1, used to map chain events back onto the graph.
+ * Throws with a user-facing message when the graph can't run.
+ */
+export function buildChainTasks(graph: WorkflowGraph): { tasks: WorkflowChainTask[]; nodeIds: string[] } {
+  if (graph.nodes.length === 0) throw new Error("Add at least one step to run the workflow.");
+
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+  const incoming = new Map<string, string>();
+  graph.edges.forEach((edge) => {
+    if (incoming.has(edge.target)) {
+      const target = byId.get(edge.target);
+      throw new Error(`"${target ? WORKFLOW_STEPS[target.step].label : edge.target}" can only take one input.`);
+    }
+    incoming.set(edge.target, edge.source);
+  });
+
+  graph.nodes.forEach((node) => {
+    const definition = WORKFLOW_STEPS[node.step];
+    const missing = definition.params.find((param) => param.required && !node.params[param.key]?.trim());
+    if (missing) throw new Error(`"${definition.label}" is missing its ${missing.label.toLowerCase()}.`);
+    if (definition.input && !incoming.has(node.id) && !node.params.source_url?.trim()) {
+      throw new Error(`"${definition.label}" needs an input: connect a step to it or give it a source URL.`);
+    }
+  });
+
+  // Kahn's algorithm; ready steps run left to right (then top to bottom) as they sit on the canvas
+  const order: string[] = [];
+  const ready = graph.nodes.filter((node) => !incoming.has(node.id));
+  const byPosition = (a: { position: { x: number; y: number } }, b: { position: { x: number; y: number } }) =>
+    a.position.x - b.position.x || a.position.y - b.position.y;
+
+  while (ready.length > 0) {
+    ready.sort(byPosition);
+    const node = ready.shift()!;
+    order.push(node.id);
+    graph.edges
+      .filter((edge) => edge.source === node.id)
+      .forEach((edge) => {
+        const target = byId.get(edge.target);
+        if (target) ready.push(target);
+      });
+  }
+  if (order.length !== graph.nodes.length) throw new Error("The workflow has a loop; steps can't feed back into themselves.");
+
+  const tasks = order.map((nodeId, index): WorkflowChainTask => {
+    const node = byId.get(nodeId)!;
+    const source = incoming.get(nodeId);
+    const { prompt, ...params } = node.params;
+    return {
+      task_number: index + 1,
+      task_type: WORKFLOW_STEPS[node.step].taskType,
+      prompt: prompt || undefined,
+      params: source ? Object.fromEntries(Object.entries(params).filter(([key]) => key !== "source_url")) : params,
+      input_from: source ? order.indexOf(source) + 1 : undefined,
+    };
+  });
+
+  return { tasks, nodeIds: order };
+}
@@ -0,0 +1,199 @@
+import type {
+  SavedWorkflow,
+  SaveWorkflowRequest,
+  WorkflowGraph,
+  WorkflowStepType,
+  WorkflowVariable,
+} from "@/types/backend.types";
+import type { ChainTaskState } from "@/utils/workflowChainHandler";
+import { WORKFLOW_STEPS, WORKFLOW_STEP_TYPES, createLinearGraph } from "./workflowGraph";
+
+// ============================================
+// VARIABLES
+// ============================================
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Names of the `{{variable}}` placeholders used anywhere in the graph's step params, in the order
+ * they first appear.
+ */
+export function extractTemplateVariables(graph: WorkflowGraph): string[] {
+  const names = new Set<string>();
+  graph.nodes.forEach((node) =>
+    Object.values(node.params).forEach((value) => {
+      for (const match of value.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+    })
+  );
+  return [...names];
+}
+
+/**
+ * Replaces every placeholder with its value. Throws when a variable has no value, naming it.
+ */
+export function applyTemplateVariables(graph: WorkflowGraph, values: Record<string, string>): WorkflowGraph {
+  const missing = extractTemplateVariables(graph).filter((name) => !values[name]?.trim());
+  if (missing.length > 0) {
+    throw new Error(`Fill in ${missing.map((name) => `{{${name}}}`).join(", ")} before running.`);
+  }
+
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node) => ({
+      ...node,
+      params: Object.fromEntries(
+        Object.entries(node.params).map(([key, value]) => [
+          key,
+          value.replace(VARIABLE_PATTERN, (_, name: string) => values[name].trim()),
+        ])
+      ),
+    })),
+  };
+}
+
+// Variables to save with a graph: the ones it uses, keeping labels and defaults already known
+export function resolveTemplateVariables(
+  graph: WorkflowGraph,
+  known: WorkflowVariable[] = [],
+  values: Record<string, string> = {}
+): WorkflowVariable[] {
+  return extractTemplateVariables(graph).map((name) => {
+    const existing = known.find((variable) => variable.name === name);
+    return { ...existing, name, defaultValue: values[name] || existing?.defaultValue || undefined };
+  });
+}
+
+export const defaultVariableValues = (variables: WorkflowVariable[] = []): Record<string, string> =>
+  Object.fromEntries(variables.map((variable) => [variable.name, variable.defaultValue ?? ""]));
+
+// ============================================
+// COMPLETED CHAINS -> GRAPH
+// ============================================
+
+const stepForTaskType = (taskType?: string): WorkflowStepType =>
+  WORKFLOW_STEP_TYPES.find((step) => WORKFLOW_STEPS[step].taskType === taskType) ?? "generate_image";
+
+/**
+ * Rebuilds a chain that ran from the studio as a left-to-right graph, each step fed by the one
+ * before it, keeping its prompts so they can be turned into variables.
+ */
+export function chainTasksToGraph(tasks: ChainTaskState[]): WorkflowGraph {
+  return createLinearGraph(
+    [...tasks]
+      .sort((a, b) => a.task_number - b.task_number)
+      .map((task) => {
+        const step = stepForTaskType(task.task_type);
+        const params: Record<string, string> = {};
+        WORKFLOW_STEPS[step].params.forEach((param) => {
+          const value = param.key === "prompt" ? task.prompt ?? task.inputs?.prompt : task.inputs?.[param.key];
+          if (typeof value === "string" || typeof value === "number") params[param.key] = String(value);
+        });
+        return { step, params };
+      })
+  );
+}
+
+// ============================================
+// JSON EXPORT / IMPORT
+// ============================================
+
+const TEMPLATE_FORMAT = "workflow-template";
+const TEMPLATE_VERSION = 1;
+
+export function serializeWorkflowTemplate(workflow: Pick<SavedWorkflow, "name" | "description" | "variables" | "nodes" | "edges">): string {
+  const { name, description, variables, nodes, edges } = workflow;
+  return JSON.stringify(
+    { format: TEMPLATE_FORMAT, version: TEMPLATE_VERSION, name, description, variables: variables ?? [], nodes, edges },
+    null,
+    2
+  );
+}
+
+export function downloadWorkflowTemplate(workflow: Parameters<typeof serializeWorkflowTemplate>[0]) {
+  const blob = new Blob([serializeWorkflowTemplate(workflow)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${workflow.name.trim().replace(/[^\w-]+/g, "-").toLowerCase() || "workflow"}.workflow.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Shape of an exported file before it is checked; anything in it may be missing or mistyped
+type RawTemplateNode = {
+  id?: unknown;
+  step?: unknown;
+  position?: { x?: unknown; y?: unknown };
+  params?: Record<string, unknown>;
+};
+type RawTemplateEdge = { id?: unknown; source?: unknown; target?: unknown };
+type RawTemplate = {
+  format?: unknown;
+  version?: unknown;
+  name?: unknown;
+  description?: unknown;
+  variables?: unknown;
+  nodes?: RawTemplateNode[];
+  edges?: RawTemplateEdge[];
+};
+
+// Known variable fields with the right types; entries without a name are dropped
+const parseTemplateVariables = (raw: unknown): WorkflowVariable[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((entry: { name?: unknown; label?: unknown; defaultValue?: unknown }) => {
+    if (typeof entry?.name !== "string" || !entry.name) return [];
+    return [
+      {
+        name: entry.name,
+        ...(typeof entry.label === "string" ? { label: entry.label } : {}),
+        ...(typeof entry.defaultValue === "string" ? { defaultValue: entry.defaultValue } : {}),
+      },
+    ];
+  });
+
+/**
+ * Parses an exported template file. Throws with a user-facing message when the file isn't one.
+ */
+export function parseWorkflowTemplate(text: string): SaveWorkflowRequest {
+  let data: RawTemplate;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  if (data?.format !== TEMPLATE_FORMAT) throw new Error("The file isn't an exported workflow template.");
+  if (Number(data.version) > TEMPLATE_VERSION) throw new Error("The template was exported by a newer version of the app.");
+  if (!Array.isArray(data.nodes) || !Array.isArray(data.edges)) throw new Error("The template has no steps.");
+
+  const nodes = data.nodes.map((node, index) => {
+    const step = node?.step as WorkflowStepType;
+    // Not a lookup in WORKFLOW_STEPS, which would accept inherited keys such as "constructor"
+    if (!node?.id || !WORKFLOW_STEP_TYPES.includes(step)) {
+      throw new Error(`Step ${index + 1} has an unknown type "${String(node?.step)}".`);
+    }
+    return {
+      id: String(node.id),
+      step,
+      position: { x: Number(node.position?.x) || 0, y: Number(node.position?.y) || 0 },
+      params: Object.fromEntries(
+        Object.entries(node.params ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      ),
+    };
+  });
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges = data.edges
+    .filter((edge) => nodeIds.has(String(edge?.source)) && nodeIds.has(String(edge?.target)))
+    .map((edge) => ({
+      id: String(edge.id ?? `e${edge.source}-${edge.target}`),
+      source: String(edge.source),
+      target: String(edge.target),
+    }));
+
+  const graph = { nodes, edges };
+  return {
+    name: typeof data.name === "string" && data.name.trim() ? data.name.trim() : "Imported workflow",
+    description: typeof data.description === "string" ? data.description : undefined,
+    variables: resolveTemplateVariables(graph, parseTemplateVariables(data.variables)),
+    ...graph,
+  };
+}
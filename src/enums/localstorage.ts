@@ -1,5 +1,8 @@
 export enum LocalStorageKeys {
   AccessToken = 'access_token',
   User = 'user',
+  WorkflowChains = 'workflow_chains',
+  GenerationDefaults = 'generation_defaults',
+  ModelUploads = 'model_uploads',
 }
 
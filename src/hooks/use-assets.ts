@@ -0,0 +1,33 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { fetchAssetLineage } from "@/lib/backend";
+import { fetchAssetIndex, queryAssets } from "@/lib/assetIndex";
+import type { AssetLineage, AssetListParams, AssetPage, AssetRecord } from "@/types/backend.types";
+
+export type { AssetRecord };
+
+// The whole index of a project is loaded once; filters and pages are applied to it client-side
+export function useAssets(params: AssetListParams, enabled = true) {
+  const projectId = params.projectId ?? null;
+  return useQuery<AssetRecord[], Error, AssetPage>({
+    queryKey: ["assets", projectId],
+    queryFn: () => fetchAssetIndex(projectId),
+    select: (assets) => queryAssets(assets, params),
+    enabled,
+    // Keep the current list on screen while another project's loads
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchOnMount: "always",
+    retry: 1,
+  });
+}
+
+export function useAssetLineage(assetId: string | null | undefined) {
+  return useQuery<AssetLineage>({
+    queryKey: ["asset-lineage", assetId],
+    queryFn: () => fetchAssetLineage(assetId!),
+    enabled: !!assetId,
+    staleTime: 0,
+    refetchOnMount: "always",
+    retry: 1,
+  });
+}
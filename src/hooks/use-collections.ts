@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchCollections } from "@/lib/backend";
+import type { AssetCollection } from "@/types/backend.types";
+
+export type { AssetCollection };
+
+export function useCollections(projectId: string | null | undefined, enabled = true) {
+  return useQuery<AssetCollection[]>({
+    queryKey: ["collections", projectId ?? "none"],
+    queryFn: () => fetchCollections(projectId),
+    enabled: enabled && !!projectId,
+    staleTime: 0,
+    refetchOnMount: "always",
+    retry: 1,
+  });
+}
@@ -1,34 +1,15 @@
 import { useQuery } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { fetchCreditHistory } from "@/lib/backend";
+import type { CreditTransaction } from "@/types/backend.types";
 
-export interface CreditTransaction {
-  id: string;
-  userId: string;
-  amount: number; // Can be positive (ADD/PURCHASE) or negative (DEDUCT)
-  type: "DEDUCT" | "REFUND" | "PURCHASE" | "ADD";
-  action: string;
-  balanceBefore: number;
-  balanceAfter: number;
-  description?: string;
-  sourceId?: string;
-  metadata?: Record<string, any>;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface CreditHistoryResponse {
-  transactions: CreditTransaction[];
-  total: number;
-}
+export type { CreditTransaction };
 
 export function useCreditHistory(limit: number = 10, offset: number = 0) {
   return useQuery<{ transactions: CreditTransaction[]; total: number }>({
     queryKey: ["credit-history", limit, offset],
     queryFn: async () => {
       try {
-        const data = await apiFetch<CreditHistoryResponse>(
-          `/user/credits/history?limit=${limit}&offset=${offset}`
-        );
+        const data = await fetchCreditHistory({ limit, offset });
         // Handle response structure
         if (data && typeof data === "object" && "transactions" in data) {
           return {
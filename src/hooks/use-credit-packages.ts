@@ -1,21 +1,13 @@
 import { useQuery } from "@tanstack/react-query"
-import { apiFetch } from "@/lib/api"
+import { fetchCreditPackages } from "@/lib/backend"
+import type { CreditPackage } from "@/types/backend.types"
 
-export interface CreditPackage {
-  id: string
-  name: string
-  description: string
-  credits: number
-  price: number | string
-  currency: string
-  isActive: boolean
-  sortOrder: number
-}
+export type { CreditPackage }
 
 export function useCreditPackages() {
   return useQuery<CreditPackage[]>({
     queryKey: ['credit-packages'],
-    queryFn: () => apiFetch<CreditPackage[]>('/billing/credit-packages'),
+    queryFn: fetchCreditPackages,
     staleTime: 10 * 60 * 1000, // 10 minutes
     retry: 1,
   })
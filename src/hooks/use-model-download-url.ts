@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchModelDownloadUrl } from "@/lib/backend";
+import type { ModelDownloadUrlResponse } from "@/types/backend.types";
+
+export function useModelDownloadUrl(baseModelId: string | null) {
+  return useQuery<ModelDownloadUrlResponse>({
+    queryKey: ["model-download-url", baseModelId],
+    queryFn: () => fetchModelDownloadUrl(baseModelId!),
+    enabled: !!baseModelId,
+    // Signed URLs expire, so don't hand out an old one for long
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
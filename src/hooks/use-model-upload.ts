@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { uploadModelFile, type ModelUploadProgress, type ModelUploadResult } from "@/utils/modelUploader";
+
+export type { ModelUploadProgress };
+
+/**
+ * One model upload at a time, with its live progress and a way to cancel it. Unmounting leaves
+ * the upload running; multipart uploads can be resumed by picking the same file again.
+ */
+export function useModelUpload() {
+  const [progress, setProgress] = useState<ModelUploadProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const upload = useCallback(async (file: File, modelName: string): Promise<ModelUploadResult> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    try {
+      return await uploadModelFile(file, {
+        modelName,
+        signal: controller.signal,
+        onProgress: (next) => mountedRef.current && setProgress(next),
+      });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      if (mountedRef.current) setProgress(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  return { upload, cancel, progress, isUploading: progress !== null };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchOptimizationPresets } from "@/lib/backend";
+import type { OptimizationPresets } from "@/types/backend.types";
+
+export function useOptimizationPresets(enabled = true) {
+  return useQuery<OptimizationPresets>({
+    queryKey: ["optimization-presets"],
+    queryFn: fetchOptimizationPresets,
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
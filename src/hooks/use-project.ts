@@ -1,28 +1,13 @@
 import { useQuery } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
-
-export interface ProjectUserLite {
-  id: string;
-  name: string;
-  email: string;
-}
-
-export interface ProjectLite {
-  id: string;
-  name: string;
-  creatorId: string;
-  createdAt: string;
-  updatedAt: string;
-  creator?: ProjectUserLite;
-  members?: ProjectUserLite[];
-}
+import { fetchProject } from "@/lib/backend";
+import type { Project } from "@/types/backend.types";
 
 export function useProject(projectId?: string | null, enabled: boolean = true) {
-  return useQuery<ProjectLite | null>({
+  return useQuery<Project | null>({
     queryKey: ["project", projectId ?? "none"],
     queryFn: async () => {
       if (!projectId) return null;
-      return apiFetch<ProjectLite>(`/api/projects/${projectId}`, { method: "GET" });
+      return fetchProject(projectId);
     },
     enabled: enabled && !!projectId,
     staleTime: 0,
@@ -1,21 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { fetchProjects } from "@/lib/backend";
+import type { Project, ProjectMember } from "@/types/backend.types";
 
-export interface ProjectMember {
-  id: string;
-  name: string;
-  email: string;
-}
-
-export interface Project {
-  id: string;
-  name: string;
-  creatorId: string;
-  createdAt: string;
-  updatedAt: string;
-  creator?: ProjectMember;
-  members?: ProjectMember[];
-}
+export type { Project, ProjectMember };
 
 interface UseProjectsOptions {
   type?: 'my' | 'shared';
@@ -28,28 +15,9 @@ export function useProjects(options?: UseProjectsOptions) {
 
   const queryKey = ["projects", type ?? "all", search ?? ""];
 
-  const queryStringParts: string[] = [];
-  if (type) {
-    queryStringParts.push(`type=${encodeURIComponent(type)}`);
-  }
-  if (search && search.trim()) {
-    queryStringParts.push(`search=${encodeURIComponent(search.trim())}`);
-  }
-  const queryString = queryStringParts.length ? `?${queryStringParts.join("&")}` : "";
-
   return useQuery<Project[]>({
     queryKey,
-    queryFn: async () => {
-      const res = await apiFetch<Project[] | { projects?: Project[] }>(
-        `/api/projects${queryString}`,
-        { method: "GET" }
-      );
-      if (Array.isArray(res)) return res;
-      if (res && typeof res === "object" && Array.isArray((res as any).projects)) {
-        return (res as any).projects;
-      }
-      return [];
-    },
+    queryFn: () => fetchProjects({ type, search }),
     enabled,
     staleTime: 0,
     refetchOnMount: "always",
@@ -0,0 +1,18 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { fetchPrompts } from "@/lib/backend";
+import type { HistoryPage, PromptListParams, PromptRecord } from "@/types/backend.types";
+
+export type { PromptRecord };
+
+export function usePrompts(params: PromptListParams, enabled = true) {
+  return useQuery<HistoryPage<PromptRecord>>({
+    queryKey: ["prompts", params],
+    queryFn: () => fetchPrompts(params),
+    enabled,
+    // Keep the current list on screen while a new search loads
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchOnMount: "always",
+    retry: 1,
+  });
+}
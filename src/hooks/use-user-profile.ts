@@ -1,22 +1,13 @@
 import { useQuery } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { fetchUserProfile } from "@/lib/backend";
+import type { UserProfile } from "@/types/backend.types";
 
-export interface UserProfile {
-  id: string;
-  name: string;
-  email: string;
-  credits: number;
-  createdAt: string;
-  updatedAt: string;
-  hasSeenCreditsBonus?: boolean;
-}
+export type { UserProfile };
 
 export function useUserProfile(enabled: boolean = true) {
   return useQuery<UserProfile>({
     queryKey: ['user-profile'],
-    queryFn: () => apiFetch<UserProfile>('/user/profile/me', {
-      method: 'GET',
-    }),
+    queryFn: fetchUserProfile,
     enabled,
     staleTime: 0,
     refetchOnMount: 'always',
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchWorkflows } from "@/lib/backend";
+import type { SavedWorkflow } from "@/types/backend.types";
+
+export type { SavedWorkflow };
+
+export function useWorkflows(projectId?: string | null, enabled: boolean = true) {
+  return useQuery<SavedWorkflow[]>({
+    queryKey: ["workflows", projectId ?? "none"],
+    queryFn: () => fetchWorkflows(projectId),
+    enabled: enabled && !!projectId,
+    staleTime: 0,
+    refetchOnMount: "always",
+    retry: 1,
+  });
+}
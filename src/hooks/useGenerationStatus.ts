@@ -13,12 +13,11 @@ interface UseGenerationStatusResult {
  * React hook for real-time generation status updates
  * 
  * @example
- * const { status, isComplete, error, completedData } = useGenerationStatus(jobId, email, apiUrl);
+ * const { status, isComplete, error, completedData } = useGenerationStatus(jobId, email);
  */
 export function useGenerationStatus(
   jobId: string | null,
-  email: string,
-  apiUrl: string = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
+  email: string
 ): UseGenerationStatusResult {
   const [status, setStatus] = useState<GenerationStatus | null>(null);
   const [isComplete, setIsComplete] = useState(false);
@@ -41,7 +40,7 @@ export function useGenerationStatus(
     setCompletedData(null);
 
     // Create new stream
-    const statusStream = new GenerationStatusStream(jobId, email, apiUrl);
+    const statusStream = new GenerationStatusStream(jobId, email);
     streamRef.current = statusStream;
 
     // Connect and listen
@@ -65,7 +64,7 @@ export function useGenerationStatus(
     return () => {
       statusStream.disconnect();
     };
-  }, [jobId, email, apiUrl]);
+  }, [jobId, email]);
 
   return {
     status,
@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import {
+  generationStreamManager,
+  GenerationStreamState,
+} from '@/utils/generationStreamManager';
+import type { GenerationStreamEvent } from '@/types/backend.types';
+
+export interface UseGenerationStreamOptions {
+  email?: string;
+  enabled?: boolean;
+  onEvent?: (event: GenerationStreamEvent) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Subscribes to one job (or workflow chain) through the shared stream manager.
+ *
+ * @example
+ * const { lastEvent, state } = useGenerationStream(jobId, { email });
+ */
+export function useGenerationStream(
+  jobId: string | null,
+  { email, enabled = true, onEvent, onError }: UseGenerationStreamOptions = {}
+) {
+  const [state, setState] = useState<GenerationStreamState | null>(() =>
+    jobId ? generationStreamManager.getState(jobId) : null
+  );
+  const [lastEvent, setLastEvent] = useState<GenerationStreamEvent | null>(() =>
+    jobId ? generationStreamManager.getLastEvent(jobId) : null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // Callbacks live in refs so a new inline handler doesn't resubscribe
+  const onEventRef = useRef(onEvent);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onErrorRef.current = onError;
+  }, [onEvent, onError]);
+
+  useEffect(() => {
+    if (!jobId || !enabled) return;
+
+    setLastEvent(generationStreamManager.getLastEvent(jobId));
+    setError(null);
+    const unsubscribe = generationStreamManager.subscribe(
+      jobId,
+      {
+        onEvent: (event) => {
+          setLastEvent(event);
+          onEventRef.current?.(event);
+        },
+        onStateChange: setState,
+        onError: (message) => {
+          setError(message);
+          onErrorRef.current?.(message);
+        },
+      },
+      { email }
+    );
+    setState(generationStreamManager.getState(jobId));
+    return unsubscribe;
+  }, [jobId, email, enabled]);
+
+  const reconnect = useCallback(() => {
+    if (jobId) generationStreamManager.reconnect(jobId);
+  }, [jobId]);
+
+  return { state, lastEvent, error, reconnect };
+}
+
+export interface UseGenerationStreamsOptions {
+  email?: string;
+  onEvent?: (jobId: string, event: GenerationStreamEvent) => void;
+  onError?: (jobId: string, message: string) => void;
+}
+
+/**
+ * Keeps one subscription per job ID in `jobIds`, adding and dropping them as the list changes.
+ */
+export function useGenerationStreams(
+  jobIds: string[],
+  { email, onEvent, onError }: UseGenerationStreamsOptions = {}
+) {
+  const onEventRef = useRef(onEvent);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onErrorRef.current = onError;
+  }, [onEvent, onError]);
+
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+
+    jobIds.forEach((jobId) => {
+      if (subscriptions.has(jobId)) return;
+      subscriptions.set(
+        jobId,
+        generationStreamManager.subscribe(
+          jobId,
+          {
+            onEvent: (event) => onEventRef.current?.(jobId, event),
+            onError: (message) => onErrorRef.current?.(jobId, message),
+          },
+          { email }
+        )
+      );
+    });
+
+    subscriptions.forEach((unsubscribe, jobId) => {
+      if (!jobIds.includes(jobId)) {
+        unsubscribe();
+        subscriptions.delete(jobId);
+      }
+    });
+  }, [jobIds, email]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
+}
@@ -1,4 +1,5 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useCallback, useState } from 'react';
+import { useGenerationStream } from './useGenerationStream';
 
 export interface SSEStatusData {
   job_id: string;
@@ -24,76 +25,25 @@ export type SSECallback = (data: SSEStatusData) => void;
  * @param jobId - The job ID to monitor
  * @param email - User email for authentication
  * @param onUpdate - Callback for status updates
- * @param apiUrl - Base API URL
  */
 export function useSSEListener(
   jobId: string | null,
   email: string,
-  onUpdate: SSECallback,
-  apiUrl: string = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
+  onUpdate: SSECallback
 ) {
-  const eventSourceRef = useRef<EventSource | null>(null);
-
-  const disconnect = useCallback(() => {
-    if (eventSourceRef.current) {
-      console.log('🔌 Disconnecting SSE for job:', jobId);
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
-    }
-  }, [jobId]);
-
-  useEffect(() => {
-    if (!jobId || !email) return;
-
-    // Clean up any existing connection
-    disconnect();
-
-    const url = `${apiUrl.replace(/\/+$/, '')}/generation-status/${jobId}/stream?email=${encodeURIComponent(email)}`;
-    console.log(`🎧 Connecting to SSE stream: ${url}`);
-
-    const eventSource = new EventSource(url);
-    eventSourceRef.current = eventSource;
-
-    eventSource.onmessage = (event) => {
-      try {
-        const data: SSEStatusData = JSON.parse(event.data);
-        console.log('📨 SSE Status update:', data);
-
-        onUpdate(data);
-
-        // Close connection on terminal states
-        const normalizedStatus = data.status?.toLowerCase();
-        if (normalizedStatus === 'completed' || normalizedStatus === 'error' || normalizedStatus === 'failed') {
-          console.log(`✅ SSE complete for job ${jobId}, status: ${data.status}`);
-          eventSource.close();
-          eventSourceRef.current = null;
-        }
-      } catch (err) {
-        console.error('❌ Failed to parse SSE message:', err);
-      }
-    };
-
-    eventSource.onerror = (error) => {
-      console.error('❌ SSE connection error:', error);
-      eventSource.close();
-      eventSourceRef.current = null;
-    };
-
-    // Auto-cleanup after 10 minutes
-    const timeoutId = setTimeout(() => {
-      if (eventSourceRef.current?.readyState !== EventSource.CLOSED) {
-        console.log('⏱️ SSE timeout for job:', jobId);
-        eventSource.close();
-        eventSourceRef.current = null;
-      }
-    }, 600000);
-
-    return () => {
-      clearTimeout(timeoutId);
-      eventSource.close();
-      eventSourceRef.current = null;
-    };
-  }, [jobId, email, apiUrl, onUpdate, disconnect]);
+  const handleEvent = useCallback(
+    (event: Record<string, unknown>) => onUpdate(event as unknown as SSEStatusData),
+    [onUpdate]
+  );
+
+  const [disconnectedJobId, setDisconnectedJobId] = useState<string | null>(null);
+  useGenerationStream(jobId, {
+    email,
+    enabled: !!email && disconnectedJobId !== jobId,
+    onEvent: handleEvent,
+  });
+
+  const disconnect = useCallback(() => setDisconnectedJobId(jobId), [jobId]);
 
   return { disconnect };
 }
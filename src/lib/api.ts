@@ -1,9 +1,13 @@
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
+// 'backend' is the Nest API (VITE_API_BACKEND_URL), 'agent' is the chat/generation agent (VITE_API_BASE_URL)
+export type ApiService = 'backend' | 'agent'
+
 import { LocalStorageKeys } from '@/enums/localstorage'
 import axios, { AxiosRequestConfig } from 'axios'
 
 const API_BASE_URL = import.meta.env.VITE_API_BACKEND_URL
+export const AGENT_API_URL: string = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'
 
 export const axiosInstance = axios.create({
   baseURL: API_BASE_URL,
@@ -30,18 +34,23 @@ axiosInstance.interceptors.request.use((config) => {
   return config
 })
 
+function handleUnauthorized() {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(LocalStorageKeys.AccessToken)
+  localStorage.removeItem(LocalStorageKeys.User)
+  localStorage.removeItem('dev_bypass_auth')
+  if (!window.location.pathname.startsWith('/login')) {
+    window.location.href = '/login'
+  }
+}
+
 axiosInstance.interceptors.response.use(
   (response) => response,
   (error) => {
     const status = error?.response?.status
     const isAuthEndpoint = error?.config?.url?.startsWith('/auth/')
-    if (status === 401 && typeof window !== 'undefined' && !isAuthEndpoint) {
-      localStorage.removeItem(LocalStorageKeys.AccessToken)
-      localStorage.removeItem(LocalStorageKeys.User)
-      localStorage.removeItem('dev_bypass_auth')
-      if (!window.location.pathname.startsWith('/login')) {
-        window.location.href = '/login'
-      }
+    if (status === 401 && !isAuthEndpoint) {
+      handleUnauthorized()
     }
     return Promise.reject(error)
   }
@@ -56,10 +65,21 @@ export async function apiFetch<T>(
     skipAuth?: boolean
     timeout?: number // Timeout in milliseconds
     signal?: AbortSignal // Add support for AbortController
+    service?: ApiService // Which server the path lives on, defaults to the backend
+    withCredentials?: boolean // Send cookies cross-origin (the agent /ask endpoint needs this)
   }
 ): Promise<T> {
   console.log('API_BASE_URL', API_BASE_URL)
-  const { method = 'GET', body, skipAuth = false, timeout, signal, headers } = options || {}
+  const {
+    method = 'GET',
+    body,
+    skipAuth = false,
+    timeout,
+    signal,
+    headers,
+    service = 'backend',
+    withCredentials,
+  } = options || {}
   // Build request config
   const config: AxiosRequestConfig = {
     url: path,
@@ -68,6 +88,11 @@ export async function apiFetch<T>(
     headers: headers || {},
     timeout, // Add timeout to config
     signal, // Add abort signal to config
+    withCredentials,
+  }
+
+  if (service === 'agent') {
+    config.baseURL = AGENT_API_URL
   }
 
   // Handle FormData - don't set Content-Type header, let browser set it automatically
@@ -95,6 +120,45 @@ export async function apiFetch<T>(
       err?.message ||
       (status ? `Request failed with status ${status}` : 'Request failed')
 
-    throw new Error(message)
+    // status is kept on the error so callers can tell a missing resource from a failed request
+    throw Object.assign(new Error(message), { status })
+  }
+}
+
+// Same auth/base-URL handling as apiFetch, but returns the raw fetch Response so callers can read
+// the body incrementally (axios buffers the whole body in the browser).
+export async function apiStream(
+  path: string,
+  options?: {
+    method?: HttpMethod
+    body?: unknown
+    headers?: Record<string, string>
+    signal?: AbortSignal
+    service?: ApiService
+    withCredentials?: boolean
+  }
+): Promise<Response> {
+  const { method = 'GET', body, headers, signal, service = 'backend', withCredentials } = options || {}
+  const baseURL = service === 'agent' ? AGENT_API_URL : API_BASE_URL
+  const token = typeof window !== 'undefined' ? localStorage.getItem(LocalStorageKeys.AccessToken) : null
+
+  const res = await fetch(`${baseURL}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: withCredentials ? 'include' : 'same-origin',
+    signal,
+  })
+
+  if (!res.ok) {
+    if (res.status === 401) handleUnauthorized()
+    const data = await res.json().catch(() => null)
+    // status is kept on the error so stream callers can tell "gone" (4xx) from "try again"
+    throw Object.assign(new Error(data?.message || `Request failed with status ${res.status}`), { status: res.status })
   }
+  return res
 }
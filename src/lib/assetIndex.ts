@@ -0,0 +1,195 @@
+// ============================================
+// ASSET INDEX
+// ============================================
+// The Assets page lists generated images, edits, 3D models and uploaded models together. There is
+// no combined endpoint: each kind is read from its own history, normalised into an AssetRecord and
+// merged here. Searching, filtering and pagination then run over the merged list.
+
+import {
+  fetchImageEditingHistory,
+  fetchImageGenerationHistory,
+  fetchModel3DHistory,
+  fetchOptimizationModels,
+} from '@/lib/backend'
+import type {
+  AssetFacets,
+  AssetKind,
+  AssetListParams,
+  AssetPage,
+  AssetRecord,
+  ImageEditingRecord,
+  ImageGenerationRecord,
+  Model3DRecord,
+  ModelInfo,
+} from '@/types/backend.types'
+
+const SOURCE_PAGE_SIZE = 100
+// Per kind; older records past this aren't listed
+const MAX_SOURCE_RECORDS = 2000
+
+const toAsset = (kind: AssetKind, sourceId: string | number, record: Omit<AssetRecord, 'id' | 'kind' | 'sourceId'>): AssetRecord => ({
+  id: `${kind}:${sourceId}`,
+  kind,
+  sourceId: String(sourceId),
+  ...record,
+})
+
+const fromImage = (record: ImageGenerationRecord, projectId: string | null): AssetRecord => {
+  const url = record.imagePath || record.img_url
+  return toAsset('image', record.id, {
+    prompt: record.prompt,
+    previewUrl: url,
+    fileUrl: url,
+    modelName: record.modelName,
+    seed: record.seed,
+    projectId,
+    creator: record.user,
+    tags: record.tags,
+    favorite: record.favorite,
+    collectionIds: record.collectionIds,
+    creditsUsed: record.creditsUsed,
+    createdAt: record.createdAt || '',
+  })
+}
+
+const fromEdit = (record: ImageEditingRecord, projectId: string | null): AssetRecord =>
+  toAsset('edit', record.id, {
+    prompt: record.prompt,
+    previewUrl: record.outputImagePath,
+    fileUrl: record.outputImagePath,
+    modelName: record.modelName,
+    seed: record.seed,
+    projectId,
+    creator: record.user,
+    tags: record.tags,
+    favorite: record.favorite,
+    collectionIds: record.collectionIds,
+    creditsUsed: record.creditsUsed,
+    createdAt: record.createdAt || '',
+  })
+
+// Same field fallbacks as the 3D history in ModelViewer
+const fromModel3D = (record: Model3DRecord, projectId: string | null): AssetRecord =>
+  toAsset('model_3d', record.id || record._id || String(record.taskId), {
+    prompt: record.prompt || record.text || record.description,
+    previewUrl: record.thumbnailUrl || record.thumbnail_url || record.thumbnailPath || record.thumbnail_path,
+    fileUrl: record.modelUrl || record.model_url || record.modelPath || record.model_path,
+    projectId,
+    tags: record.tags,
+    favorite: record.favorite,
+    collectionIds: record.collectionIds,
+    creditsUsed: record.creditsUsed ?? record.credits_used,
+    createdAt: record.createdAt || record.created_at || record.timestamp || '',
+  })
+
+// Uploaded models have no file URL in the list; downloads sign one per model
+const fromUploadedModel = (record: ModelInfo, projectId: string | null): AssetRecord =>
+  toAsset('optimized_model', record.assetId ?? record.asset_id ?? record.id, {
+    title: record.fileName || record.filename || record.name,
+    previewUrl: record.thumbnailUrl || record.thumbnail_url || record.image,
+    projectId,
+    tags: (record.tags || '').split(',').map((tag) => tag.trim()).filter(Boolean),
+    favorite: record.favorite,
+    creditsUsed: record.creditsUsed,
+    createdAt: record.createdAt || record.created_at || '',
+  })
+
+// Reads a limit/offset history page by page until it runs out
+async function readAll<T>(fetchPage: (offset: number) => Promise<{ items: T[]; hasMore: boolean }>): Promise<T[]> {
+  const all: T[] = []
+  while (all.length < MAX_SOURCE_RECORDS) {
+    const { items, hasMore } = await fetchPage(all.length)
+    all.push(...items)
+    if (!hasMore || items.length === 0) break
+  }
+  return all
+}
+
+/**
+ * Loads every asset of one project (or of all projects when `projectId` is null), newest first.
+ * The histories are read in parallel; a kind whose history fails to load is left out rather than
+ * failing the whole list.
+ */
+export async function fetchAssetIndex(projectId: string | null): Promise<AssetRecord[]> {
+  const sources: Promise<AssetRecord[]>[] = [
+    readAll(async (offset) => {
+      const page = await fetchImageGenerationHistory({ limit: SOURCE_PAGE_SIZE, offset, projectId })
+      const items = page.data ?? []
+      return { items, hasMore: page.hasMore ?? items.length === SOURCE_PAGE_SIZE }
+    }).then((records) => records.map((record) => fromImage(record, projectId))),
+    readAll(async (offset) => {
+      const page = await fetchImageEditingHistory({ limit: SOURCE_PAGE_SIZE, offset, projectId })
+      const items = page.data ?? []
+      return { items, hasMore: page.hasMore ?? items.length === SOURCE_PAGE_SIZE }
+    }).then((records) => records.filter((record) => record.outputImagePath).map((record) => fromEdit(record, projectId))),
+    readAll(async (offset) => {
+      const page = await fetchModel3DHistory({ limit: SOURCE_PAGE_SIZE, offset, projectId })
+      const items = Array.isArray(page) ? page : page.items || page.data || []
+      return { items, hasMore: !Array.isArray(page) && page.hasMore !== undefined ? page.hasMore : items.length === SOURCE_PAGE_SIZE }
+    }).then((records) => records.map((record) => fromModel3D(record, projectId))),
+    // This one pages by page number
+    readAll(async (offset) => {
+      const page = Math.floor(offset / SOURCE_PAGE_SIZE) + 1
+      const response = await fetchOptimizationModels({ page, perPage: SOURCE_PAGE_SIZE, projectId })
+      const items = response.models ?? []
+      return { items, hasMore: page < (response.totalPages ?? 0) }
+    }).then((records) => records.map((record) => fromUploadedModel(record, projectId))),
+  ]
+
+  const settled = await Promise.allSettled(sources)
+  const failed = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failed.length === settled.length) throw failed[0].reason
+  failed.forEach((result) => console.error('[AssetIndex] Could not load an asset history:', result.reason))
+
+  return settled
+    .flatMap((result) => (result.status === 'fulfilled' ? result.value : []))
+    .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''))
+}
+
+const matchesSearch = (asset: AssetRecord, search: string) =>
+  [asset.title, asset.prompt, asset.modelName, ...(asset.tags ?? [])].some((value) => value?.toLowerCase().includes(search))
+
+// `from` / `to` are whole days, so `to` runs to the end of its day
+const inDateRange = (asset: AssetRecord, from?: string, to?: string) => {
+  const created = asset.createdAt.slice(0, 10)
+  return (!from || created >= from) && (!to || created <= to)
+}
+
+const getAssetFacets = (assets: AssetRecord[]): AssetFacets => {
+  const creators = new Map(assets.filter((asset) => asset.creator?.id).map((asset) => [asset.creator!.id, asset.creator!]))
+  return {
+    models: [...new Set(assets.map((asset) => asset.modelName).filter(Boolean) as string[])].sort(),
+    creators: [...creators.values()],
+    tags: [...new Set(assets.flatMap((asset) => asset.tags ?? []))].sort(),
+  }
+}
+
+/**
+ * One page of `assets` matching `params`. Facets cover every asset, not just the matching ones,
+ * so the filter menus don't shrink as filters are applied.
+ */
+export function queryAssets(assets: AssetRecord[], params: AssetListParams): AssetPage {
+  const { limit, offset = 0, kind, search, model, creatorId, from, to, tag, collectionId, favorite } = params
+  const kinds = kind === undefined ? null : [kind].flat()
+  const term = search?.trim().toLowerCase()
+
+  const matching = assets.filter(
+    (asset) =>
+      (!kinds || kinds.includes(asset.kind)) &&
+      (!term || matchesSearch(asset, term)) &&
+      (!model || asset.modelName === model) &&
+      (!creatorId || asset.creator?.id === creatorId) &&
+      (!tag || !!asset.tags?.includes(tag)) &&
+      (!collectionId || !!asset.collectionIds?.includes(collectionId)) &&
+      (!favorite || !!asset.favorite) &&
+      inDateRange(asset, from, to)
+  )
+
+  const data = limit === undefined ? matching.slice(offset) : matching.slice(offset, offset + limit)
+  return {
+    data,
+    total: matching.length,
+    hasMore: offset + data.length < matching.length,
+    facets: getAssetFacets(assets),
+  }
+}
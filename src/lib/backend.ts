@@ -0,0 +1,570 @@
+import { apiFetch, apiStream } from './api'
+import { readEventStream } from './eventStream'
+import type { ToolCall } from '@/components/chat/types'
+import type { WorkflowChainData } from '@/utils/workflowChainHandler'
+import type {
+  AskRequest,
+  AskResponse,
+  AskStreamHandlers,
+  AssetCollection,
+  AssetLibraryFilters,
+  AssetLineage,
+  AssetRecord,
+  AssociatedModelsResponse,
+  CheckoutSessionResponse,
+  CreditHistoryResponse,
+  CreditPackage,
+  GenerationStreamEvent,
+  GenerationFeedbackPayload,
+  HistoryPage,
+  ImageEditingRecord,
+  ImageGenerationRecord,
+  InProgressOptimizationJob,
+  Model3DHistoryResponse,
+  ModelHistoryResponse,
+  ModelStats,
+  ModelPrice,
+  ModelsResponse,
+  ModelUploadUrlResponse,
+  ModelDownloadUrlResponse,
+  ModelMultipartUploadStart,
+  ModelUploadPartUrl,
+  ModelUploadedPart,
+  NotificationDto,
+  OptimizationPresets,
+  OptimizeModelRequest,
+  OptimizeModelResponse,
+  PaginationParams,
+  Project,
+  ProjectListParams,
+  ProjectMember,
+  ProjectSessionsResponse,
+  PromptListParams,
+  PromptRecord,
+  RapidModel,
+  ResumeWorkflowChainRequest,
+  RunningJobsResponse,
+  RunWorkflowChainRequest,
+  SavedWorkflow,
+  SaveWorkflowRequest,
+  SessionExport,
+  SessionScope,
+  SubmitImageGenerationRequest,
+  SubmitImageGenerationResponse,
+  UpdateAssetRequest,
+  UploadImageResponse,
+  UserProfile,
+  VideosResponse,
+} from '@/types/backend.types'
+
+// Every studio route carries the active project as ?projectId=...; requests made from there are
+// scoped to it automatically (query param for reads, x-project-id header for writes).
+export function getActiveProjectId(): string | null {
+  if (typeof window === 'undefined') return null
+  return new URLSearchParams(window.location.search).get('projectId')
+}
+
+function projectHeaders(projectId = getActiveProjectId()): Record<string, string> {
+  return projectId ? { 'x-project-id': projectId } : {}
+}
+
+function withQuery(path: string, params: Record<string, string | number | null | undefined>): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') search.set(key, String(value))
+  }
+  const query = search.toString()
+  return query ? `${path}?${query}` : path
+}
+
+// Histories are scoped to the active project unless `projectId` says otherwise; null lists every project
+type HistoryParams = PaginationParams & AssetLibraryFilters & { projectId?: string | null }
+
+// Library filters go out as query params; `favorite` only when set
+const libraryQuery = ({ tag, collectionId, favorite }: AssetLibraryFilters) => ({
+  tag,
+  collectionId,
+  favorite: favorite ? 'true' : undefined,
+})
+
+// ---------------------------------------------------------------------------
+// Agent
+// ---------------------------------------------------------------------------
+
+export async function ask(payload: AskRequest, options?: { signal?: AbortSignal }): Promise<AskResponse> {
+  const projectId = payload.projectId ?? getActiveProjectId() ?? undefined
+  return apiFetch('/ask', {
+    method: 'POST',
+    service: 'agent',
+    withCredentials: true,
+    body: projectId ? { ...payload, projectId } : payload,
+    headers: projectHeaders(projectId),
+    signal: options?.signal,
+  })
+}
+
+// Streaming variant of ask(). Tokens and tool calls are reported through the handlers as they
+// arrive; the promise resolves with the final response. Servers that don't stream answer with plain
+// JSON, which is returned as-is, so callers get the blocking behaviour for free.
+export async function askStream(
+  payload: AskRequest,
+  { signal, onToken, onToolCall }: AskStreamHandlers & { signal?: AbortSignal } = {}
+): Promise<AskResponse> {
+  const projectId = payload.projectId ?? getActiveProjectId() ?? undefined
+  const res = await apiStream('/ask', {
+    method: 'POST',
+    service: 'agent',
+    withCredentials: true,
+    body: { ...payload, ...(projectId ? { projectId } : {}), stream: true },
+    headers: { Accept: 'text/event-stream, application/json', ...projectHeaders(projectId) },
+    signal,
+  })
+
+  const contentType = res.headers.get('content-type') || ''
+  if (!contentType.includes('text/event-stream') && !contentType.includes('ndjson')) {
+    return res.json()
+  }
+
+  let final: AskResponse | null = null
+  let streamedText = ''
+  const toolCalls: ToolCall[] = []
+
+  await readEventStream(res, ({ event, data }) => {
+    let parsed: Record<string, unknown>
+    try {
+      parsed = JSON.parse(data)
+    } catch {
+      // Bare text frames are treated as tokens
+      parsed = { type: 'token', content: data }
+    }
+    const type = event !== 'message' ? event : parsed.type
+
+    if (type === 'token') {
+      const content = String(parsed.content ?? parsed.delta ?? '')
+      streamedText += content
+      onToken?.(content)
+    } else if (type === 'tool_call' && parsed.tool_call) {
+      const toolCall = parsed.tool_call as ToolCall
+      toolCalls.push(toolCall)
+      onToolCall?.(toolCall)
+    } else if (type === 'done') {
+      final = (parsed.response as AskResponse) ?? (parsed as AskResponse)
+    } else if (type === 'error') {
+      throw new Error(String(parsed.message || 'Stream failed'))
+    }
+  })
+
+  // A stream that ends without a 'done' frame still produced a usable answer
+  return final ?? { status: 'complete', response: streamedText, tool_calls: toolCalls }
+}
+
+export async function exportSession(sessionId: string, scope: SessionScope = {}): Promise<SessionExport> {
+  const { userId, projectId = getActiveProjectId() } = scope
+  return apiFetch(withQuery(`/session/${sessionId}/export`, { userId, projectId }), { service: 'agent' })
+}
+
+export async function fetchProjectSessions(projectId: string | null | undefined = getActiveProjectId()): Promise<ProjectSessionsResponse> {
+  return apiFetch(`/project/${projectId}/sessions`, { service: 'agent' })
+}
+
+export async function renameSession(sessionId: string, title: string, scope: SessionScope = {}): Promise<{ title?: string }> {
+  const { userId, projectId = getActiveProjectId() } = scope
+  return apiFetch(withQuery(`/session/${sessionId}/title`, { userId, projectId }), {
+    method: 'PUT',
+    service: 'agent',
+    body: { title },
+  })
+}
+
+export async function deleteSession(sessionId: string, scope: SessionScope = {}): Promise<void> {
+  const { userId, projectId = getActiveProjectId() } = scope
+  return apiFetch(withQuery(`/session/${sessionId}/delete`, { userId, projectId }), {
+    method: 'DELETE',
+    service: 'agent',
+  })
+}
+
+// Current state of a job or chain; used to catch up after a status stream reconnects
+export async function fetchGenerationStatus(jobId: string, email?: string): Promise<GenerationStreamEvent> {
+  return apiFetch(withQuery(`/generation-status/${jobId}`, { email }), { service: 'agent' })
+}
+
+// Re-runs a failed chain task (or the chain from that task on); progress arrives on the returned chain's stream
+export async function resumeWorkflowChain(chainId: string, request: ResumeWorkflowChainRequest): Promise<WorkflowChainData> {
+  return apiFetch(`/workflow-chain/${chainId}/resume`, {
+    method: 'POST',
+    service: 'agent',
+    body: request,
+  })
+}
+
+// Queues one image generation outside of a chat turn (batch runs); follow it with the job's status stream
+export async function submitImageGeneration(
+  request: SubmitImageGenerationRequest,
+  projectId = getActiveProjectId()
+): Promise<SubmitImageGenerationResponse> {
+  return apiFetch('/generate/image', {
+    method: 'POST',
+    service: 'agent',
+    withCredentials: true,
+    body: projectId ? { ...request, projectId } : request,
+    headers: projectHeaders(projectId),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Generation history and uploads
+// ---------------------------------------------------------------------------
+
+export async function fetchImageGenerationHistory({ limit, offset, projectId = getActiveProjectId(), ...filters }: HistoryParams = {}): Promise<HistoryPage<ImageGenerationRecord>> {
+  return apiFetch(withQuery('/api/image-generation/history', { limit, offset, projectId, ...libraryQuery(filters) }))
+}
+
+export async function fetchImageEditingHistory({ limit, offset, projectId = getActiveProjectId(), ...filters }: HistoryParams = {}): Promise<HistoryPage<ImageEditingRecord>> {
+  return apiFetch(withQuery('/api/image-editing/history', { limit, offset, projectId, ...libraryQuery(filters) }))
+}
+
+export async function fetchModel3DHistory({ limit, offset, projectId = getActiveProjectId(), ...filters }: HistoryParams = {}): Promise<Model3DHistoryResponse> {
+  return apiFetch(withQuery('/api/model-generate-3d/history', { limit, offset, projectId, ...libraryQuery(filters) }))
+}
+
+// Stores the URL of an uploaded image as a generated model's thumbnail; it comes back as
+// `thumbnailUrl` / `thumbnail_url` in the 3D history
+export async function updateModel3DThumbnail(modelId: string, thumbnailUrl: string): Promise<void> {
+  return apiFetch(`/api/model-generate-3d/history/${encodeURIComponent(modelId)}`, {
+    method: 'PATCH',
+    body: { thumbnail_url: thumbnailUrl },
+  })
+}
+
+export async function fetchModelHistory({ limit, offset }: PaginationParams = {}): Promise<ModelHistoryResponse> {
+  return apiFetch(withQuery('/model-history', { limit, offset }), { service: 'agent' })
+}
+
+export async function fetchModelStats(): Promise<ModelStats> {
+  return apiFetch('/model-stats', { service: 'agent' })
+}
+
+export async function fetchVideos(): Promise<VideosResponse> {
+  return apiFetch('/videos', { service: 'agent' })
+}
+
+export async function uploadImage(file: File): Promise<UploadImageResponse> {
+  const formData = new FormData()
+  formData.append('file', file)
+  return apiFetch('/api/v1/upload-image', { method: 'POST', body: formData })
+}
+
+export async function submitGenerationFeedback(payload: GenerationFeedbackPayload): Promise<void> {
+  return apiFetch('/api/generation-feedback', { method: 'POST', body: payload })
+}
+
+// ---------------------------------------------------------------------------
+// Model optimization
+// ---------------------------------------------------------------------------
+
+export async function fetchOptimizationModels({
+  page,
+  perPage,
+  projectId = getActiveProjectId(),
+}: { page?: number; perPage?: number; projectId?: string | null } = {}): Promise<ModelsResponse> {
+  return apiFetch(withQuery('/api/model-optimization/models', { page, per_page: perPage, projectId }))
+}
+
+export async function fetchAssociatedModels(baseModelId: string): Promise<AssociatedModelsResponse> {
+  return apiFetch(`/api/model-optimization/models/${baseModelId}/associated`)
+}
+
+export async function fetchModelDownloadUrl(baseModelId: string): Promise<ModelDownloadUrlResponse> {
+  return apiFetch(`/api/model-optimization/models/${baseModelId}/download-url`)
+}
+
+// Stores the URL of an uploaded image as the thumbnail of an uploaded or optimized model; it comes
+// back as `thumbnailUrl` / `thumbnail_url` in the model lists
+export async function updateOptimizationModelThumbnail(modelId: string, thumbnailUrl: string): Promise<void> {
+  return apiFetch(`/api/model-optimization/models/${modelId}`, { method: 'PATCH', body: { thumbnail_url: thumbnailUrl } })
+}
+
+export async function fetchOptimizationPresets(): Promise<OptimizationPresets> {
+  return apiFetch('/api/model-optimization/presets')
+}
+
+export async function optimizeModel({ modelId, presetId, exportName }: OptimizeModelRequest): Promise<OptimizeModelResponse> {
+  return apiFetch('/api/model-optimization/optimize/single', {
+    method: 'POST',
+    body: {
+      model_id: modelId,
+      config: {
+        preset_id: presetId,
+        exportName,
+      },
+    },
+  })
+}
+
+export async function optimizeMultipleModels(optimizations: OptimizeModelRequest[]): Promise<OptimizeModelResponse> {
+  return apiFetch('/api/model-optimization/optimize/multiple', {
+    method: 'POST',
+    body: {
+      optimizations: optimizations.map((opt) => ({
+        model_id: opt.modelId,
+        config: {
+          preset_id: opt.presetId,
+          exportName: opt.exportName,
+        },
+      })),
+    },
+  })
+}
+
+// Summary of queued/processing optimizations shown in the optimization tab
+export async function fetchRunningOptimizationJobs(): Promise<RunningJobsResponse> {
+  return apiFetch('/api/model-optimization/running-jobs')
+}
+
+// Raw optimizer job list, used to poll a specific asset/preset pair until it leaves the queue
+export async function fetchInProgressOptimizationJobs(): Promise<{ jobs: InProgressOptimizationJob[] }> {
+  return apiFetch('/api/model-optimization/jobs/running')
+}
+
+export async function fetchRapidModel(optimizedModelId: number): Promise<{ data: RapidModel }> {
+  return apiFetch(`/api/model-optimization/rapidmodels/${optimizedModelId}`)
+}
+
+export async function getModelUploadUrl(modelName: string, filename: string): Promise<ModelUploadUrlResponse> {
+  return apiFetch('/api/model-optimization/get-signed-url', {
+    method: 'POST',
+    body: { model_name: modelName, filename },
+    headers: projectHeaders(),
+  })
+}
+
+export async function completeModelUpload(assetId: number): Promise<unknown> {
+  return apiFetch(`/api/model-optimization/complete-upload/${assetId}`)
+}
+
+// Large files go up in parts: start, sign the part URLs, then complete (or abort) the upload.
+// completeModelUpload still registers the asset afterwards.
+export async function startModelMultipartUpload(
+  modelName: string,
+  filename: string,
+  size: number
+): Promise<ModelMultipartUploadStart> {
+  return apiFetch('/api/model-optimization/multipart-upload', {
+    method: 'POST',
+    body: { model_name: modelName, filename, size },
+    headers: projectHeaders(),
+  })
+}
+
+export async function getModelUploadPartUrls(
+  assetId: number,
+  uploadId: string,
+  partNumbers: number[]
+): Promise<{ parts: ModelUploadPartUrl[] }> {
+  return apiFetch(`/api/model-optimization/multipart-upload/${assetId}/part-urls`, {
+    method: 'POST',
+    body: { upload_id: uploadId, part_numbers: partNumbers },
+  })
+}
+
+export async function completeModelMultipartUpload(
+  assetId: number,
+  uploadId: string,
+  parts: ModelUploadedPart[]
+): Promise<unknown> {
+  return apiFetch(`/api/model-optimization/multipart-upload/${assetId}/complete`, {
+    method: 'POST',
+    body: { upload_id: uploadId, parts },
+  })
+}
+
+export async function abortModelMultipartUpload(assetId: number, uploadId: string): Promise<void> {
+  return apiFetch(withQuery(`/api/model-optimization/multipart-upload/${assetId}`, { upload_id: uploadId }), {
+    method: 'DELETE',
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Projects
+// ---------------------------------------------------------------------------
+
+export async function fetchProjects({ type, search }: ProjectListParams = {}): Promise<Project[]> {
+  const res = await apiFetch<Project[] | { projects?: Project[] }>(
+    withQuery('/api/projects', { type, search: search?.trim() })
+  )
+  if (Array.isArray(res)) return res
+  return res?.projects ?? []
+}
+
+export async function fetchProject(projectId: string): Promise<Project> {
+  return apiFetch(`/api/projects/${projectId}`)
+}
+
+export async function createProject(name: string): Promise<Project> {
+  return apiFetch('/api/projects', { method: 'POST', body: { name } })
+}
+
+export async function renameProject(projectId: string, name: string): Promise<Project> {
+  return apiFetch(`/api/projects/${projectId}`, { method: 'PATCH', body: { name } })
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  return apiFetch(`/api/projects/${projectId}`, { method: 'DELETE' })
+}
+
+export async function shareProject(projectId: string, email: string): Promise<void> {
+  return apiFetch(`/api/projects/${projectId}/share`, { method: 'POST', body: { email } })
+}
+
+export async function fetchProjectMembers(projectId: string): Promise<ProjectMember[]> {
+  return apiFetch(`/api/projects/${projectId}/members`)
+}
+
+export async function removeProjectMember(projectId: string, memberId: string): Promise<void> {
+  return apiFetch(`/api/projects/${projectId}/members/${memberId}`, { method: 'DELETE' })
+}
+
+// ---------------------------------------------------------------------------
+// Workflows
+// ---------------------------------------------------------------------------
+
+export async function fetchWorkflows(projectId: string | null | undefined = getActiveProjectId()): Promise<SavedWorkflow[]> {
+  const res = await apiFetch<SavedWorkflow[] | { workflows?: SavedWorkflow[] }>(withQuery('/api/workflows', { projectId }))
+  if (Array.isArray(res)) return res
+  return res?.workflows ?? []
+}
+
+export async function createWorkflow(workflow: SaveWorkflowRequest, projectId = getActiveProjectId()): Promise<SavedWorkflow> {
+  return apiFetch('/api/workflows', { method: 'POST', body: workflow, headers: projectHeaders(projectId) })
+}
+
+export async function updateWorkflow(workflowId: string, workflow: SaveWorkflowRequest, projectId = getActiveProjectId()): Promise<SavedWorkflow> {
+  return apiFetch(`/api/workflows/${workflowId}`, { method: 'PUT', body: workflow, headers: projectHeaders(projectId) })
+}
+
+export async function shareWorkflow(workflowId: string, shared: boolean, projectId = getActiveProjectId()): Promise<SavedWorkflow> {
+  return apiFetch(`/api/workflows/${workflowId}/share`, { method: 'PATCH', body: { shared }, headers: projectHeaders(projectId) })
+}
+
+export async function deleteWorkflow(workflowId: string, projectId = getActiveProjectId()): Promise<void> {
+  return apiFetch(`/api/workflows/${workflowId}`, { method: 'DELETE', headers: projectHeaders(projectId) })
+}
+
+// Starts a chain from a workflow graph; its progress arrives on the chain's status stream
+export async function runWorkflowChain(request: RunWorkflowChainRequest, projectId = getActiveProjectId()): Promise<WorkflowChainData> {
+  return apiFetch('/workflow-chain', {
+    method: 'POST',
+    service: 'agent',
+    body: request,
+    headers: projectHeaders(projectId),
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Assets
+// ---------------------------------------------------------------------------
+// Listing merges the per-kind histories above (see lib/assetIndex.ts). Changes to assets go through
+// these endpoints, which address an asset as `${kind}:${sourceId}`.
+
+// Tags replace the asset's current tags
+export async function updateAsset(assetId: string, update: UpdateAssetRequest): Promise<AssetRecord> {
+  return apiFetch(`/api/assets/${encodeURIComponent(assetId)}`, { method: 'PATCH', body: update })
+}
+
+export async function fetchAssetLineage(assetId: string): Promise<AssetLineage> {
+  return apiFetch(`/api/assets/${encodeURIComponent(assetId)}/lineage`)
+}
+
+export async function moveAssets(assetIds: string[], targetProjectId: string): Promise<void> {
+  return apiFetch('/api/assets/move', {
+    method: 'POST',
+    body: { assetIds, projectId: targetProjectId },
+    headers: projectHeaders(targetProjectId),
+  })
+}
+
+export async function deleteAssets(assetIds: string[]): Promise<void> {
+  return apiFetch('/api/assets/delete', { method: 'POST', body: { assetIds } })
+}
+
+export async function fetchCollections(projectId: string | null | undefined = getActiveProjectId()): Promise<AssetCollection[]> {
+  const res = await apiFetch<AssetCollection[] | { collections?: AssetCollection[] }>(withQuery('/api/collections', { projectId }))
+  if (Array.isArray(res)) return res
+  return res?.collections ?? []
+}
+
+export async function createCollection(name: string, projectId = getActiveProjectId()): Promise<AssetCollection> {
+  return apiFetch('/api/collections', { method: 'POST', body: { name }, headers: projectHeaders(projectId) })
+}
+
+export async function renameCollection(collectionId: string, name: string): Promise<AssetCollection> {
+  return apiFetch(`/api/collections/${collectionId}`, { method: 'PATCH', body: { name } })
+}
+
+export async function deleteCollection(collectionId: string): Promise<void> {
+  return apiFetch(`/api/collections/${collectionId}`, { method: 'DELETE' })
+}
+
+export async function addAssetsToCollection(collectionId: string, assetIds: string[]): Promise<void> {
+  return apiFetch(`/api/collections/${collectionId}/assets`, { method: 'POST', body: { assetIds } })
+}
+
+export async function removeAssetsFromCollection(collectionId: string, assetIds: string[]): Promise<void> {
+  return apiFetch(`/api/collections/${collectionId}/assets/remove`, { method: 'POST', body: { assetIds } })
+}
+
+// ---------------------------------------------------------------------------
+// Prompt library
+// ---------------------------------------------------------------------------
+
+// Pinned prompts come first, then the most recently used
+export async function fetchPrompts({ pinned, ...params }: PromptListParams = {}): Promise<HistoryPage<PromptRecord>> {
+  return apiFetch(withQuery('/api/prompts', { ...params, pinned: pinned ? 'true' : undefined }))
+}
+
+export async function pinPrompt(promptId: string, pinned: boolean): Promise<PromptRecord> {
+  return apiFetch(`/api/prompts/${promptId}`, { method: 'PATCH', body: { pinned } })
+}
+
+// ---------------------------------------------------------------------------
+// User, credits, billing and notifications
+// ---------------------------------------------------------------------------
+
+export async function fetchUserProfile(): Promise<UserProfile> {
+  return apiFetch('/user/profile/me')
+}
+
+export async function markCreditsBonusSeen(): Promise<void> {
+  return apiFetch('/user/profile/mark-credits-bonus-seen', { method: 'POST' })
+}
+
+export async function fetchCreditHistory({ limit, offset }: PaginationParams = {}): Promise<CreditHistoryResponse> {
+  return apiFetch(withQuery('/user/credits/history', { limit, offset }))
+}
+
+export async function fetchModelPrices(): Promise<ModelPrice[]> {
+  return apiFetch('/model-price')
+}
+
+export async function fetchCreditPackages(): Promise<CreditPackage[]> {
+  return apiFetch('/billing/credit-packages')
+}
+
+export async function createCheckoutSession(creditPackageId: string): Promise<CheckoutSessionResponse> {
+  return apiFetch('/billing/create-checkout-session', { method: 'POST', body: { creditPackageId } })
+}
+
+export async function fetchNotifications(): Promise<NotificationDto[]> {
+  const data = await apiFetch<NotificationDto[] | { notifications?: NotificationDto[] }>('/notifications')
+  if (Array.isArray(data)) return data
+  return data?.notifications ?? []
+}
+
+export async function markAllNotificationsRead(): Promise<NotificationDto[]> {
+  const data = await apiFetch<NotificationDto[] | { notifications?: NotificationDto[] }>('/notifications/mark-all-read', {
+    method: 'POST',
+  })
+  if (Array.isArray(data)) return data
+  return data?.notifications ?? []
+}
@@ -0,0 +1,66 @@
+export type StreamEvent = {
+  event: string
+  data: string
+  id?: string
+}
+
+// Reads a text/event-stream (or newline-delimited JSON) body and calls onEvent once per complete
+// event. NDJSON lines are reported as plain 'message' events so both formats parse the same way.
+// Throwing from onEvent stops reading, closes the connection and rejects with that error.
+export async function readEventStream(response: Response, onEvent: (event: StreamEvent) => void): Promise<void> {
+  if (!response.body) return
+
+  const isSSE = (response.headers.get('content-type') || '').includes('text/event-stream')
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  let eventName = ''
+  let eventId: string | undefined
+  let dataLines: string[] = []
+
+  const dispatch = () => {
+    if (dataLines.length > 0) onEvent({ event: eventName || 'message', data: dataLines.join('\n'), id: eventId })
+    eventName = ''
+    eventId = undefined
+    dataLines = []
+  }
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine
+    if (!isSSE) {
+      if (line.trim()) onEvent({ event: 'message', data: line })
+      return
+    }
+    if (line === '') return dispatch()
+    if (line.startsWith(':')) return // comment / keep-alive
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') eventName = value
+    else if (field === 'data') dataLines.push(value)
+    else if (field === 'id') eventId = value
+  }
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        handleLine(buffer.slice(0, newline))
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+      }
+    }
+  } catch (err) {
+    // Don't leave the connection open behind a failed read or an onEvent that gave up
+    await reader.cancel().catch(() => undefined)
+    throw err
+  }
+
+  if (buffer) handleLine(buffer)
+  if (isSSE) dispatch()
+}
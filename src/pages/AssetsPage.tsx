@@ -1,63 +1,502 @@
 import SidebarLayout from "@/components/layout/SidebarLayout";
-import { FolderOpen, Image, Box } from "lucide-react";
-import { useState } from "react";
+import {
+  Box,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FolderInput,
+  FolderOpen,
+  Image,
+  Loader2,
+  MessageSquare,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AssetDetailPanel } from "@/components/assets/AssetDetailPanel";
+import { AssetLibraryFilter } from "@/components/assets/AssetLibraryFilter";
+import { AssetLineageDialog } from "@/components/lineage/AssetLineageDialog";
+import { ASSET_KINDS, assetTitle, buildChatLink, downloadAssets } from "@/components/assets/assetActions";
+import { useAssets } from "@/hooks/use-assets";
+import { useProjects } from "@/hooks/use-projects";
+import { useToast } from "@/hooks/use-toast";
+import { deleteAssets, moveAssets } from "@/lib/backend";
+import { cn } from "@/lib/utils";
+import type { AssetKind, AssetListParams, AssetRecord } from "@/types/backend.types";
+
+const PAGE_SIZE = 24;
+
+const KIND_FILTERS: { value: AssetKind | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "image", label: "Images" },
+  { value: "edit", label: "Edits" },
+  { value: "model_3d", label: "3D" },
+  { value: "optimized_model", label: "Optimized" },
+];
+
+type AssetFilters = Omit<AssetListParams, "limit" | "offset" | "search">;
 
 const AssetsPage = () => {
-  const [filter, setFilter] = useState<"all" | "images" | "3d">("all");
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<AssetFilters>({});
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [detailAsset, setDetailAsset] = useState<AssetRecord | null>(null);
+  const [lineageAssetId, setLineageAssetId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AssetRecord[] | null>(null);
+  const [busyAction, setBusyAction] = useState<"download" | "move" | "delete" | null>(null);
+
+  const params = useMemo<AssetListParams>(
+    () => ({ ...filters, search: search || undefined, limit: PAGE_SIZE, offset: page * PAGE_SIZE }),
+    [filters, search, page]
+  );
+  const { data, isLoading, isFetching, isError } = useAssets(params);
+  const { data: projects = [] } = useProjects();
+
+  // The histories don't name the project, only the filter it was listed under does
+  const assets = useMemo(
+    () =>
+      (data?.data ?? []).map((asset) => ({
+        ...asset,
+        projectName: asset.projectName ?? projects.find((project) => project.id === asset.projectId)?.name,
+      })),
+    [data, projects]
+  );
+  const facets = data?.facets;
+  const totalPages = data?.total !== undefined ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : undefined;
+  const hasNextPage = totalPages !== undefined ? page + 1 < totalPages : !!data?.hasMore;
+  const hasFilters = !!search || Object.values(filters).some(Boolean);
+  const selectedAssets = assets.filter((asset) => selected.has(asset.id));
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // A selection only spans the page it was made on
+  useEffect(() => {
+    setSelected(new Set());
+  }, [params]);
+
+  const updateFilter = <K extends keyof AssetFilters>(key: K, value: AssetFilters[K] | "") => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setSearch("");
+    setFilters({});
+    setPage(0);
+  };
+
+  const toggleSelected = (assetId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(assetId)) next.delete(assetId);
+      else next.add(assetId);
+      return next;
+    });
+  };
+
+  // ----------------------------------------
+  // Actions
+  // ----------------------------------------
+
+  const handleDownload = async (targets: AssetRecord[]) => {
+    setBusyAction("download");
+    try {
+      const failed = await downloadAssets(targets);
+      if (failed.length > 0) {
+        toast({
+          title: "Some assets were skipped",
+          description: `${failed.length} of ${targets.length} couldn't be downloaded.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error downloading assets:", error);
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not download the assets",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleMove = async (targets: AssetRecord[], projectId: string) => {
+    setBusyAction("move");
+    try {
+      await moveAssets(
+        targets.map((asset) => asset.id),
+        projectId
+      );
+      queryClient.invalidateQueries({ queryKey: ["assets"] });
+      setSelected(new Set());
+      const project = projects.find((p) => p.id === projectId);
+      toast({ title: "Assets moved", description: `${targets.length} moved to ${project?.name ?? "the project"}.` });
+    } catch (error) {
+      console.error("Error moving assets:", error);
+      toast({ title: "Move failed", description: "Could not move the assets", variant: "destructive" });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleDelete = async (targets: AssetRecord[]) => {
+    setBusyAction("delete");
+    try {
+      await deleteAssets(targets.map((asset) => asset.id));
+      queryClient.invalidateQueries({ queryKey: ["assets"] });
+      setSelected(new Set());
+      if (detailAsset && targets.some((asset) => asset.id === detailAsset.id)) setDetailAsset(null);
+      toast({ title: "Assets deleted", description: `${targets.length} deleted.` });
+    } catch (error) {
+      console.error("Error deleting assets:", error);
+      toast({ title: "Delete failed", description: "Could not delete the assets", variant: "destructive" });
+    } finally {
+      setBusyAction(null);
+      setPendingDelete(null);
+    }
+  };
+
+  const handleSendToChat = (targets: AssetRecord[]) => navigate(buildChatLink(targets, filters.projectId));
+
+  const selectClass =
+    "px-2.5 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 max-w-[160px]";
 
   return (
     <SidebarLayout>
       <div className="p-6">
         {/* Header */}
-        <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center justify-between mb-4">
           <h1 className="text-xl font-bold text-foreground">Assets</h1>
           <div className="flex items-center gap-2">
             <input
               type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               placeholder="Search assets…"
               className="px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 w-56"
             />
             <div className="flex rounded-lg border border-border overflow-hidden">
-              {(["all", "images", "3d"] as const).map((f) => (
+              {KIND_FILTERS.map((f) => (
                 <button
-                  key={f}
-                  onClick={() => setFilter(f)}
+                  key={f.value}
+                  onClick={() => updateFilter("kind", f.value === "all" ? "" : f.value)}
                   className={`px-3 py-1.5 text-[11px] font-medium transition-colors ${
-                    filter === f
+                    (filters.kind ?? "all") === f.value
                       ? "bg-primary text-primary-foreground"
                       : "bg-background text-muted-foreground hover:text-foreground"
                   }`}
                 >
-                  {f === "all" ? "All" : f === "images" ? "Images" : "3D"}
+                  {f.label}
                 </button>
               ))}
             </div>
           </div>
         </div>
 
-        {/* Empty state */}
-        <div className="flex flex-col items-center justify-center py-24 text-center">
-          <FolderOpen className="w-12 h-12 text-muted-foreground mb-4" />
-          <p className="text-base text-foreground font-medium mb-1">No assets yet</p>
-          <p className="text-sm text-muted-foreground mb-6">Images and 3D models you generate will appear here</p>
-          <div className="flex gap-3">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <select value={filters.projectId ?? ""} onChange={(e) => updateFilter("projectId", e.target.value)} className={selectClass}>
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <select value={filters.model ?? ""} onChange={(e) => updateFilter("model", e.target.value)} className={selectClass}>
+            <option value="">Any model</option>
+            {facets?.models.map((model) => (
+              <option key={model} value={model}>
+                {model}
+              </option>
+            ))}
+          </select>
+          <select value={filters.creatorId ?? ""} onChange={(e) => updateFilter("creatorId", e.target.value)} className={selectClass}>
+            <option value="">Anyone</option>
+            {facets?.creators
+              .filter((creator) => creator.id)
+              .map((creator) => (
+                <option key={creator.id} value={creator.id}>
+                  {creator.name || creator.email}
+                </option>
+              ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            max={filters.to}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={selectClass}
+            title="Created on or after"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={selectClass}
+            title="Created on or before"
+          />
+          <AssetLibraryFilter
+            value={{ tag: filters.tag, collectionId: filters.collectionId, favorite: filters.favorite }}
+            onChange={(library) => {
+              setFilters((prev) => ({ ...prev, ...library }));
+              setPage(0);
+            }}
+            projectId={filters.projectId}
+            tags={facets?.tags}
+          />
+          {hasFilters && (
             <button
-              onClick={() => navigate("/image")}
-              className="flex items-center gap-2 px-4 py-2 text-xs font-medium border border-border rounded-lg text-foreground hover:bg-white/5 transition-colors"
+              onClick={clearFilters}
+              className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
             >
-              <Image className="w-4 h-4" /> Create Image
+              <X className="w-3 h-3" /> Clear filters
             </button>
+          )}
+          {isFetching && !isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+        </div>
+
+        {/* Bulk actions */}
+        {selectedAssets.length > 0 && (
+          <div className="sticky top-0 z-10 flex flex-wrap items-center gap-4 px-4 py-2.5 mb-4 rounded-xl border border-primary/40 bg-card">
+            <span className="text-xs font-medium text-foreground">{selectedAssets.length} selected</span>
+            <button
+              onClick={() => handleDownload(selectedAssets)}
+              disabled={!!busyAction}
+              className="flex items-center gap-1.5 text-xs font-medium text-primary disabled:opacity-50"
+            >
+              {busyAction === "download" ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}{" "}
+              Download
+            </button>
+            <label className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              {busyAction === "move" ? <Loader2 className="w-3 h-3 animate-spin" /> : <FolderInput className="w-3 h-3" />}
+              <select
+                value=""
+                disabled={!!busyAction}
+                onChange={(e) => e.target.value && handleMove(selectedAssets, e.target.value)}
+                className="bg-transparent text-xs text-muted-foreground hover:text-foreground focus:outline-none"
+              >
+                <option value="">Move to project…</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </label>
             <button
-              onClick={() => navigate("/3d")}
-              className="flex items-center gap-2 px-4 py-2 text-xs font-medium border border-border rounded-lg text-foreground hover:bg-white/5 transition-colors"
+              onClick={() => handleSendToChat(selectedAssets)}
+              className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
             >
-              <Box className="w-4 h-4" /> Create 3D
+              <MessageSquare className="w-3 h-3" /> Send to chat
+            </button>
+            <button
+              onClick={() => setPendingDelete(selectedAssets)}
+              disabled={!!busyAction}
+              className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-destructive disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+            <button
+              onClick={() => setSelected(new Set())}
+              className="ml-auto text-xs text-muted-foreground hover:text-foreground"
+            >
+              Clear selection
             </button>
           </div>
-        </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <FolderOpen className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-sm text-muted-foreground">Couldn't load your assets. Try again in a moment.</p>
+          </div>
+        ) : assets.length === 0 && hasFilters ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <FolderOpen className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-base text-foreground font-medium mb-1">No matching assets</p>
+            <button onClick={clearFilters} className="text-xs font-medium text-primary">
+              Clear filters
+            </button>
+          </div>
+        ) : assets.length === 0 ? (
+          /* Empty state */
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <FolderOpen className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-base text-foreground font-medium mb-1">No assets yet</p>
+            <p className="text-sm text-muted-foreground mb-6">Images and 3D models you generate will appear here</p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => navigate("/image")}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-medium border border-border rounded-lg text-foreground hover:bg-white/5 transition-colors"
+              >
+                <Image className="w-4 h-4" /> Create Image
+              </button>
+              <button
+                onClick={() => navigate("/3d")}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-medium border border-border rounded-lg text-foreground hover:bg-white/5 transition-colors"
+              >
+                <Box className="w-4 h-4" /> Create 3D
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Grid */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6 gap-3">
+              {assets.map((asset) => {
+                const kind = ASSET_KINDS[asset.kind];
+                const KindIcon = kind.icon;
+                const isSelected = selected.has(asset.id);
+                return (
+                  <div
+                    key={asset.id}
+                    onClick={() => setDetailAsset(asset)}
+                    className={cn(
+                      "group relative rounded-xl border bg-card overflow-hidden cursor-pointer transition-colors",
+                      isSelected ? "border-primary" : "border-border hover:border-primary/40"
+                    )}
+                  >
+                    <div className="aspect-square bg-secondary flex items-center justify-center">
+                      {asset.previewUrl ? (
+                        <img src={asset.previewUrl} alt={assetTitle(asset)} loading="lazy" className="w-full h-full object-cover" />
+                      ) : (
+                        <KindIcon className="w-8 h-8 text-muted-foreground" />
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleSelected(asset.id);
+                      }}
+                      className={cn(
+                        "absolute top-2 left-2 w-5 h-5 rounded border flex items-center justify-center transition-opacity",
+                        isSelected
+                          ? "bg-primary border-primary text-primary-foreground"
+                          : "bg-background/80 border-border opacity-0 group-hover:opacity-100"
+                      )}
+                      title={isSelected ? "Deselect" : "Select"}
+                    >
+                      {isSelected && <Check className="w-3 h-3" />}
+                    </button>
+                    <span className="absolute top-2 right-2 flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded bg-background/80 text-muted-foreground">
+                      <KindIcon className="w-2.5 h-2.5" /> {kind.label}
+                    </span>
+                    <div className="px-2.5 py-2">
+                      <p className="flex items-center gap-1 text-xs text-foreground">
+                        {asset.favorite && <Star className="w-3 h-3 shrink-0 text-amber-500 fill-current" />}
+                        <span className="truncate">{assetTitle(asset)}</span>
+                      </p>
+                      <p className="text-[10px] text-muted-foreground truncate">
+                        {[asset.projectName, formatDistanceToNow(new Date(asset.createdAt), { addSuffix: true })]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Pagination */}
+            {(page > 0 || hasNextPage) && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <button
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page === 0 || isFetching}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" /> Previous
+                </button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page + 1}
+                  {totalPages !== undefined && ` of ${totalPages}`}
+                </span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={!hasNextPage || isFetching}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  Next <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </>
+        )}
       </div>
+
+      <AssetDetailPanel
+        asset={detailAsset}
+        onOpenChange={(open) => !open && setDetailAsset(null)}
+        onDownload={(asset) => handleDownload([asset])}
+        onSendToChat={(asset) => handleSendToChat([asset])}
+        onShowLineage={(asset) => setLineageAssetId(asset.id)}
+        onDelete={(asset) => setPendingDelete([asset])}
+      />
+
+      <AssetLineageDialog assetId={lineageAssetId} onOpenChange={(open) => !open && setLineageAssetId(null)} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDelete?.length === 1 ? "this asset" : `${pendingDelete?.length} assets`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              They are removed from every project and history. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingDelete) handleDelete(pendingDelete);
+              }}
+              disabled={busyAction === "delete"}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {busyAction === "delete" ? "Deleting…" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </SidebarLayout>
   );
 };
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import SidebarLayout from "@/components/layout/SidebarLayout";
+import {
+  Ban,
+  CheckCircle2,
+  Circle,
+  Download,
+  FileSpreadsheet,
+  Layers,
+  Loader2,
+  RotateCcw,
+  Upload,
+  X,
+  XCircle,
+} from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { BatchConfirmDialog } from "@/components/batch/BatchConfirmDialog";
+import {
+  DEFAULT_BATCH_MODEL,
+  DEFAULT_BATCH_RATIO,
+  MAX_BATCH_ROWS,
+  buildBatchZip,
+  estimateBatchCredits,
+  parseBatchFile,
+} from "@/components/batch/batchFile";
+import { useBatchQueue, type BatchItemStatus } from "@/components/batch/useBatchQueue";
+import { useModelPrices } from "@/hooks/use-model-prices";
+import { useProjects } from "@/hooks/use-projects";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { BatchPromptRow } from "@/types/backend.types";
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; icon: typeof Circle; className: string }> = {
+  queued: { label: "Queued", icon: Circle, className: "text-muted-foreground/60" },
+  submitting: { label: "Starting", icon: Loader2, className: "text-amber-500 animate-spin" },
+  running: { label: "Generating", icon: Loader2, className: "text-amber-500 animate-spin" },
+  done: { label: "Done", icon: CheckCircle2, className: "text-green-500" },
+  failed: { label: "Failed", icon: XCircle, className: "text-destructive" },
+  cancelled: { label: "Cancelled", icon: Ban, className: "text-muted-foreground" },
+};
+
+const SAMPLE_CSV = `prompt,model,ratio,seed,tags
+"Low-poly treasure chest, hand-painted texture",QWEN,1:1,42,props;dungeon
+"Stylized oak tree, autumn palette",QWEN,3:4,,foliage
+`;
+
+const BatchPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const projectId = searchParams.get("projectId");
+
+  const { data: projects = [] } = useProjects();
+  const { data: prices = [] } = useModelPrices();
+  const { data: userProfile } = useUserProfile();
+  const { items, batchId, start, retry, retryFailed, cancel, clear } = useBatchQueue({
+    projectId,
+    email: userProfile?.email,
+  });
+
+  const [pendingRows, setPendingRows] = useState<BatchPromptRow[] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const estimate = useMemo(() => (pendingRows ? estimateBatchCredits(pendingRows, prices) : null), [pendingRows, prices]);
+  const sortedItems = useMemo(() => [...items].sort((a, b) => a.index - b.index), [items]);
+  const counts = useMemo(() => {
+    const byStatus = Object.fromEntries(Object.keys(STATUS_STYLES).map((status) => [status, 0])) as Record<
+      BatchItemStatus,
+      number
+    >;
+    items.forEach((item) => byStatus[item.status]++);
+    return byStatus;
+  }, [items]);
+
+  const isRunning = counts.queued + counts.submitting + counts.running > 0;
+  const finished = counts.done + counts.failed + counts.cancelled;
+
+  // Refresh the credit balance once the last running row settles
+  const wasRunningRef = useRef(false);
+  useEffect(() => {
+    if (wasRunningRef.current && !isRunning) queryClient.invalidateQueries({ queryKey: ["user-profile"] });
+    wasRunningRef.current = isRunning;
+  }, [isRunning, queryClient]);
+
+  const handleProjectChange = (nextProjectId: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (nextProjectId) params.set("projectId", nextProjectId);
+    else params.delete("projectId");
+    setSearchParams(params);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setPendingRows(parseBatchFile(file.name, await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Error reading batch file:", error);
+      toast({
+        title: "Could not read the file",
+        description: error instanceof Error ? error.message : "The file isn't a valid prompt sheet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirm = (rows: BatchPromptRow[]) => {
+    setPendingRows(null);
+    start(rows);
+    toast({ title: "Batch started", description: `${rows.length} generations queued.` });
+  };
+
+  const handleDownloadSample = () => {
+    const url = URL.createObjectURL(new Blob([SAMPLE_CSV], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "batch-prompts.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadZip = async () => {
+    const files = sortedItems
+      .filter((item) => item.status === "done" && item.imageUrl)
+      .map((item) => ({ index: item.index, row: item.row, url: item.imageUrl as string }));
+    if (files.length === 0) return;
+
+    setIsZipping(true);
+    try {
+      const { blob, failed } = await buildBatchZip(files);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${batchId ?? "batch"}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      if (failed.length > 0) {
+        toast({
+          title: "Some images were left out",
+          description: `${failed.length} image${failed.length === 1 ? "" : "s"} couldn't be downloaded; their links are in manifest.csv.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error building batch zip:", error);
+      toast({ title: "Download failed", description: "Could not build the zip", variant: "destructive" });
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const actionClass =
+    "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-secondary border border-border rounded-lg text-foreground hover:border-primary/40 transition-colors disabled:opacity-50";
+
+  return (
+    <SidebarLayout>
+      <div className="p-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-xl font-bold text-foreground">Batch generation</h1>
+            <p className="text-xs text-muted-foreground mt-1">
+              Generate up to {MAX_BATCH_ROWS} images from a CSV or JSON sheet of prompts.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={projectId ?? ""}
+              onChange={(e) => handleProjectChange(e.target.value)}
+              disabled={isRunning}
+              className="px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50"
+            >
+              <option value="">Select a project…</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!projectId || isRunning}
+              className="flex items-center gap-2 px-4 py-2 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              <Upload className="w-3.5 h-3.5" /> Upload sheet
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </div>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-border rounded-xl">
+            <FileSpreadsheet className="w-10 h-10 text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground max-w-md">
+              {projectId
+                ? "Upload a CSV with a header row (prompt, model, ratio, seed, tags) or a JSON list of rows."
+                : "Select a project to run a batch in."}
+            </p>
+            <p className="text-[11px] text-muted-foreground mt-2">
+              Rows without a model or ratio use {DEFAULT_BATCH_MODEL} at {DEFAULT_BATCH_RATIO}. Separate tags with ";".
+            </p>
+            <button
+              onClick={handleDownloadSample}
+              className="flex items-center gap-1.5 mt-4 text-xs font-medium text-primary"
+            >
+              <Download className="w-3 h-3" /> Sample CSV
+            </button>
+          </div>
+        ) : (
+          <section>
+            {/* Dashboard header */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-3">
+                <Layers className="w-4 h-4 text-primary" />
+                <div>
+                  <p className="text-sm font-semibold text-foreground">{fileName ?? "Batch"}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {finished}/{items.length} finished · {counts.done} done · {counts.failed} failed
+                    {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {counts.queued > 0 && (
+                  <button onClick={cancel} className={actionClass}>
+                    <Ban className="w-3 h-3" /> Cancel remaining
+                  </button>
+                )}
+                {counts.failed > 0 && (
+                  <button onClick={retryFailed} className={actionClass}>
+                    <RotateCcw className="w-3 h-3" /> Retry failed
+                  </button>
+                )}
+                <button onClick={handleDownloadZip} disabled={counts.done === 0 || isZipping} className={actionClass}>
+                  {isZipping ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />} Download
+                  zip
+                </button>
+                {!isRunning && (
+                  <button onClick={clear} className={actionClass}>
+                    <X className="w-3 h-3" /> Clear
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="h-1 w-full rounded-full bg-secondary overflow-hidden mb-4">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${(finished / items.length) * 100}%` }}
+              />
+            </div>
+
+            {/* Rows */}
+            <div className="space-y-2">
+              {sortedItems.map((item) => {
+                const status = STATUS_STYLES[item.status];
+                const StatusIcon = status.icon;
+                return (
+                  <div key={item.index} className="flex items-center gap-3 p-3 rounded-xl border border-border bg-card">
+                    <span className="w-8 text-[11px] text-muted-foreground shrink-0">#{item.index + 1}</span>
+                    <div className="w-12 h-12 rounded-lg bg-secondary overflow-hidden shrink-0 flex items-center justify-center">
+                      {item.imageUrl ? (
+                        <a href={item.imageUrl} target="_blank" rel="noreferrer">
+                          <img src={item.imageUrl} alt={item.row.prompt} className="w-12 h-12 object-cover" />
+                        </a>
+                      ) : (
+                        <StatusIcon className={cn("w-4 h-4", status.className)} />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium text-foreground truncate">{item.row.prompt}</p>
+                      <p className="text-[10px] text-muted-foreground truncate">
+                        {item.row.model || DEFAULT_BATCH_MODEL} · {item.row.ratio || DEFAULT_BATCH_RATIO}
+                        {item.row.seed !== undefined && ` · seed ${item.row.seed}`}
+                        {item.row.tags && ` · ${item.row.tags.join(", ")}`}
+                      </p>
+                      {item.error && <p className="text-[10px] text-destructive truncate">{item.error}</p>}
+                    </div>
+                    <span className="flex items-center gap-1.5 text-[11px] text-muted-foreground shrink-0">
+                      <StatusIcon className={cn("w-3.5 h-3.5", status.className)} />
+                      {status.label}
+                      {item.attempts > 1 && ` (try ${item.attempts})`}
+                    </span>
+                    {(item.status === "failed" || item.status === "cancelled") && (
+                      <button
+                        onClick={() => retry(item.index)}
+                        className="flex items-center gap-1 text-xs font-medium text-primary shrink-0"
+                      >
+                        <RotateCcw className="w-3 h-3" /> Retry
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </div>
+
+      <BatchConfirmDialog
+        rows={pendingRows}
+        estimate={estimate}
+        balance={userProfile?.credits}
+        onOpenChange={(open) => !open && setPendingRows(null)}
+        onConfirm={handleConfirm}
+      />
+    </SidebarLayout>
+  );
+};
+
+export default BatchPage;
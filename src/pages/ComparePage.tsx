@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import SidebarLayout from "@/components/layout/SidebarLayout";
+import { Check, Coins, Columns3, Play, Plus, X } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ComparisonGrid } from "@/components/compare/ComparisonGrid";
+import {
+  MAX_COMPARE_MODELS,
+  MAX_COMPARE_SEEDS,
+  buildComparisonRows,
+  type ComparisonRun,
+} from "@/components/compare/comparison";
+import { estimateBatchCredits } from "@/components/batch/batchFile";
+import { useBatchQueue, type BatchItem } from "@/components/batch/useBatchQueue";
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, IMAGE_MODELS } from "@/components/settings/models";
+import { SeedControl } from "@/components/SeedControl";
+import { randomSeed } from "@/components/chat/utils";
+import { useModelPrices } from "@/hooks/use-model-prices";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { useToast } from "@/hooks/use-toast";
+import { submitGenerationFeedback } from "@/lib/backend";
+import { cn } from "@/lib/utils";
+
+const ComparePage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const projectId = searchParams.get("projectId");
+
+  const { data: prices = [] } = useModelPrices();
+  const { data: userProfile } = useUserProfile();
+
+  const [prompt, setPrompt] = useState(() => searchParams.get("prompt") ?? "");
+  const [ratio, setRatio] = useState(DEFAULT_ASPECT_RATIO);
+  const [models, setModels] = useState<string[]>(() => IMAGE_MODELS.slice(0, 2).map((model) => model.name));
+  // One shared seed by default, so differences come from the models and not the noise
+  const [seeds, setSeeds] = useState<number[]>(() => [randomSeed()]);
+  const [run, setRun] = useState<ComparisonRun | null>(null);
+  const [winnerIndex, setWinnerIndex] = useState<number | null>(null);
+  const [isVoting, setIsVoting] = useState(false);
+
+  const draft = useMemo<ComparisonRun>(() => ({ prompt: prompt.trim(), ratio, models, seeds }), [prompt, ratio, models, seeds]);
+  const draftRows = useMemo(() => buildComparisonRows(draft), [draft]);
+  const estimate = useMemo(() => estimateBatchCredits(draftRows, prices), [draftRows, prices]);
+  const exceedsBalance = userProfile?.credits !== undefined && estimate.total > userProfile.credits;
+
+  // Every cell of a comparison runs at once
+  const { items, start, retry, clear } = useBatchQueue({
+    projectId,
+    email: userProfile?.email,
+    concurrency: MAX_COMPARE_MODELS * MAX_COMPARE_SEEDS,
+  });
+  const isRunning = items.some((item) => ["queued", "submitting", "running"].includes(item.status));
+
+  // Refresh the credit balance once the last result settles
+  const wasRunningRef = useRef(false);
+  useEffect(() => {
+    if (wasRunningRef.current && !isRunning) queryClient.invalidateQueries({ queryKey: ["user-profile"] });
+    wasRunningRef.current = isRunning;
+  }, [isRunning, queryClient]);
+
+  const toggleModel = (name: string) => {
+    setModels((prev) => {
+      if (prev.includes(name)) return prev.filter((model) => model !== name);
+      if (prev.length >= MAX_COMPARE_MODELS) return prev;
+      // Keep catalog order so columns don't depend on click order
+      return IMAGE_MODELS.map((model) => model.name).filter((model) => model === name || prev.includes(model));
+    });
+  };
+
+  const handleRun = () => {
+    if (!draft.prompt || draft.models.length < 2) return;
+    setRun(draft);
+    setWinnerIndex(null);
+    start(draftRows);
+  };
+
+  const handleVote = async (winner: BatchItem) => {
+    if (!winner.jobId) return;
+    setIsVoting(true);
+    try {
+      await submitGenerationFeedback({
+        type: "comparison_vote",
+        generationKind: "image",
+        jobId: winner.jobId,
+        sourceUrl: winner.imageUrl,
+        modelName: winner.row.model,
+        comparedJobIds: items
+          .filter((item) => item.index !== winner.index && item.jobId)
+          .map((item) => item.jobId as string),
+      });
+      setWinnerIndex(winner.index);
+      toast({ title: "Vote saved", description: `${winner.row.model} won this comparison.` });
+    } catch (error) {
+      console.error("Error saving comparison vote:", error);
+      toast({
+        title: "Vote failed",
+        description: error instanceof Error ? error.message : "Could not save your vote",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const fieldClass =
+    "px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50";
+
+  return (
+    <SidebarLayout>
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-xl font-bold text-foreground">Compare models</h1>
+          <p className="text-xs text-muted-foreground mt-1">
+            Run one prompt on up to {MAX_COMPARE_MODELS} models side by side, then vote for the best result.
+          </p>
+        </div>
+
+        {/* Setup */}
+        <div className="space-y-4 p-4 mb-6 rounded-xl border border-border bg-card">
+          <textarea
+            value={prompt}
+            rows={3}
+            disabled={isRunning}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Describe what you want to create…"
+            className={cn(fieldClass, "w-full resize-none")}
+          />
+
+          <div>
+            <span className="block text-[11px] text-muted-foreground mb-1.5">
+              Models ({models.length}/{MAX_COMPARE_MODELS})
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {IMAGE_MODELS.map((model) => {
+                const isSelected = models.includes(model.name);
+                return (
+                  <button
+                    key={model.name}
+                    onClick={() => toggleModel(model.name)}
+                    disabled={isRunning || (!isSelected && models.length >= MAX_COMPARE_MODELS)}
+                    title={model.description}
+                    className={cn(
+                      "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50",
+                      isSelected
+                        ? "border-primary/60 bg-primary/10 text-primary"
+                        : "border-border bg-secondary text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {isSelected && <Check className="w-3 h-3" />}
+                    {model.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="space-y-1.5">
+              <span className="block text-[11px] text-muted-foreground">Ratio</span>
+              <select value={ratio} disabled={isRunning} onChange={(e) => setRatio(e.target.value)} className={fieldClass}>
+                {ASPECT_RATIOS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="space-y-1.5">
+              <span className="block text-[11px] text-muted-foreground">
+                Seeds {seeds.length === 0 && "(each model picks its own)"}
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
+                {seeds.map((seed, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <SeedControl
+                      value={seed}
+                      lockable={false}
+                      disabled={isRunning}
+                      onChange={(value) =>
+                        setSeeds((prev) => prev.map((entry, i) => (i === index ? (value ?? 0) : entry)))
+                      }
+                    />
+                    <button
+                      onClick={() => setSeeds((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={isRunning}
+                      className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+                      title="Remove seed"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                {seeds.length < MAX_COMPARE_SEEDS && (
+                  <button
+                    onClick={() => setSeeds((prev) => [...prev, randomSeed()])}
+                    disabled={isRunning}
+                    className="flex items-center gap-1 text-xs font-medium text-primary disabled:opacity-50"
+                  >
+                    <Plus className="w-3 h-3" /> Add seed
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="ml-auto flex items-center gap-3">
+              <div className="text-right">
+                <p className="flex items-center justify-end gap-1.5 text-xs font-medium text-foreground">
+                  <Coins className="w-3.5 h-3.5 text-primary" /> ~{estimate.total} credits for {draftRows.length}{" "}
+                  images
+                </p>
+                {estimate.unpricedRows > 0 && (
+                  <p className="text-[10px] text-amber-500">
+                    {estimate.byModel
+                      .filter((entry) => entry.credits === null)
+                      .map((entry) => entry.model)
+                      .join(", ")}{" "}
+                    not priced and not counted
+                  </p>
+                )}
+                {exceedsBalance && (
+                  <p className="text-[10px] text-destructive">You have {userProfile?.credits} credits</p>
+                )}
+              </div>
+              <button
+                onClick={handleRun}
+                disabled={isRunning || !draft.prompt || models.length < 2}
+                className="flex items-center gap-2 px-4 py-2 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                <Play className="w-3.5 h-3.5" /> {run ? "Run again" : "Compare"}
+              </button>
+            </div>
+          </div>
+          {models.length < 2 && <p className="text-[11px] text-muted-foreground">Pick at least two models.</p>}
+        </div>
+
+        {/* Results */}
+        {run && items.length > 0 ? (
+          <section>
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <p className="text-xs text-muted-foreground line-clamp-2">{run.prompt}</p>
+              {!isRunning && (
+                <button
+                  onClick={() => {
+                    clear();
+                    setRun(null);
+                  }}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground shrink-0"
+                >
+                  <X className="w-3 h-3" /> Clear
+                </button>
+              )}
+            </div>
+            <ComparisonGrid
+              run={run}
+              items={items}
+              winnerIndex={winnerIndex}
+              isVoting={isVoting}
+              onVote={handleVote}
+              onRetry={retry}
+            />
+          </section>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-border rounded-xl">
+            <Columns3 className="w-10 h-10 text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground max-w-md">
+              Results show up here in a grid, one column per model. Hover a result to zoom all of them to the same spot.
+            </p>
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+};
+
+export default ComparePage;
@@ -1,73 +1,229 @@
 import SidebarLayout from "@/components/layout/SidebarLayout";
-import { Wand2, Upload, X, Sparkles } from "lucide-react";
-import { useState, useRef } from "react";
+import { Wand2, Upload, X, Sparkles, FolderOpen, Loader2, Play, Columns2, Brush } from "lucide-react";
+import { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { apiFetch } from "@/lib/api";
+import { createProject, getActiveProjectId, runWorkflowChain, uploadImage } from "@/lib/backend";
 import { useToast } from "@/components/ui/use-toast";
-import type { Project } from "@/hooks/use-projects";
-
-const EDIT_TOOLS = [
-  "Color & Material",
-  "Complex Transform",
-  "Lighting",
-  "General Edit",
-  "Remove BG",
-  "Upscale",
-  "Segment",
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { AssetPickerDialog } from "@/components/assets/AssetPickerDialog";
+import BeforeAfterSlider from "@/components/examples/BeforeAfterSlider";
+import { MaskEditor } from "@/components/edit/MaskEditor";
+import { useMaskEditor } from "@/components/edit/useMaskEditor";
+import { WORKFLOW_STEPS, defaultStepParams } from "@/components/workflow/workflowGraph";
+import { createChainSSEConnection, getChainOutputs } from "@/utils/workflowChainHandler";
+import { cn } from "@/lib/utils";
+import type { AssetRecord, WorkflowStepType } from "@/types/backend.types";
+
+// Tools with a step run right here; the rest are handed to the studio agent
+const EDIT_TOOLS: { label: string; step?: WorkflowStepType }[] = [
+  { label: "Color & Material", step: "edit_image" },
+  { label: "Complex Transform", step: "edit_image" },
+  { label: "Lighting", step: "edit_image" },
+  { label: "General Edit", step: "edit_image" },
+  { label: "Remove BG", step: "remove_background" },
+  { label: "Upscale", step: "upscale" },
+  { label: "Segment" },
 ];
 
+const uploadBlob = async (blob: Blob, name: string) => {
+  const data = await uploadImage(new File([blob], name, { type: blob.type || "image/png" }));
+  if (!data.success || !data.url) throw new Error("Invalid response from upload endpoint");
+  return data.url;
+};
+
 const EditPage = () => {
   const [selectedTool, setSelectedTool] = useState<string | null>(null);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [sourceName, setSourceName] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [prompt, setPrompt] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runStatus, setRunStatus] = useState("");
+  const [result, setResult] = useState<{ beforeUrl: string; afterUrl: string; step: WorkflowStepType } | null>(null);
+  const [view, setView] = useState<"editor" | "compare">("editor");
+  const [pickerTarget, setPickerTarget] = useState<"source" | "segments" | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const chainSSERef = useRef<(() => void) | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { data: userProfile } = useUserProfile();
+  const editor = useMaskEditor();
+
+  const tool = EDIT_TOOLS.find((entry) => entry.label === selectedTool);
+  const step = tool?.step;
+  const hasImage = !!previewUrl;
+
+  useEffect(() => {
+    return () => {
+      chainSSERef.current?.();
+    };
+  }, []);
+
+  const openSource = async (url: string, name: string, isObjectUrl: boolean) => {
+    if (previewUrl?.startsWith("blob:")) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(url);
+    setSourceName(name);
+    setResult(null);
+    setView("editor");
+    try {
+      await editor.load(url);
+    } catch (error) {
+      console.error("Error loading image into the editor:", error);
+      if (isObjectUrl) URL.revokeObjectURL(url);
+      setPreviewUrl(null);
+      setSourceName(null);
+      toast({
+        title: "Couldn't open the image",
+        description: error instanceof Error ? error.message : "The image couldn't be loaded.",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
-    setUploadedFile(file);
-    setPreviewUrl(URL.createObjectURL(file));
+    void openSource(URL.createObjectURL(file), file.name, true);
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const file = e.dataTransfer.files?.[0];
     if (!file || !file.type.startsWith("image/")) return;
-    setUploadedFile(file);
-    setPreviewUrl(URL.createObjectURL(file));
+    void openSource(URL.createObjectURL(file), file.name, true);
+  };
+
+  const handleAssetPicked = (assets: AssetRecord[]) => {
+    const url = assets[0]?.fileUrl || assets[0]?.previewUrl;
+    const target = pickerTarget;
+    setPickerTarget(null);
+    if (!url) return;
+
+    if (target === "segments") {
+      editor.loadSegments(url).catch((error) => {
+        console.error("Error loading segments:", error);
+        toast({ title: "Couldn't load the segments", description: (error as Error).message, variant: "destructive" });
+      });
+    } else {
+      void openSource(url, assets[0].title || assets[0].prompt || "Asset", false);
+    }
   };
 
   const clearUpload = () => {
-    setUploadedFile(null);
-    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    chainSSERef.current?.();
+    if (previewUrl?.startsWith("blob:")) URL.revokeObjectURL(previewUrl);
     setPreviewUrl(null);
+    setSourceName(null);
+    setResult(null);
+    setIsRunning(false);
+    setRunStatus("");
+    editor.reset();
+  };
+
+  // Uploads the cropped/rotated image, and the mask when one is painted
+  const uploadEdited = async () => {
+    const { source, mask } = await editor.exportImages();
+    const sourceUrl = await uploadBlob(source, "edit-source.png");
+    const maskUrl = mask ? await uploadBlob(mask, "edit-mask.png") : undefined;
+    return { sourceUrl, maskUrl };
+  };
+
+  // ----------------------------------------
+  // Run in place
+  // ----------------------------------------
+  const handleApply = async () => {
+    if (!step || isRunning) return;
+    const definition = WORKFLOW_STEPS[step];
+    if (definition.params.some((param) => param.key === "prompt" && param.required) && !prompt.trim()) {
+      toast({ title: "Describe the edit", description: `${selectedTool} needs an instruction.`, variant: "destructive" });
+      return;
+    }
+
+    chainSSERef.current?.();
+    setIsRunning(true);
+    setRunStatus("Uploading...");
+    try {
+      const { sourceUrl, maskUrl } = await uploadEdited();
+      // The instruction goes in the task's prompt, not its params
+      const params: Record<string, string> = {
+        ...Object.fromEntries(Object.entries(defaultStepParams(step)).filter(([key]) => key !== "prompt")),
+        source_url: sourceUrl,
+      };
+      if (maskUrl && definition.acceptsMask) params.mask_url = maskUrl;
+      const instruction = prompt.trim() ? `${prompt.trim()} (${selectedTool})` : undefined;
+
+      setRunStatus("Starting...");
+      const chain = await runWorkflowChain(
+        { tasks: [{ task_number: 1, task_type: definition.taskType, prompt: instruction, params }] },
+        getActiveProjectId()
+      );
+      chainSSERef.current = createChainSSEConnection(chain.chain_id, userProfile?.email || "", chain.total_tasks, {
+        onStatusUpdate: setRunStatus,
+        onChainCompleted: (_, results) => {
+          setIsRunning(false);
+          setRunStatus("");
+          if (results.tasks.some((task) => task.status === "failed")) return;
+          const afterUrl = getChainOutputs(results.tasks).images[0];
+          if (!afterUrl) {
+            toast({ title: "Edit finished without an image", variant: "destructive" });
+            return;
+          }
+          setResult({ beforeUrl: sourceUrl, afterUrl, step });
+          setView("compare");
+        },
+        onTaskFailed: (event) => {
+          setIsRunning(false);
+          setRunStatus("");
+          toast({ title: "Edit failed", description: event.error || "Unknown error", variant: "destructive" });
+        },
+        onError: (message) => {
+          setIsRunning(false);
+          setRunStatus(message);
+        },
+      });
+    } catch (error) {
+      console.error("Error applying edit:", error);
+      setIsRunning(false);
+      setRunStatus("");
+      toast({
+        title: "Edit failed",
+        description: error instanceof Error ? error.message : "Could not start the edit",
+        variant: "destructive",
+      });
+    }
   };
 
+  // Keeps editing from the result, with a fresh mask
+  const handleContinueFromResult = () => {
+    if (!result) return;
+    void openSource(result.afterUrl, sourceName || "Edited image", false);
+  };
+
+  // ----------------------------------------
+  // Hand off to the studio
+  // ----------------------------------------
   const handleEdit = async () => {
-    if (!uploadedFile || isSubmitting) return;
+    if (!hasImage || isSubmitting) return;
 
     try {
       setIsSubmitting(true);
-      const projectName = prompt.trim() || `Edit: ${uploadedFile.name}`;
-      const project = await apiFetch<Project>("/api/projects", {
-        method: "POST",
-        body: { name: projectName },
-      });
+      const { sourceUrl, maskUrl } = await uploadEdited();
+      const projectName = prompt.trim() || `Edit: ${sourceName}`;
+      const project = await createProject(projectName);
 
       const params = new URLSearchParams();
       if (project.id) params.set("projectId", project.id);
 
       const toolContext = selectedTool ? ` using ${selectedTool}` : "";
+      const maskContext = maskUrl
+        ? " Only change the area marked white in the second image (the mask); keep the rest as it is."
+        : "";
       params.set(
         "initial_prompt",
-        prompt.trim()
-          ? `${prompt.trim()}${toolContext}`
-          : `Edit this image${toolContext}`
+        (prompt.trim() ? `${prompt.trim()}${toolContext}` : `Edit this image${toolContext}`) + maskContext
       );
+      params.set("image_urls", encodeURIComponent(JSON.stringify(maskUrl ? [sourceUrl, maskUrl] : [sourceUrl])));
 
       navigate(`/studio?${params.toString()}`);
     } catch (error: any) {
@@ -89,17 +245,17 @@ const EditPage = () => {
           <h2 className="text-sm font-semibold text-foreground">Edit Tools</h2>
 
           <div className="flex flex-wrap gap-1.5">
-            {EDIT_TOOLS.map((tool) => (
+            {EDIT_TOOLS.map(({ label }) => (
               <button
-                key={tool}
-                onClick={() => setSelectedTool(selectedTool === tool ? null : tool)}
+                key={label}
+                onClick={() => setSelectedTool(selectedTool === label ? null : label)}
                 className={`px-2.5 py-1.5 text-[11px] font-medium rounded-lg transition-colors ${
-                  selectedTool === tool
+                  selectedTool === label
                     ? "bg-primary/15 text-primary border border-primary/30"
                     : "bg-secondary text-muted-foreground hover:text-foreground hover:bg-accent border border-transparent"
                 }`}
               >
-                {tool}
+                {label}
               </button>
             ))}
           </div>
@@ -114,6 +270,14 @@ const EditPage = () => {
                 rows={3}
                 className="w-full resize-none bg-secondary border border-border rounded-lg px-3 py-2 text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50"
               />
+              {step && WORKFLOW_STEPS[step].acceptsMask && (
+                <p className="text-[11px] text-muted-foreground">Paint a mask on the image to edit only that area.</p>
+              )}
+              {!step && (
+                <p className="text-[11px] text-muted-foreground">
+                  This tool runs in the studio. Its results can be loaded back here as segments.
+                </p>
+              )}
             </div>
           )}
 
@@ -123,57 +287,143 @@ const EditPage = () => {
             </div>
           )}
 
-          {/* Edit button */}
+          {runStatus && <p className="text-[11px] text-muted-foreground">{runStatus}</p>}
+
+          {/* Edit buttons */}
+          {step && (
+            <button
+              onClick={handleApply}
+              disabled={!hasImage || isRunning || isSubmitting}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-40 disabled:cursor-not-allowed transition-opacity"
+            >
+              {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+              {isRunning ? "Editing…" : "Apply edit"}
+            </button>
+          )}
           <button
             onClick={handleEdit}
-            disabled={!uploadedFile || isSubmitting}
-            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium disabled:opacity-40 disabled:cursor-not-allowed transition-opacity"
+            disabled={!hasImage || isSubmitting || isRunning}
+            className={cn(
+              "w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-xs font-medium disabled:opacity-40 disabled:cursor-not-allowed transition-opacity",
+              step ? "bg-secondary border border-border text-foreground" : "bg-primary text-primary-foreground"
+            )}
           >
             <Sparkles className="w-3.5 h-3.5" />
             {isSubmitting ? "Starting…" : "Open in Studio"}
           </button>
         </div>
 
-        {/* Right panel - image preview */}
-        <div className="flex-1 flex items-center justify-center p-8">
+        {/* Right panel - editor */}
+        <div className="flex-1 flex flex-col items-center justify-center gap-3 p-8">
           {previewUrl ? (
-            <div className="relative w-full max-w-lg">
-              <img
-                src={previewUrl}
-                alt="Edit preview"
-                className="w-full h-auto rounded-2xl border border-border shadow-card object-contain max-h-[500px]"
-              />
+            <>
+              <div className="w-full max-w-3xl flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground truncate">{sourceName}</p>
+                <div className="flex items-center gap-2">
+                  {result && (
+                    <div className="flex items-center rounded-lg border border-border overflow-hidden">
+                      <button
+                        onClick={() => setView("editor")}
+                        className={cn(
+                          "flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium transition-colors",
+                          view === "editor" ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                        )}
+                      >
+                        <Brush className="w-3 h-3" /> Editor
+                      </button>
+                      <button
+                        onClick={() => setView("compare")}
+                        className={cn(
+                          "flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium transition-colors",
+                          view === "compare" ? "bg-primary/15 text-primary" : "text-muted-foreground hover:text-foreground"
+                        )}
+                      >
+                        <Columns2 className="w-3 h-3" /> Before / after
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    onClick={clearUpload}
+                    title="Close image"
+                    className="w-7 h-7 rounded-full bg-background/80 border border-border flex items-center justify-center hover:bg-destructive/10 transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+
+              {result && view === "compare" ? (
+                <div className="w-full max-w-3xl space-y-3">
+                  <div className="rounded-2xl border border-border overflow-hidden">
+                    <BeforeAfterSlider
+                      beforeUrl={result.beforeUrl}
+                      afterUrl={result.afterUrl}
+                      isBackgroundRemove={result.step === "remove_background"}
+                      className="h-[520px]"
+                    />
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <button onClick={handleContinueFromResult} className="flex items-center gap-1.5 text-xs font-medium text-primary">
+                      <Wand2 className="w-3 h-3" /> Keep editing the result
+                    </button>
+                    <a
+                      href={result.afterUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs font-medium text-muted-foreground hover:text-foreground"
+                    >
+                      Open result
+                    </a>
+                  </div>
+                </div>
+              ) : (
+                <MaskEditor
+                  editor={editor}
+                  onPickSegments={() => setPickerTarget("segments")}
+                  disabled={isRunning}
+                />
+              )}
+            </>
+          ) : (
+            <>
+              <div
+                onDrop={handleDrop}
+                onDragOver={(e) => e.preventDefault()}
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full max-w-lg aspect-square rounded-2xl border-2 border-dashed border-border flex flex-col items-center justify-center gap-3 bg-muted/20 hover:border-primary/40 hover:bg-primary/5 transition-all cursor-pointer"
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/jpg,image/webp"
+                  className="hidden"
+                  onChange={handleFileSelect}
+                />
+                <Upload className="w-10 h-10 text-muted-foreground" />
+                <div className="text-center">
+                  <p className="text-sm text-foreground font-medium">Drop an image here</p>
+                  <p className="text-xs text-primary mt-0.5">or click to browse</p>
+                </div>
+              </div>
               <button
-                onClick={clearUpload}
-                className="absolute top-3 right-3 w-7 h-7 rounded-full bg-background/80 border border-border flex items-center justify-center hover:bg-destructive/10 transition-colors"
+                onClick={() => setPickerTarget("source")}
+                className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
               >
-                <X className="w-3.5 h-3.5" />
+                <FolderOpen className="w-3.5 h-3.5" /> Choose from assets
               </button>
-              <p className="text-xs text-center text-muted-foreground mt-2">{uploadedFile?.name}</p>
-            </div>
-          ) : (
-            <div
-              onDrop={handleDrop}
-              onDragOver={(e) => e.preventDefault()}
-              onClick={() => fileInputRef.current?.click()}
-              className="w-full max-w-lg aspect-square rounded-2xl border-2 border-dashed border-border flex flex-col items-center justify-center gap-3 bg-muted/20 hover:border-primary/40 hover:bg-primary/5 transition-all cursor-pointer"
-            >
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/png,image/jpeg,image/jpg,image/webp"
-                className="hidden"
-                onChange={handleFileSelect}
-              />
-              <Upload className="w-10 h-10 text-muted-foreground" />
-              <div className="text-center">
-                <p className="text-sm text-foreground font-medium">Drop an image here</p>
-                <p className="text-xs text-primary mt-0.5">or click to browse</p>
-              </div>
-            </div>
+            </>
           )}
         </div>
       </div>
+
+      <AssetPickerDialog
+        open={!!pickerTarget}
+        onOpenChange={(open) => !open && setPickerTarget(null)}
+        onPick={handleAssetPicked}
+        kinds={["image", "edit"]}
+        projectId={getActiveProjectId()}
+        title={pickerTarget === "segments" ? "Choose a Segment result" : "Choose an image to edit"}
+      />
     </SidebarLayout>
   );
 };
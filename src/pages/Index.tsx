@@ -7,18 +7,37 @@ import ModelOptimization from "@/components/ModelOptimization";
 import { ChatSidebar } from "@/components/ChatSidebar";
 import { useUserProfile } from "@/hooks/use-user-profile";
 import { useProject } from "@/hooks/use-project";
+import { useModelUpload } from "@/hooks/use-model-upload";
+import { isUploadCancelled } from "@/utils/modelUploader";
+import { ModelReportDialog } from "@/components/models/ModelReportDialog";
 import { LocalStorageKeys } from "@/enums/localstorage";
-import { SSEStatusListener } from "@/components/SSEStatusListener";
 import { SSEStatusUpdate } from "@/hooks/useSSE";
+import { useGenerationStreams } from "@/hooks/useGenerationStream";
+import { generationStreamManager, isTerminalGenerationEvent } from "@/utils/generationStreamManager";
 import { extractImageUrls } from "@/components/chat/utils";
 import { Message } from "@/components/chat/types";
 import { WorkflowProgressDisplay } from "@/components/WorkflowProgressDisplay";
 import { WorkflowChainResults } from "@/components/WorkflowChainResults";
 import {
   createChainSSEConnection,
+  createChainTasks,
+  getChainOutputs,
+  getChainTaskGenerationType,
   WorkflowChainData,
   ChainResults,
+  ChainTaskState,
 } from "@/utils/workflowChainHandler";
+import {
+  buildChainTaskMessages,
+  countCompletedTasks,
+  finishWorkflowChain,
+  getSessionWorkflowChains,
+  reopenWorkflowChain,
+  resetTasksForRerun,
+  saveChainTasks,
+  saveWorkflowChain,
+  PersistedChain,
+} from "@/utils/workflowChainStore";
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
@@ -26,9 +45,42 @@ import { useToast } from "@/hooks/use-toast";
 import { Image as ImageIcon, Box, Settings, ChevronLeft, ChevronRight } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
 import ErrorBoundary from "@/components/ui/error-boundary";
-import { apiFetch } from "@/lib/api";
+import { AGENT_API_URL } from "@/lib/api";
+import {
+  ask,
+  askStream,
+  exportSession,
+  fetchOptimizationModels,
+  fetchOptimizationPresets,
+  fetchRapidModel,
+  markCreditsBonusSeen,
+  resumeWorkflowChain,
+  submitImageGeneration,
+} from "@/lib/backend";
+import { DEFAULT_ASPECT_RATIO, DEFAULT_IMAGE_MODEL } from "@/components/settings/models";
+import {
+  MODE_PARAM,
+  OPTIONS_PARAM,
+  loadGenerationDefaults,
+  parseGenerationOptions,
+  parseResponseMode,
+} from "@/components/settings/generationOptions";
+import { REFERENCES_PARAM, parseImageReferences } from "@/components/references/referenceRoles";
+import type { ChainResumeMode } from "@/types/backend.types";
+import type { AskRequest, GenerationOptions, ImageReference, ModelInfo, ResponseMode } from "@/types/backend.types";
 import OnboardingModal from "@/components/Onboarding";
 
+// Shape used by the chat model-selection form
+const toModelSelectionItems = (models: ModelInfo[]) =>
+  models.map((model) => ({
+    id: model.assetId,
+    name: model.name || model.filename || model.fileName || `Model ${model.id || model.asset_id || model.assetId}`,
+    image: model.thumbnail_url || model.thumbnailUrl || model.image || "/placeholder.svg",
+    creationDate: model.created_at || model.createdAt
+      ? new Date(model.created_at || model.createdAt).toLocaleDateString()
+      : new Date().toLocaleDateString()
+  }));
+
 // Helper function to extract email from JWT token
 const extractEmailFromToken = (token: string | null): string | null => {
   if (!token) return null;
@@ -60,6 +112,8 @@ const Index = () => {
   const hasSentInitialPromptRef = useRef(false);
   const pendingInitialPromptRef = useRef<string | null>(null);
   const pendingInitialImagesRef = useRef<string[] | undefined>(undefined);
+  const pendingInitialModeRef = useRef<ResponseMode | undefined>(undefined);
+  const pendingInitialReferencesRef = useRef<ImageReference[] | undefined>(undefined);
   
   // Workflow chain state
   const [workflowChain, setWorkflowChain] = useState<WorkflowChainData | null>(null);
@@ -67,18 +121,42 @@ const Index = () => {
   const [workflowStatus, setWorkflowStatus] = useState<string>("");
   const [workflowError, setWorkflowError] = useState<string | null>(null);
   const [workflowResults, setWorkflowResults] = useState<ChainResults | null>(null);
+  const [workflowTasks, setWorkflowTasks] = useState<ChainTaskState[]>([]);
+  // Task whose retry / continue request is waiting on the backend
+  const [retryingChainTask, setRetryingChainTask] = useState<number | null>(null);
   const [isWorkflowLoading, setIsWorkflowLoading] = useState(false);
-  const chainSSERef = useRef<EventSource | null>(null);
+  // Set when a chain picked up after a reload finishes; its results stay up until dismissed
+  const [isWorkflowRecovered, setIsWorkflowRecovered] = useState(false);
+  const chainSSERef = useRef<(() => void) | null>(null);
+  // Aborts the in-flight streamed /ask when the user presses Stop
+  const askAbortRef = useRef<AbortController | null>(null);
 
   const [currentSessionOwnerId, setCurrentSessionOwnerId] = useState<string | null>(null);
+
+  // Seed locked from the chat input (or handed over from the prompt bar as ?seed); sent with every message
+  const [lockedSeed, setLockedSeed] = useState<number | undefined>(() => {
+    const raw = new URLSearchParams(window.location.search).get("seed");
+    return raw && /^\d+$/.test(raw) ? Number(raw) : undefined;
+  });
+
+  // Options picked in the prompt bar for the chat it started; dropped once another session is opened
+  // or a new chat begins. Without them the user's saved defaults apply.
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions | undefined>(() =>
+    parseGenerationOptions(new URLSearchParams(window.location.search).get(OPTIONS_PARAM))
+  );
   
   const { toast } = useToast();
+  const { upload: uploadModel, cancel: cancelModelUpload, progress: modelUploadProgress } = useModelUpload();
+  const [pendingModelFile, setPendingModelFile] = useState<File | null>(null);
   const queryClient = useQueryClient();
   const { data: userProfile } = useUserProfile();
   const projectIdFromUrl = searchParams.get("projectId");
   const { data: currentProject } = useProject(projectIdFromUrl);
 
-  const apiUrl = import.meta.env.VITE_API_BASE_URL;
+  const apiUrl = AGENT_API_URL;
+
+  const getActiveGenerationOptions = () =>
+    generationOptions ?? (userProfile?.id ? loadGenerationDefaults(userProfile.id)?.options : undefined);
 
   // If /studio is opened without a projectId, redirect to home
   useEffect(() => {
@@ -112,72 +190,61 @@ const Index = () => {
   // Cleanup workflow SSE on unmount
   useEffect(() => {
     return () => {
-      if (chainSSERef.current) {
-        chainSSERef.current.close();
-      }
+      chainSSERef.current?.();
     };
   }, []);
 
   // Auto-remove workflow card after 3 seconds when workflow completes
   useEffect(() => {
-    if (workflowResults && workflowChain) {
+    if (workflowResults && workflowChain && !isWorkflowRecovered) {
       const timer = setTimeout(() => {
         setWorkflowChain(null);
         setWorkflowResults(null);
+        setWorkflowTasks([]);
         setWorkflowProgress({ current: 0, total: 0 });
         setWorkflowStatus("");
       }, 3000); 
 
       return () => clearTimeout(timer);
     }
-  }, [workflowResults, workflowChain]);
+  }, [workflowResults, workflowChain, isWorkflowRecovered]);
+
+  // Stop following the current chain and clear its progress card (e.g. when switching chats)
+  const resetWorkflowChain = useCallback(() => {
+    chainSSERef.current?.();
+    chainSSERef.current = null;
+    setWorkflowChain(null);
+    setWorkflowResults(null);
+    setWorkflowTasks([]);
+    setRetryingChainTask(null);
+    setWorkflowProgress({ current: 0, total: 0 });
+    setWorkflowStatus("");
+    setWorkflowError(null);
+    setIsWorkflowLoading(false);
+    setIsWorkflowRecovered(false);
+  }, []);
 
   // Listen for model selection form refresh event
   useEffect(() => {
     const handleRefreshModelSelection = async () => {
       try {
-        const currentToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
-        const backendUrl = import.meta.env.VITE_API_BACKEND_URL || apiUrl;
-        const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-        
-        const response = await fetch(
-          `${backendUrl}/api/model-optimization/models${projectIdFromUrl ? `?projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`,
-          {
-          headers: {
-            "Authorization": currentToken ? `Bearer ${currentToken}` : "",
-            "Content-Type": "application/json"
-          }
-          }
-        );
+        const data = await fetchOptimizationModels();
+        const updatedModels = toModelSelectionItems(data.models || []);
 
-        if (response.ok) {
-          const data = await response.json();
-          const modelsArray = data.models || data || [];
-          
-          const updatedModels: any[] = modelsArray.map((model: any) => ({
-            id: model.assetId,
-            name: model.name || model.filename || model.fileName || `Model ${model.id || model.asset_id || model.assetId}`,
-            image: model.thumbnail_url || model.thumbnailUrl || model.image || "/placeholder.svg",
-            creationDate: model.created_at || model.createdAt 
-              ? new Date(model.created_at || model.createdAt).toLocaleDateString() 
-              : new Date().toLocaleDateString()
-          }));
-
-          // Update all messages with model-selection form type, preserving isUploading state
-          setMessages((prev) =>
-            prev.map((msg) =>
-              msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
-                ? {
-                    ...msg,
-                    formData: {
-                      models: updatedModels,
-                      isUploading: (msg.formData as Record<string, any>).isUploading || false,
-                    },
-                  }
-                : msg
-            )
-          );
-        }
+        // Update all messages with model-selection form type, preserving isUploading state
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
+              ? {
+                  ...msg,
+                  formData: {
+                    models: updatedModels,
+                    isUploading: (msg.formData as Record<string, any>).isUploading || false,
+                  },
+                }
+              : msg
+          )
+        );
       } catch (error) {
         console.error("Error refreshing model selection form:", error);
       }
@@ -185,7 +252,7 @@ const Index = () => {
 
     window.addEventListener('refreshModelSelectionForm', handleRefreshModelSelection);
     return () => window.removeEventListener('refreshModelSelectionForm', handleRefreshModelSelection);
-  }, [authToken, apiUrl]);
+  }, []);
 
   const updateSessionId = (newSessionId: string) => {
     setSessionId(newSessionId);
@@ -209,6 +276,10 @@ const Index = () => {
     );
   }, []);
 
+  const handleStopGenerating = useCallback(() => {
+    askAbortRef.current?.abort();
+  }, []);
+
   const handleSendMessage = async (
     text: string,
     imageUrls?: string[],
@@ -217,6 +288,7 @@ const Index = () => {
     uploadSessionId?: string,
     responseMode: "thinking" | "fast" = "thinking",
     humanInLoop: boolean = false,
+    imageReferences?: ImageReference[],
   ) => {
     if (!text.trim() && (!imageUrls || imageUrls.length === 0)) return;
 
@@ -253,6 +325,7 @@ const Index = () => {
       role: "user",
       text: text,
       imagePaths: imageUrls, // Include uploaded image URLs
+      imageReferences,
     };
 
     // Do not show raw tool invocation messages in chat
@@ -261,11 +334,21 @@ const Index = () => {
     }
     setIsGenerating(true);
 
+    // Placeholder the streamed answer is written into; replaced by the final messages when done
+    const streamId = `stream-${Date.now()}`;
+    let wasStreamed = false;
+    const abortController = new AbortController();
+    askAbortRef.current = abortController;
+    setMessages((prev) => [...prev, { id: streamId, role: "assistant", text: "", isStreaming: true }]);
+
+    const updateStreamMessage = (update: (msg: Message) => Message) =>
+      setMessages((prev) => prev.map((msg) => (msg.id === streamId ? update(msg) : msg)));
+
     try {
       // Get user ID from profile
       const userId = userProfile?.id;
       
-      const payload: any = {
+      const payload: AskRequest = {
         query: text,
         mode: responseMode, 
         humanInLoop
@@ -279,6 +362,15 @@ const Index = () => {
         payload.userId = userId;
       }
 
+      if (lockedSeed !== undefined) {
+        payload.seed = lockedSeed;
+      }
+
+      const activeOptions = getActiveGenerationOptions();
+      if (activeOptions) {
+        payload.generation_options = activeOptions;
+      }
+
       // Attach current project (if any) from URL
       const projectIdFromUrl = searchParams.get("projectId");
       if (projectIdFromUrl) {
@@ -293,27 +385,23 @@ const Index = () => {
         payload.image_urls = uploadedImageUrls;
       }
 
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (authToken) {
-        headers["Authorization"] = `Bearer ${authToken}`;
-      }
-
-      if (projectIdFromUrl) {
-        headers["x-project-id"] = projectIdFromUrl;
+      // What each new image is for; previously uploaded images are reused without roles
+      if (imageReferences && imageReferences.length > 0) {
+        payload.image_references = imageReferences;
       }
 
-      const response = await fetch(`${API}/ask`, {
-        method: "POST",
-        headers,
-        mode: "cors",
-        credentials: "include",
-        body: JSON.stringify(payload),
+      const data = await askStream(payload, {
+        signal: abortController.signal,
+        onToken: (content) => {
+          wasStreamed = true;
+          updateStreamMessage((msg) => ({ ...msg, text: msg.text + content }));
+        },
+        onToolCall: (toolCall) => {
+          wasStreamed = true;
+          updateStreamMessage((msg) => ({ ...msg, toolCalls: [...(msg.toolCalls || []), toolCall] }));
+        },
       });
-
-      const data = await response.json();
+      setMessages((prev) => prev.filter((msg) => msg.id !== streamId));
 
       // ===== ADD THIS DEBUG =====
       console.log('=== /ask RESPONSE DEBUG ===');
@@ -350,7 +438,7 @@ const Index = () => {
       // ============================================
       if (data.workflow_chain) {
         console.log('🔗 Workflow Chain Detected!', data.workflow_chain);
-        handleWorkflowChain(data.workflow_chain);
+        handleWorkflowChain(data.workflow_chain, { chainSessionId: data.session_id || sessionId });
         setIsGenerating(false);
         return;
       }
@@ -378,7 +466,7 @@ const Index = () => {
             }
 
             const content = msg.content || "";
-            const role = msg.type === "ai" ? "assistant" : msg.type === "tool" ? "assistant" : "user";
+            const role: Message["role"] = msg.type === "ai" ? "assistant" : msg.type === "tool" ? "assistant" : "user";
 
             // Extract image URLs from content for user messages
             let imagePaths: string[] | undefined;
@@ -396,6 +484,8 @@ const Index = () => {
                 toolName: msg.type === "tool" ? msg.name : undefined,
                 jobId,
                 imagePaths,
+                // Shown with the result so it's clear which settings produced it
+                ...(jobId && payload.generation_options ? { generationOptions: payload.generation_options } : {}),
               };
             } else {
               return {
@@ -404,6 +494,8 @@ const Index = () => {
                 toolName: msg.type === "tool" ? msg.name : undefined,
                 jobId,
                 imagePaths,
+                // Already shown token by token, so don't replay it through the typewriter
+                ...(wasStreamed && msg.type === "ai" ? { isStreaming: false } : {}),
               };
             }
           })
@@ -450,6 +542,7 @@ const Index = () => {
           const assistantMessage: Message = {
             role: "assistant",
             text: data.response || "Request completed.",
+            ...(wasStreamed ? { isStreaming: false } : {}),
           };
           setMessages((prev) => [...prev, assistantMessage]);
         }
@@ -461,13 +554,24 @@ const Index = () => {
         setMessages((prev) => [...prev, assistantMessage]);
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever already streamed in, drop the placeholder otherwise
+        setMessages((prev) =>
+          prev
+            .filter((msg) => msg.id !== streamId || msg.text)
+            .map((msg) => (msg.id === streamId ? { ...msg, isStreaming: false } : msg))
+        );
+        return;
+      }
       console.error("Error sending message:", error);
+      setMessages((prev) => prev.filter((msg) => msg.id !== streamId));
       toast({
         title: "Error",
         description: "Failed to send message. Please try again.",
         variant: "destructive",
       });
     } finally {
+      if (askAbortRef.current === abortController) askAbortRef.current = null;
       setIsGenerating(false);
     }
   };
@@ -477,9 +581,12 @@ const Index = () => {
     modifiedArgs?: Record<string, Record<string, any>>
   ) => {
     setIsGenerating(true);
+    // Confirmed tools can run for a while; Stop aborts the request like a streamed reply
+    const abortController = new AbortController();
+    askAbortRef.current = abortController;
 
     try {
-      const payload: any = {
+      const payload: AskRequest = {
         session_id: sessionId,
         confirmation_response: {
           action,
@@ -494,28 +601,13 @@ const Index = () => {
         payload.userId = userProfile.id;
       }
 
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (authToken) {
-        headers["Authorization"] = `Bearer ${authToken}`;
-      }
-
-      const projectIdFromUrl = searchParams.get("projectId");
-      if (projectIdFromUrl) {
-        headers["x-project-id"] = projectIdFromUrl;
+      // Confirmed tools run now, so they need the same options as the turn that proposed them
+      const activeOptions = getActiveGenerationOptions();
+      if (activeOptions) {
+        payload.generation_options = activeOptions;
       }
 
-      const response = await fetch(`${API}/ask`, {
-        method: "POST",
-        headers,
-        mode: "cors",
-        credentials: "include",
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
+      const data = await ask(payload, { signal: abortController.signal });
        console.log(data,'data after tool invoke===============>>>>')
        console.log(messages,'here is before messages==>>>')
 
@@ -536,7 +628,7 @@ const Index = () => {
             .filter((msg: any) => msg.type !== "system")
             .map((msg: any) => {
               const content = msg.content || "";
-              const role = msg.type === "ai" ? "assistant" : msg.type === "tool" ? "assistant" : "user";
+              const role: Message["role"] = msg.type === "ai" ? "assistant" : msg.type === "tool" ? "assistant" : "user";
               
               let imagePaths: string[] | undefined;
               if (role === "user" && content) {
@@ -558,7 +650,7 @@ const Index = () => {
         }
         
         // Then start the workflow chain handler
-        handleWorkflowChain(data.workflow_chain);
+        handleWorkflowChain(data.workflow_chain, { chainSessionId: data.session_id || sessionId });
         setIsGenerating(false);
         return;  // ✅ IMPORTANT: Exit here, don't continue
       }
@@ -585,7 +677,7 @@ const Index = () => {
               // Not JSON, ignore
             }
 
-            const role = msg.type === "ai" || msg.type === "tool" ? "assistant" : "user";
+            const role: Message["role"] = msg.type === "ai" || msg.type === "tool" ? "assistant" : "user";
             const content = msg.content || "";
             
             // Extract image URLs from content for user messages
@@ -604,6 +696,8 @@ const Index = () => {
                 toolName: msg.type === "tool" ? msg.name : undefined,
                 jobId,
                 imagePaths,
+                // Shown with the result so it's clear which settings produced it
+                ...(jobId && payload.generation_options ? { generationOptions: payload.generation_options } : {}),
               };
             } else {
               return {
@@ -676,6 +770,10 @@ const Index = () => {
         setMessages((prev) => [...prev, assistantMessage]);
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        setMessages((prev) => [...prev, { role: "assistant", text: "Operation cancelled." }]);
+        return;
+      }
       console.error("Error confirming tool:", error);
       toast({
         title: "Error",
@@ -683,6 +781,7 @@ const Index = () => {
         variant: "destructive",
       });
     } finally {
+      if (askAbortRef.current === abortController) askAbortRef.current = null;
       setIsGenerating(false);
     }
   };
@@ -695,54 +794,93 @@ const Index = () => {
   // ============================================
   // WORKFLOW CHAIN HANDLER
   // ============================================
-const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
-  console.log(`🔗 Starting workflow chain: ${chain.chain_id}`);
-  
+const handleWorkflowChain = useCallback((
+  chain: WorkflowChainData,
+  {
+    chainSessionId,
+    restored,
+    rerunFrom,
+  }: {
+    chainSessionId?: string | null;
+    restored?: Pick<PersistedChain, "tasks" | "last_event_id">;
+    // Task number the chain is re-run from after a failure
+    rerunFrom?: number;
+  } = {}
+) => {
+  console.log(`🔗 ${restored ? "Resuming" : "Starting"} workflow chain: ${chain.chain_id}`);
+
+  const initialTasks = createChainTasks(chain.total_tasks, restored?.tasks);
+  const completedCount = initialTasks.filter((task) => task.status === "done").length;
   setWorkflowChain(chain);
-  setWorkflowProgress({ current: 0, total: chain.total_tasks });
-  setWorkflowStatus("🔗 Starting workflow with " + chain.total_tasks + " tasks...");
+  setWorkflowTasks(initialTasks);
+  setWorkflowProgress({ current: completedCount, total: chain.total_tasks });
+  setWorkflowStatus(
+    rerunFrom
+      ? `🔁 Re-running task ${rerunFrom}/${chain.total_tasks}...`
+      : restored
+        ? `🔄 Reconnecting to workflow (${completedCount}/${chain.total_tasks} tasks done)...`
+        : "🔗 Starting workflow with " + chain.total_tasks + " tasks..."
+  );
   setWorkflowError(null);
   setWorkflowResults(null);
   setIsWorkflowLoading(true);
+  setIsWorkflowRecovered(false);
 
-  // Add placeholder for first task
-  const firstTaskPlaceholder: Message = {
-    role: "assistant",
-    text: `🔗 Starting task 1/${chain.total_tasks}...`,
-    job_id: `chain_task_1_${chain.chain_id}`,
-    status: "listening",
-    generation_type: "image_generation",
-    chainId: chain.chain_id,
-    taskNumber: 1,
-  };
-  setMessages((prev) => [...prev, firstTaskPlaceholder]);
+  // Persist so the chain can be picked back up after a reload
+  if (!restored && chainSessionId) {
+    saveWorkflowChain(chainSessionId, chain);
+  }
 
-  if (chainSSERef.current) {
-    chainSSERef.current.close();
+  // Add placeholder for first task (a restored chain's task messages are rebuilt from storage)
+  if (!restored) {
+    const firstTaskPlaceholder: Message = {
+      role: "assistant",
+      text: `🔗 Starting task 1/${chain.total_tasks}...`,
+      job_id: `chain_task_1_${chain.chain_id}`,
+      status: "listening",
+      generation_type: "image_generation",
+      chainId: chain.chain_id,
+      taskNumber: 1,
+    };
+    setMessages((prev) => [...prev, firstTaskPlaceholder]);
   }
 
+  chainSSERef.current?.();
+
   const userEmail = userProfile?.email || extractEmailFromToken(authToken);
-  const streamUrl = `${API}/generation-status/${chain.chain_id}/stream?email=${encodeURIComponent(userEmail || "")}`;
-  console.log(`🔗 Opening SSE connection to: ${streamUrl}`);
 
-  const taskPlaceholdersAdded = new Set<number>([1]);
+  // Tasks that already ran have a chat message from before
+  const taskPlaceholdersAdded = new Set<number>(
+    restored
+      ? initialTasks.filter((task) => task.status !== "pending" && task.status !== "skipped").map((task) => task.task_number)
+      : [1]
+  );
 
-  const eventSource = createChainSSEConnection(
-    streamUrl,
+  const unsubscribeChain = createChainSSEConnection(
+    chain.chain_id,
+    userEmail || "",
     chain.total_tasks,
     {
       onTaskStarting: (event) => {
         setWorkflowStatus(`⚡ Task ${event.task_number}/${event.total_tasks}: ${event.prompt || event.task_type}`);
         
-        if (!taskPlaceholdersAdded.has(event.task_number)) {
+        if (taskPlaceholdersAdded.has(event.task_number)) {
+          // A retried task reuses the message of its failed run
+          setMessages((prev) =>
+            prev.map((msg: any) =>
+              msg.chainId === event.chain_id && msg.taskNumber === event.task_number && msg.status === "error"
+                ? { ...msg, status: "listening", text: `⚡ Starting task ${event.task_number}/${event.total_tasks}...` }
+                : msg
+            )
+          );
+        } else {
           taskPlaceholdersAdded.add(event.task_number);
           const taskPlaceholder: Message = {
             role: "assistant",
             text: `⚡ Starting task ${event.task_number}/${event.total_tasks}...`,
             job_id: `chain_task_${event.task_number}_${event.chain_id}`,
             status: "listening",
-            generation_type: event.task_type === "image_editing" ? "image_editing" : 
-                            event.task_type === "3d_generation" ? "3d_generation" : "image_generation",
+            generation_type: getChainTaskGenerationType(event.task_type),
             chainId: event.chain_id,
             taskNumber: event.task_number,
           };
@@ -778,31 +916,49 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
         });
         
         if (imagePath) {
-          setMessages((prev) =>
-            prev.map((msg: any) => {
-              if (msg.job_id === event.job_id || (msg.chainId === event.chain_id && msg.taskNumber === event.task_number)) {
-                return { 
-                  ...msg, 
-                  status: "COMPLETED", 
-                  image_path: imagePath,
-                  thumbnail_url: event.thumbnail_url,  // ✅ Also store thumbnail_url
-                  model_url: event.model_url,          // ✅ Also store model_url for 3D
-                  text: `✅ Task ${event.task_number}/${event.total_tasks} completed` 
-                };
-              }
-              return msg;
-            })
-          );
+          setMessages((prev) => {
+            const isTaskMessage = (msg: any) =>
+              msg.job_id === event.job_id || (msg.chainId === event.chain_id && msg.taskNumber === event.task_number);
+            const completed = {
+              status: "COMPLETED" as const,
+              image_path: imagePath,
+              thumbnail_url: event.thumbnail_url,  // ✅ Also store thumbnail_url
+              model_url: event.model_url,          // ✅ Also store model_url for 3D
+              text: `✅ Task ${event.task_number}/${event.total_tasks} completed`,
+            };
+            // A task that started while the page was closed has no placeholder yet
+            if (!prev.some(isTaskMessage)) {
+              return [
+                ...prev,
+                {
+                  role: "assistant",
+                  job_id: event.job_id,
+                  generation_type: getChainTaskGenerationType(event.task_type),
+                  chainId: event.chain_id,
+                  taskNumber: event.task_number,
+                  ...completed,
+                },
+              ];
+            }
+            return prev.map((msg: any) => (isTaskMessage(msg) ? { ...msg, ...completed } : msg));
+          });
         }
       },
       
-      onChainCompleted: (event) => {
-        const results: ChainResults = {
-          images: event.outputs?.images || [],
-          models: event.outputs?.models || [],
-          allOutputs: event.outputs || {},
-        };
+      onChainCompleted: (event, results) => {
+        const failed = results.tasks.filter((task) => task.status === "failed");
+        if (failed.length > 0) {
+          // Keep the progress card up so the failed tasks can be retried
+          finishWorkflowChain(chain.chain_id, { error: failed[0].error || "Unknown error" });
+          setIsWorkflowLoading(false);
+          handleImageGenerated();
+          return;
+        }
+
+        const { images, models } = getChainOutputs(results.tasks);
         setWorkflowResults(results);
+        finishWorkflowChain(chain.chain_id);
+        if (restored && !rerunFrom) setIsWorkflowRecovered(true);
         setWorkflowProgress({ current: chain.total_tasks, total: chain.total_tasks });
         setWorkflowStatus(`🎉 All ${chain.total_tasks} tasks completed successfully!`);
         setIsWorkflowLoading(false);
@@ -854,13 +1010,13 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
           });
         }
 
-        toast({ title: "Workflow Complete", description: `Generated ${results.images.length} images and ${results.models.length} models` });
+        toast({ title: "Workflow Complete", description: `Generated ${images.length} images and ${models.length} models` });
         handleImageGenerated();
       },
       
       onTaskFailed: (event) => {
-        setWorkflowError(`Task ${event.task_number} failed: ${event.error || "Unknown error"}`);
-        setIsWorkflowLoading(false);
+        // Outputs of the tasks that finished stay, and tasks that don't depend on this one keep
+        // running; the progress card offers retry / continue
         setMessages((prev) =>
           prev.map((msg: any) => {
             if (msg.chainId === event.chain_id && msg.taskNumber === event.task_number) {
@@ -869,7 +1025,16 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
             return msg;
           })
         );
-        toast({ title: "Workflow Error", description: `Task ${event.task_number} failed: ${event.error}`, variant: "destructive" });
+        toast({
+          title: "Workflow Error",
+          description: `Task ${event.task_number} failed: ${event.error || "Unknown error"}. You can retry it from the workflow panel.`,
+          variant: "destructive",
+        });
+      },
+
+      onTasksChanged: (tasks) => {
+        setWorkflowTasks(tasks);
+        saveChainTasks(chain.chain_id, tasks, generationStreamManager.getLastEventId(chain.chain_id));
       },
       
       onStatusUpdate: (message) => setWorkflowStatus(message),
@@ -880,11 +1045,49 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
         toast({ title: "Connection Error", description: error, variant: "destructive" });
       },
       onLoaderToggle: (show) => setIsWorkflowLoading(show),
-    }
+    },
+    restored
+      ? { lastEventId: restored.last_event_id, tasks: restored.tasks, resync: !rerunFrom }
+      : undefined
   );
 
-  chainSSERef.current = eventSource;
-}, [toast, handleImageGenerated, API, authToken, userProfile?.email]);
+  chainSSERef.current = unsubscribeChain;
+}, [toast, handleImageGenerated, authToken, userProfile?.email]);
+
+  // Re-runs a failed chain task ("retry") or the chain from that task on ("continue")
+  const handleResumeChainTask = useCallback(async (taskNumber: number, mode: ChainResumeMode) => {
+    if (!workflowChain) return;
+    const task = workflowTasks.find((t) => t.task_number === taskNumber);
+
+    setRetryingChainTask(taskNumber);
+    try {
+      const response = await resumeWorkflowChain(workflowChain.chain_id, {
+        mode,
+        task_number: taskNumber,
+        task_type: task?.task_type,
+        prompt: task?.prompt,
+        inputs: task?.inputs,
+      });
+      const next = response?.chain_id ? response : workflowChain;
+
+      // A chain resumed under the same id must not be answered from the stream it just finished
+      generationStreamManager.forget(next.chain_id);
+      const reopened = reopenWorkflowChain(workflowChain.chain_id, taskNumber, mode, next);
+      handleWorkflowChain(next, {
+        restored: reopened ?? { tasks: resetTasksForRerun(workflowTasks, taskNumber, mode) },
+        rerunFrom: taskNumber,
+      });
+    } catch (error) {
+      console.error("Error resuming workflow chain:", error);
+      toast({
+        title: "Retry Failed",
+        description: error instanceof Error ? error.message : "Could not restart the workflow task",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingChainTask(null);
+    }
+  }, [workflowChain, workflowTasks, handleWorkflowChain, toast]);
 
 
   const handleModelGenerated = useCallback(() => {
@@ -895,12 +1098,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
   // Helper function to fetch optimized model data and update message
   const fetchAndDisplayOptimizedModel = useCallback(async (optimizedModelId: number, shouldAddPlaceholder: boolean = false) => {
     try {
-      const result = await apiFetch<{ data: any }>(
-        `/api/model-optimization/rapidmodels/${optimizedModelId}`,
-        {
-          method: 'GET',
-        }
-      );
+      const result = await fetchRapidModel(optimizedModelId);
       
       const modelData = result.data;
       if (modelData) {
@@ -1104,6 +1302,19 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
     }
   }, [toast, handleImageGenerated, handleModelGenerated]);
 
+  // Real-time status for every job in activeJobIds, over the shared stream manager
+  useGenerationStreams(activeJobIds, {
+    email: userProfile?.email || extractEmailFromToken(authToken) || undefined,
+    onEvent: (jobId, event) => {
+      const update = event as SSEStatusUpdate;
+      handleSSEStatusUpdate(jobId, update);
+      if (isTerminalGenerationEvent(update)) {
+        handleSSEJobComplete(jobId, update);
+      }
+    },
+    onError: (jobId, message) => console.error(`[SSE] Error for job ${jobId}:`, message),
+  });
+
   // Poll optimized model status until it's done
   const startPollingOptimizedModel = useCallback((optimizedModelId: number) => {
     // Clear any existing polling for this model
@@ -1119,12 +1330,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
       pollCount++;
       
       try {
-        const result = await apiFetch<{ data: any }>(
-          `/api/model-optimization/rapidmodels/${optimizedModelId}`,
-          {
-            method: 'GET',
-          }
-        );
+        const result = await fetchRapidModel(optimizedModelId);
         
         const modelData = result.data;
         
@@ -1226,20 +1432,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
       
       // Fetch presets before showing/updating optimization config form
       try {
-        // Get token from localStorage
-        const currentToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
-        
-        const backendUrl = import.meta.env.VITE_API_BACKEND_URL;
-        const response = await fetch(`${backendUrl}/api/model-optimization/presets`, {
-          headers: {
-            "Authorization": currentToken ? `Bearer ${currentToken}` : "",
-            "Content-Type": "application/json"
-          }
-        });
-        
-        if (!response.ok) throw new Error("Failed to fetch presets");
-        
-        const presetsData = await response.json();
+        const presetsData = await fetchOptimizationPresets();
         
         // If last message is already a config form, update it instead of adding a new one
         if (isLastMessageConfigForm) {
@@ -1278,10 +1471,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
       // Find the preset text for the selected strength
       const presetText = presets?.presets?.[optType]?.find((p: any) => p.id === strength)?.text || strength;
       
-      // Get ACCESS_TOKEN from localStorage
-      const accessToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
-      
-      // Build the payload with ACCESS_TOKEN
+      // Build the payload
       const payload = {
         optimization_type: optType,
         presetId: strength,
@@ -1328,36 +1518,10 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
       
       // Fetch models from API
       try {
-        const currentToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
-        const backendUrl = import.meta.env.VITE_API_BACKEND_URL || apiUrl;
-        const projectIdFromUrl = new URLSearchParams(window.location.search).get("projectId");
-        
-        const response = await fetch(
-          `${backendUrl}/api/model-optimization/models${projectIdFromUrl ? `?projectId=${encodeURIComponent(projectIdFromUrl)}` : ""}`,
-          {
-          headers: {
-            "Authorization": currentToken ? `Bearer ${currentToken}` : "",
-            "Content-Type": "application/json"
-          }
-          }
-        );
-
-        if (!response.ok) throw new Error("Failed to fetch models");
+        const data = await fetchOptimizationModels();
 
-        const data = await response.json();
-        
-        // Handle different API response formats
-        const modelsArray = data.models || data || [];
-        
         // Convert API models to ModelInfo format
-        const models: any[] = modelsArray.map((model: any) => ({
-          id: model.assetId,
-          name: model.name || model.filename || model.fileName || `Model ${model.id || model.asset_id || model.assetId}`,
-          image: model.thumbnail_url || model.thumbnailUrl || model.image || "/placeholder.svg",
-          creationDate: model.created_at || model.createdAt 
-            ? new Date(model.created_at || model.createdAt).toLocaleDateString() 
-            : new Date().toLocaleDateString()
-        }));
+        const models = toModelSelectionItems(data.models || []);
 
         handleAddDirectMessage("assistant", "Select a model to optimize:", "model-selection", {
           models: models,
@@ -1375,9 +1539,128 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
     } else if (type === "upload-new") {
       // When user clicks "Upload New" button in model selection form
       document.getElementById('model-file-input')?.click();
+    } else if (type === "cancel-upload") {
+      cancelModelUpload();
     }
   };
 
+  // Uploads a model picked from the chat's model selection form
+  const handleModelFileUpload = async (file: File) => {
+    // Set loading state on model selection form
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
+          ? {
+              ...msg,
+              formData: {
+                ...(msg.formData as Record<string, any>),
+                isUploading: true,
+              },
+            }
+          : msg
+      )
+    );
+
+    try {
+      const currentToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
+
+      if (!currentToken) {
+        // Reset loading state on error
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
+              ? {
+                  ...msg,
+                  formData: {
+                    ...(msg.formData as Record<string, any>),
+                    isUploading: false,
+                  },
+                }
+              : msg
+          )
+        );
+        toast({
+          title: "Authentication required",
+          description: "Please authenticate first to upload models.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Progress shows in the model selection form while the file uploads
+      await uploadModel(file, file.name);
+
+      toast({
+        title: "Success!",
+        description: "Your model has been uploaded and registered for optimization.",
+      });
+
+      // Reset loading state after successful upload
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
+            ? {
+                ...msg,
+                formData: {
+                  ...(msg.formData as Record<string, any>),
+                  isUploading: false,
+                },
+              }
+            : msg
+        )
+      );
+
+      // Trigger refresh of optimization form models
+      window.dispatchEvent(new CustomEvent("refreshOptimizationModels"));
+
+      // Trigger refresh of model selection form in chat
+      window.dispatchEvent(new CustomEvent("refreshModelSelectionForm"));
+    } catch (error) {
+      console.error("Model upload error:", error);
+      // Reset loading state on error
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
+            ? {
+                ...msg,
+                formData: {
+                  ...(msg.formData as Record<string, any>),
+                  isUploading: false,
+                },
+              }
+            : msg
+        )
+      );
+      if (isUploadCancelled(error)) return;
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload model",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Mirror the model upload's progress into the chat's model selection form
+  useEffect(() => {
+    const isModelSelectionForm = (msg: Message) =>
+      msg.formType === "model-selection" && !!msg.formData && typeof msg.formData === "object";
+    setMessages((prev) =>
+      prev.some(isModelSelectionForm)
+        ? prev.map((msg) =>
+            isModelSelectionForm(msg)
+              ? {
+                  ...msg,
+                  formData: {
+                    ...(msg.formData as Record<string, unknown>),
+                    uploadProgress: modelUploadProgress ?? undefined,
+                  },
+                }
+              : msg
+          )
+        : prev
+    );
+  }, [modelUploadProgress]);
+
   const handleModelSelect = (modelUrl: string, thumbnailUrl: string, workflow: string) => {
     setSelectedModel({ modelUrl, thumbnailUrl, workflow });
     setActiveTab("models");
@@ -1385,31 +1668,15 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
 
   const handleLoadSession = useCallback(async (sessionId: string, sessionUserId?: string) => {
     try {
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
-      };
-      
-      if (authToken) {
-        headers["Authorization"] = `Bearer ${authToken}`;
-      }
-
       const userId = sessionUserId || userProfile?.id;
       setCurrentSessionOwnerId(userId || null);
       const projectId = searchParams.get("projectId");
+
+      const data = await exportSession(sessionId, { userId, projectId });
       
-      const params = new URLSearchParams();
-      if (userId) params.set("userId", userId);
-      if (projectId) params.set("projectId", projectId);
-      const exportUrl = `${API}/session/${sessionId}/export${params.toString() ? `?${params.toString()}` : ""}`;
-
-      const response = await fetch(exportUrl, { headers });
-      if (!response.ok) {
-        throw new Error("Failed to load session");
-      }
-      
-      const data = await response.json();
-      
+      resetWorkflowChain();
       setSessionId(sessionId);
+      setGenerationOptions(undefined);
       const newSearchParams = new URLSearchParams(searchParams);
       newSearchParams.set("session_id", sessionId);
         newSearchParams.set("session_user_id", userId);
@@ -1478,6 +1745,10 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
               img_url: toolGen.image_url || toolGen.image_path,
               thumbnail_url: toolGen.thumbnail_url,
               model_url: toolGen.model_url,
+              // What ImageSeedActions needs to show the seed and generate the image again
+              prompt: toolGen.prompt,
+              seed: toolGen.seed != null && /^\d+$/.test(String(toolGen.seed)) ? Number(toolGen.seed) : undefined,
+              aspect_ratio: toolGen.aspect_ratio,
             };
           }
 
@@ -1500,7 +1771,21 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
           };
         });
       
-      setMessages(loadedMessages);
+      // Bring back workflow chains started in this session: finished task outputs go back into the
+      // chat, and a chain that is still running is reattached and catches up on missed events
+      const persistedChains = getSessionWorkflowChains(sessionId);
+      setMessages([...loadedMessages, ...buildChainTaskMessages(persistedChains, loadedMessages)]);
+      const runningChain = persistedChains.filter((chain) => chain.status === "running").pop();
+      const latestChain = persistedChains[persistedChains.length - 1];
+      if (runningChain) {
+        handleWorkflowChain(runningChain, { restored: runningChain });
+      } else if (latestChain?.status === "failed") {
+        // Keep a stopped chain's task list up so its failed task can still be retried
+        setWorkflowChain(latestChain);
+        setWorkflowTasks(latestChain.tasks);
+        setWorkflowProgress({ current: countCompletedTasks(latestChain), total: latestChain.total_tasks });
+        setWorkflowStatus(latestChain.error || "");
+      }
       
       toast({
         title: "Chat Loaded",
@@ -1514,7 +1799,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
         variant: "destructive",
       });
     }
-  }, [authToken, userProfile?.id, API, toast, fetchAndDisplayOptimizedModel, searchParams, setSearchParams]);
+  }, [userProfile?.id, toast, fetchAndDisplayOptimizedModel, searchParams, setSearchParams, resetWorkflowChain, handleWorkflowChain]);
 
   // Check URL params on mount to restore session or start new chat
   // This runs after handleLoadSession is defined
@@ -1553,8 +1838,10 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
     const initialPrompt = searchParams.get("initial_prompt");
     if (!initialPrompt) return;
 
-    // Stash the prompt and optional images for Phase 2
+    // Stash the prompt, optional images and response mode for Phase 2
     pendingInitialPromptRef.current = initialPrompt;
+    pendingInitialModeRef.current = parseResponseMode(searchParams.get(MODE_PARAM));
+    pendingInitialReferencesRef.current = parseImageReferences(searchParams.get(REFERENCES_PARAM));
 
     const encodedImages = searchParams.get("image_urls");
     if (encodedImages) {
@@ -1569,6 +1856,10 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
     const newSearchParams = new URLSearchParams(searchParams);
     newSearchParams.delete("initial_prompt");
     newSearchParams.delete("image_urls");
+    newSearchParams.delete("seed");
+    newSearchParams.delete(OPTIONS_PARAM);
+    newSearchParams.delete(MODE_PARAM);
+    newSearchParams.delete(REFERENCES_PARAM);
     setSearchParams(newSearchParams, { replace: true });
     // Also update history synchronously in case React batches the state update
     const newUrl = window.location.pathname + (newSearchParams.toString() ? `?${newSearchParams.toString()}` : "");
@@ -1590,16 +1881,63 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
 
     const initialImages = pendingInitialImagesRef.current;
     pendingInitialImagesRef.current = undefined;
+    const initialMode = pendingInitialModeRef.current;
+    pendingInitialModeRef.current = undefined;
+    const initialReferences = pendingInitialReferencesRef.current;
+    pendingInitialReferencesRef.current = undefined;
 
     // Start a fresh chat for this prompt
     setSessionId(null);
 
     // Fire and forget; any errors will be logged
-    handleSendMessage(initialPrompt, initialImages).catch((err) => {
+    handleSendMessage(
+      initialPrompt,
+      initialImages,
+      undefined,
+      undefined,
+      undefined,
+      initialMode,
+      false,
+      initialReferences
+    ).catch((err) => {
       console.error("Failed to send initial prompt from Home:", err);
     });
   }, [authToken, userProfile?.id, handleSendMessage]);
 
+  // Runs a chat image's prompt again with the given seed; the result streams into a new message
+  const handleRegenerateImage = async (source: Message, seed: number) => {
+    if (!source.prompt) return;
+    const model = source.model || DEFAULT_IMAGE_MODEL;
+    const aspectRatio = source.aspect_ratio || DEFAULT_ASPECT_RATIO;
+    try {
+      const { job_id } = await submitImageGeneration(
+        { prompt: source.prompt, model, aspect_ratio: aspectRatio, seed },
+        searchParams.get("projectId")
+      );
+      const placeholderMsg: Message = {
+        role: "assistant",
+        text: "",
+        jobId: job_id,
+        job_id,
+        status: "listening",
+        type: "tool_generation",
+        prompt: source.prompt,
+        model,
+        aspect_ratio: aspectRatio,
+        seed,
+      };
+      setMessages((prev: Message[]) => [...prev, placeholderMsg]);
+      setActiveJobIds((prev) => Array.from(new Set([...prev, job_id])));
+    } catch (error) {
+      console.error("Error regenerating image:", error);
+      toast({
+        title: "Generation failed",
+        description: error instanceof Error ? error.message : "Could not start the generation",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Handle when sessions are loaded from sidebar
   // Don't auto-load any session - user must explicitly click to load a chat
   const handleSessionsLoaded = useCallback((sessions: Array<{ session_id: string }>) => {
@@ -1608,7 +1946,9 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
   }, []);
 
   const handleNewChat = () => {
+    resetWorkflowChain();
     setSessionId(null);
+    setGenerationOptions(undefined);
     // Remove session_id from URL
     const newSearchParams = new URLSearchParams(searchParams);
     newSearchParams.delete("session_id");
@@ -1629,7 +1969,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
           onCompleted={async () => {
             setShowOnboarding(false);
             try {
-              await apiFetch('/user/profile/mark-credits-bonus-seen', { method: 'POST' });
+              await markCreditsBonusSeen();
               queryClient.invalidateQueries({ queryKey: ['user-profile'] });
             } catch (err) {
               console.error('Failed to mark onboarding as seen', err);
@@ -1647,173 +1987,29 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
           }}
         />
       )}
-      {/* SSE Status Listener - listens for real-time updates */}
-      <SSEStatusListener
-        apiUrl={apiUrl}
-        email={userProfile?.email || extractEmailFromToken(authToken) || undefined}
-        activeJobIds={activeJobIds}
-        onStatusUpdate={handleSSEStatusUpdate}
-        onJobComplete={handleSSEJobComplete}
-      />
-      
       {/* Hidden file input for model uploads */}
       <input
         id="model-file-input"
         type="file"
         accept=".glb,.fbx,.obj,.gltf"
         className="hidden"
-        onChange={async (e) => {
+        onChange={(e) => {
           const file = e.target.files?.[0];
           if (file) {
-            // Set loading state on model selection form
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
-                  ? {
-                      ...msg,
-                      formData: {
-                        ...(msg.formData as Record<string, any>),
-                        isUploading: true,
-                      },
-                    }
-                  : msg
-              )
-            );
-
-            try {
-              const currentToken = authToken || localStorage.getItem(LocalStorageKeys.AccessToken);
-              
-              if (!currentToken) {
-                // Reset loading state on error
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
-                      ? {
-                          ...msg,
-                          formData: {
-                            ...(msg.formData as Record<string, any>),
-                            isUploading: false,
-                          },
-                        }
-                      : msg
-                  )
-                );
-                toast({
-                  title: "Authentication required",
-                  description: "Please authenticate first to upload models.",
-                  variant: "destructive",
-                });
-                return;
-              }
-
-              toast({
-                title: "Preparing upload...",
-                description: "Getting upload credentials",
-              });
-
-              const backendUrl = import.meta.env.VITE_API_BACKEND_URL || apiUrl;
-              const signedUrlResponse = await fetch(`${backendUrl}/api/model-optimization/get-signed-url`, {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  "Authorization": `Bearer ${currentToken}`,
-                  ...(projectIdFromUrl ? { "x-project-id": projectIdFromUrl } : {}),
-                },
-                body: JSON.stringify({
-                  model_name: file.name,
-                  filename: file.name,
-                }),
-              });
-
-              if (!signedUrlResponse.ok) {
-                throw new Error(`Request failed with status ${signedUrlResponse.status}`);
-              }
-
-              const { s3_upload_url, asset_id } = await signedUrlResponse.json();
-
-              toast({
-                title: "Uploading...",
-                description: "Uploading your model to storage",
-              });
-
-              const uploadResponse = await fetch(s3_upload_url, {
-                method: "PUT",
-                headers: { "Content-Type": "application/octet-stream" },
-                body: file,
-              });
-
-              if (!uploadResponse.ok) {
-                throw new Error("Failed to upload model to S3");
-              }
-
-              toast({
-                title: "Registering...",
-                description: "Registering your model for optimization",
-              });
-
-              const completeResponse = await fetch(`${backendUrl}/api/model-optimization/complete-upload/${asset_id}`, {
-                method: "GET",
-                headers: {
-                  "Authorization": `Bearer ${currentToken}`,
-                  "Content-Type": "application/json",
-                },
-              });
-
-              if (!completeResponse.ok) {
-                throw new Error("Model registration failed");
-              }
-
-              toast({
-                title: "Success!",
-                description: "Your model has been uploaded and registered for optimization.",
-              });
-
-              // Reset loading state after successful upload
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
-                    ? {
-                        ...msg,
-                        formData: {
-                          ...(msg.formData as Record<string, any>),
-                          isUploading: false,
-                        },
-                      }
-                    : msg
-                )
-              );
-
-              // Trigger refresh of optimization form models
-              window.dispatchEvent(new CustomEvent("refreshOptimizationModels"));
-              
-              // Trigger refresh of model selection form in chat
-              window.dispatchEvent(new CustomEvent("refreshModelSelectionForm"));
-            } catch (error) {
-              console.error("Model upload error:", error);
-              // Reset loading state on error
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.formType === "model-selection" && msg.formData && typeof msg.formData === "object"
-                    ? {
-                        ...msg,
-                        formData: {
-                          ...(msg.formData as Record<string, any>),
-                          isUploading: false,
-                        },
-                      }
-                    : msg
-                )
-              );
-              toast({
-                title: "Upload failed",
-                description: error instanceof Error ? error.message : "Failed to upload model",
-                variant: "destructive",
-              });
-            }
+            // Uploaded once its inspection report is confirmed
+            setPendingModelFile(file);
           }
           e.target.value = '';
         }}
       />
+      <ModelReportDialog
+        file={pendingModelFile}
+        onConfirm={(file) => {
+          setPendingModelFile(null);
+          handleModelFileUpload(file);
+        }}
+        onCancel={() => setPendingModelFile(null)}
+      />
       
       {/* Main content above background overlay */}
       <div className="relative z-10 flex h-full w-full overflow-hidden">
@@ -1822,7 +2018,6 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
         currentSessionId={sessionId}
         onSelectSession={handleLoadSession}
         onNewChat={handleNewChat}
-        apiUrl={apiUrl}
         onSessionsLoaded={handleSessionsLoaded}
         onTutorialClick={() => setShowTutorialOnboarding(true)}
         projectName={currentProject?.name}
@@ -1838,6 +2033,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
               onSendMessage={handleSendMessage}
               onToolConfirmation={handleToolConfirmation}
               isGenerating={isGenerating}
+              onStopGenerating={handleStopGenerating}
               apiUrl={apiUrl}
               onModelSelect={handleModelSelect}
               onImageGenerated={handleImageGenerated}
@@ -1849,6 +2045,9 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
               isReadOnlySession={
                 !!currentSessionOwnerId && currentSessionOwnerId !== userProfile?.id
               }
+              seed={lockedSeed}
+              onSeedChange={setLockedSeed}
+              onRegenerateImage={handleRegenerateImage}
             />
           </ErrorBoundary>
         </ResizablePanel>
@@ -1901,7 +2100,15 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
               {/* Workflow Chain Progress/Results */}
               {workflowChain && (
                 <div className="border-b p-4 bg-muted/20">
-                  {workflowResults ? (
+                  {workflowResults && isWorkflowRecovered ? (
+                    // Finished while the page was closed - keep the full results up until dismissed
+                    <WorkflowChainResults
+                      {...getChainOutputs(workflowResults.tasks)}
+                      totalTasks={workflowChain.total_tasks}
+                      chainId={workflowChain.chain_id}
+                      onClose={resetWorkflowChain}
+                    />
+                  ) : workflowResults ? (
                     // Success message - shows for 3 seconds then auto-removes
                     <div className="w-full space-y-4 p-4 rounded-lg bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-950/30 dark:to-emerald-950/30 border-2 border-green-200 dark:border-green-800">
                       <div className="text-center space-y-2">
@@ -1918,7 +2125,7 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
                           <div className="p-3 rounded-lg bg-white/50 dark:bg-black/20 border border-green-200 dark:border-green-800">
                             <span className="block text-xs text-green-600 dark:text-green-400">Results Generated</span>
                             <span className="text-2xl font-bold text-green-900 dark:text-green-100">
-                              {workflowResults.images.length + workflowResults.models.length}
+                              {Object.values(getChainOutputs(workflowResults.tasks)).flat().length}
                             </span>
                           </div>
                         </div>
@@ -1932,6 +2139,10 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
                       currentStatus={workflowStatus}
                       isLoading={isWorkflowLoading}
                       error={workflowError}
+                      tasks={workflowTasks}
+                      retryingTask={retryingChainTask}
+                      onRetryTask={(taskNumber) => handleResumeChainTask(taskNumber, "retry")}
+                      onContinueFrom={(taskNumber) => handleResumeChainTask(taskNumber, "continue")}
                     />
                   )}
                 </div>
@@ -1939,7 +2150,6 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
               
               <TabsContent value="images" className="flex-1 m-0 overflow-hidden">
                 <ImageViewer 
-                  apiUrl={apiUrl} 
                   refreshTrigger={imageRefreshTrigger}
                   onRemixImage={(imageUrl) => {
                     // Dispatch custom event to add image to chat input
@@ -1953,8 +2163,6 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
                   <div className="p-4 border-b flex justify-between items-center">
                     <h3 className="text-lg font-semibold">3D Models</h3>
                     {/* <ModelUploader 
-                      apiUrl={apiUrl} 
-                      authToken={authToken || ''} 
                       onUploadComplete={(assetId) => {
                         console.log("Upload complete, asset ID:", assetId);
                         toast({
@@ -1966,7 +2174,6 @@ const handleWorkflowChain = useCallback((chain: WorkflowChainData) => {
                   </div>
                   <div className="flex-1 overflow-hidden">
                     <ModelViewer 
-                      apiUrl={apiUrl} 
                       selectedModel={selectedModel} 
                       refreshTrigger={modelRefreshTrigger}
                       onInternalModelSelect={() => setSelectedModel(null)}
@@ -9,26 +9,8 @@ import { RefreshCw, Download, ExternalLink } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import ModelViewer from "@/components/ModelViewer";
 import { LocalStorageKeys } from "@/enums/localstorage";
-
-const BASE_URL = import.meta.env.VITE_API_BASE_URL
-
-interface ModelItem {
-  id: string;
-  generationType: string;
-  status: "COMPLETED" | "PENDING" | "QUEUED";
-  modelUrl?: string;
-  thumbnailUrl?: string;
-  prompt: string;
-  creditsUsed: number;
-  createdAt: string;
-}
-
-interface ModelStats {
-  totalGenerations: number;
-  completed: number;
-  pending: number;
-  queued: number;
-}
+import { fetchModelHistory, fetchModelStats } from "@/lib/backend";
+import type { ModelHistoryItem as ModelItem, ModelStats } from "@/types/backend.types";
 
 type FilterStatus = "all" | "COMPLETED" | "PENDING" | "QUEUED";
 type GenerationType = "TEXT_TO_3D" | "IMAGE_TO_3D" | "POST_PROCESS";
@@ -61,22 +43,11 @@ export default function ModelGallery() {
 
     setLoading(true);
     try {
-      const [historyRes, statsRes] = await Promise.all([
-        fetch(`${BASE_URL}/model-history?limit=100&offset=0`, {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
-        fetch(`${BASE_URL}/model-stats`, {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
+      const [historyData, statsData] = await Promise.all([
+        fetchModelHistory({ limit: 100, offset: 0 }),
+        fetchModelStats(),
       ]);
 
-      if (!historyRes.ok || !statsRes.ok) {
-        throw new Error("Failed to fetch data");
-      }
-
-      const historyData = await historyRes.json();
-      const statsData = await statsRes.json();
-
       setModels(historyData.items || []);
       setStats(statsData);
     } catch (error) {
@@ -334,7 +305,6 @@ export default function ModelGallery() {
         <DialogContent className="max-w-4xl h-[80vh]">
           {selectedModel && (
             <ModelViewer
-              apiUrl={BASE_URL}
               selectedModel={{
                 modelUrl: selectedModel.modelUrl || "",
                 thumbnailUrl: selectedModel.thumbnailUrl || "",
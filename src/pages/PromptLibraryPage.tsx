@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from "react";
+import SidebarLayout from "@/components/layout/SidebarLayout";
+import { ChevronLeft, ChevronRight, Copy, GitFork, Library, Loader2, Pin, PinOff } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ForkPromptDialog } from "@/components/prompts/ForkPromptDialog";
+import { PromptMeta } from "@/components/prompts/PromptPalette";
+import { useProjects } from "@/hooks/use-projects";
+import { usePrompts } from "@/hooks/use-prompts";
+import { useToast } from "@/hooks/use-toast";
+import { pinPrompt } from "@/lib/backend";
+import { cn } from "@/lib/utils";
+import type { PromptListParams, PromptRecord } from "@/types/backend.types";
+
+const PAGE_SIZE = 20;
+
+const PromptLibraryPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: projects = [] } = useProjects();
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [forking, setForking] = useState<PromptRecord | null>(null);
+  const [pinningId, setPinningId] = useState<string | null>(null);
+
+  const params = useMemo<PromptListParams>(
+    () => ({
+      search: search || undefined,
+      scope: projectId ? "project" : "mine",
+      projectId,
+      pinned: pinnedOnly || undefined,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    }),
+    [search, projectId, pinnedOnly, page]
+  );
+  const { data, isLoading, isFetching, isError } = usePrompts(params);
+  const prompts = data?.data ?? [];
+  const totalPages = data?.total !== undefined ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : undefined;
+  const hasNextPage = totalPages !== undefined ? page + 1 < totalPages : !!data?.hasMore;
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const handlePin = async (prompt: PromptRecord) => {
+    setPinningId(prompt.id);
+    try {
+      await pinPrompt(prompt.id, !prompt.pinned);
+      queryClient.invalidateQueries({ queryKey: ["prompts"] });
+    } catch (error) {
+      console.error("Error pinning prompt:", error);
+      toast({
+        title: prompt.pinned ? "Unpin failed" : "Pin failed",
+        description: error instanceof Error ? error.message : "Could not update the prompt",
+        variant: "destructive",
+      });
+    } finally {
+      setPinningId(null);
+    }
+  };
+
+  const handleCopy = async (prompt: PromptRecord) => {
+    try {
+      await navigator.clipboard.writeText(prompt.prompt);
+      toast({ title: "Prompt copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Your browser blocked clipboard access.", variant: "destructive" });
+    }
+  };
+
+  const handleOpenInChat = (prompt: PromptRecord) => {
+    const query = new URLSearchParams();
+    const targetProject = prompt.projectId || projectId;
+    if (targetProject) query.set("projectId", targetProject);
+    query.set("initial_prompt", prompt.prompt);
+    navigate(`/studio?${query.toString()}`);
+  };
+
+  return (
+    <SidebarLayout>
+      <div className="p-6 max-w-5xl">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl font-bold text-foreground">Prompts</h1>
+            <p className="text-xs text-muted-foreground">
+              Every prompt you've run. Press ⌘K in the prompt bar or chat to insert one.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search prompts…"
+              className="px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 w-56"
+            />
+            <select
+              value={projectId ?? ""}
+              onChange={(e) => {
+                setProjectId(e.target.value || null);
+                setPage(0);
+              }}
+              className="px-2.5 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50 max-w-[180px]"
+            >
+              <option value="">My prompts</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name} (team)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                setPinnedOnly((prev) => !prev);
+                setPage(0);
+              }}
+              className={cn(
+                "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-lg border transition-colors",
+                pinnedOnly
+                  ? "border-primary/60 bg-primary/10 text-primary"
+                  : "border-border bg-secondary text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Pin className="w-3 h-3" /> Pinned
+            </button>
+            {isFetching && !isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <Library className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-sm text-muted-foreground">Couldn't load your prompts. Try again in a moment.</p>
+          </div>
+        ) : prompts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center">
+            <Library className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-base text-foreground font-medium mb-1">
+              {search || pinnedOnly ? "No matching prompts" : "No prompts yet"}
+            </p>
+            <p className="text-sm text-muted-foreground">Prompts you run in chat, batches and workflows show up here</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {prompts.map((prompt) => (
+                <div
+                  key={prompt.id}
+                  className="flex items-start gap-4 p-3 rounded-xl border border-border bg-card hover:border-primary/40 transition-colors"
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="flex items-start gap-1.5 text-sm text-foreground">
+                      {prompt.pinned && <Pin className="w-3 h-3 mt-1 shrink-0 text-primary" />}
+                      <span className="line-clamp-3 whitespace-pre-wrap">{prompt.prompt}</span>
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5">
+                      <PromptMeta prompt={prompt} />
+                      <span className="text-[10px] text-muted-foreground">
+                        {[
+                          prompt.runCount !== undefined && `${prompt.runCount} run${prompt.runCount === 1 ? "" : "s"}`,
+                          projectId && (prompt.creator?.name || prompt.creator?.email),
+                          prompt.projectName,
+                          formatDistanceToNow(new Date(prompt.lastUsedAt), { addSuffix: true }),
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 pt-1">
+                      <button
+                        onClick={() => setForking(prompt)}
+                        className="flex items-center gap-1.5 text-xs font-medium text-primary"
+                      >
+                        <GitFork className="w-3 h-3" /> Fork
+                      </button>
+                      <button
+                        onClick={() => handleOpenInChat(prompt)}
+                        className="text-xs font-medium text-muted-foreground hover:text-foreground"
+                      >
+                        Open in chat
+                      </button>
+                      <button
+                        onClick={() => handleCopy(prompt)}
+                        className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                      >
+                        <Copy className="w-3 h-3" /> Copy
+                      </button>
+                      <button
+                        onClick={() => handlePin(prompt)}
+                        disabled={pinningId === prompt.id}
+                        className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                      >
+                        {prompt.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                        {prompt.pinned ? "Unpin" : "Pin"}
+                      </button>
+                    </div>
+                  </div>
+                  {prompt.thumbnails && prompt.thumbnails.length > 0 && (
+                    <div className="flex gap-1.5 shrink-0">
+                      {prompt.thumbnails.slice(0, 4).map((url) => (
+                        <img
+                          key={url}
+                          src={url}
+                          alt=""
+                          loading="lazy"
+                          className="w-16 h-16 rounded-lg object-cover border border-border"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Pagination */}
+            {(page > 0 || hasNextPage) && (
+              <div className="flex items-center justify-center gap-4 mt-6">
+                <button
+                  onClick={() => setPage((p) => Math.max(0, p - 1))}
+                  disabled={page === 0 || isFetching}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" /> Previous
+                </button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page + 1}
+                  {totalPages !== undefined && ` of ${totalPages}`}
+                </span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={!hasNextPage || isFetching}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  Next <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <ForkPromptDialog
+        prompt={forking}
+        onOpenChange={(open) => !open && setForking(null)}
+        projectId={forking?.projectId || projectId}
+      />
+    </SidebarLayout>
+  );
+};
+
+export default PromptLibraryPage;
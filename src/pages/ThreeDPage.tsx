@@ -2,9 +2,8 @@ import SidebarLayout from "@/components/layout/SidebarLayout";
 import { Box, Sparkles, Upload, X } from "lucide-react";
 import { useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { apiFetch } from "@/lib/api";
+import { createProject } from "@/lib/backend";
 import { useToast } from "@/components/ui/use-toast";
-import type { Project } from "@/hooks/use-projects";
 
 const ThreeDPage = () => {
   const [tab, setTab] = useState<"text" | "image">("text");
@@ -48,10 +47,7 @@ const ThreeDPage = () => {
     try {
       setIsSubmitting(true);
       const projectName = isText ? trimmedPrompt : `Image to 3D: ${uploadedFile!.name}`;
-      const project = await apiFetch<Project>("/api/projects", {
-        method: "POST",
-        body: { name: projectName },
-      });
+      const project = await createProject(projectName);
 
       const params = new URLSearchParams();
       if (project.id) params.set("projectId", project.id);
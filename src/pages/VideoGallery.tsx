@@ -4,46 +4,25 @@ import { VideoPlayerModal } from "@/components/VideoPlayerModal";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Video, AlertCircle } from "lucide-react";
-
-const VIDEO_BASE_URL = import.meta.env.VITE_API_BASE_URL;
-
-interface Video {
-  filename: string;
-  name: string;
-  url: string;
-  thumbnail: string;
-  duration: number;
-  fps: number;
-  size: number;
-  modified: number;
-  createdAt: string;
-}
-
-interface VideosResponse {
-  videos: Video[];
-  total: number;
-}
+import { fetchVideos } from "@/lib/backend";
+import type { VideoRecord } from "@/types/backend.types";
 
 export default function VideoGallery() {
-  const [videos, setVideos] = useState<Video[]>([]);
+  const [videos, setVideos] = useState<VideoRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
+  const [selectedVideo, setSelectedVideo] = useState<VideoRecord | null>(null);
   const [playerOpen, setPlayerOpen] = useState(false);
 
   useEffect(() => {
-    fetchVideos();
+    loadVideos();
   }, []);
 
-  const fetchVideos = async () => {
+  const loadVideos = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch(`${VIDEO_BASE_URL}/videos`);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch videos: ${response.status}`);
-      }
-      const data = await response.json();
+      const data = await fetchVideos();
       setVideos(data.videos);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load videos");
@@ -52,7 +31,7 @@ export default function VideoGallery() {
     }
   };
 
-  const handleVideoClick = (video: Video) => {
+  const handleVideoClick = (video: VideoRecord) => {
     setSelectedVideo(video);
     setPlayerOpen(true);
   };
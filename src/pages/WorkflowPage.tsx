@@ -1,29 +1,273 @@
+import { useMemo, useRef, useState } from "react";
 import SidebarLayout from "@/components/layout/SidebarLayout";
-import { GitBranch, Plus, Play } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import {
+  Braces,
+  Download,
+  GitBranch,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+  Users,
+} from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { WorkflowBuilder, type WorkflowDraft } from "@/components/workflow/WorkflowBuilder";
+import { RunTemplateDialog } from "@/components/workflow/RunTemplateDialog";
+import { createLinearGraph } from "@/components/workflow/workflowGraph";
+import {
+  chainTasksToGraph,
+  downloadWorkflowTemplate,
+  parseWorkflowTemplate,
+} from "@/components/workflow/workflowTemplates";
+import { useProjects } from "@/hooks/use-projects";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useUserProfile } from "@/hooks/use-user-profile";
+import { useToast } from "@/hooks/use-toast";
+import { createWorkflow, deleteWorkflow, shareWorkflow } from "@/lib/backend";
+import type { SavedWorkflow } from "@/types/backend.types";
+import { getCompletedWorkflowChains } from "@/utils/workflowChainStore";
 
 const workflowTemplates = [
-  { name: "Prompt → Image → 3D", steps: 3, description: "Generate an image then convert to 3D", prompt: "Generate an image and convert it to a 3D model" },
-  { name: "Image → Remove BG → 3D", steps: 3, description: "Clean background then create 3D model", prompt: "Remove the background from this image and convert it to a 3D model" },
-  { name: "Prompt → Image → Upscale → Edit", steps: 4, description: "Full creative pipeline", prompt: "Generate an image, upscale it, then help me edit it" },
+  {
+    name: "Prompt → Image → 3D",
+    description: "Generate an image then convert to 3D",
+    prompt: "Generate an image and convert it to a 3D model",
+    graph: createLinearGraph([{ step: "generate_image" }, { step: "image_to_3d" }]),
+  },
+  {
+    name: "Image → Remove BG → 3D",
+    description: "Clean background then create 3D model",
+    prompt: "Remove the background from this image and convert it to a 3D model",
+    graph: createLinearGraph([{ step: "remove_background" }, { step: "image_to_3d" }]),
+  },
+  {
+    name: "Prompt → Image → Upscale → Edit",
+    description: "Full creative pipeline",
+    prompt: "Generate an image, upscale it, then help me edit it",
+    graph: createLinearGraph([{ step: "generate_image" }, { step: "upscale" }, { step: "edit_image" }]),
+  },
 ];
 
+interface WorkflowCardProps {
+  workflow: SavedWorkflow;
+  onRun: () => void;
+  onOpen: () => void;
+  // Only the creator can share or delete a workflow
+  onShare?: () => void;
+  onDelete?: () => void;
+  isBusy?: boolean;
+}
+
+const WorkflowCard = ({ workflow, onRun, onOpen, onShare, onDelete, isBusy }: WorkflowCardProps) => (
+  <div className="p-4 rounded-xl border border-border bg-card hover:border-primary/40 transition-colors group">
+    <div className="flex items-start justify-between mb-3">
+      <GitBranch className="w-5 h-5 text-primary" />
+      <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+        {workflow.shared && (
+          <span className="flex items-center gap-1">
+            <Users className="w-3 h-3" /> Shared
+          </span>
+        )}
+        <span>{workflow.nodes.length} steps</span>
+      </div>
+    </div>
+    <h3 className="text-sm font-medium text-foreground mb-1">{workflow.name}</h3>
+    {workflow.description && <p className="text-xs text-muted-foreground mb-2">{workflow.description}</p>}
+    {!!workflow.variables?.length && (
+      <div className="flex flex-wrap gap-1 mb-2">
+        {workflow.variables.map((variable) => (
+          <span
+            key={variable.name}
+            className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] rounded bg-secondary text-muted-foreground"
+          >
+            <Braces className="w-2.5 h-2.5" /> {variable.label || variable.name}
+          </span>
+        ))}
+      </div>
+    )}
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3">
+      <button onClick={onRun} className="flex items-center gap-1.5 text-xs font-medium text-primary">
+        <Play className="w-3 h-3" /> Run
+      </button>
+      <button
+        onClick={onOpen}
+        className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+      >
+        <Pencil className="w-3 h-3" /> Open
+      </button>
+      <button
+        onClick={() => downloadWorkflowTemplate(workflow)}
+        className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+      >
+        <Download className="w-3 h-3" /> Export
+      </button>
+      {onShare && (
+        <button
+          onClick={onShare}
+          disabled={isBusy}
+          className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+        >
+          <Users className="w-3 h-3" /> {workflow.shared ? "Unshare" : "Share"}
+        </button>
+      )}
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          disabled={isBusy}
+          className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-destructive disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />} Delete
+        </button>
+      )}
+    </div>
+  </div>
+);
+
 const WorkflowPage = () => {
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const projectId = searchParams.get("projectId");
+
+  const { data: projects = [] } = useProjects();
+  const { data: workflows = [], isLoading: isLoadingWorkflows } = useWorkflows(projectId);
+  const { data: userProfile } = useUserProfile();
+
+  const [draft, setDraft] = useState<WorkflowDraft | null>(null);
+  // Bumped for every draft opened so the builder starts fresh
+  const [draftKey, setDraftKey] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [runTarget, setRunTarget] = useState<SavedWorkflow | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Workflows without a creator predate sharing and belong to whoever can see them
+  const myWorkflows = workflows.filter((wf) => !wf.creatorId || wf.creatorId === userProfile?.id);
+  const sharedWorkflows = workflows.filter((wf) => wf.creatorId && wf.creatorId !== userProfile?.id);
+  // Read once per visit; chains only finish while the studio is open
+  const recentChains = useMemo(() => getCompletedWorkflowChains(), []);
+
+  const openDraft = (next: WorkflowDraft) => {
+    setDraft(next);
+    setDraftKey((key) => key + 1);
+  };
+
+  const openSavedWorkflow = (wf: SavedWorkflow, options: Pick<WorkflowDraft, "variableValues" | "autoRun"> = {}) => {
+    openDraft({
+      id: wf.id,
+      name: wf.name,
+      description: wf.description,
+      graph: { nodes: wf.nodes, edges: wf.edges },
+      variables: wf.variables,
+      ...options,
+    });
+  };
+
+  const handleProjectChange = (nextProjectId: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (nextProjectId) params.set("projectId", nextProjectId);
+    else params.delete("projectId");
+    setSearchParams(params);
+    setDraft(null);
+  };
+
+  const handleDelete = async (workflow: SavedWorkflow) => {
+    setBusyId(workflow.id);
+    try {
+      await deleteWorkflow(workflow.id, projectId);
+      queryClient.invalidateQueries({ queryKey: ["workflows", projectId] });
+      if (draft?.id === workflow.id) setDraft(null);
+    } catch (error) {
+      console.error("Error deleting workflow:", error);
+      toast({ title: "Delete failed", description: "Could not delete the workflow", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleShareToggle = async (workflow: SavedWorkflow) => {
+    setBusyId(workflow.id);
+    try {
+      await shareWorkflow(workflow.id, !workflow.shared, projectId);
+      queryClient.invalidateQueries({ queryKey: ["workflows", projectId] });
+      toast({
+        title: workflow.shared ? "Workflow unshared" : "Workflow shared",
+        description: workflow.shared
+          ? `${workflow.name} is only visible to you again.`
+          : `Every member of this project can now run ${workflow.name}.`,
+      });
+    } catch (error) {
+      console.error("Error sharing workflow:", error);
+      toast({ title: "Share failed", description: "Could not update sharing for the workflow", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const template = parseWorkflowTemplate(await file.text());
+      const saved = await createWorkflow(template, projectId);
+      queryClient.invalidateQueries({ queryKey: ["workflows", projectId] });
+      toast({ title: "Workflow imported", description: saved.name || template.name });
+    } catch (error) {
+      console.error("Error importing workflow:", error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not import the workflow",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <SidebarLayout>
       <div className="p-6">
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-xl font-bold text-foreground">Workflows</h1>
-          <button
-            onClick={() => navigate("/studio")}
-            className="flex items-center gap-2 px-4 py-2 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
-          >
-            <Plus className="w-3.5 h-3.5" /> Build your own
-          </button>
+          <div className="flex items-center gap-2">
+            <select
+              value={projectId ?? ""}
+              onChange={(e) => handleProjectChange(e.target.value)}
+              className="px-3 py-1.5 text-xs bg-secondary border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary/50"
+            >
+              <option value="">Select a project…</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => openDraft({ name: "", graph: { nodes: [], edges: [] } })}
+              className="flex items-center gap-2 px-4 py-2 text-xs font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" /> Build your own
+            </button>
+          </div>
         </div>
 
+        {/* Builder */}
+        {draft && (
+          <section className="mb-10">
+            <WorkflowBuilder key={draftKey} draft={draft} projectId={projectId} onClose={() => setDraft(null)} />
+          </section>
+        )}
+
         {/* Featured workflows */}
         <section className="mb-10">
           <h2 className="text-sm font-semibold text-foreground mb-4">Featured Workflows</h2>
@@ -35,43 +279,138 @@ const WorkflowPage = () => {
               >
                 <div className="flex items-start justify-between mb-3">
                   <GitBranch className="w-5 h-5 text-primary" />
-                  <span className="text-[10px] text-muted-foreground">{wf.steps} steps</span>
+                  <span className="text-[10px] text-muted-foreground">{wf.graph.nodes.length} steps</span>
                 </div>
                 <h3 className="text-sm font-medium text-foreground mb-1">{wf.name}</h3>
                 <p className="text-xs text-muted-foreground mb-4">{wf.description}</p>
-                <button
-                  onClick={() => navigate(`/studio?initial_prompt=${encodeURIComponent(wf.prompt)}`)}
-                  className="flex items-center gap-1.5 text-xs font-medium text-primary opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <Play className="w-3 h-3" /> Try this workflow
-                </button>
+                <div className="flex items-center gap-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => navigate(`/studio?initial_prompt=${encodeURIComponent(wf.prompt)}`)}
+                    className="flex items-center gap-1.5 text-xs font-medium text-primary"
+                  >
+                    <Play className="w-3 h-3" /> Try this workflow
+                  </button>
+                  <button
+                    onClick={() => openDraft({ name: wf.name, graph: wf.graph })}
+                    className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                  >
+                    <Pencil className="w-3 h-3" /> Customize
+                  </button>
+                </div>
               </div>
             ))}
           </div>
         </section>
 
-        {/* My workflows - empty */}
-        <section>
-          <h2 className="text-sm font-semibold text-foreground mb-4">My Workflows</h2>
-          <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-border rounded-xl">
-            <GitBranch className="w-10 h-10 text-muted-foreground mb-3" />
-            <p className="text-sm text-muted-foreground">No saved workflows yet. Build one above.</p>
+        {/* My workflows */}
+        <section className="mb-10">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-semibold text-foreground">My Workflows</h2>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={!projectId || isImporting}
+              className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+            >
+              {isImporting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} Import JSON
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
           </div>
+          {!projectId ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-border rounded-xl">
+              <GitBranch className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">Select a project to see its saved workflows.</p>
+            </div>
+          ) : isLoadingWorkflows ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : myWorkflows.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center border border-dashed border-border rounded-xl">
+              <GitBranch className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-sm text-muted-foreground">No saved workflows yet. Build one above.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {myWorkflows.map((wf) => (
+                <WorkflowCard
+                  key={wf.id}
+                  workflow={wf}
+                  onRun={() => setRunTarget(wf)}
+                  onOpen={() => openSavedWorkflow(wf)}
+                  onShare={() => handleShareToggle(wf)}
+                  onDelete={() => handleDelete(wf)}
+                  isBusy={busyId === wf.id}
+                />
+              ))}
+            </div>
+          )}
         </section>
 
-        {/* Builder placeholder */}
-        <section className="mt-10">
-          <h2 className="text-sm font-semibold text-foreground mb-4">Build your own workflow</h2>
-          <div className="flex items-center gap-3 p-4 bg-card rounded-xl border border-border">
-            <div className="w-24 h-16 rounded-lg border-2 border-dashed border-border flex items-center justify-center">
-              <span className="text-[10px] text-muted-foreground">Step 1</span>
+        {/* Shared by other project members */}
+        {sharedWorkflows.length > 0 && (
+          <section className="mb-10">
+            <h2 className="text-sm font-semibold text-foreground mb-4">Shared with me</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {sharedWorkflows.map((wf) => (
+                <WorkflowCard
+                  key={wf.id}
+                  workflow={wf}
+                  onRun={() => setRunTarget(wf)}
+                  onOpen={() => openSavedWorkflow(wf)}
+                />
+              ))}
             </div>
-            <button className="w-8 h-8 rounded-lg border border-dashed border-border flex items-center justify-center text-muted-foreground hover:text-foreground hover:border-primary/40 transition-colors">
-              <Plus className="w-4 h-4" />
-            </button>
-          </div>
-        </section>
+          </section>
+        )}
+
+        {/* Chains run from the studio, which can be kept as templates */}
+        {recentChains.length > 0 && (
+          <section>
+            <h2 className="text-sm font-semibold text-foreground mb-4">Recent studio chains</h2>
+            <div className="space-y-2">
+              {recentChains.map((chain) => (
+                <div
+                  key={chain.chain_id}
+                  className="flex items-center gap-3 p-3 rounded-xl border border-border bg-card"
+                >
+                  <GitBranch className="w-4 h-4 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-foreground truncate">
+                      {chain.tasks.map((task) => task.prompt || task.task_type).filter(Boolean).join(" → ") || chain.chain_id}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {chain.total_tasks} steps · {formatDistanceToNow(new Date(chain.updated_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() =>
+                      openDraft({ name: `Chain ${chain.chain_id.slice(0, 8)}`, graph: chainTasksToGraph(chain.tasks) })
+                    }
+                    className="flex items-center gap-1.5 text-xs font-medium text-primary shrink-0"
+                  >
+                    <Save className="w-3 h-3" /> Save as template
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </div>
+
+      <RunTemplateDialog
+        workflow={runTarget}
+        onOpenChange={(open) => !open && setRunTarget(null)}
+        onRun={(wf, values) => {
+          setRunTarget(null);
+          openSavedWorkflow(wf, { variableValues: values, autoRun: true });
+        }}
+      />
     </SidebarLayout>
   );
 };
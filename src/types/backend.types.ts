@@ -0,0 +1,764 @@
+import type { ToolCall } from '@/components/chat/types'
+import type { WorkflowChainData } from '@/utils/workflowChainHandler'
+
+// ---------------------------------------------------------------------------
+// Shared
+// ---------------------------------------------------------------------------
+
+export type PaginationParams = { limit?: number; offset?: number }
+
+// Narrows any asset listing (histories and the asset index) to what the user organised
+export type AssetLibraryFilters = {
+  tag?: string
+  collectionId?: string
+  favorite?: boolean
+}
+
+export type HistoryPage<T> = {
+  data: T[]
+  hasMore?: boolean
+  total?: number
+}
+
+export type RecordUser = { id?: string; name?: string; email?: string }
+
+// ---------------------------------------------------------------------------
+// Agent: /ask and chat sessions
+// ---------------------------------------------------------------------------
+
+export type ResponseMode = 'thinking' | 'fast'
+
+export type ToolConfirmationAction = 'confirm' | 'modify' | 'cancel'
+
+export type GenerationResolution = 'Standard' | '2K' | '4K'
+
+export type GenerationVisibility = 'public' | 'private'
+
+// Settings picked in the prompt bar; the agent's generation tools use them instead of their own defaults
+export type GenerationOptions = {
+  model: string
+  aspect_ratio: string
+  // Images per generation
+  variations: number
+  resolution: GenerationResolution
+  prompt_enhancer: boolean
+  visibility: GenerationVisibility
+}
+
+export type ReferenceRole = 'subject' | 'style' | 'character' | 'pose' | 'background'
+
+// An input image and what the generation should take from it; weight runs from 0 (ignore) to 1
+export type ImageReference = {
+  url: string
+  role: ReferenceRole
+  weight: number
+}
+
+export type AskRequest = {
+  query?: string
+  mode?: ResponseMode
+  humanInLoop?: boolean
+  session_id?: string | null
+  userId?: string
+  email?: string
+  projectId?: string
+  image_urls?: string[]
+  // Role and weight of each image in `image_urls`, in the same order
+  image_references?: ImageReference[]
+  // Fixed seed for the generations this turn makes; omitted lets each tool pick one
+  seed?: number
+  generation_options?: GenerationOptions
+  stream?: boolean
+  confirmation_response?: {
+    action: ToolConfirmationAction
+    modified_args?: Record<string, Record<string, unknown>>
+  }
+}
+
+export type ToolGeneration = {
+  job_id?: string
+  type?: string
+  status?: string
+  model?: string
+  image_path?: string
+  image_url?: string
+  thumbnail_url?: string
+  model_url?: string
+  created_at?: string
+}
+
+export type AgentMessage = {
+  type: 'human' | 'ai' | 'tool' | 'system'
+  content: string
+  name?: string
+  tool_generation?: ToolGeneration
+  [key: string]: unknown
+}
+
+export type AskStatus = 'awaiting_confirmation' | 'complete' | 'cancelled'
+
+export type AskResponse = {
+  session_id?: string
+  status?: AskStatus
+  messages?: AgentMessage[]
+  response?: string
+  interrupt_message?: string
+  tool_calls?: ToolCall[]
+  workflow_chain?: WorkflowChainData
+  pending_jobs?: string[]
+  stream_urls?: string[]
+}
+
+// Events emitted by /ask when it streams. 'done' carries the same body the blocking call returns.
+export type AskStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_call'; tool_call: ToolCall }
+  | { type: 'done'; response: AskResponse }
+  | { type: 'error'; message: string }
+
+export type AskStreamHandlers = {
+  onToken?: (content: string) => void
+  onToolCall?: (toolCall: ToolCall) => void
+}
+
+export type SessionExport = {
+  session_id?: string
+  messages: AgentMessage[]
+}
+
+export type ChatSession = {
+  session_id: string
+  thread_id?: string
+  user_id?: string
+  project_id?: string
+  created_at: string
+  updated_at: string
+  message_count?: number
+  total_messages?: number
+  title?: string
+  title_generated?: boolean
+}
+
+export type ProjectSessionsResponse = {
+  project_id: string
+  users: Record<string, ChatSession[]>
+}
+
+export type SessionScope = { userId?: string; projectId?: string | null }
+
+// ---------------------------------------------------------------------------
+// Generation status streams (/generation-status/:jobId)
+// ---------------------------------------------------------------------------
+
+// One frame from a job or workflow-chain stream. Single jobs report `status`; chains also set `type`
+// (task_starting, job_started, task_completed, task_failed, task_skipped, chain_completed).
+export type GenerationStreamEvent = {
+  job_id?: string
+  chain_id?: string
+  status?: string
+  type?: string
+  message?: string
+  [key: string]: unknown
+}
+
+// 'retry' re-runs only the given task; 'continue' re-runs it and then every task after it
+export type ChainResumeMode = 'retry' | 'continue'
+
+// `inputs` are what the task originally ran with (prompt, source image, ...)
+export type ResumeWorkflowChainRequest = {
+  mode: ChainResumeMode
+  task_number: number
+  task_type?: string
+  prompt?: string
+  inputs?: Record<string, unknown>
+}
+
+// ---------------------------------------------------------------------------
+// Saved workflows (node graphs built on /workflow, run as workflow chains)
+// ---------------------------------------------------------------------------
+
+export type WorkflowStepType =
+  | 'generate_image'
+  | 'edit_image'
+  | 'remove_background'
+  | 'upscale'
+  | 'image_to_3d'
+  | 'optimize_model'
+
+// What flows along an edge between two steps
+export type WorkflowPortType = 'image' | 'model'
+
+export type WorkflowGraphNode = {
+  id: string
+  step: WorkflowStepType
+  position: { x: number; y: number }
+  params: Record<string, string>
+}
+
+export type WorkflowGraphEdge = {
+  id: string
+  source: string
+  target: string
+}
+
+export type WorkflowGraph = {
+  nodes: WorkflowGraphNode[]
+  edges: WorkflowGraphEdge[]
+}
+
+// A `{{name}}` placeholder used in step params, filled in before the workflow runs
+export type WorkflowVariable = {
+  name: string
+  label?: string
+  defaultValue?: string
+}
+
+export type SavedWorkflow = WorkflowGraph & {
+  id: string
+  name: string
+  description?: string
+  variables?: WorkflowVariable[]
+  // Visible to every member of the project, not only its creator
+  shared?: boolean
+  creatorId?: string
+  projectId?: string | null
+  createdAt?: string
+  updatedAt?: string
+}
+
+export type SaveWorkflowRequest = WorkflowGraph & {
+  name: string
+  description?: string
+  variables?: WorkflowVariable[]
+}
+
+// One step of a chain started from a graph. `input_from` is the task_number whose output feeds it.
+export type WorkflowChainTask = {
+  task_number: number
+  task_type: string
+  prompt?: string
+  params: Record<string, string>
+  input_from?: number
+}
+
+export type RunWorkflowChainRequest = {
+  workflow_id?: string
+  session_id?: string
+  // Asset being re-run from its lineage; the new output is linked to the same inputs
+  rerun_of?: string
+  tasks: WorkflowChainTask[]
+}
+
+// ---------------------------------------------------------------------------
+// Batch generation (one job per row of an uploaded prompt sheet)
+// ---------------------------------------------------------------------------
+
+export type BatchPromptRow = {
+  prompt: string
+  model?: string
+  ratio?: string
+  seed?: number
+  tags?: string[]
+}
+
+export type SubmitImageGenerationRequest = {
+  prompt: string
+  model: string
+  aspect_ratio: string
+  seed?: number
+  tags?: string[]
+  // Set when the job belongs to a batch, so its results can be found together later
+  batch_id?: string
+}
+
+// Progress and the resulting image arrive on the job's status stream
+export type SubmitImageGenerationResponse = {
+  job_id: string
+}
+
+// ---------------------------------------------------------------------------
+// Image generation / editing history
+// ---------------------------------------------------------------------------
+
+export type ImageGenerationRecord = {
+  id: string
+  prompt?: string
+  imagePath?: string
+  img_url?: string
+  modelName?: string
+  seed?: number
+  creditsUsed?: number
+  createdAt?: string
+  user?: RecordUser
+  tags?: string[]
+  favorite?: boolean
+  collectionIds?: string[]
+}
+
+export type ImageEditingRecord = {
+  id: string
+  outputImagePath: string
+  inputImage1Path?: string
+  inputImage2Path?: string
+  inputImage3Path?: string
+  inputImage4Path?: string
+  prompt?: string
+  technique?: string
+  modelName?: string
+  seed?: number
+  status: string
+  creditsUsed?: number
+  createdAt?: string
+  user?: RecordUser
+  tags?: string[]
+  favorite?: boolean
+  collectionIds?: string[]
+}
+
+// The 3D history endpoint has shipped several payload shapes; callers normalise them.
+export type Model3DRecord = {
+  id?: string
+  _id?: string
+  taskId?: string | number
+  generationType?: string
+  generation_type?: string
+  type?: string
+  status?: string
+  modelUrl?: string
+  model_url?: string
+  modelPath?: string
+  model_path?: string
+  thumbnailUrl?: string
+  thumbnail_url?: string
+  thumbnailPath?: string
+  thumbnail_path?: string
+  prompt?: string
+  text?: string
+  description?: string
+  creditsUsed?: number
+  credits_used?: number
+  createdAt?: string
+  created_at?: string
+  tags?: string[]
+  favorite?: boolean
+  collectionIds?: string[]
+  timestamp?: string
+}
+
+export type Model3DHistoryResponse =
+  | Model3DRecord[]
+  | { items?: Model3DRecord[]; data?: Model3DRecord[]; hasMore?: boolean }
+
+// Agent-side 3D history used by the model gallery
+export type ModelHistoryItem = {
+  id: string
+  generationType: string
+  status: 'COMPLETED' | 'PENDING' | 'QUEUED'
+  modelUrl?: string
+  thumbnailUrl?: string
+  prompt: string
+  creditsUsed: number
+  createdAt: string
+}
+
+export type ModelHistoryResponse = { items?: ModelHistoryItem[] }
+
+export type ModelStats = {
+  totalGenerations: number
+  completed: number
+  pending: number
+  queued: number
+}
+
+// Rendered videos served by the agent; `duration` in seconds, `modified` a Unix timestamp
+export type VideoRecord = {
+  filename: string
+  name: string
+  url: string
+  thumbnail: string
+  duration: number
+  fps: number
+  size: number
+  modified: number
+  createdAt: string
+}
+
+export type VideosResponse = {
+  videos: VideoRecord[]
+  total: number
+}
+
+export type UploadImageResponse = { success: boolean; filename?: string; url?: string }
+
+export type GenerationFeedbackPayload = {
+  type: string
+  generationKind?: string
+  jobId?: string
+  sourceUrl?: string
+  toolName?: string
+  sessionId?: string
+  issueType?: string
+  comment?: string
+  modelName?: string
+  // Comparison votes: the jobs the voted one was picked over
+  comparedJobIds?: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Model optimization
+// ---------------------------------------------------------------------------
+
+export type ModelInfo = {
+  assetId: string
+  fileName: string
+  // Comma-separated
+  tags: string
+  favorite?: boolean
+  createdAt: string
+  thumbnailUrl?: string
+  creditsUsed?: number
+  // Older payloads use snake_case / alternative names
+  id?: number | string
+  asset_id?: number | string
+  name?: string
+  filename?: string
+  thumbnail_url?: string
+  image?: string
+  created_at?: string
+}
+
+export type ModelDownloads = {
+  glb?: string
+  usdz?: string
+  fbx?: string
+}
+
+export type AssociatedModelInfo = {
+  id: string
+  name: string
+  preset_name: string
+  optimization_status: string
+  created_at: string
+  downloads: ModelDownloads
+  // Saved with updateOptimizationModelThumbnail, like a base model's
+  thumbnail_url?: string
+}
+
+export type ModelsResponse = {
+  models: ModelInfo[]
+  totalPages: number
+  total: number
+}
+
+export type AssociatedModelsResponse = {
+  models: AssociatedModelInfo[]
+}
+
+// Signed GET URL for an uploaded (not optimized) model
+export type ModelDownloadUrlResponse = {
+  url: string
+  file_name?: string
+  file_size?: number
+}
+
+export type PresetOption = {
+  text: string
+  id: string
+}
+
+export type OptimizationPresets = {
+  presets: Record<string, PresetOption[]>
+}
+
+export type OptimizationJob = {
+  asset_id?: number
+  model_name?: string
+  status?: string
+  progress?: number
+  started_at?: string
+  preset?: { name?: string; [key: string]: unknown }
+  task_type: string
+}
+
+export type RunningJobsResponse = {
+  status: string
+  jobs: OptimizationJob[]
+  total_count: number
+}
+
+export type InProgressOptimizationJob = {
+  optimize_id: number
+  asset_id: number | null
+  preset_id: number | null
+}
+
+export type OptimizeModelRequest = {
+  modelId: string
+  presetId: string
+  exportName: string
+}
+
+export type OptimizeModelResponse = {
+  success?: boolean
+  message?: string
+  [key: string]: unknown
+}
+
+export type ModelUploadUrlResponse = {
+  s3_upload_url: string
+  asset_id: number
+}
+
+// Multipart upload of a large model file; `part_size` is what the server wants each part to be
+export type ModelMultipartUploadStart = {
+  asset_id: number
+  upload_id: string
+  part_size: number
+}
+
+export type ModelUploadPartUrl = {
+  part_number: number
+  url: string
+}
+
+export type ModelUploadedPart = {
+  part_number: number
+  etag: string
+}
+
+export type RapidModel = {
+  name?: string
+  preset_name?: string
+  optimization_status?: string
+  downloads?: ModelDownloads
+}
+
+// ---------------------------------------------------------------------------
+// Projects
+// ---------------------------------------------------------------------------
+
+export type ProjectMember = {
+  id: string
+  name: string
+  email: string
+}
+
+export type Project = {
+  id: string
+  name: string
+  creatorId: string
+  createdAt: string
+  updatedAt: string
+  creator?: ProjectMember
+  members?: ProjectMember[]
+}
+
+export type ProjectListParams = {
+  type?: 'my' | 'shared'
+  search?: string
+}
+
+// ---------------------------------------------------------------------------
+// Assets (one index over generated images, edits, 3D models and optimized models)
+// ---------------------------------------------------------------------------
+
+export type AssetKind = 'image' | 'edit' | 'model_3d' | 'optimized_model'
+
+// `id` is `${kind}:${sourceId}`, unique across kinds; `sourceId` is the record's id in its own history
+export type AssetRecord = {
+  id: string
+  kind: AssetKind
+  sourceId: string
+  title?: string
+  prompt?: string
+  previewUrl?: string
+  fileUrl?: string
+  modelName?: string
+  seed?: number
+  projectId?: string | null
+  projectName?: string
+  creator?: RecordUser
+  tags?: string[]
+  favorite?: boolean
+  collectionIds?: string[]
+  creditsUsed?: number
+  createdAt: string
+}
+
+// `from` / `to` are ISO dates; omitted filters match everything. Several kinds are sent comma-joined.
+export type AssetListParams = PaginationParams & AssetLibraryFilters & {
+  kind?: AssetKind | AssetKind[]
+  search?: string
+  model?: string
+  projectId?: string | null
+  creatorId?: string
+  from?: string
+  to?: string
+}
+
+// Values present across all of the user's assets, for the filter menus
+export type AssetFacets = {
+  models: string[]
+  creators: RecordUser[]
+  tags: string[]
+}
+
+export type AssetPage = HistoryPage<AssetRecord> & { facets?: AssetFacets }
+
+export type UpdateAssetRequest = {
+  tags?: string[]
+  favorite?: boolean
+}
+
+// A named group of assets inside a project, e.g. "Act 1 props"
+export type AssetCollection = {
+  id: string
+  name: string
+  projectId: string
+  assetCount?: number
+  createdAt?: string
+  updatedAt?: string
+}
+
+// How a lineage node was made. `step` is the workflow step that can re-run it; `params` are the
+// values it ran with (prompt, scale, quality, ...).
+export type AssetLineageStep = {
+  tool: string
+  step?: WorkflowStepType
+  modelName?: string
+  seed?: number
+  creditsUsed?: number
+  params?: Record<string, string>
+}
+
+// Prompt nodes carry only the prompt; every other node is an asset from the index
+export type AssetLineageNode = {
+  id: string
+  kind: AssetKind | 'prompt'
+  asset?: AssetRecord
+  prompt?: string
+  producedBy?: AssetLineageStep
+}
+
+// `source` was an input of `target`. `role` tells inputs apart when a step takes several (edits take up to four).
+export type AssetLineageEdge = {
+  source: string
+  target: string
+  role?: string
+}
+
+// Every ancestor and descendant of `focusId`
+export type AssetLineage = {
+  focusId: string
+  nodes: AssetLineageNode[]
+  edges: AssetLineageEdge[]
+}
+
+// ---------------------------------------------------------------------------
+// Prompt library (every prompt run from chat, the prompt bar, batches and workflows)
+// ---------------------------------------------------------------------------
+
+// One distinct prompt and the settings it last ran with
+export type PromptRecord = {
+  id: string
+  prompt: string
+  modelName?: string
+  seed?: number
+  ratio?: string
+  // What it produced, newest first
+  thumbnails?: string[]
+  pinned?: boolean
+  runCount?: number
+  sessionId?: string
+  projectId?: string | null
+  projectName?: string
+  creator?: RecordUser
+  lastUsedAt: string
+}
+
+// 'mine' lists the user's own prompts; 'project' adds everyone else's in `projectId`
+export type PromptListParams = PaginationParams & {
+  search?: string
+  scope?: 'mine' | 'project'
+  projectId?: string | null
+  pinned?: boolean
+}
+
+// ---------------------------------------------------------------------------
+// User, credits and billing
+// ---------------------------------------------------------------------------
+
+export type UserProfile = {
+  id: string
+  name: string
+  email: string
+  credits: number
+  createdAt: string
+  updatedAt: string
+  hasSeenCreditsBonus?: boolean
+}
+
+export type CreditTransaction = {
+  id: string
+  userId: string
+  amount: number // Can be positive (ADD/PURCHASE) or negative (DEDUCT)
+  type: 'DEDUCT' | 'REFUND' | 'PURCHASE' | 'ADD'
+  action: string
+  balanceBefore: number
+  balanceAfter: number
+  description?: string
+  sourceId?: string
+  metadata?: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreditHistoryResponse = {
+  transactions: CreditTransaction[]
+  total: number
+}
+
+export enum PriceCategory {
+  IMAGE_GENERATION = 'IMAGE_GENERATION',
+  IMAGE_EDITING = 'IMAGE_EDITING',
+  MODEL_GENERATION_3D = 'MODEL_GENERATION_3D',
+  MODEL_OPTIMIZATION = 'MODEL_OPTIMIZATION',
+}
+
+export type ModelPrice = {
+  id: string
+  key: string
+  category: PriceCategory
+  name: string | null
+  description: string | null
+  credits: number
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreditPackage = {
+  id: string
+  name: string
+  description: string
+  credits: number
+  price: number | string
+  currency: string
+  isActive: boolean
+  sortOrder: number
+}
+
+export type NotificationDto = {
+  id: string
+  message: string
+  isRead: boolean
+  createdAt: string
+}
+
+export type CheckoutSessionResponse = {
+  sessionUrl: string
+  sessionId: string
+  paymentRecordId: string
+  amount: number
+  credits: number
+}
@@ -0,0 +1,17 @@
+// libheif-js ships raw Emscripten typings only; this covers the decoder API the image worker uses
+declare module "libheif-js/libheif-wasm/libheif-bundle.mjs" {
+  interface HeifImage {
+    get_width(): number
+    get_height(): number
+    // Fills `target` with RGBA pixels; calls back with null when decoding fails
+    display(target: ImageData, callback: (result: ImageData | null) => void): void
+    free(): void
+  }
+
+  interface Libheif {
+    HeifDecoder: new () => { decode(data: Uint8Array): HeifImage[] }
+  }
+
+  const createLibheif: () => Libheif
+  export default createLibheif
+}
@@ -0,0 +1,288 @@
+/**
+ * Shared connection manager for /generation-status/:jobId/stream
+ *
+ * Every job or workflow chain gets at most one open stream no matter how many components
+ * subscribe to it. The agent only streams one job per request, so this is still one connection per
+ * job ID, not one connection for all of them. Dropped connections are retried with exponential backoff, resending the
+ * Last-Event-ID of the last frame seen; before each retry the current job state is fetched so a
+ * completion that happened while disconnected is still delivered. Frames already delivered are
+ * dropped, so a subscriber never sees the same update twice.
+ */
+
+import { apiStream } from '@/lib/api';
+import { fetchGenerationStatus } from '@/lib/backend';
+import { readEventStream } from '@/lib/eventStream';
+import type { GenerationStreamEvent } from '@/types/backend.types';
+
+export type GenerationStreamState = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+export interface GenerationStreamListener {
+  onEvent: (event: GenerationStreamEvent) => void;
+  onStateChange?: (state: GenerationStreamState) => void;
+  // Called once when the manager gives up on the stream
+  onError?: (message: string) => void;
+}
+
+const MAX_RETRIES = 8;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const MAX_SEEN_KEYS = 500;
+
+const TERMINAL_STATUSES = ['completed', 'error', 'failed', 'timeout'];
+const CHAIN_EVENT_TYPES = ['task_starting', 'job_started', 'task_completed', 'task_failed', 'task_skipped', 'chain_completed'];
+const TERMINAL_CHAIN_EVENTS = ['chain_completed'];
+
+/**
+ * Chain streams report per-task progress with a `type`, and their task_completed frames carry a
+ * completed status, so only chain-level events end them. A failed task doesn't end the stream:
+ * tasks that don't depend on it keep running until chain_completed.
+ * Plain job streams end on a final status.
+ */
+export function isTerminalGenerationEvent(event: GenerationStreamEvent): boolean {
+  if (event.type && CHAIN_EVENT_TYPES.includes(event.type)) return TERMINAL_CHAIN_EVENTS.includes(event.type);
+  return TERMINAL_STATUSES.includes((event.status || '').toLowerCase());
+}
+
+interface StreamEntry {
+  jobId: string;
+  email?: string;
+  listeners: Set<GenerationStreamListener>;
+  state: GenerationStreamState;
+  controller: AbortController | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  attempt: number;
+  lastEventId?: string;
+  lastEvent: GenerationStreamEvent | null;
+  seen: Set<string>;
+  done: boolean;
+  resync: boolean;
+}
+
+class GenerationStreamManager {
+  private entries = new Map<string, StreamEntry>();
+  // Final frame of streams that already finished, replayed to late subscribers
+  private finished = new Map<string, GenerationStreamEvent>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      // Don't sit out the backoff when the network comes back
+      window.addEventListener('online', () => {
+        this.entries.forEach((entry) => {
+          if (entry.state === 'reconnecting' && entry.retryTimer) this.retryNow(entry);
+        });
+      });
+    }
+  }
+
+  /**
+   * `lastEventId` resumes a stream opened in an earlier page load; `resync` fetches the job's
+   * current state before connecting, for callers that may have missed events while away.
+   */
+  subscribe(
+    jobId: string,
+    listener: GenerationStreamListener,
+    options: { email?: string; lastEventId?: string; resync?: boolean } = {}
+  ): () => void {
+    const finalEvent = this.finished.get(jobId);
+    if (finalEvent) {
+      queueMicrotask(() => {
+        listener.onStateChange?.('closed');
+        listener.onEvent(finalEvent);
+      });
+      return () => {};
+    }
+
+    let entry = this.entries.get(jobId);
+    if (!entry) {
+      entry = {
+        jobId,
+        email: options.email,
+        listeners: new Set(),
+        state: 'connecting',
+        controller: null,
+        retryTimer: null,
+        attempt: 0,
+        lastEventId: options.lastEventId,
+        lastEvent: null,
+        seen: new Set(),
+        done: false,
+        resync: !!options.resync,
+      };
+      this.entries.set(jobId, entry);
+      entry.listeners.add(listener);
+      void this.open(entry);
+    } else {
+      entry.listeners.add(listener);
+      // A stream that gave up is tried again for whoever asks next, e.g. a chain reopened after a
+      // retry; the new state reaches every listener, this one included
+      if (entry.state === 'failed') {
+        entry.attempt = 0;
+        this.retryNow(entry);
+      } else {
+        listener.onStateChange?.(entry.state);
+      }
+    }
+
+    const current = entry;
+    return () => {
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) this.close(current);
+    };
+  }
+
+  getState(jobId: string): GenerationStreamState | null {
+    if (this.finished.has(jobId)) return 'closed';
+    return this.entries.get(jobId)?.state ?? null;
+  }
+
+  getLastEvent(jobId: string): GenerationStreamEvent | null {
+    return this.finished.get(jobId) ?? this.entries.get(jobId)?.lastEvent ?? null;
+  }
+
+  getLastEventId(jobId: string): string | undefined {
+    return this.entries.get(jobId)?.lastEventId;
+  }
+
+  // Drops the remembered final frame so a job that is run again (e.g. a resumed chain) streams afresh
+  forget(jobId: string): void {
+    this.finished.delete(jobId);
+  }
+
+  // Manual retry for a stream that gave up (or to skip the current backoff)
+  reconnect(jobId: string): void {
+    const entry = this.entries.get(jobId);
+    if (!entry || entry.done) return;
+    entry.attempt = 0;
+    this.retryNow(entry);
+  }
+
+  private retryNow(entry: StreamEntry) {
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    entry.retryTimer = null;
+    entry.controller?.abort();
+    void this.open(entry);
+  }
+
+  private async open(entry: StreamEntry) {
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.setState(entry, entry.attempt === 0 && !entry.lastEvent ? 'connecting' : 'reconnecting');
+
+    try {
+      // Catch up on anything that happened while we weren't connected
+      if (entry.attempt > 0 || entry.lastEvent || entry.resync) {
+        entry.resync = false;
+        await this.resync(entry);
+        if (entry.done || controller.signal.aborted) return;
+      }
+
+      const path = `/generation-status/${entry.jobId}/stream${entry.email ? `?email=${encodeURIComponent(entry.email)}` : ''}`;
+      const res = await apiStream(path, {
+        service: 'agent',
+        headers: {
+          Accept: 'text/event-stream',
+          ...(entry.lastEventId ? { 'Last-Event-ID': entry.lastEventId } : {}),
+        },
+        signal: controller.signal,
+      });
+
+      this.setState(entry, 'open');
+      entry.attempt = 0;
+      await readEventStream(res, ({ data, id }) => this.handleFrame(entry, data, id));
+
+      if (!entry.done && !controller.signal.aborted) throw new Error('Stream ended before the job finished');
+    } catch (err) {
+      if (entry.done || controller.signal.aborted) return;
+
+      // 404 is retried too: a job's stream can be requested a moment before the agent registers it
+      const status = (err as { status?: number }).status;
+      const isRejected = status === 401 || status === 403 || status === 410;
+      if (isRejected || entry.attempt >= MAX_RETRIES) {
+        this.fail(entry, isRejected ? `Status stream rejected for job ${entry.jobId}` : 'Lost connection to the generation status stream');
+        return;
+      }
+      this.scheduleRetry(entry);
+    }
+  }
+
+  private async resync(entry: StreamEntry) {
+    try {
+      const snapshot = await fetchGenerationStatus(entry.jobId, entry.email);
+      if (snapshot && (snapshot.status || snapshot.type)) this.deliver(entry, snapshot);
+    } catch (err) {
+      // The stream itself will report the state once it reconnects
+      console.warn(`[GenerationStream] Could not fetch state for ${entry.jobId}:`, err);
+    }
+  }
+
+  private handleFrame(entry: StreamEntry, data: string, id?: string) {
+    let event: GenerationStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.error('[GenerationStream] Failed to parse frame:', data);
+      return;
+    }
+    if (id) entry.lastEventId = id;
+    this.deliver(entry, event);
+  }
+
+  private deliver(entry: StreamEntry, event: GenerationStreamEvent) {
+    if (entry.done) return;
+
+    // Keyed on content rather than event id so a resync snapshot and the replayed frame match
+    const key = JSON.stringify(event);
+    if (entry.seen.has(key)) return;
+    entry.seen.add(key);
+    if (entry.seen.size > MAX_SEEN_KEYS) {
+      entry.seen.delete(entry.seen.values().next().value as string);
+    }
+
+    entry.lastEvent = event;
+    const terminal = isTerminalGenerationEvent(event);
+    if (terminal) {
+      entry.done = true;
+      this.finished.set(entry.jobId, event);
+    }
+
+    entry.listeners.forEach((listener) => listener.onEvent(event));
+
+    if (terminal) {
+      this.setState(entry, 'closed');
+      this.close(entry);
+    }
+  }
+
+  private scheduleRetry(entry: StreamEntry) {
+    entry.attempt += 1;
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (entry.attempt - 1), MAX_RETRY_DELAY_MS);
+    const delay = backoff * (0.8 + Math.random() * 0.4);
+    this.setState(entry, 'reconnecting');
+    entry.retryTimer = setTimeout(() => {
+      entry.retryTimer = null;
+      void this.open(entry);
+    }, delay);
+  }
+
+  private fail(entry: StreamEntry, message: string) {
+    this.setState(entry, 'failed');
+    entry.listeners.forEach((listener) => listener.onError?.(message));
+  }
+
+  private setState(entry: StreamEntry, state: GenerationStreamState) {
+    if (entry.state === state) return;
+    entry.state = state;
+    entry.listeners.forEach((listener) => listener.onStateChange?.(state));
+  }
+
+  private close(entry: StreamEntry) {
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    entry.retryTimer = null;
+    entry.controller?.abort();
+    entry.controller = null;
+    entry.done = true;
+    if (this.entries.get(entry.jobId) === entry) this.entries.delete(entry.jobId);
+  }
+}
+
+export const generationStreamManager = new GenerationStreamManager();
@@ -0,0 +1,84 @@
+// ============================================
+// MODEL UPLOAD PERSISTENCE
+// ============================================
+// A multipart upload stays open on storage after a reload, so its id and the parts that already
+// made it are kept in localStorage. Picking the same file again continues from the missing parts.
+
+import { LocalStorageKeys } from "@/enums/localstorage";
+import type { ModelUploadedPart } from "@/types/backend.types";
+
+export interface PersistedModelUpload {
+  key: string;
+  asset_id: number;
+  upload_id: string;
+  part_size: number;
+  model_name: string;
+  started_at: string;
+  updated_at: string;
+  parts: ModelUploadedPart[];
+}
+
+type ModelUploadStore = Record<string, PersistedModelUpload>; // keyed by modelUploadKey
+
+// Storage drops unfinished multipart uploads after a few days, so older records can't be resumed
+const MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+const readStore = (): ModelUploadStore => {
+  try {
+    return JSON.parse(localStorage.getItem(LocalStorageKeys.ModelUploads) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeStore = (store: ModelUploadStore) => {
+  const now = Date.now();
+  const pruned = Object.fromEntries(
+    Object.entries(store).filter(([, upload]) => now - new Date(upload.updated_at).getTime() <= MAX_AGE_MS)
+  );
+  try {
+    localStorage.setItem(LocalStorageKeys.ModelUploads, JSON.stringify(pruned));
+  } catch (err) {
+    console.warn("Failed to persist model uploads:", err);
+  }
+};
+
+// Files can't be kept across reloads, so the same file is recognized by its name, size and mtime
+export const modelUploadKey = (file: File, modelName: string) =>
+  [modelName, file.name, file.size, file.lastModified].join(":");
+
+export function getModelUpload(key: string): PersistedModelUpload | null {
+  const upload = readStore()[key];
+  if (!upload || Date.now() - new Date(upload.updated_at).getTime() > MAX_AGE_MS) return null;
+  return upload;
+}
+
+export function saveModelUpload(
+  key: string,
+  upload: Pick<PersistedModelUpload, "asset_id" | "upload_id" | "part_size" | "model_name">
+): PersistedModelUpload {
+  const now = new Date().toISOString();
+  const persisted: PersistedModelUpload = { ...upload, key, started_at: now, updated_at: now, parts: [] };
+  const store = readStore();
+  store[key] = persisted;
+  writeStore(store);
+  return persisted;
+}
+
+export function saveModelUploadPart(key: string, part: ModelUploadedPart) {
+  const store = readStore();
+  const upload = store[key];
+  if (!upload) return;
+  store[key] = {
+    ...upload,
+    parts: [...upload.parts.filter((p) => p.part_number !== part.part_number), part],
+    updated_at: new Date().toISOString(),
+  };
+  writeStore(store);
+}
+
+export function removeModelUpload(key: string) {
+  const store = readStore();
+  delete store[key];
+  writeStore(store);
+}
@@ -0,0 +1,330 @@
+// ============================================
+// MODEL FILE UPLOADER
+// ============================================
+// Every model upload goes through uploadModelFile. Small files take one signed PUT; larger ones
+// are split into parts uploaded a few at a time, each retried on its own, with the finished
+// parts persisted so the upload can resume after a reload. Part ETags are read from the storage
+// response, so the bucket's CORS config has to expose the ETag header.
+
+import axios from "axios";
+import {
+  abortModelMultipartUpload,
+  completeModelMultipartUpload,
+  completeModelUpload,
+  getModelUploadPartUrls,
+  getModelUploadUrl,
+  startModelMultipartUpload,
+} from "@/lib/backend";
+import type { ModelUploadedPart } from "@/types/backend.types";
+import {
+  getModelUpload,
+  modelUploadKey,
+  removeModelUpload,
+  saveModelUpload,
+  saveModelUploadPart,
+} from "./modelUploadStore";
+
+// Files up to this size go up in a single PUT
+export const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+// Used when the server doesn't ask for a part size
+const DEFAULT_PART_SIZE = 16 * 1024 * 1024;
+const PART_CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+// Wait before the first retry, doubled after each further failure
+const RETRY_DELAY_MS = 1000;
+const PROGRESS_INTERVAL_MS = 250;
+// Weight of the newest sample in the smoothed speed the ETA is based on
+const SPEED_SMOOTHING = 0.2;
+
+export const UPLOAD_CANCELLED_MESSAGE = "Upload cancelled";
+
+export interface ModelUploadProgress {
+  // "registering" once every byte is stored and the asset is being registered
+  stage: "uploading" | "registering";
+  loaded: number;
+  total: number;
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+  // True when parts from an earlier, interrupted upload were reused
+  resumed: boolean;
+}
+
+export interface ModelUploadOptions {
+  modelName: string;
+  onProgress?: (progress: ModelUploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface ModelUploadResult {
+  assetId: number;
+  resumed: boolean;
+  // Whatever completeModelUpload answered with
+  registration: unknown;
+}
+
+// ============================================
+// PROGRESS
+// ============================================
+
+type ProgressTracker = ReturnType<typeof createProgressTracker>;
+
+function createProgressTracker(total: number, onProgress?: (progress: ModelUploadProgress) => void) {
+  const inFlight = new Map<number, number>(); // part number -> bytes sent so far
+  let committed = 0;
+  let resumed = false;
+  let speed = 0;
+  let lastSample = { time: performance.now(), loaded: 0 };
+  let lastEmit = 0;
+
+  const loaded = () => committed + [...inFlight.values()].reduce((sum, bytes) => sum + bytes, 0);
+
+  const emit = (stage: ModelUploadProgress["stage"], force = false) => {
+    const now = performance.now();
+    if (!force && now - lastEmit < PROGRESS_INTERVAL_MS) return;
+    const current = loaded();
+    const elapsed = (now - lastSample.time) / 1000;
+    if (elapsed >= 0.1) {
+      const sample = Math.max(0, current - lastSample.loaded) / elapsed;
+      speed = speed ? speed + SPEED_SMOOTHING * (sample - speed) : sample;
+      lastSample = { time: now, loaded: current };
+    }
+    lastEmit = now;
+    onProgress?.({
+      stage,
+      loaded: current,
+      total,
+      percent: total > 0 ? Math.min(100, Math.floor((current / total) * 100)) : 100,
+      bytesPerSecond: speed,
+      etaSeconds: speed > 0 ? Math.ceil((total - current) / speed) : null,
+      resumed,
+    });
+  };
+
+  return {
+    // Bytes that were already stored before this session count as done but not towards the speed
+    start(alreadyUploaded: number, isResumed: boolean) {
+      committed = alreadyUploaded;
+      resumed = isResumed;
+      lastSample = { time: performance.now(), loaded: alreadyUploaded };
+      emit("uploading", true);
+    },
+    sent(part: number, bytes: number) {
+      inFlight.set(part, bytes);
+      emit("uploading");
+    },
+    done(part: number, bytes: number) {
+      inFlight.delete(part);
+      committed += bytes;
+      emit("uploading");
+    },
+    registering() {
+      inFlight.clear();
+      committed = total;
+      emit("registering", true);
+    },
+  };
+}
+
+// ============================================
+// TRANSFER
+// ============================================
+
+const cancelled = () => new Error(UPLOAD_CANCELLED_MESSAGE);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * PUTs `body` to a signed URL, retrying with backoff. `getUrl` runs before every attempt so a
+ * URL that expired during retries can be signed again. Resolves with the response's ETag.
+ */
+async function putWithRetry(
+  label: string,
+  getUrl: () => Promise<string>,
+  body: Blob,
+  onSent: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const url = await getUrl();
+      // Plain axios, not the API instance: signed URLs must not carry our Authorization header
+      const response = await axios.put(url, body, {
+        headers: { "Content-Type": "application/octet-stream" },
+        onUploadProgress: (event) => onSent(event.loaded),
+        signal,
+      });
+      return response.headers["etag"];
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      onSent(0);
+      if (attempt >= MAX_ATTEMPTS) {
+        const reason = error instanceof Error ? error.message : "unknown error";
+        throw new Error(`Uploading ${label} failed after ${MAX_ATTEMPTS} attempts: ${reason}`);
+      }
+      console.warn(`Uploading ${label} failed (attempt ${attempt}), retrying:`, error);
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+async function uploadSingle(file: File, modelName: string, tracker: ProgressTracker, signal?: AbortSignal) {
+  const { s3_upload_url, asset_id } = await getModelUploadUrl(modelName, file.name);
+  if (!s3_upload_url) throw new Error("Failed to get signed URL");
+
+  tracker.start(0, false);
+  await putWithRetry(file.name, async () => s3_upload_url, file, (bytes) => tracker.sent(1, bytes), signal);
+  tracker.done(1, file.size);
+  return { assetId: asset_id, resumed: false };
+}
+
+async function uploadMultipart(
+  file: File,
+  modelName: string,
+  tracker: ProgressTracker,
+  signal?: AbortSignal
+): Promise<{ assetId: number; resumed: boolean }> {
+  const key = modelUploadKey(file, modelName);
+  let upload = getModelUpload(key);
+  const resumed = upload !== null;
+
+  // Nothing below takes the signal until the parts go up, so a cancel before then is checked by hand
+  if (signal?.aborted) throw cancelled();
+  if (!upload) {
+    const started = await startModelMultipartUpload(modelName, file.name, file.size);
+    if (signal?.aborted) {
+      await abortModelMultipartUpload(started.asset_id, started.upload_id).catch((err) =>
+        console.warn("Failed to abort model upload:", err)
+      );
+      throw cancelled();
+    }
+    upload = saveModelUpload(key, {
+      asset_id: started.asset_id,
+      upload_id: started.upload_id,
+      part_size: started.part_size || DEFAULT_PART_SIZE,
+      model_name: modelName,
+    });
+  }
+
+  const { asset_id: assetId, upload_id: uploadId, part_size: partSize } = upload;
+  const partCount = Math.ceil(file.size / partSize);
+  const partBlob = (partNumber: number) => file.slice((partNumber - 1) * partSize, partNumber * partSize);
+  const done = new Map<number, ModelUploadedPart>(upload.parts.map((part) => [part.part_number, part]));
+  const queue = Array.from({ length: partCount }, (_, i) => i + 1).filter((partNumber) => !done.has(partNumber));
+
+  const signPart = async (partNumber: number) => {
+    const { parts } = await getModelUploadPartUrls(assetId, uploadId, [partNumber]);
+    const signed = parts.find((part) => part.part_number === partNumber);
+    if (!signed) throw new Error(`No upload URL for part ${partNumber}`);
+    return signed.url;
+  };
+
+  // Storage may have dropped an old upload; only a definite "gone" starts over, anything else
+  // keeps the stored parts so a later attempt can still resume
+  for (let attempt = 1; resumed && queue.length > 0; attempt++) {
+    try {
+      await signPart(queue[0]);
+      break;
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      const status = (error as { status?: number }).status;
+      if (status === 404 || status === 410) {
+        console.warn("Stored model upload can't be resumed, starting over:", error);
+        removeModelUpload(key);
+        return uploadMultipart(file, modelName, tracker, signal);
+      }
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      console.warn(`Checking the stored model upload failed (attempt ${attempt}), retrying:`, error);
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+
+  tracker.start(
+    [...done.keys()].reduce((sum, partNumber) => sum + partBlob(partNumber).size, 0),
+    resumed
+  );
+
+  // One failed part stops the others; what finished stays persisted for the next attempt
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  signal?.addEventListener("abort", stop);
+  // Cancelled during the resume check: the parts fail right away and the cleanup below runs
+  if (signal?.aborted) stop();
+
+  const runWorker = async () => {
+    for (let partNumber = queue.shift(); partNumber !== undefined; partNumber = queue.shift()) {
+      const blob = partBlob(partNumber);
+      const etag = await putWithRetry(
+        `part ${partNumber} of ${partCount}`,
+        () => signPart(partNumber),
+        blob,
+        (bytes) => tracker.sent(partNumber, bytes),
+        controller.signal
+      );
+      if (!etag) throw new Error("Storage didn't return an ETag for the uploaded part.");
+      const part = { part_number: partNumber, etag };
+      done.set(partNumber, part);
+      saveModelUploadPart(key, part);
+      tracker.done(partNumber, blob.size);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, runWorker));
+    if (controller.signal.aborted) throw cancelled();
+    await completeModelMultipartUpload(
+      assetId,
+      uploadId,
+      [...done.values()].sort((a, b) => a.part_number - b.part_number)
+    );
+    removeModelUpload(key);
+  } catch (error) {
+    controller.abort();
+    // A cancel throws the upload away; any other failure keeps it resumable
+    if (signal?.aborted) {
+      removeModelUpload(key);
+      await abortModelMultipartUpload(assetId, uploadId).catch((err) =>
+        console.warn("Failed to abort model upload:", err)
+      );
+      throw cancelled();
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", stop);
+  }
+
+  return { assetId, resumed };
+}
+
+/**
+ * Uploads a model file to storage and registers it as an asset. Rejects with
+ * UPLOAD_CANCELLED_MESSAGE when `signal` aborts.
+ */
+export async function uploadModelFile(file: File, options: ModelUploadOptions): Promise<ModelUploadResult> {
+  const { modelName, onProgress, signal } = options;
+  const tracker = createProgressTracker(file.size, onProgress);
+
+  const { assetId, resumed } =
+    file.size > MULTIPART_THRESHOLD
+      ? await uploadMultipart(file, modelName, tracker, signal)
+      : await uploadSingle(file, modelName, tracker, signal);
+  if (signal?.aborted) throw cancelled();
+
+  tracker.registering();
+  const registration = await completeModelUpload(assetId);
+  return { assetId, resumed, registration };
+}
+
+export const isUploadCancelled = (error: unknown) =>
+  error instanceof Error && error.message === UPLOAD_CANCELLED_MESSAGE;
@@ -2,6 +2,8 @@
 // WORKFLOW CHAIN HANDLER UTILITIES
 // ============================================
 
+import { generationStreamManager } from "./generationStreamManager";
+
 export interface WorkflowChainData {
   chain_id: string;
   total_tasks: number;
@@ -24,35 +26,93 @@ export interface ChainEvent {
   [key: string]: any;
 }
 
+export type ChainTaskStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export interface ChainTaskOutputs {
+  image_path?: string;
+  thumbnail_url?: string;
+  model_url?: string;
+}
+
+export interface ChainTaskState {
+  task_number: number;
+  status: ChainTaskStatus;
+  task_type?: string;
+  prompt?: string;
+  job_id?: string;
+  // What the task ran with; sent back to the backend when the task is retried
+  inputs?: Record<string, any>;
+  outputs?: ChainTaskOutputs;
+  error?: string;
+}
+
 export interface ChainResults {
-  images: string[];
-  models: string[];
-  allOutputs: Record<string, any>;
+  // One entry per task, ordered by task_number
+  tasks: ChainTaskState[];
 }
 
 export interface ChainEventHandlers {
   onTaskStarting?: (event: ChainEvent) => void;
   onTaskStarted?: (event: ChainEvent) => void;
   onTaskCompleted?: (event: ChainEvent) => void;
-  onChainCompleted?: (event: ChainEvent) => void;
-  onTaskFailed?: (event: ChainEvent) => void;
+  onChainCompleted?: (event: ChainEvent, results: ChainResults) => void;
+  onTaskFailed?: (event: ChainEvent, results: ChainResults) => void;
+  onTaskSkipped?: (event: ChainEvent) => void;
+  // Called with a copy of every task's state whenever one of them changes
+  onTasksChanged?: (tasks: ChainTaskState[]) => void;
   onStatusUpdate?: (message: string) => void;
   onProgressUpdate?: (current: number, total: number) => void;
   onError?: (error: string) => void;
   onLoaderToggle?: (show: boolean) => void;
 }
 
+/**
+ * Builds the task list for a chain of `totalTasks`, keeping the state of any tasks already known
+ */
+export function createChainTasks(totalTasks: number, known: ChainTaskState[] = []): ChainTaskState[] {
+  return Array.from({ length: totalTasks }, (_, index) => {
+    const existing = known.find((task) => task.task_number === index + 1);
+    return existing ? { ...existing } : { task_number: index + 1, status: "pending" };
+  });
+}
+
+/**
+ * Flattens the outputs of finished tasks into the image and model lists the results views show
+ */
+export function getChainOutputs(tasks: ChainTaskState[]): { images: string[]; models: string[] } {
+  const done = tasks.filter((task) => task.status === "done" && task.outputs);
+  return {
+    images: done.map((task) => task.outputs?.image_path || task.outputs?.thumbnail_url).filter(Boolean) as string[],
+    models: done.map((task) => task.outputs?.model_url).filter(Boolean) as string[],
+  };
+}
+
+const updateTask = (results: ChainResults, taskNumber: number | undefined, patch: Partial<ChainTaskState>) => {
+  const task = results.tasks.find((t) => t.task_number === taskNumber);
+  if (task) Object.assign(task, patch);
+};
+
+/**
+ * Maps a chain task_type onto the generation_type the chat renderer understands
+ */
+export function getChainTaskGenerationType(taskType?: string): string {
+  if (taskType === "image_editing") return "image_editing";
+  if (taskType === "3d_generation") return "3d_generation";
+  return "image_generation";
+}
+
 /**
  * Parses and handles workflow chain events from SSE stream
  */
 export function handleChainEvent(
   event: ChainEvent,
-  eventSource: EventSource,
+  close: () => void,
   results: ChainResults,
   totalTasks: number,
   handlers: ChainEventHandlers
 ): void {
   const eventType = event.type;
+  const notifyTasks = () => handlers.onTasksChanged?.(results.tasks.map((task) => ({ ...task })));
 
   switch (eventType) {
     // ----------------------------------------
@@ -70,6 +130,15 @@ export function handleChainEvent(
     // ----------------------------------------
     case "task_starting":
       console.log(`⚡ Task ${event.task_number}/${event.total_tasks} starting`);
+      updateTask(results, event.task_number, {
+        status: "running",
+        task_type: event.task_type,
+        prompt: event.prompt,
+        inputs: event.inputs ?? (event.prompt ? { prompt: event.prompt } : undefined),
+        error: undefined,
+        outputs: undefined,
+      });
+      notifyTasks();
       handlers.onStatusUpdate?.(
         `⚡ Task ${event.task_number}/${event.total_tasks}: ${event.prompt || event.task_type}`
       );
@@ -82,6 +151,8 @@ export function handleChainEvent(
     // ----------------------------------------
     case "job_started":
       console.log(`🎧 Job started: ${event.job_id}`);
+      updateTask(results, event.task_number, { status: "running", job_id: event.job_id });
+      notifyTasks();
       handlers.onStatusUpdate?.(
         `🎧 Processing task ${event.task_number}/${event.total_tasks}...`
       );
@@ -99,62 +170,87 @@ export function handleChainEvent(
       );
       handlers.onProgressUpdate?.(event.task_number, event.total_tasks);
 
-      // ✅ FIX: Store the result - check both image_path AND thumbnail_url for 3D models
-      const imageUrl = event.image_path || event.thumbnail_url;
-      if (imageUrl) {
-        results.images.push(imageUrl);
-        console.log(`🖼️ Added image/thumbnail: ${imageUrl}`);
-      }
-      
-      if (event.model_url) {
-        results.models.push(event.model_url);
-        console.log(`🎮 Added 3D model: ${event.model_url}`);
-      }
-
-      // ✅ FIX: Store in outputs - include thumbnail_url
-      results.allOutputs[`task_${event.task_number}`] = {
+      // ✅ FIX: Store the result - 3D tasks only carry a thumbnail_url for their preview
+      updateTask(results, event.task_number, {
+        status: "done",
         job_id: event.job_id,
-        image_path: event.image_path,
-        thumbnail_url: event.thumbnail_url,
-        model_url: event.model_url,
-        status: event.status,
-      };
+        error: undefined,
+        outputs: {
+          image_path: event.image_path || event.thumbnail_url,
+          thumbnail_url: event.thumbnail_url,
+          model_url: event.model_url,
+        },
+      });
+      notifyTasks();
 
       handlers.onTaskCompleted?.(event);
       // ⚠️ DON'T close SSE here - more tasks may be coming!
       break;
 
+    // ----------------------------------------
+    // Task skipped by the backend (an earlier task it depends on failed)
+    // ----------------------------------------
+    case "task_skipped":
+      console.log(`⏭️ Task ${event.task_number}/${event.total_tasks} skipped`);
+      updateTask(results, event.task_number, { status: "skipped" });
+      notifyTasks();
+      handlers.onTaskSkipped?.(event);
+      break;
+
     // ----------------------------------------
     // ALL tasks completed - Chain finished!
     // ----------------------------------------
-    case "chain_completed":
+    case "chain_completed": {
       console.log("🎉 Chain completed!");
-      
+
+      // Fill in outputs of tasks whose task_completed frame we never saw
+      const outputKeys = Object.keys(event.outputs || {}).filter((key) => key.startsWith("output_"));
+      outputKeys.forEach((key, index) => {
+        const output = event.outputs[key];
+        const task = results.tasks[index];
+        if (!task || task.status === "done" || !output) return;
+        updateTask(results, task.task_number, {
+          status: "done",
+          job_id: output.job_id ?? task.job_id,
+          outputs: {
+            image_path: output.image_path || output.thumbnail_url,
+            thumbnail_url: output.thumbnail_url,
+            model_url: output.model_url,
+          },
+        });
+      });
+      notifyTasks();
+
+      const failedCount = results.tasks.filter((task) => task.status === "failed").length;
       handlers.onLoaderToggle?.(false);
       handlers.onProgressUpdate?.(event.total_tasks || totalTasks, totalTasks);
       handlers.onStatusUpdate?.(
-        `🎉 All ${event.total_tasks || totalTasks} tasks completed successfully!`
+        failedCount > 0
+          ? `⚠️ Workflow finished with ${failedCount} of ${event.total_tasks || totalTasks} tasks failed`
+          : `🎉 All ${event.total_tasks || totalTasks} tasks completed successfully!`
       );
 
-      handlers.onChainCompleted?.(event);
+      handlers.onChainCompleted?.(event, results);
 
       // ✅ NOW close the SSE connection
-      eventSource.close();
+      close();
       break;
+    }
 
     // ----------------------------------------
-    // Task failed
+    // Task failed - keep listening: tasks that don't depend on it still run, and the backend
+    // reports the ones it skips. The user can retry the task or continue the chain from it
     // ----------------------------------------
     case "task_failed":
       console.error(`❌ Task ${event.task_number} failed:`, event.error);
-      
-      handlers.onLoaderToggle?.(false);
-      handlers.onError?.(
-        `Task ${event.task_number} failed: ${event.error || "Unknown error"}`
-      );
 
-      // Close SSE connection
-      eventSource.close();
+      updateTask(results, event.task_number, { status: "failed", error: event.error || "Unknown error" });
+      notifyTasks();
+
+      handlers.onStatusUpdate?.(
+        `❌ Task ${event.task_number}/${event.total_tasks || totalTasks} failed: ${event.error || "Unknown error"}`
+      );
+      handlers.onTaskFailed?.(event, results);
       break;
 
     // ----------------------------------------
@@ -172,55 +268,59 @@ export function handleChainEvent(
 }
 
 /**
- * Initializes and manages the SSE connection for a workflow chain
+ * Subscribes to a workflow chain's status stream through the shared stream manager.
+ * Pass `resumeFrom` when reattaching to a chain started before a reload (or re-run after a
+ * failure): the stream resumes after that event id and `tasks` seeds the state of tasks that
+ * already ran. Unless `resync` is false the chain's current state is fetched first so missed events
+ * still arrive; a re-run skips it, since that state is still the failure being retried.
+ * Returns a function that stops listening.
  */
 export function createChainSSEConnection(
-  streamUrl: string,
+  chainId: string,
+  email: string,
   totalTasks: number,
-  handlers: ChainEventHandlers
-): EventSource {
+  handlers: ChainEventHandlers,
+  resumeFrom?: { lastEventId?: string; tasks?: ChainTaskState[]; resync?: boolean }
+): () => void {
   const results: ChainResults = {
-    images: [],
-    models: [],
-    allOutputs: {},
+    tasks: createChainTasks(totalTasks, resumeFrom?.tasks),
   };
 
-  console.log(`🔗 Opening SSE connection to: ${streamUrl}`);
-
-  const eventSource = new EventSource(streamUrl);
+  console.log(`🔗 Subscribing to chain stream: ${chainId}`);
 
-  eventSource.onopen = () => {
-    console.log("✅ SSE Connection opened for chain");
-  };
+  const unsubscribe = generationStreamManager.subscribe(
+    chainId,
+    {
+      onEvent: (event) => {
+        const update = event as ChainEvent;
+        console.log("📢 Chain SSE Event:", update);
 
-  eventSource.onmessage = (event) => {
-    try {
-      const update: ChainEvent = JSON.parse(event.data);
-      console.log("📢 Chain SSE Event:", update);
-      
-      // ✅ ADD: Debug logging for image/thumbnail URLs
-      if (update.type === 'task_completed') {
-        console.log("📢 Task completed URLs:", {
-          image_path: update.image_path,
-          thumbnail_url: update.thumbnail_url,
-          model_url: update.model_url
-        });
-      }
-      
-      handleChainEvent(update, eventSource, results, totalTasks, handlers);
-    } catch (err) {
-      console.error("❌ Failed to parse SSE event:", err, event.data);
-    }
-  };
+        // ✅ ADD: Debug logging for image/thumbnail URLs
+        if (update.type === 'task_completed') {
+          console.log("📢 Task completed URLs:", {
+            image_path: update.image_path,
+            thumbnail_url: update.thumbnail_url,
+            model_url: update.model_url
+          });
+        }
 
-  eventSource.onerror = (error) => {
-    console.error("❌ SSE Error:", error);
-    handlers.onLoaderToggle?.(false);
-    handlers.onError?.("Connection lost. Please refresh the page.");
-    eventSource.close();
-  };
+        handleChainEvent(update, () => unsubscribe(), results, totalTasks, handlers);
+      },
+      onStateChange: (state) => {
+        if (state === "reconnecting") {
+          handlers.onStatusUpdate?.("Connection interrupted. Reconnecting...");
+        }
+      },
+      onError: (message) => {
+        console.error("❌ Chain stream error:", message);
+        handlers.onLoaderToggle?.(false);
+        handlers.onError?.("Lost connection to the workflow after several retries.");
+      },
+    },
+    { email, lastEventId: resumeFrom?.lastEventId, resync: !!resumeFrom && resumeFrom.resync !== false }
+  );
 
-  return eventSource;
+  return unsubscribe;
 }
 
 /**
@@ -232,10 +332,11 @@ export function formatChainSummary(results: ChainResults): {
   images: string[];
   models: string[];
 } {
+  const { images, models } = getChainOutputs(results.tasks);
   return {
-    imageCount: results.images.length,
-    modelCount: results.models.length,
-    images: results.images,
-    models: results.models,
+    imageCount: images.length,
+    modelCount: models.length,
+    images,
+    models,
   };
 }
@@ -0,0 +1,224 @@
+// ============================================
+// WORKFLOW CHAIN PERSISTENCE
+// ============================================
+// Chains keep running on the backend after a reload, so their progress is mirrored to
+// localStorage per chat session and picked back up when the session is reopened.
+
+import { LocalStorageKeys } from "@/enums/localstorage";
+import type { Message } from "@/components/chat/types";
+import type { ChainResumeMode } from "@/types/backend.types";
+import {
+  createChainTasks,
+  getChainTaskGenerationType,
+  type ChainTaskState,
+  type WorkflowChainData,
+} from "./workflowChainHandler";
+
+export interface PersistedChain extends WorkflowChainData {
+  session_id: string;
+  started_at: string;
+  updated_at: string;
+  tasks: ChainTaskState[];
+  last_event_id?: string;
+  // "failed" means a task failed and the chain stopped there; its other tasks keep their state
+  status: "running" | "completed" | "failed";
+  error?: string;
+}
+
+type ChainStore = Record<string, PersistedChain>; // keyed by chain_id
+
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CHAINS_PER_SESSION = 10;
+
+const readStore = (): ChainStore => {
+  try {
+    return JSON.parse(localStorage.getItem(LocalStorageKeys.WorkflowChains) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeStore = (store: ChainStore) => {
+  const now = Date.now();
+  const bySession = new Map<string, PersistedChain[]>();
+
+  Object.values(store).forEach((chain) => {
+    if (now - new Date(chain.updated_at).getTime() > MAX_AGE_MS) return;
+    const chains = bySession.get(chain.session_id) || [];
+    chains.push(chain);
+    bySession.set(chain.session_id, chains);
+  });
+
+  // Keep only the most recent chains of each session
+  const pruned: ChainStore = {};
+  bySession.forEach((chains) => {
+    chains
+      .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      .slice(0, MAX_CHAINS_PER_SESSION)
+      .forEach((chain) => {
+        pruned[chain.chain_id] = chain;
+      });
+  });
+
+  try {
+    localStorage.setItem(LocalStorageKeys.WorkflowChains, JSON.stringify(pruned));
+  } catch (err) {
+    console.warn("Failed to persist workflow chains:", err);
+  }
+};
+
+const updateChain = (chainId: string, update: (chain: PersistedChain) => PersistedChain) => {
+  const store = readStore();
+  const chain = store[chainId];
+  if (!chain) return;
+  store[chainId] = { ...update(chain), updated_at: new Date().toISOString() };
+  writeStore(store);
+};
+
+export function saveWorkflowChain(sessionId: string, chain: WorkflowChainData): PersistedChain {
+  const now = new Date().toISOString();
+  const persisted: PersistedChain = {
+    chain_id: chain.chain_id,
+    stream_url: chain.stream_url,
+    total_tasks: chain.total_tasks,
+    session_id: sessionId,
+    started_at: now,
+    updated_at: now,
+    tasks: createChainTasks(chain.total_tasks),
+    status: "running",
+  };
+  const store = readStore();
+  store[chain.chain_id] = persisted;
+  writeStore(store);
+  return persisted;
+}
+
+export function getSessionWorkflowChains(sessionId: string): PersistedChain[] {
+  return Object.values(readStore())
+    .filter((chain) => chain.session_id === sessionId)
+    .sort((a, b) => a.started_at.localeCompare(b.started_at));
+}
+
+// Most recent chains that ran to completion, across all sessions
+export function getCompletedWorkflowChains(limit = 5): PersistedChain[] {
+  return Object.values(readStore())
+    .filter((chain) => chain.status === "completed")
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, limit);
+}
+
+export function getWorkflowChain(chainId: string): PersistedChain | null {
+  return readStore()[chainId] ?? null;
+}
+
+export function saveChainTasks(chainId: string, tasks: ChainTaskState[], lastEventId?: string) {
+  updateChain(chainId, (chain) => ({
+    ...chain,
+    last_event_id: lastEventId ?? chain.last_event_id,
+    tasks,
+  }));
+}
+
+export function finishWorkflowChain(chainId: string, outcome: { error?: string } = {}) {
+  updateChain(chainId, (chain) =>
+    outcome.error
+      ? { ...chain, status: "failed", error: outcome.error }
+      : { ...chain, status: "completed", error: undefined }
+  );
+}
+
+/**
+ * Puts the tasks a retry will run again back to pending: `taskNumber` itself, plus every unfinished
+ * task after it when continuing. They keep the inputs they ran with.
+ */
+export function resetTasksForRerun(tasks: ChainTaskState[], taskNumber: number, mode: ChainResumeMode): ChainTaskState[] {
+  return tasks.map((task) => {
+    const rerun =
+      task.task_number === taskNumber ||
+      (mode === "continue" && task.task_number > taskNumber && task.status !== "done");
+    if (!rerun) return task;
+    const { task_number, task_type, prompt, inputs } = task;
+    return { task_number, task_type, prompt, inputs, status: "pending" };
+  });
+}
+
+/**
+ * Marks a stopped chain as running again after the backend accepted a retry of `taskNumber`.
+ * Finished tasks keep their outputs. `next` is the chain the backend answered with, which may
+ * carry a new id and stream.
+ */
+export function reopenWorkflowChain(
+  chainId: string,
+  taskNumber: number,
+  mode: ChainResumeMode,
+  next: WorkflowChainData
+): PersistedChain | null {
+  const store = readStore();
+  const chain = store[chainId];
+  if (!chain) return null;
+
+  const reopened: PersistedChain = {
+    ...chain,
+    ...next,
+    status: "running",
+    error: undefined,
+    updated_at: new Date().toISOString(),
+    // Events of the new run come after whatever the old stream last delivered, unless it's a new stream
+    last_event_id: next.chain_id === chainId ? chain.last_event_id : undefined,
+    tasks: resetTasksForRerun(createChainTasks(next.total_tasks, chain.tasks), taskNumber, mode),
+  };
+
+  delete store[chainId];
+  store[reopened.chain_id] = reopened;
+  writeStore(store);
+  return reopened;
+}
+
+// Number of tasks that finished, which is what the progress bar shows
+export function countCompletedTasks(chain: PersistedChain): number {
+  return chain.tasks.filter((task) => task.status === "done").length;
+}
+
+/**
+ * Chat messages for the tasks of persisted chains, in the same shape handleWorkflowChain produces
+ * while the chain runs. Tasks whose output is already among `existing` are skipped.
+ */
+export function buildChainTaskMessages(chains: PersistedChain[], existing: Message[]): Message[] {
+  const knownOutputs = new Set(
+    existing.flatMap((msg) => [msg.image_path, msg.thumbnail_url, msg.model_url]).filter(Boolean)
+  );
+
+  return chains.flatMap((chain) =>
+    chain.tasks
+      // Tasks that never ran only show up in the chain's progress card
+      .filter((task) => task.status !== "pending" && task.status !== "skipped")
+      .filter((task) => !task.outputs?.image_path || !knownOutputs.has(task.outputs.image_path))
+      // A finished chain has nothing left to wait for
+      .filter((task) => chain.status === "running" || task.status !== "running")
+      .map((task): Message => {
+        const label = `${task.task_number}/${chain.total_tasks}`;
+        const base: Message = {
+          role: "assistant",
+          text: "",
+          job_id: task.job_id || `chain_task_${task.task_number}_${chain.chain_id}`,
+          generation_type: getChainTaskGenerationType(task.task_type),
+          chainId: chain.chain_id,
+          taskNumber: task.task_number,
+        };
+        if (task.status === "done") {
+          return {
+            ...base,
+            status: "COMPLETED",
+            image_path: task.outputs?.image_path,
+            thumbnail_url: task.outputs?.thumbnail_url,
+            model_url: task.outputs?.model_url,
+            text: `✅ Task ${label} completed`,
+          };
+        }
+        if (task.status === "failed") {
+          return { ...base, status: "error", text: `❌ Task ${task.task_number} failed: ${task.error || "Unknown error"}` };
+        }
+        return { ...base, status: "listening", text: `🎧 Processing task ${label}...` };
+      })
+  );
+}
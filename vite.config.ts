@@ -10,6 +10,10 @@ export default defineConfig(({ mode }) => ({
     port: 7071,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  // Workers are started with `type: "module"`; ES output lets them lazy-load chunks (the HEIC decoder)
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),